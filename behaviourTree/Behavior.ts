@@ -1,4 +1,5 @@
 import { TaskStatus } from './TaskStatus';
+import type { NodeObserverBinding } from './TreeObserver';
 
 /**
  * 行为树节点的抽象基类
@@ -23,6 +24,21 @@ export abstract class Behavior<T> {
      */
     public status: TaskStatus = TaskStatus.Invalid;
 
+    /**
+     * 节点ID
+     * @description 通过配置创建的节点为配置中的ID，用于BehaviorTree.findNode()、调试和热重载
+     */
+    public id?: string;
+
+    /** 节点名称，用于调试和日志 */
+    public name?: string;
+
+    /** 节点标签，用于BehaviorTree.findNodesByTag() */
+    public tags?: string[];
+
+    /** 观察者绑定，行为树没有观察者时为null */
+    private _observerBinding: NodeObserverBinding | null = null;
+
     /**
      * 抽象方法：节点的核心执行逻辑
      * 
@@ -46,8 +62,10 @@ export abstract class Behavior<T> {
      * 
      * @description 在节点首次执行或状态从Invalid变为其他状态时调用
      * 用于初始化变量、重置状态等准备工作
+     *
+     * @param context 执行上下文，通过tick()调用时提供
      */
-    public onStart(): void {}
+    public onStart(context?: T): void {}
 
     /**
      * 节点执行结束时的回调
@@ -57,6 +75,60 @@ export abstract class Behavior<T> {
      */
     public onEnd(): void {}
 
+    /**
+     * 节点被中止时的回调
+     *
+     * @description 当处于Running状态的节点被条件中止打断，或者行为树被停止、重置、释放时调用
+     * 用于取消动画、释放预定的资源、停止寻路等清理工作
+     * 被中止的节点不会再调用onEnd()
+     *
+     * @param context 执行上下文
+     */
+    public onAbort(context: T): void {}
+
+    /**
+     * 中止节点
+     *
+     * @description 如果节点处于Running状态则调用onAbort()，随后使节点无效
+     * 复合节点和装饰器节点会先中止子节点，保证onAbort()按从深到浅的顺序触发
+     *
+     * @param context 执行上下文
+     */
+    public abort(context: T): void {
+        if (this.status == TaskStatus.Running) {
+            this.onAbort(context);
+            this._observerBinding?.dispatcher.abort(this, this._observerBinding);
+        }
+
+        this.invalidate();
+    }
+
+    /**
+     * 检查节点是否带有指定标签
+     * @param tag 标签
+     */
+    public hasTag(tag: string): boolean {
+        return this.tags !== undefined && this.tags.includes(tag);
+    }
+
+    /**
+     * 设置观察者绑定
+     *
+     * @description 由BehaviorTree在添加和移除观察者时调用，设置后tick()会向观察者分发节点事件
+     * @param binding 观察者绑定，null表示解除绑定
+     */
+    public setObserverBinding(binding: NodeObserverBinding | null): void {
+        this._observerBinding = binding;
+    }
+
+    /**
+     * 获取观察者绑定
+     * @returns 观察者绑定，未绑定时返回null
+     */
+    public getObserverBinding(): NodeObserverBinding | null {
+        return this._observerBinding;
+    }
+
     /**
      * 释放节点资源
      *
@@ -75,19 +147,48 @@ export abstract class Behavior<T> {
      * 1. 如果状态为Invalid，调用onStart()
      * 2. 调用update()执行核心逻辑
      * 3. 如果状态不为Running，调用onEnd()
+     *
+     * 所在的行为树添加了观察者时，还会分发节点开始、结束和状态变化事件
      * 
      * @param context 执行上下文
      * @returns 执行后的状态
      */
     public tick(context: T): TaskStatus {
+        if (this._observerBinding !== null)
+            return this._tickObserved(context, this._observerBinding);
+
+        if (this.status == TaskStatus.Invalid)
+            this.onStart(context);
+
+        this.status = this.update(context);
+
+        if (this.status != TaskStatus.Running)
+            this.onEnd();
+
+        return this.status;
+    }
+
+    /**
+     * 带观察者事件的执行流程
+     * @description 执行中抛出错误或被TreeExecutionHalt中断时不分发结束事件
+     * @param context 执行上下文
+     * @param binding 观察者绑定
+     * @returns 执行后的状态
+     */
+    private _tickObserved(context: T, binding: NodeObserverBinding): TaskStatus {
+        const previousStatus = this.status;
+        const startTime = performance.now();
+        binding.dispatcher.nodeStart(this, binding, startTime);
+
         if (this.status == TaskStatus.Invalid)
-            this.onStart();
+            this.onStart(context);
 
         this.status = this.update(context);
 
         if (this.status != TaskStatus.Running)
             this.onEnd();
 
+        binding.dispatcher.nodeEnd(this, binding, previousStatus, startTime);
         return this.status;
     }
 }
@@ -1,7 +1,100 @@
 import { Behavior } from './Behavior';
+import { TaskStatus } from './TaskStatus';
 import { TimeManager } from '../core/TimeManager';
 import { ErrorHandler } from '../core/ErrorHandler';
 import { Blackboard } from './Blackboard';
+import { TreeClock } from './TreeClock';
+import { Random, RandomState, RandomStream } from '../core/Random';
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig, ExecutionContext, IBehaviorTreeLibrary } from './BehaviorTreeBuilder';
+import { Composite } from './composites/Composite';
+import { Decorator } from './decorators/Decorator';
+import { NodeTypeRegistry } from './factories/NodeTypeRegistry';
+import { NodeStateData, NodeStateValue, isStatefulNode } from './NodeState';
+import { findNode, findNodesByTag, forEachNode } from './TreeTraversal';
+import { ITreeObserver, TreeExecutionHalt, TreeObserverDispatcher } from './TreeObserver';
+import { TickExplainer, TickExplanation } from './TickExplanation';
+
+/**
+ * 热重载选项
+ */
+export interface BehaviorTreeReloadOptions {
+    /** 移除新配置中不再定义的黑板变量，默认false */
+    removeMissingVariables?: boolean;
+    /** 恢复ID和类型未变化的节点的运行状态，默认true */
+    restoreRunningState?: boolean;
+    /** 严格模式：重载前验证配置，存在error级别的问题时拒绝重载 */
+    strict?: boolean;
+    /** 解析子树引用使用的子行为树库，默认使用构建行为树时的子行为树库 */
+    treeLibrary?: IBehaviorTreeLibrary;
+}
+
+/**
+ * 热重载结果
+ */
+export interface BehaviorTreeReloadResult {
+    /** 新定义的黑板变量 */
+    addedVariables: string[];
+    /** 移除的黑板变量 */
+    removedVariables: string[];
+    /** 恢复了运行状态的节点ID */
+    restoredNodeIds: string[];
+}
+
+/**
+ * 行为树快照格式版本
+ */
+export const BEHAVIOR_TREE_SNAPSHOT_VERSION = 1;
+
+/**
+ * 节点快照
+ */
+export interface NodeSnapshot {
+    /** 节点执行状态 */
+    status: TaskStatus;
+    /** 有状态节点（IStatefulNode）的运行时状态 */
+    state?: NodeStateData;
+}
+
+/**
+ * 行为树运行时状态快照
+ * @description 可JSON序列化，节点以配置ID为键，没有配置来源的节点使用"root/1/0"形式的路径
+ */
+export interface BehaviorTreeSnapshot {
+    /** 快照格式版本 */
+    version: number;
+    /** 节点ID到节点快照的映射 */
+    nodes: Record<string, NodeSnapshot>;
+    /** 黑板变量的当前值 */
+    blackboard: Record<string, NodeStateValue>;
+    /** 行为树时钟 */
+    clock: { time: number; timeScale: number };
+    /** 行为树随机数流的状态 */
+    random: RandomState;
+    /** 距离下次定时更新的剩余时间（秒） */
+    timeToNextUpdate: number;
+}
+
+/**
+ * 快照恢复选项
+ */
+export interface BehaviorTreeRestoreOptions {
+    /**
+     * 是否先中止正在运行的节点（触发onAbort）
+     * @description 设为false时直接覆盖节点状态，用于回到同一次执行开始时的状态（例如TreeDebugger重新执行到断点）
+     * @default true
+     */
+    abortRunningNodes?: boolean;
+}
+
+/**
+ * 快照恢复结果
+ */
+export interface BehaviorTreeRestoreResult {
+    /** 恢复了状态的节点ID */
+    restoredNodeIds: string[];
+    /** 快照中没有记录、将从头开始执行的节点ID */
+    missingNodeIds: string[];
+}
 
 /**
  * 行为树控制器
@@ -67,6 +160,21 @@ export class BehaviorTree<T> {
     /** 黑板实例，用于节点间的数据共享 */
     private _blackboard: Blackboard;
     
+    /** 行为树时钟，供基于时间的节点使用 */
+    private _clock: TreeClock = new TreeClock();
+
+    /** 已创建的行为树数量，用于为每个行为树派生不同的默认随机数流 */
+    private static _instanceCount: number = 0;
+
+    /**
+     * 行为树随机数流，供随机节点使用。
+     * 默认从全局Random派生，派生不会消耗全局随机数，因此创建行为树不会影响全局随机数序列
+     */
+    private _random: RandomStream = Random.fork(`BehaviorTree:${BehaviorTree._instanceCount++}`);
+
+    /** 构建行为树时使用的子行为树库，重载时用于解析子树引用 */
+    private _treeLibrary: IBehaviorTreeLibrary | null = null;
+
     /** 行为树的根节点 */
     private _root: Behavior<T>;
     
@@ -75,12 +183,21 @@ export class BehaviorTree<T> {
     
     /** 上次更新的时间戳（秒） */
     private _lastTime: number = 0;
+
+    /** 最近一次tick使用的时间差（秒，未缩放） */
+    private _lastDeltaTime: number = 0;
     
     /** 是否启用性能优化模式 */
     private _performanceMode: boolean = false;
 
     /** 是否暂停 */
     private _paused: boolean = false;
+
+    /** 观察者事件分发器，没有观察者时为null */
+    private _observers: TreeObserverDispatcher<T> | null = null;
+
+    /** 执行说明记录器，未启用时为null */
+    private _explainer: TickExplainer<T> | null = null;
     
     /** 性能统计信息 */
     private _stats: {
@@ -133,8 +250,10 @@ export class BehaviorTree<T> {
         this._lastTime = this._getCurrentTime();
         this._blackboard = blackboard || new Blackboard();
         
-        // 将黑板注入到上下文中
+        // 将黑板、时钟和随机数流注入到上下文中
         (this._context as any).blackboard = this._blackboard;
+        (this._context as any).clock = this._clock;
+        (this._context as any).random = this._random;
     }
 
     /**
@@ -142,16 +261,16 @@ export class BehaviorTree<T> {
      * 优先使用全局时间管理器，回退到本地时间计算
      */
     private _getCurrentTime(): number {
-        // 优先使用全局时间管理器
-        try {
+        // 优先使用全局时间管理器（已开始更新帧时间时）
+        if (TimeManager.getFrameCount() > 0) {
             return TimeManager.getCurrentTime();
-        } catch {
-            // 回退到本地时间计算
-            if (this._performanceMode) {
-                return Date.now() / 1000;
-            } else {
-                return performance.now() / 1000;
-            }
+        }
+
+        // 回退到本地时间计算
+        if (this._performanceMode) {
+            return Date.now() / 1000;
+        } else {
+            return performance.now() / 1000;
         }
     }
 
@@ -175,41 +294,29 @@ export class BehaviorTree<T> {
             return;
         }
 
+        let updateObservers: TreeObserverDispatcher<T> | null = null;
         try {
+            const actualDeltaTime = this._resolveDeltaTime(deltaTime);
+            this._lastDeltaTime = actualDeltaTime;
+            if (this._observers !== null) {
+                updateObservers = this._observers;
+                updateObservers.updateStart(actualDeltaTime);
+            }
+            const isValidDeltaTime = actualDeltaTime >= 0 && isFinite(actualDeltaTime);
+
+            // 推进行为树时钟，防止异常大的时间跳跃
+            if (isValidDeltaTime) {
+                this._clock.advance(Math.min(actualDeltaTime, 1.0));
+            }
+
             if (this.updatePeriod > 0) {
-                let actualDeltaTime: number;
-                
-                if (deltaTime !== undefined) {
-                    // 使用提供的deltaTime，避免时间计算开销
-                    actualDeltaTime = deltaTime;
-                } else {
-                    // 优先使用全局时间管理器的deltaTime
-                    try {
-                        actualDeltaTime = TimeManager.getDeltaTime();
-                        if (actualDeltaTime <= 0) {
-                            // 如果全局时间管理器未初始化，回退到本地计算
-                            const currentTime = this._getCurrentTime();
-                            actualDeltaTime = currentTime - this._lastTime;
-                            this._lastTime = currentTime;
-                        }
-                    } catch {
-                        // 回退到本地时间计算
-                        const currentTime = this._getCurrentTime();
-                        actualDeltaTime = currentTime - this._lastTime;
-                        this._lastTime = currentTime;
-                    }
-                }
-                
                 // 验证deltaTime的有效性
-                if (actualDeltaTime < 0 || !isFinite(actualDeltaTime)) {
+                if (!isValidDeltaTime) {
                     ErrorHandler.warn('BehaviorTree: 无效的deltaTime值，跳过此次更新', { deltaTime: actualDeltaTime });
                     return;
                 }
-                
-                // 防止异常大的时间跳跃
-                actualDeltaTime = Math.min(actualDeltaTime, 1.0);
-                
-                this._elapsedTime -= actualDeltaTime;
+
+                this._elapsedTime -= Math.min(actualDeltaTime, 1.0);
                 if (this._elapsedTime <= 0) {
                     // 处理可能的时间累积，确保稳定的更新频率
                     while (this._elapsedTime <= 0) {
@@ -230,15 +337,195 @@ export class BehaviorTree<T> {
                 const executionTime = this._getCurrentTime() - startTime;
                 this._updateStats(executionTime);
             }
+            updateObservers?.updateEnd(this._lastDeltaTime);
         }
     }
 
+    /**
+     * 计算本次更新的时间差
+     * @param deltaTime 外部提供的时间差（秒）
+     * @returns 时间差（秒），未经有效性验证
+     */
+    private _resolveDeltaTime(deltaTime?: number): number {
+        if (deltaTime !== undefined) {
+            // 使用提供的deltaTime，避免时间计算开销
+            return deltaTime;
+        }
+
+        // 优先使用全局时间管理器的deltaTime
+        try {
+            const managerDeltaTime = TimeManager.getDeltaTime();
+            if (managerDeltaTime > 0) {
+                return managerDeltaTime;
+            }
+        } catch {
+            // 回退到本地时间计算
+        }
+
+        // 全局时间管理器未初始化时回退到本地计算
+        const currentTime = this._getCurrentTime();
+        const localDeltaTime = currentTime - this._lastTime;
+        this._lastTime = currentTime;
+        return localDeltaTime;
+    }
+
+    /**
+     * 获取最近一次tick使用的时间差
+     * @description 未向tick传入deltaTime时为从TimeManager或本地时间计算得到的值，可用于记录和回放
+     * @returns 时间差（秒，未缩放）
+     */
+    public getLastDeltaTime(): number {
+        return this._lastDeltaTime;
+    }
+
+    /**
+     * 立即执行一次根节点
+     *
+     * @description 忽略updatePeriod和暂停状态直接执行根节点，
+     * 用于子行为树随父行为树同步执行
+     * @returns 根节点的执行状态
+     */
+    public tickImmediate(): TaskStatus {
+        return this._executeRoot();
+    }
+
     /**
      * 执行根节点
+     * @returns 根节点的执行状态
      */
-    private _executeRoot(): void {
-        this._root.tick(this._context);
+    private _executeRoot(): TaskStatus {
+        const observers = this._observers;
+        if (observers === null) {
+            const status = this._root.tick(this._context);
+            this._stats.totalTicks++;
+            return status;
+        }
+
+        const tickIndex = this._stats.totalTicks;
+        const startTime = performance.now();
+        let status: TaskStatus;
+        try {
+            observers.tickStart(tickIndex, startTime);
+            status = this._root.tick(this._context);
+        } catch (error) {
+            // 观察者中断了本次执行，节点状态保持在中断时的位置
+            if (error instanceof TreeExecutionHalt) {
+                return this._root.status;
+            }
+            throw error;
+        }
         this._stats.totalTicks++;
+        observers.tickEnd(tickIndex, startTime, status);
+        return status;
+    }
+
+    /**
+     * 添加观察者
+     *
+     * @description
+     * 观察者会收到每次更新的开始和结束、根节点执行开始和结束、节点执行开始和结束、节点状态变化以及节点中止事件，
+     * 用于构建调试器、日志和性能分析工具。没有观察者时不会产生额外开销。
+     * 添加观察者时会为当前节点树中的所有节点绑定ID和路径，
+     * 之后通过setRoot()或reload()替换的节点树会自动绑定，直接向节点添加的子节点在下一次添加观察者时绑定
+     *
+     * @param observer 观察者
+     * @returns 是否添加成功，观察者已存在时返回false
+     *
+     * @example
+     * ```typescript
+     * const logger: ITreeObserver<GameContext> = {
+     *   onStatusChange: (e) => console.log(`${e.id}: ${TaskStatus[e.status]}`)
+     * };
+     * tree.addObserver(logger);
+     * // ...
+     * tree.removeObserver(logger);
+     * ```
+     */
+    public addObserver(observer: ITreeObserver<T>): boolean {
+        if (this._observers === null) {
+            this._observers = new TreeObserverDispatcher(this);
+        }
+        if (!this._observers.add(observer)) {
+            return false;
+        }
+        this._bindObservers();
+        return true;
+    }
+
+    /**
+     * 移除观察者
+     * @description 移除最后一个观察者后会解除所有节点的绑定
+     * @param observer 观察者
+     * @returns 是否移除成功
+     */
+    public removeObserver(observer: ITreeObserver<T>): boolean {
+        if (this._observers === null || !this._observers.remove(observer)) {
+            return false;
+        }
+        if (this._observers.size === 0) {
+            this._observers = null;
+            this._bindObservers();
+        }
+        return true;
+    }
+
+    /**
+     * 检查是否有观察者
+     */
+    public hasObservers(): boolean {
+        return this._observers !== null;
+    }
+
+    /**
+     * 启用或禁用执行说明
+     *
+     * @description
+     * 启用后通过观察者记录每次执行访问的节点，之后可以通过explainLastTick()查询。
+     * 禁用时清除已记录的说明
+     *
+     * @param enabled 是否启用
+     */
+    public setTickExplanationEnabled(enabled: boolean): void {
+        if (enabled && this._explainer === null) {
+            this._explainer = new TickExplainer<T>();
+            this.addObserver(this._explainer);
+        } else if (!enabled && this._explainer !== null) {
+            this.removeObserver(this._explainer);
+            this._explainer = null;
+        }
+    }
+
+    /**
+     * 说明最近一次执行
+     *
+     * @description
+     * 返回最近一次完成的执行中访问的节点树及其状态，结果为失败的条件（包括黑板比较的左右两侧的值和运算符）、
+     * 阻止子节点执行的装饰器（冷却剩余时间、概率检查的随机数、超时）、被中止的节点以及可读的说明文本。
+     * 需要先通过setTickExplanationEnabled(true)启用。
+     *
+     * @returns 执行说明，未启用或启用后尚未完成执行时返回null
+     *
+     * @example
+     * ```typescript
+     * tree.setTickExplanationEnabled(true);
+     * tree.tick(deltaTime);
+     * if (tree.getRoot().status === TaskStatus.Failure) {
+     *   console.log(tree.explainLastTick()?.summary);
+     * }
+     * ```
+     */
+    public explainLastTick(): TickExplanation | null {
+        return this._explainer?.lastExplanation ?? null;
+    }
+
+    /**
+     * 为节点树中的所有节点设置观察者绑定，没有观察者时解除绑定
+     */
+    private _bindObservers(): void {
+        const dispatcher = this._observers;
+        forEachNode(this._root, (node, id, path) => {
+            node.setObserverBinding(dispatcher && { id, path, dispatcher });
+        });
     }
 
     /**
@@ -248,7 +535,9 @@ export class BehaviorTree<T> {
     private _updateStats(executionTime: number): void {
         this._stats.lastExecutionTime = executionTime;
         this._stats.totalExecutionTime += executionTime;
-        this._stats.averageExecutionTime = this._stats.totalExecutionTime / this._stats.totalTicks;
+        this._stats.averageExecutionTime = this._stats.totalTicks > 0
+            ? this._stats.totalExecutionTime / this._stats.totalTicks
+            : 0;
     }
 
     /**
@@ -267,6 +556,67 @@ export class BehaviorTree<T> {
         return this._blackboard;
     }
 
+    /**
+     * 获取行为树时钟
+     * @returns 时钟实例，可用于调整时间缩放或读取行为树时间
+     */
+    public getClock(): TreeClock {
+        return this._clock;
+    }
+
+    /**
+     * 设置行为树时钟
+     * @description 用于让多棵行为树（如父树和子树）共享同一个时钟
+     * @param clock 时钟实例
+     * @throws {Error} 当clock为null时抛出错误
+     */
+    public setClock(clock: TreeClock): void {
+        if (clock == null) {
+            throw new Error('时钟不能为null或undefined');
+        }
+        this._clock = clock;
+        (this._context as any).clock = this._clock;
+    }
+
+    /**
+     * 获取构建行为树时使用的子行为树库
+     * @returns 子行为树库，未通过构建选项提供时返回null
+     */
+    public getTreeLibrary(): IBehaviorTreeLibrary | null {
+        return this._treeLibrary;
+    }
+
+    /**
+     * 设置重载时解析子树引用使用的子行为树库
+     * @param treeLibrary 子行为树库，为null时只使用上下文中的treeLibrary
+     */
+    public setTreeLibrary(treeLibrary: IBehaviorTreeLibrary | null): void {
+        this._treeLibrary = treeLibrary;
+    }
+
+    /**
+     * 获取行为树随机数流
+     * @description 可用于设置种子，或保存/恢复状态（getState/setState）以复现随机决策
+     * @returns 随机数流实例
+     */
+    public getRandom(): RandomStream {
+        return this._random;
+    }
+
+    /**
+     * 设置行为树随机数流
+     * @description 用于让多棵行为树（如父树和子树）共享同一个随机数流
+     * @param random 随机数流实例
+     * @throws {Error} 当random为null时抛出错误
+     */
+    public setRandom(random: RandomStream): void {
+        if (random == null) {
+            throw new Error('随机数流不能为null或undefined');
+        }
+        this._random = random;
+        (this._context as any).random = this._random;
+    }
+
     /**
      * 更新上下文
      * @param context 新的上下文对象
@@ -277,8 +627,10 @@ export class BehaviorTree<T> {
             throw new Error('上下文不能为null或undefined');
         }
         this._context = context;
-        // 确保新上下文中也包含黑板引用
+        // 确保新上下文中也包含黑板、时钟和随机数流引用
         (this._context as any).blackboard = this._blackboard;
+        (this._context as any).clock = this._clock;
+        (this._context as any).random = this._random;
     }
 
     /**
@@ -289,6 +641,31 @@ export class BehaviorTree<T> {
         return this._root;
     }
 
+    /**
+     * 按ID或路径查找节点
+     * @description 先按节点ID（通过配置创建的节点为配置中的ID）查找，没有找到时按"root/1/0"形式的路径查找
+     * @param idOrPath 节点ID或路径
+     * @returns 找到的节点，不存在时返回undefined
+     *
+     * @example
+     * ```typescript
+     * const attack = tree.findNode('attack-cooldown') as CooldownDecorator<GameContext>;
+     * attack.resetCooldown();
+     * ```
+     */
+    public findNode(idOrPath: string): Behavior<T> | undefined {
+        return findNode(this._root, idOrPath);
+    }
+
+    /**
+     * 查找带有指定标签的所有节点
+     * @param tag 标签
+     * @returns 按先序排列的节点列表
+     */
+    public findNodesByTag(tag: string): Behavior<T>[] {
+        return findNodesByTag(this._root, tag);
+    }
+
     /**
      * 设置新的根节点
      * @param rootNode 新的根节点
@@ -298,16 +675,288 @@ export class BehaviorTree<T> {
         if (rootNode == null) {
             throw new Error('根节点不能为null或undefined');
         }
+        if (this._observers !== null && this._root) {
+            // 解除旧节点树的绑定
+            forEachNode(this._root, node => node.setObserverBinding(null));
+        }
         this._root = rootNode;
+        if (this._observers !== null) {
+            this._bindObservers();
+        }
+    }
+
+    /**
+     * 从更新后的配置热重载行为树
+     *
+     * @description
+     * 重新构建节点树并替换当前根节点，保留运行时状态：
+     * - 黑板中已有变量保持当前值，配置中新增的变量会被定义，可选移除配置中已删除的变量
+     * - 中止正在运行的分支（正在运行的节点会收到onAbort回调），随后释放旧节点
+     * - 旧节点树中正在运行、且ID和类型在新配置中保持不变的组合节点和装饰器恢复为运行状态，
+     *   下次执行时从原来的分支继续；正在运行的叶子节点会重新开始执行
+     *
+     * 新配置构建失败时抛出错误，当前节点树和黑板保持不变
+     *
+     * @param config 新的行为树配置
+     * @param options 重载选项
+     * @returns 新增和移除的黑板变量以及恢复了运行状态的节点ID
+     * @throws {Error} 当配置无效或构建失败时抛出错误
+     *
+     * @example
+     * ```typescript
+     * watcher.on('change', () => {
+     *   const config = JSON.parse(fs.readFileSync('ai.json', 'utf-8'));
+     *   tree.reload(config, { removeMissingVariables: true });
+     * });
+     * ```
+     */
+    public reload(config: BehaviorTreeJSONConfig, options: BehaviorTreeReloadOptions = {}): BehaviorTreeReloadResult {
+        const previousVariables = new Set(this._blackboard.getVariableNames());
+
+        let newRoot: Behavior<T>;
+        try {
+            const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(
+                config,
+                this._context as unknown as ExecutionContext,
+                {
+                    blackboard: this._blackboard,
+                    strict: options.strict,
+                    treeLibrary: options.treeLibrary ?? this._treeLibrary ?? undefined
+                }
+            );
+            newRoot = tree.getRoot() as unknown as Behavior<T>;
+
+            // 构建时创建的临时行为树会向上下文注入自己的时钟和随机数流，恢复为当前行为树的实例
+            this.setContext(this._context);
+        } catch (error) {
+            // 构建失败时撤销已定义的新变量
+            for (const name of this._blackboard.getVariableNames()) {
+                if (!previousVariables.has(name)) {
+                    this._blackboard.removeVariable(name);
+                }
+            }
+            throw error;
+        }
+
+        const runningNodes = options.restoreRunningState === false
+            ? new Map<string, string>()
+            : this._collectRunningNodes(this._root, new Map());
+
+        try {
+            this._root.abort(this._context);
+        } catch (error) {
+            console.error('热重载行为树时中止节点发生错误:', error);
+        }
+        this._root.dispose();
+        this._root = newRoot;
+        if (this._observers !== null) {
+            this._bindObservers();
+        }
+
+        const restoredNodeIds: string[] = [];
+        if (runningNodes.size > 0) {
+            this._restoreRunningState(newRoot, runningNodes, restoredNodeIds);
+        }
+
+        const addedVariables = this._blackboard.getVariableNames().filter(name => !previousVariables.has(name));
+        const removedVariables: string[] = [];
+        if (options.removeMissingVariables) {
+            const configuredVariables = new Set<string>([
+                ...(config.blackboard ?? []).map(variable => variable.name),
+                ...(config.ports ?? []).map(port => port.name)
+            ]);
+            for (const name of previousVariables) {
+                if (!configuredVariables.has(name) && this._blackboard.removeVariable(name)) {
+                    removedVariables.push(name);
+                }
+            }
+        }
+
+        if (config.metadata?.updatePeriod !== undefined) {
+            this.updatePeriod = config.metadata.updatePeriod;
+        }
+
+        return { addedVariables, removedVariables, restoredNodeIds };
+    }
+
+    /**
+     * 收集正在运行的节点的配置ID和类型
+     * @param node 当前节点
+     * @param result 节点ID到节点类型的映射
+     * @returns 节点ID到节点类型的映射
+     */
+    private _collectRunningNodes(node: Behavior<T>, result: Map<string, string>): Map<string, string> {
+        if (node.status !== TaskStatus.Running) {
+            return result;
+        }
+
+        const source = NodeTypeRegistry.getNodeSource(node);
+        if (source) {
+            result.set(source.id, source.type);
+        }
+
+        if (node instanceof Composite) {
+            for (const child of node.children) {
+                this._collectRunningNodes(child, result);
+            }
+        } else if (node instanceof Decorator && node.child) {
+            this._collectRunningNodes(node.child, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * 恢复新节点树中ID和类型未变化的节点的运行状态
+     * @param node 当前节点
+     * @param runningNodes 旧节点树中正在运行的节点ID到节点类型的映射
+     * @param restoredNodeIds 恢复了运行状态的节点ID
+     */
+    private _restoreRunningState(node: Behavior<T>, runningNodes: Map<string, string>, restoredNodeIds: string[]): void {
+        const wasRunning = (candidate: Behavior<T>): boolean => {
+            const source = NodeTypeRegistry.getNodeSource(candidate);
+            return source !== undefined && runningNodes.get(source.id) === source.type;
+        };
+
+        if (!wasRunning(node)) {
+            return;
+        }
+
+        // 叶子节点无法恢复内部状态，保持Invalid状态重新开始执行
+        if (node instanceof Composite) {
+            const runningChildren = node.children.filter(wasRunning);
+            if (runningChildren.length === 0) {
+                return;
+            }
+            node.resumeFrom(runningChildren[0]!, this._context);
+            restoredNodeIds.push(NodeTypeRegistry.getNodeSource(node)!.id);
+            for (const child of runningChildren) {
+                this._restoreRunningState(child, runningNodes, restoredNodeIds);
+            }
+        } else if (node instanceof Decorator && node.child && wasRunning(node.child)) {
+            node.onStart(this._context);
+            node.status = TaskStatus.Running;
+            restoredNodeIds.push(NodeTypeRegistry.getNodeSource(node)!.id);
+            this._restoreRunningState(node.child, runningNodes, restoredNodeIds);
+        }
+    }
+
+    /**
+     * 保存行为树的运行时状态
+     *
+     * @description
+     * 快照包含每个节点的执行状态和有状态节点（IStatefulNode）的内部状态
+     * （组合节点的当前子节点、Repeater的迭代次数、WaitAction的已等待时间、冷却时间、随机洗牌顺序等），
+     * 以及黑板变量的当前值、行为树时钟和随机数流的状态。
+     * 快照是纯JSON数据，可以直接写入存档；黑板中的值需要能够表示为JSON
+     *
+     * @returns 行为树快照
+     *
+     * @example
+     * ```typescript
+     * save.agents[id] = tree.captureState();
+     * fs.writeFileSync('save.json', JSON.stringify(save));
+     *
+     * // 读档
+     * const tree = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, context).tree;
+     * tree.restoreState(save.agents[id]);
+     * ```
+     */
+    public captureState(): BehaviorTreeSnapshot {
+        const nodes: Record<string, NodeSnapshot> = {};
+        forEachNode(this._root, (node, id) => {
+            const snapshot: NodeSnapshot = { status: node.status };
+            if (isStatefulNode(node)) {
+                snapshot.state = node.captureState();
+            }
+            nodes[id] = snapshot;
+        });
+
+        const blackboard: Record<string, NodeStateValue> = {};
+        for (const name of this._blackboard.getVariableNames()) {
+            const value = this._blackboard.getValue(name);
+            if (value !== undefined) {
+                blackboard[name] = value === null || typeof value !== 'object' ? value : JSON.parse(JSON.stringify(value));
+            }
+        }
+
+        return {
+            version: BEHAVIOR_TREE_SNAPSHOT_VERSION,
+            nodes,
+            blackboard,
+            clock: { time: this._clock.now(), timeScale: this._clock.timeScale },
+            random: this._random.getState(),
+            timeToNextUpdate: this._elapsedTime
+        };
+    }
+
+    /**
+     * 从快照恢复行为树的运行时状态
+     *
+     * @description
+     * 先中止当前正在运行的节点（触发onAbort），然后按节点ID恢复节点状态，节点不会再收到onStart回调，
+     * 下次执行时从保存时的位置继续。快照中没有记录的节点（例如存档之后新增的节点）保持Invalid状态。
+     * 黑板中只恢复当前已定义的变量。
+     * 挂起的异步操作无法保存，恢复后AsyncAction会重新调用处理函数
+     *
+     * @param snapshot captureState()返回的快照
+     * @param options 恢复选项
+     * @returns 恢复了状态的节点ID和快照中缺失的节点ID
+     * @throws {Error} 当快照版本不受支持时抛出错误
+     */
+    public restoreState(snapshot: BehaviorTreeSnapshot, options: BehaviorTreeRestoreOptions = {}): BehaviorTreeRestoreResult {
+        if (snapshot?.version !== BEHAVIOR_TREE_SNAPSHOT_VERSION) {
+            throw new Error(`不支持的行为树快照版本: ${snapshot?.version}`);
+        }
+
+        const abortRunningNodes = options.abortRunningNodes !== false;
+        if (abortRunningNodes) {
+            try {
+                this._root.abort(this._context);
+            } catch (error) {
+                console.error('恢复行为树状态时中止节点发生错误:', error);
+            }
+        }
+
+        for (const [name, value] of Object.entries(snapshot.blackboard)) {
+            if (this._blackboard.hasVariable(name)) {
+                this._blackboard.setValue(name, value, true);
+            }
+        }
+
+        this._clock.reset(snapshot.clock.time);
+        this._clock.timeScale = snapshot.clock.timeScale;
+        this._random.setState(snapshot.random);
+        this._elapsedTime = snapshot.timeToNextUpdate;
+
+        // 先恢复节点自身的状态再访问子节点，随机组合节点恢复洗牌顺序后子节点的路径与保存时一致
+        const result: BehaviorTreeRestoreResult = { restoredNodeIds: [], missingNodeIds: [] };
+        forEachNode(this._root, (node, id) => {
+            const nodeSnapshot = snapshot.nodes[id];
+            if (!nodeSnapshot) {
+                if (!abortRunningNodes) {
+                    node.status = TaskStatus.Invalid;
+                }
+                result.missingNodeIds.push(id);
+                return;
+            }
+
+            node.status = nodeSnapshot.status;
+            if (nodeSnapshot.state && isStatefulNode(node)) {
+                node.restoreState(nodeSnapshot.state);
+            }
+            result.restoredNodeIds.push(id);
+        });
+        return result;
     }
 
     /**
      * 强制重置整个行为树
-     * @description 将根节点及其所有子节点重置为Invalid状态
+     * @description 中止正在运行的节点（触发onAbort），并将根节点及其所有子节点重置为Invalid状态
      */
     public reset(): void {
         try {
-            this._root.invalidate();
+            this._root.abort(this._context);
             this._elapsedTime = this.updatePeriod;
             this._lastTime = this._getCurrentTime();
         } catch (error) {
@@ -390,7 +1039,7 @@ export class BehaviorTree<T> {
     /**
      * 停止行为树并重置状态
      *
-     * @description 暂停行为树并重置所有节点，下次resume后从头开始执行
+     * @description 暂停行为树并重置所有节点（正在运行的节点会收到onAbort回调），下次resume后从头开始执行
      */
     public stop(): void {
         this._paused = true;
@@ -400,15 +1049,23 @@ export class BehaviorTree<T> {
     /**
      * 释放行为树资源
      *
-     * @description 递归释放根节点及其所有子节点，清理黑板数据
+     * @description 中止正在运行的节点（触发onAbort），递归释放根节点及其所有子节点，清理黑板数据
      * 调用后行为树不应再被使用
+     * @param keepBlackboard 是否保留黑板中的变量，黑板与其他行为树共享时使用，默认false
      */
-    public dispose(): void {
+    public dispose(keepBlackboard: boolean = false): void {
         if (this._root) {
+            try {
+                this._root.abort(this._context);
+            } catch (error) {
+                console.error('释放行为树时中止节点发生错误:', error);
+            }
             this._root.dispose();
             this._root = null!;
         }
-        if (this._blackboard) {
+        this._observers = null;
+        this._explainer = null;
+        if (this._blackboard && !keepBlackboard) {
             // 清空所有变量
             const variableNames = this._blackboard.getVariableNames();
             for (const name of variableNames) {
@@ -6,10 +6,13 @@ import { Decorator } from './decorators/Decorator';
 import { ExecuteAction } from './actions/ExecuteAction';
 import { ExecuteActionConditional } from './conditionals/ExecuteActionConditional';
 import { IConditional } from './conditionals/IConditional';
-import { ConditionFactory } from './factories/ConditionFactory';
+import { NodeTypeRegistry, NodeBuildContext } from './factories/NodeTypeRegistry';
+import { convertBlackboardValue, parseBlackboardValueType } from './factories/NodePropertyUtils';
+import { validateBehaviorTreeConfig, formatConfigIssues } from './serialization/BehaviorTreeConfigValidator';
 import { LogAction } from './actions/LogAction';
 import { WaitAction } from './actions/WaitAction';
-import { BehaviorTreeReference } from './actions/BehaviorTreeReference';
+import { AsyncAction, AsyncActionHandler, AsyncActionOptions } from './actions/AsyncAction';
+import { BehaviorTreeReference, SubTreePortBinding, SubTreePortDirection } from './actions/BehaviorTreeReference';
 import { ConditionalDecorator } from './decorators/ConditionalDecorator';
 import { AlwaysFail } from './decorators/AlwaysFail';
 import { AlwaysSucceed } from './decorators/AlwaysSucceed';
@@ -17,43 +20,23 @@ import { Inverter } from './decorators/Inverter';
 import { Repeater } from './decorators/Repeater';
 import { UntilFail } from './decorators/UntilFail';
 import { UntilSuccess } from './decorators/UntilSuccess';
-import { Parallel } from './composites/Parallel';
+import { Parallel, ParallelOptions } from './composites/Parallel';
 import { ParallelSelector } from './composites/ParallelSelector';
+import { Race } from './composites/Race';
+import { ReactiveSelector } from './composites/ReactiveSelector';
+import { ReactiveSequence } from './composites/ReactiveSequence';
+import { SimpleParallel, SimpleParallelFinishMode } from './composites/SimpleParallel';
 import { Selector } from './composites/Selector';
 import { RandomSelector } from './composites/RandomSelector';
 import { Sequence } from './composites/Sequence';
 import { RandomSequence } from './composites/RandomSequence';
 import { AbortTypes } from './composites/AbortTypes';
 import { Blackboard, BlackboardValueType } from './Blackboard';
+import { IClock } from './TreeClock';
+import { RandomStream } from '../core/Random';
 
 // 黑板动作节点导入
-import {
-    SetBlackboardValue,
-    AddToBlackboardValue,
-    ToggleBlackboardBool,
-    ResetBlackboardVariable,
-    MathBlackboardOperation,
-    MathOperation,
-    LogBlackboardValue,
-    WaitForBlackboardCondition
-} from './actions/BlackboardActions';
-
-// 黑板条件节点导入
-import {
-    BlackboardValueComparison,
-    CompareOperator,
-    BlackboardVariableExists,
-    BlackboardVariableTypeCheck,
-    BlackboardVariableRangeCheck
-} from './conditionals/BlackboardConditionals';
-
-// 通用条件节点导入
-import { NumericComparison, PropertyExists } from './conditionals/GeneralConditionals';
-
-// 高级装饰器导入
-import { CooldownDecorator } from './decorators/CooldownDecorator';
-import { TimeoutDecorator } from './decorators/TimeoutDecorator';
-import { ChanceDecorator } from './decorators/ChanceDecorator';
+import { SetBlackboardValue } from './actions/BlackboardActions';
 
 /**
  * 支持的黑板变量类型联合类型
@@ -70,9 +53,49 @@ export type NodePropertyValue = string | number | boolean | object;
  */
 export interface ExecutionContext {
     blackboard?: Blackboard;
+    /** 子行为树库，用于解析behavior-tree-reference节点引用的子树 */
+    treeLibrary?: IBehaviorTreeLibrary;
+    /** 节点类型注册表，未提供时使用NodeTypeRegistry.getDefault() */
+    nodeRegistry?: NodeTypeRegistry;
+    /** 行为树时钟，由BehaviorTree注入 */
+    clock?: IClock;
+    /** 行为树随机数流，由BehaviorTree注入 */
+    random?: RandomStream;
     [key: string]: unknown;
 }
 
+/**
+ * 子行为树库接口
+ * @description 根据路径或名称提供子行为树配置，供behavior-tree-reference节点加载子树
+ */
+export interface IBehaviorTreeLibrary {
+    /**
+     * 解析子行为树配置
+     * @param path 子树路径或名称
+     * @returns 子树配置，不存在时返回undefined
+     */
+    resolve(path: string): BehaviorTreeJSONConfig | undefined;
+}
+
+/**
+ * 子树上下文中记录子树引用链的属性键，用于检测子树之间的循环引用
+ */
+const subTreeChainKey = Symbol('subTreeChain');
+
+/**
+ * JSON配置构建选项
+ */
+export interface BehaviorTreeBuildOptions {
+    /** 使用已有的黑板实例（例如与父树共享），配置中已存在的变量不会被重新定义 */
+    blackboard?: Blackboard;
+    /** 严格模式：构建前验证配置，存在error级别的问题时拒绝构建 */
+    strict?: boolean;
+    /** 行为树随机数流的种子，相同种子构建的行为树做出相同的随机决策 */
+    randomSeed?: number;
+    /** 解析子树引用使用的子行为树库，优先于上下文中的treeLibrary，不会写入上下文 */
+    treeLibrary?: IBehaviorTreeLibrary;
+}
+
 /**
  * 条件配置接口
  */
@@ -156,10 +179,29 @@ export interface BehaviorTreeJSONConfig {
     nodes: BehaviorTreeNodeConfig[];
     /** 黑板变量配置 */
     blackboard?: BlackboardVariableConfig[];
+    /** 作为子树被引用时声明的输入/输出端口 */
+    ports?: BehaviorTreePortConfig[];
     /** 元数据信息 */
     metadata?: BehaviorTreeMetadata;
 }
 
+/**
+ * 子树端口配置接口
+ * @description 端口对应子树黑板中的同名变量，引用节点通过remapping属性将端口绑定到父树黑板变量或常量
+ */
+export interface BehaviorTreePortConfig {
+    /** 端口名称（子树黑板中的变量名） */
+    name: string;
+    /** 端口值类型 */
+    type: BlackboardValueType | `${BlackboardValueType}`;
+    /** 端口方向 */
+    direction: SubTreePortDirection;
+    /** 未绑定时使用的默认值 */
+    defaultValue?: BlackboardVariableValue;
+    /** 端口描述 */
+    description?: string;
+}
+
 /**
  * 行为树节点配置接口
  * @description JSON格式中的节点配置结构
@@ -171,6 +213,8 @@ export interface BehaviorTreeNodeConfig {
     type: string;
     /** 节点显示名称 */
     name: string;
+    /** 节点标签，用于BehaviorTree.findNodesByTag() */
+    tags?: string[];
     /** 节点属性 */
     properties?: Record<string, NodePropertyValue>;
     /** 子节点ID列表 */
@@ -249,6 +293,8 @@ export class BehaviorTreeBuilder<T> {
     private _currentNode: Behavior<T> | undefined;
     /** 父节点堆栈，用于流畅API构建 */
     private _parentNodeStack: Array<Behavior<T>> = new Array<Behavior<T>>();
+    /** 最近添加的节点，named()、withId()和tagged()作用于此节点 */
+    private _lastNode: Behavior<T> | undefined;
 
     /**
      * 构造函数
@@ -273,6 +319,7 @@ export class BehaviorTreeBuilder<T> {
      * @returns 构建器实例
      */
     private setChildOnParent(child: Behavior<T>): BehaviorTreeBuilder<T> {
+        this._lastNode = child;
         const parent = this._parentNodeStack[this._parentNodeStack.length - 1];
         if (parent instanceof Composite) {
             (parent as Composite<T>).addChild(child);
@@ -297,6 +344,7 @@ export class BehaviorTreeBuilder<T> {
         }
 
         this._parentNodeStack.push(composite);
+        this._lastNode = composite;
         return this;
     }
 
@@ -384,6 +432,19 @@ export class BehaviorTreeBuilder<T> {
         return this.setChildOnParent(new WaitAction<T>(waitTime));
     }
 
+    /**
+     * 添加异步动作节点
+     * @param func 异步动作函数，可以返回Promise，通过signal感知取消
+     * @param options 异步动作配置（超时、名称）
+     * @returns 构建器实例
+     */
+    public asyncAction(func: AsyncActionHandler<T>, options: AsyncActionOptions = {}): BehaviorTreeBuilder<T> {
+        if (this._parentNodeStack.length === 0) {
+            throw new Error("无法创建无嵌套的动作节点，它必须是一个叶节点");
+        }
+        return this.setChildOnParent(new AsyncAction<T>(func, options));
+    }
+
     /**
      * 添加子行为树节点
      * @param subTree 子行为树实例
@@ -493,18 +554,20 @@ export class BehaviorTreeBuilder<T> {
 
     /**
      * 添加并行节点
+     * @param options 并行节点选项，默认所有子节点成功时成功、任一子节点失败时失败
      * @returns 构建器实例
      */
-    public paraller(): BehaviorTreeBuilder<T> {
-        return this.pushParentNode(new Parallel<T>());
+    public paraller(options?: ParallelOptions): BehaviorTreeBuilder<T> {
+        return this.pushParentNode(new Parallel<T>(options));
     }
 
     /**
      * 添加并行节点 (paraller的正确拼写别名)
+     * @param options 并行节点选项，如{ success: 'one', failure: 'all' }
      * @returns 构建器实例
      */
-    public parallel(): BehaviorTreeBuilder<T> {
-        return this.paraller();
+    public parallel(options?: ParallelOptions): BehaviorTreeBuilder<T> {
+        return this.paraller(options);
     }
 
     /**
@@ -515,6 +578,43 @@ export class BehaviorTreeBuilder<T> {
         return this.pushParentNode(new ParallelSelector<T>());
     }
 
+    /**
+     * 添加响应式序列节点
+     * @description 每次执行都从第一个子节点重新开始，之前的子节点失败时中止正在运行的子节点
+     * @returns 构建器实例
+     */
+    public reactiveSequence(): BehaviorTreeBuilder<T> {
+        return this.pushParentNode(new ReactiveSequence<T>());
+    }
+
+    /**
+     * 添加响应式选择器节点
+     * @description 每次执行都从第一个子节点重新开始，之前的子节点成功时中止正在运行的子节点
+     * @returns 构建器实例
+     */
+    public reactiveSelector(): BehaviorTreeBuilder<T> {
+        return this.pushParentNode(new ReactiveSelector<T>());
+    }
+
+    /**
+     * 添加简单并行节点
+     * @description 第一个子节点为主任务，第二个子节点为后台任务，结果为主任务的结果
+     * @param finishMode 主任务结束时的处理方式，默认立即中止后台任务
+     * @returns 构建器实例
+     */
+    public simpleParallel(finishMode: SimpleParallelFinishMode = SimpleParallelFinishMode.Immediate): BehaviorTreeBuilder<T> {
+        return this.pushParentNode(new SimpleParallel<T>(finishMode));
+    }
+
+    /**
+     * 添加竞速节点
+     * @description 同时执行所有子节点，第一个结束的子节点决定结果
+     * @returns 构建器实例
+     */
+    public race(): BehaviorTreeBuilder<T> {
+        return this.pushParentNode(new Race<T>());
+    }
+
     /**
      * 添加选择器节点
      * @param abortType 中止类型
@@ -562,6 +662,58 @@ export class BehaviorTreeBuilder<T> {
         return this;
     }
 
+    /**
+     * 设置最近添加的节点的名称
+     * @param name 节点名称
+     * @returns 构建器实例
+     *
+     * @example
+     * ```typescript
+     * BehaviorTreeBuilder.begin(context)
+     *   .selector().named('brain')
+     *     .action(attack).named('attack').withId('attack').tagged('combat')
+     *   .endComposite()
+     *   .build();
+     * ```
+     */
+    public named(name: string): BehaviorTreeBuilder<T> {
+        this.getLastNode().name = name;
+        return this;
+    }
+
+    /**
+     * 设置最近添加的节点的ID
+     * @description 设置ID后可以通过BehaviorTree.findNode()查找，调试工具也使用此ID标识节点
+     * @param id 节点ID
+     * @returns 构建器实例
+     */
+    public withId(id: string): BehaviorTreeBuilder<T> {
+        this.getLastNode().id = id;
+        return this;
+    }
+
+    /**
+     * 为最近添加的节点添加标签
+     * @param tags 标签
+     * @returns 构建器实例
+     */
+    public tagged(...tags: string[]): BehaviorTreeBuilder<T> {
+        const node = this.getLastNode();
+        node.tags = [...new Set([...(node.tags ?? []), ...tags])];
+        return this;
+    }
+
+    /**
+     * 获取最近添加的节点
+     * @throws {Error} 尚未添加节点时抛出错误
+     */
+    private getLastNode(): Behavior<T> {
+        if (!this._lastNode) {
+            throw new Error('尚未添加节点，无法设置节点的名称、ID或标签');
+        }
+        return this._lastNode;
+    }
+
     /**
      * 构建最终的行为树
      * @param updatePeriod 更新周期（秒），默认0.2秒
@@ -588,7 +740,7 @@ export class BehaviorTreeBuilder<T> {
                 throw new Error('配置无效：缺少tree属性');
             }
 
-            const rootNode = BehaviorTreeBuilder.createNodeFromConfig<T>(config.tree);
+            const rootNode = BehaviorTreeBuilder.createNodeFromConfig<T>(config.tree, context);
             const updatePeriod = config.metadata?.updatePeriod ?? 0.2;
 
             return new BehaviorTree<T>(context, rootNode, updatePeriod);
@@ -603,6 +755,7 @@ export class BehaviorTreeBuilder<T> {
      * @description 自动初始化黑板变量和构建节点树，提供一键式行为树创建
      * @param config JSON格式的行为树配置
      * @param context 执行上下文（可选，如果不提供将创建默认上下文）
+     * @param options 构建选项
      * @returns 包含行为树、黑板和增强上下文的结果对象
      * 
      * @example
@@ -618,24 +771,40 @@ export class BehaviorTreeBuilder<T> {
      */
     public static fromBehaviorTreeConfig<T extends ExecutionContext = ExecutionContext>(
         config: BehaviorTreeJSONConfig,
-        context?: T
+        context?: T,
+        options: BehaviorTreeBuildOptions = {}
     ): BehaviorTreeBuildResult<T> {
         try {
 
             // 验证配置
+            if (options.strict) {
+                const validation = validateBehaviorTreeConfig(config, {
+                    registry: BehaviorTreeBuilder.getNodeRegistry(context)
+                });
+                if (!validation.valid) {
+                    const errors = validation.issues.filter(issue => issue.severity === 'error');
+                    throw new Error(`配置验证失败，共${errors.length}个错误:\n${formatConfigIssues(errors)}`);
+                }
+            }
+
             if (!config || !config.nodes || config.nodes.length === 0) {
                 throw new Error('配置无效：缺少nodes属性或nodes为空');
             }
 
             // 创建黑板并初始化变量
-            const blackboard = new Blackboard();
+            const blackboard = options.blackboard || new Blackboard();
             if (config.blackboard && config.blackboard.length > 0) {
                 for (const variable of config.blackboard) {
+                    // 共享的黑板中已存在的变量保持原值
+                    if (options.blackboard && blackboard.hasVariable(variable.name)) {
+                        continue;
+                    }
+
                     // 映射类型字符串到枚举
-                    const blackboardType = BehaviorTreeBuilder.mapToBlackboardType(variable.type);
+                    const blackboardType = parseBlackboardValueType(variable.type);
 
                     // 转换值类型以匹配黑板期望的类型
-                    const convertedValue = BehaviorTreeBuilder.convertBlackboardValue(variable.value, blackboardType);
+                    const convertedValue = convertBlackboardValue(variable.value, blackboardType);
 
                     blackboard.defineVariable(
                         variable.name,
@@ -644,12 +813,32 @@ export class BehaviorTreeBuilder<T> {
                         {
                             description: variable.description,
                             group: variable.group || 'Default',
-                            readonly: variable.constraints?.readonly ?? false
+                            readonly: variable.constraints?.readonly ?? false,
+                            min: variable.constraints?.min,
+                            max: variable.constraints?.max,
+                            options: variable.constraints?.options
                         }
                     );
                 }
             }
 
+            // 端口对应的黑板变量未显式定义时自动定义
+            if (config.ports && config.ports.length > 0) {
+                for (const port of config.ports) {
+                    if (blackboard.hasVariable(port.name)) {
+                        continue;
+                    }
+
+                    const portType = parseBlackboardValueType(port.type);
+                    blackboard.defineVariable(
+                        port.name,
+                        portType,
+                        convertBlackboardValue(port.defaultValue, portType),
+                        { description: port.description, group: 'Ports' }
+                    );
+                }
+            }
+
             // 创建或增强执行上下文
             const enhancedContext = (context || {}) as T;
             enhancedContext.blackboard = blackboard;
@@ -669,11 +858,17 @@ export class BehaviorTreeBuilder<T> {
             }
 
             // 递归构建节点树
-            const rootNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(rootNodeConfig, nodeMap, enhancedContext);
+            const rootNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(rootNodeConfig, nodeMap, enhancedContext, options.treeLibrary);
 
             // 创建行为树
             const updatePeriod = config.metadata?.updatePeriod ?? 0.2;
             const tree = new BehaviorTree<T>(enhancedContext, rootNode, updatePeriod, false, blackboard);
+            if (options.randomSeed !== undefined) {
+                tree.getRandom().setSeed(options.randomSeed);
+            }
+            if (options.treeLibrary) {
+                tree.setTreeLibrary(options.treeLibrary);
+            }
 
             return { tree, blackboard, context: enhancedContext };
 
@@ -683,268 +878,26 @@ export class BehaviorTreeBuilder<T> {
         }
     }
 
-    /**
-     * 映射字符串类型到BlackboardValueType枚举
-     * @param typeString 类型字符串
-     * @returns 对应的黑板值类型枚举
-     */
-    private static mapToBlackboardType(typeString: string): BlackboardValueType {
-        switch (typeString.toLowerCase()) {
-            case 'string':
-                return BlackboardValueType.String;
-            case 'number':
-                return BlackboardValueType.Number;
-            case 'boolean':
-                return BlackboardValueType.Boolean;
-            case 'vector2':
-                return BlackboardValueType.Vector2;
-            case 'vector3':
-                return BlackboardValueType.Vector3;
-            case 'object':
-                return BlackboardValueType.Object;
-            case 'array':
-                return BlackboardValueType.Array;
-            default:
-                console.warn(`未知的变量类型: ${typeString}, 默认使用Object类型`);
-                return BlackboardValueType.Object;
-        }
-    }
-
-    /**
-     * 转换黑板变量值到正确的类型
-     * @param value 原始值（通常来自JSON，都是字符串）
-     * @param targetType 目标类型
-     * @returns 转换后的值
-     */
-    private static convertBlackboardValue(value: any, targetType: BlackboardValueType): any {
-        // 为不同类型提供合理的默认值
-        if (value === null || value === undefined || value === '') {
-            switch (targetType) {
-                case BlackboardValueType.String:
-                    return '';
-                case BlackboardValueType.Number:
-                    return 0;
-                case BlackboardValueType.Boolean:
-                    return false; // 布尔类型默认为false
-                case BlackboardValueType.Vector2:
-                    return { x: 0, y: 0 };
-                case BlackboardValueType.Vector3:
-                    return { x: 0, y: 0, z: 0 };
-                case BlackboardValueType.Object:
-                    return {};
-                case BlackboardValueType.Array:
-                    return [];
-                default:
-                    return null;
-            }
-        }
-
-        switch (targetType) {
-            case BlackboardValueType.String:
-                return String(value);
-
-            case BlackboardValueType.Number:
-                if (typeof value === 'string') {
-                    const num = parseFloat(value);
-                    if (isNaN(num)) {
-                        console.warn(`无法将 "${value}" 转换为数字，使用默认值 0`);
-                        return 0;
-                    }
-                    return num;
-                }
-                return typeof value === 'number' ? value : 0;
-
-            case BlackboardValueType.Boolean:
-                if (typeof value === 'string') {
-                    // 处理空字符串的情况
-                    if (value === '') return false;
-                    return value.toLowerCase() === 'true';
-                }
-                return Boolean(value);
-
-            case BlackboardValueType.Vector2:
-                if (typeof value === 'string') {
-                    try {
-                        const parsed = JSON.parse(value);
-                        return parsed && typeof parsed === 'object' && 'x' in parsed && 'y' in parsed
-                            ? parsed
-                            : { x: 0, y: 0 };
-                    } catch {
-                        console.warn(`无法解析Vector2值 "${value}"，使用默认值 {x:0, y:0}`);
-                        return { x: 0, y: 0 };
-                    }
-                }
-                return value && typeof value === 'object' && 'x' in value && 'y' in value
-                    ? value
-                    : { x: 0, y: 0 };
-
-            case BlackboardValueType.Vector3:
-                if (typeof value === 'string') {
-                    try {
-                        const parsed = JSON.parse(value);
-                        return parsed && typeof parsed === 'object' && 'x' in parsed && 'y' in parsed && 'z' in parsed
-                            ? parsed
-                            : { x: 0, y: 0, z: 0 };
-                    } catch {
-                        console.warn(`无法解析Vector3值 "${value}"，使用默认值 {x:0, y:0, z:0}`);
-                        return { x: 0, y: 0, z: 0 };
-                    }
-                }
-                return value && typeof value === 'object' && 'x' in value && 'y' in value && 'z' in value
-                    ? value
-                    : { x: 0, y: 0, z: 0 };
-
-            case BlackboardValueType.Object:
-                if (typeof value === 'string') {
-                    try {
-                        return JSON.parse(value);
-                    } catch {
-                        console.warn(`无法解析Object值 "${value}"，使用默认值 {}`);
-                        return {};
-                    }
-                }
-                return typeof value === 'object' ? value : {};
-
-            case BlackboardValueType.Array:
-                if (typeof value === 'string') {
-                    try {
-                        const parsed = JSON.parse(value);
-                        return Array.isArray(parsed) ? parsed : [];
-                    } catch {
-                        console.warn(`无法解析Array值 "${value}"，使用默认值 []`);
-                        return [];
-                    }
-                }
-                return Array.isArray(value) ? value : [];
-
-            default:
-                return value;
-        }
-    }
-
     /**
      * 从节点配置创建节点实例
      * @param nodeConfig 节点配置
+     * @param context 执行上下文
      * @returns 创建的节点实例
+     * @throws {Error} 当节点类型未在注册表中注册时抛出错误
      */
-    private static createNodeFromConfig<T>(nodeConfig: NodeConfig): Behavior<T> {
-
-        let node: Behavior<T>;
-
-        // 根据节点类型创建对应的节点实例
-        switch (nodeConfig.type) {
-            // 复合节点
-            case 'Sequence':
-                const sequenceAbortValue = nodeConfig.properties?.abortType?.value;
-                const sequenceAbortType = BehaviorTreeBuilder.getAbortType(
-                    typeof sequenceAbortValue === 'string' ? sequenceAbortValue : 'None'
-                );
-                node = new Sequence<T>(sequenceAbortType);
-                break;
-
-            case 'Selector':
-                const selectorAbortValue = nodeConfig.properties?.abortType?.value;
-                const selectorAbortType = BehaviorTreeBuilder.getAbortType(
-                    typeof selectorAbortValue === 'string' ? selectorAbortValue : 'None'
-                );
-                node = new Selector<T>(selectorAbortType);
-                break;
-
-            case 'Parallel':
-                node = new Parallel<T>();
-                break;
-
-            case 'ParallelSelector':
-                node = new ParallelSelector<T>();
-                break;
-
-            case 'RandomSelector':
-                node = new RandomSelector<T>();
-                break;
-
-            case 'RandomSequence':
-                node = new RandomSequence<T>();
-                break;
-
-            // 装饰器节点
-            case 'AlwaysSucceed':
-                node = new AlwaysSucceed<T>();
-                break;
-
-            case 'AlwaysFail':
-                node = new AlwaysFail<T>();
-                break;
-
-            case 'Inverter':
-                node = new Inverter<T>();
-                break;
-
-            case 'Repeater':
-                const countValue = nodeConfig.properties?.count?.value;
-                const count = typeof countValue === 'number' ? countValue : 1;
-                node = new Repeater<T>(count);
-                break;
-
-            case 'UntilSuccess':
-                node = new UntilSuccess<T>();
-                break;
-
-            case 'UntilFail':
-                node = new UntilFail<T>();
-                break;
-
-            // 动作节点
-            case 'LogAction':
-                const messageValue = nodeConfig.properties?.message?.value;
-                const message = typeof messageValue === 'string' ? messageValue : 'Default log message';
-                node = new LogAction<T>(message);
-                break;
-
-            case 'WaitAction':
-                const waitTimeValue = nodeConfig.properties?.waitTime?.value;
-                const waitTime = typeof waitTimeValue === 'number' ? waitTimeValue : 1.0;
-                node = new WaitAction<T>(waitTime);
-                break;
-
-            case 'ExecuteAction':
-                // 对于自定义动作，我们创建一个默认的执行函数
-                const actionCode = nodeConfig.properties?.actionCode?.value;
-                if (actionCode && typeof actionCode === 'string') {
-                    try {
-                        // 简单的代码执行（在实际项目中应该更安全地处理）
-                        const actionFunc = new Function('context', 'TaskStatus', `
-                            const { Success, Failure, Running } = TaskStatus;
-                            ${actionCode}
-                        `);
-                        node = new ExecuteAction<T>((context: T) => {
-                            try {
-                                return actionFunc(context, TaskStatus);
-                            } catch (error) {
-                                console.error('执行动作失败:', error);
-                                return TaskStatus.Failure;
-                            }
-                        });
-                    } catch (error) {
-                        console.warn('解析动作代码失败，使用默认动作:', error);
-                        node = new ExecuteAction<T>(() => TaskStatus.Success);
-                    }
-                } else {
-                    node = new ExecuteAction<T>(() => TaskStatus.Success);
-                }
-                break;
-
-            default:
-                console.warn('⚠️ 未知的节点类型:', nodeConfig.type, '，使用默认动作节点');
-                node = new ExecuteAction<T>(() => TaskStatus.Success);
-                break;
-        }
+    private static createNodeFromConfig<T>(nodeConfig: NodeConfig, context: T): Behavior<T> {
+        const node = BehaviorTreeBuilder.getNodeRegistry(context).create<T>(
+            nodeConfig.type,
+            nodeConfig.properties || {},
+            BehaviorTreeBuilder.createNodeBuildContext<T>(nodeConfig.id, context)
+        );
 
         // 为复合节点和装饰器添加子节点
         if (nodeConfig.children && nodeConfig.children.length > 0) {
             if (node instanceof Composite) {
                 // 复合节点可以有多个子节点
                 for (const childConfig of nodeConfig.children) {
-                    const childNode = BehaviorTreeBuilder.createNodeFromConfig<T>(childConfig);
+                    const childNode = BehaviorTreeBuilder.createNodeFromConfig<T>(childConfig, context);
                     (node as Composite<T>).addChild(childNode);
                 }
             } else if (node instanceof Decorator) {
@@ -952,7 +905,7 @@ export class BehaviorTreeBuilder<T> {
                 if (nodeConfig.children.length > 1) {
                     console.warn('⚠️ 装饰器节点只能有一个子节点，将使用第一个');
                 }
-                const childNode = BehaviorTreeBuilder.createNodeFromConfig<T>(nodeConfig.children[0]);
+                const childNode = BehaviorTreeBuilder.createNodeFromConfig<T>(nodeConfig.children[0], context);
                 (node as Decorator<T>).child = childNode;
             }
         }
@@ -960,586 +913,41 @@ export class BehaviorTreeBuilder<T> {
         return node;
     }
 
-    /**
-     * 解析中止类型字符串为枚举值
-     * @param value 中止类型字符串
-     * @returns 对应的中止类型枚举值
-     */
-    private static getAbortType(value: string): AbortTypes {
-        switch (value) {
-            case 'LowerPriority':
-                return AbortTypes.LowerPriority;
-            case 'Self':
-                return AbortTypes.Self;
-            case 'Both':
-                return AbortTypes.Both;
-            default:
-                return AbortTypes.None;
-        }
-    }
-
     /**
      * 从JSON节点配置创建节点实例
-     * @description 递归创建节点树，支持所有标准行为树节点类型
+     * @description 递归创建节点树，节点类型通过执行上下文中的nodeRegistry（默认为NodeTypeRegistry.getDefault()）解析
      * @param nodeConfig 当前节点配置
      * @param nodeMap 节点ID到配置的映射表
      * @param context 执行上下文
+     * @param treeLibrary 解析子树引用使用的子行为树库，未提供时使用上下文中的treeLibrary
      * @returns 创建的节点实例
+     * @throws {Error} 当节点类型未在注册表中注册时抛出错误
      */
-    private static createNodeFromJSONConfig<T extends { blackboard?: Blackboard }>(
+    public static createNodeFromJSONConfig<T extends { blackboard?: Blackboard }>(
         nodeConfig: BehaviorTreeNodeConfig,
         nodeMap: Map<string, BehaviorTreeNodeConfig>,
-        context: T
+        context: T,
+        treeLibrary?: IBehaviorTreeLibrary
     ): Behavior<T> {
-        let node: Behavior<T>;
-        const props = nodeConfig.properties || {};
-
-        // 根据节点类型创建对应的节点实例
-        switch (nodeConfig.type) {
-            // 根节点 - 通常是一个简单的传递节点
-            case 'root':
-                // 根节点本身不执行逻辑，直接处理第一个子节点
-                if (nodeConfig.children && nodeConfig.children.length > 0) {
-                    const firstChildId = nodeConfig.children[0];
-                    const firstChildConfig = nodeMap.get(firstChildId);
-                    if (firstChildConfig) {
-                        return BehaviorTreeBuilder.createNodeFromJSONConfig<T>(firstChildConfig, nodeMap, context);
-                    }
-                }
-                // 如果没有子节点，创建一个默认成功节点
-                node = new ExecuteAction<T>(() => TaskStatus.Success);
-                break;
-
-            // 复合节点
-            case 'selector':
-                const selectorAbortType = BehaviorTreeBuilder.getAbortType(String(props.abortType || 'None'));
-                node = new Selector<T>(selectorAbortType);
-                break;
-
-            case 'sequence':
-                const sequenceAbortType = BehaviorTreeBuilder.getAbortType(String(props.abortType || 'None'));
-                node = new Sequence<T>(sequenceAbortType);
-                break;
-
-            case 'parallel':
-                node = new Parallel<T>();
-                break;
-
-            case 'parallel-selector':
-                node = new ParallelSelector<T>();
-                break;
-
-            case 'random-selector':
-                node = new RandomSelector<T>();
-                break;
-
-            case 'random-sequence':
-                node = new RandomSequence<T>();
-                break;
-
-            // 装饰器节点
-            case 'repeater':
-                const countProp = props.count;
-                const count = typeof countProp === 'number' ? countProp : -1; // -1 表示无限重复
-                node = new Repeater<T>(count);
-                break;
-
-            case 'inverter':
-                node = new Inverter<T>();
-                break;
-
-            case 'always-succeed':
-                node = new AlwaysSucceed<T>();
-                break;
-
-            case 'always-fail':
-                node = new AlwaysFail<T>();
-                break;
-
-            case 'until-success':
-                node = new UntilSuccess<T>();
-                break;
-
-            case 'until-fail':
-                node = new UntilFail<T>();
-                break;
-
-            case 'conditional-decorator':
-                // 创建条件装饰器 - 使用新的条件工厂
-                let conditionConfig: ConditionConfig | undefined = nodeConfig.condition;
-                
-                // 根据conditionType属性确定条件类型
-                if (props.conditionType === 'blackboardCompare') {
-                    conditionConfig = { type: 'blackboard-value-comparison' };
-                } else if (props.conditionType === 'eventCondition') {
-                    conditionConfig = { type: 'event-condition' };
-                } else if (props.conditionType === 'custom') {
-                    conditionConfig = { type: 'condition-custom' };
-                }
-
-                // 使用条件工厂创建条件
-                const conditionalNode = ConditionFactory.createCondition(
-                    conditionConfig,
-                    props,
-                    context
-                );
-
-                const shouldReevaluateValue = BehaviorTreeBuilder.extractNestedValue(props.shouldReevaluate);
-                const shouldReevaluate = shouldReevaluateValue !== false && shouldReevaluateValue !== "false";
-                const abortType = BehaviorTreeBuilder.getAbortType(BehaviorTreeBuilder.extractNestedValue(props.abortType) || 'None');
-                node = new ConditionalDecorator<T>(conditionalNode, shouldReevaluate, abortType);
-                break;
-
-            // 动作节点
-            case 'log-action':
-                const message = props.message || 'Default log message';
-                // 支持变量替换
-                node = new ExecuteAction<T>((ctx: T) => {
-                    const blackboard = (ctx as any).blackboard;
-                    let finalMessage = message;
-
-                    // 简单的变量替换 {{variableName}}
-                    if (blackboard && typeof message === 'string') {
-                        finalMessage = message.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-                            const value = blackboard.getValue(varName);
-                            return value !== undefined ? String(value) : match;
-                        });
-                    }
-
-                    console.log(`[BehaviorTree] ${finalMessage}`);
-                    if ((ctx as any).log) {
-                        (ctx as any).log(finalMessage, props.logLevel || 'info');
-                    }
-                    return TaskStatus.Success;
-                });
-                break;
-
-            case 'wait-action':
-                const waitTimeProp = props.waitTime;
-                const waitTime = typeof waitTimeProp === 'number' ? waitTimeProp : 1.0;
-                node = new WaitAction<T>(waitTime);
-                break;
-
-            case 'behavior-tree-reference':
-                const subTreePath = props.subTreePath || props.treePath;
-                if (subTreePath && typeof subTreePath === 'string') {
-                    try {
-                        // 这里需要从路径加载子行为树
-                        // 在实际应用中，应该有一个行为树管理器来处理这个
-                        console.warn(`behavior-tree-reference节点需要实现子行为树加载机制: ${subTreePath}`);
-                        node = new ExecuteAction<T>((ctx: T) => {
-                            console.log(`执行子行为树引用: ${subTreePath}`);
-                            return TaskStatus.Success;
-                        });
-                    } catch (error) {
-                        console.error('加载子行为树失败:', error);
-                        node = new ExecuteAction<T>(() => TaskStatus.Failure);
-                    }
-                } else {
-                    console.warn('behavior-tree-reference节点缺少subTreePath属性');
-                    node = new ExecuteAction<T>(() => TaskStatus.Failure);
-                }
-                break;
-
-            case 'execute-action':
-                const actionCode = props.actionCode;
-                if (actionCode && typeof actionCode === 'string') {
-                    try {
-                        // 创建安全的执行函数
-                        const actionFunc = new Function('context', 'TaskStatus', `
-                            const { Success, Failure, Running, Invalid } = TaskStatus;
-                            try {
-                                ${actionCode}
-                            } catch (error) {
-                                console.error('动作执行错误:', error);
-                                return TaskStatus.Failure;
-                            }
-                        `);
-                        node = new ExecuteAction<T>((ctx: T) => {
-                            try {
-                                const result = actionFunc(ctx, TaskStatus);
-                                return result || TaskStatus.Success;
-                            } catch (error) {
-                                console.error('执行动作失败:', error);
-                                return TaskStatus.Failure;
-                            }
-                        });
-                    } catch (error) {
-                        console.warn('解析动作代码失败，使用默认动作:', error);
-                        node = new ExecuteAction<T>(() => TaskStatus.Success);
-                    }
-                } else {
-                    node = new ExecuteAction<T>(() => TaskStatus.Success);
-                }
-                break;
-
-            // 条件节点
-            case 'condition-random':
-                const probabilityProp = props.successProbability;
-                const probability = typeof probabilityProp === 'number' ? probabilityProp : 0.5;
-                node = new ExecuteActionConditional<T>(() => {
-                    return Math.random() < probability ? TaskStatus.Success : TaskStatus.Failure;
-                });
-                break;
-
-            case 'condition-custom':
-                const conditionCodeProp = props.conditionCode;
-                const conditionCode = typeof conditionCodeProp === 'string' ? conditionCodeProp :
-                    (typeof conditionCodeProp === 'object' && conditionCodeProp && 'value' in conditionCodeProp ?
-                        String((conditionCodeProp as { value: unknown }).value) : undefined);
-                if (conditionCode && typeof conditionCode === 'string') {
-                    try {
-                        const condFunc = new Function('context', `
-                            try {
-                                ${conditionCode}
-                            } catch (error) {
-                                console.error('条件检查错误:', error);
-                                return false;
-                            }
-                        `);
-                        node = new ExecuteActionConditional<T>((ctx: T) => {
-                            try {
-                                const result = condFunc(ctx);
-                                return result ? TaskStatus.Success : TaskStatus.Failure;
-                            } catch (error) {
-                                console.error('条件检查失败:', error);
-                                return TaskStatus.Failure;
-                            }
-                        });
-                    } catch (error) {
-                        console.warn('解析条件代码失败:', error);
-                        node = new ExecuteActionConditional<T>(() => TaskStatus.Failure);
-                    }
-                } else {
-                    node = new ExecuteActionConditional<T>(() => TaskStatus.Success);
-                }
-                break;
-
-
-
-            case 'condition-numeric':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new NumericComparison<T>(
-                        String(props.propertyPath || 'value'),
-                        String(props.compareOperator || 'equal') as 'greater' | 'less' | 'equal' | 'greaterEqual' | 'lessEqual' | 'notEqual',
-                        Number(props.compareValue) || 0
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            case 'condition-property':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new PropertyExists<T>(String(props.propertyPath || 'property'));
-                    return conditional.update(ctx);
-                });
-                break;
-
-            // 事件驱动节点
-            case 'event-action':
-                const eventActionName = props.eventName;
-                if (eventActionName && typeof eventActionName === 'string') {
-                    node = new ExecuteAction<T>((ctx: T) => {
-                        try {
-                            // 从上下文中获取事件注册表
-                            const eventRegistry = (ctx as any).eventRegistry;
-                            if (!eventRegistry) {
-                                console.warn(`[event-action] 未找到事件注册表，请在执行上下文中提供 eventRegistry`);
-                                return TaskStatus.Failure;
-                            }
-
-                            // 获取事件处理器
-                            const handler = eventRegistry.getActionHandler ?
-                                eventRegistry.getActionHandler(eventActionName) :
-                                eventRegistry.handlers?.get(eventActionName);
-
-                            if (!handler) {
-                                console.warn(`[event-action] 未找到事件处理器: ${eventActionName}`);
-                                return TaskStatus.Failure;
-                            }
-
-                            // 解析参数
-                            let parameters = {};
-                            if (props.parameters) {
-                                if (typeof props.parameters === 'string') {
-                                    try {
-                                        parameters = JSON.parse(props.parameters);
-                                    } catch (e) {
-                                        console.warn(`[event-action] 参数解析失败: ${props.parameters}`);
-                                    }
-                                } else {
-                                    parameters = props.parameters;
-                                }
-
-                                // 支持黑板变量替换
-                                const blackboard = (ctx as any).blackboard;
-                                if (blackboard) {
-                                    parameters = BehaviorTreeBuilder.replaceBlackboardVariables(parameters, blackboard);
-                                }
-                            }
-
-                            // 执行事件处理器
-                            const result = handler(ctx, parameters);
-
-                            // 处理异步结果
-                            if (result instanceof Promise) {
-                                if (props.async !== false) {
-                                    result.then((asyncResult) => {
-                                        console.log(`[event-action] 异步事件 ${eventActionName} 完成: ${asyncResult}`);
-                                    }).catch((error) => {
-                                        console.error(`[event-action] 异步事件 ${eventActionName} 失败:`, error);
-                                    });
-                                    return TaskStatus.Running;
-                                } else {
-                                    console.warn(`[event-action] 事件 ${eventActionName} 返回Promise但未标记为异步，将阻塞执行`);
-                                    return TaskStatus.Running;
-                                }
-                            }
-
-                            // 处理同步结果
-                            if (typeof result === 'string') {
-                                switch (result.toLowerCase()) {
-                                    case 'success': return TaskStatus.Success;
-                                    case 'failure': return TaskStatus.Failure;
-                                    case 'running': return TaskStatus.Running;
-                                    default: return TaskStatus.Success;
-                                }
-                            }
-
-                            return result === true ? TaskStatus.Success :
-                                result === false ? TaskStatus.Failure : TaskStatus.Success;
-
-                        } catch (error) {
-                            console.error(`[event-action] 事件 ${eventActionName} 执行失败:`, error);
-                            return TaskStatus.Failure;
-                        }
-                    });
-                } else {
-                    console.warn('[event-action] 缺少 eventName 属性');
-                    node = new ExecuteAction<T>(() => TaskStatus.Failure);
-                }
-                break;
-
-            case 'event-condition':
-                const eventConditionName = props.eventName;
-                if (eventConditionName && typeof eventConditionName === 'string') {
-                    node = new ExecuteActionConditional<T>((ctx: T) => {
-                        try {
-                            // 从上下文中获取事件注册表
-                            const eventRegistry = (ctx as any).eventRegistry;
-                            if (!eventRegistry) {
-                                console.warn(`[event-condition] 未找到事件注册表，请在执行上下文中提供 eventRegistry`);
-                                return TaskStatus.Failure;
-                            }
-
-                            // 获取条件处理器
-                            const checker = eventRegistry.getConditionHandler ?
-                                eventRegistry.getConditionHandler(eventConditionName) :
-                                eventRegistry.handlers?.get(eventConditionName);
-
-                            if (!checker) {
-                                console.warn(`[event-condition] 未找到条件处理器: ${eventConditionName}`);
-                                return TaskStatus.Failure;
-                            }
-
-                            // 解析参数
-                            let parameters = {};
-                            if (props.parameters) {
-                                if (typeof props.parameters === 'string') {
-                                    try {
-                                        parameters = JSON.parse(props.parameters);
-                                    } catch (e) {
-                                        console.warn(`[event-condition] 参数解析失败: ${props.parameters}`);
-                                    }
-                                } else {
-                                    parameters = props.parameters;
-                                }
-
-                                // 支持黑板变量替换
-                                const blackboard = (ctx as any).blackboard;
-                                if (blackboard) {
-                                    parameters = BehaviorTreeBuilder.replaceBlackboardVariables(parameters, blackboard);
-                                }
-                            }
-
-                            // 执行条件检查
-                            const result = checker(ctx, parameters);
-
-                            // 处理异步结果
-                            if (result instanceof Promise) {
-                                console.warn(`[event-condition] 条件 ${eventConditionName} 返回Promise，条件节点不支持异步操作`);
-                                return TaskStatus.Failure;
-                            }
-
-                            return result ? TaskStatus.Success : TaskStatus.Failure;
-
-                        } catch (error) {
-                            console.error(`[event-condition] 条件 ${eventConditionName} 检查失败:`, error);
-                            return TaskStatus.Failure;
-                        }
-                    });
-                } else {
-                    console.warn('[event-condition] 缺少 eventName 属性');
-                    node = new ExecuteActionConditional<T>(() => TaskStatus.Failure);
-                }
-                break;
-
-            // ========== 黑板动作节点 ==========
-            case 'set-blackboard-value':
-                const rawVariableName = String(props.variableName || 'variable');
-                // 清理变量名，移除黑板变量引用语法 {{variableName}}
-                const setVariableName = rawVariableName.replace(/^\{\{|\}\}$/g, '');
-                const setValue = props.value;
-                const setSourceVariable = props.sourceVariable ? String(props.sourceVariable).replace(/^\{\{|\}\}$/g, '') : undefined;
-                const setForce = props.force === true;
-                node = new SetBlackboardValue<T>(setVariableName, setValue, setSourceVariable, setForce);
-                break;
-
-            case 'add-to-blackboard':
-            case 'add-blackboard-value':
-                node = new AddToBlackboardValue<T>(
-                    String(props.variableName || 'variable'),
-                    Number(props.increment) || 1,
-                    props.incrementVariable ? String(props.incrementVariable) : undefined
-                );
-                break;
-
-            case 'toggle-blackboard-bool':
-                node = new ToggleBlackboardBool<T>(String(props.variableName || 'variable'));
-                break;
-
-            case 'reset-blackboard-variable':
-                node = new ResetBlackboardVariable<T>(String(props.variableName || 'variable'));
-                break;
-
-            case 'math-blackboard-operation':
-                const mathOperation = String(props.operation || 'add');
-                const mathOperand2Value = typeof props.operand2 === 'string' ? props.operand2 : Number(props.operand2 || 0);
-                node = new MathBlackboardOperation<T>(
-                    String(props.targetVariable || 'result'),
-                    String(props.operand1Variable || 'operand1'),
-                    mathOperand2Value,
-                    MathOperation[mathOperation as keyof typeof MathOperation] || MathOperation.Add
-                );
-                break;
-
-            case 'log-blackboard-value':
-                node = new LogBlackboardValue<T>(
-                    String(props.variableName || 'variable'),
-                    String(props.prefix || '[Blackboard]')
-                );
-                break;
-
-            case 'wait-blackboard-condition':
-                const waitVarName = String(props.variableName || 'variable');
-                const expectedValue = props.expectedValue;
-                node = new WaitForBlackboardCondition<T>(waitVarName, expectedValue);
-                break;
-
-            // ========== 黑板条件节点 ==========
-            case 'blackboard-value-comparison':
-                const operatorStr = String(props.operator || props.compareOperator || 'equal');
-                // 映射操作符字符串到枚举
-                let operator: CompareOperator;
-                switch (operatorStr.toLowerCase()) {
-                    case 'equal': operator = CompareOperator.Equal; break;
-                    case 'notequal': case 'not_equal': operator = CompareOperator.NotEqual; break;
-                    case 'greater': operator = CompareOperator.Greater; break;
-                    case 'greaterorequal': case 'greater_or_equal': operator = CompareOperator.GreaterOrEqual; break;
-                    case 'less': operator = CompareOperator.Less; break;
-                    case 'lessorequal': case 'less_or_equal': operator = CompareOperator.LessOrEqual; break;
-                    case 'contains': operator = CompareOperator.Contains; break;
-                    case 'notcontains': case 'not_contains': operator = CompareOperator.NotContains; break;
-                    default: operator = CompareOperator.Equal; break;
-                }
-
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new BlackboardValueComparison<T>(
-                        String(props.variableName || 'variable'),
-                        operator,
-                        props.compareValue,
-                        props.compareVariable ? String(props.compareVariable) : undefined
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            case 'blackboard-variable-exists':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new BlackboardVariableExists<T>(
-                        String(props.variableName || 'variable'),
-                        props.invert === true
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            case 'blackboard-variable-type-check':
-                const expectedTypeStr = String(props.expectedType || 'string');
-                // 映射类型字符串到枚举
-                const expectedType = BehaviorTreeBuilder.mapToBlackboardType(expectedTypeStr);
-
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new BlackboardVariableTypeCheck<T>(
-                        String(props.variableName || 'variable'),
-                        expectedType
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            case 'blackboard-variable-range-check':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new BlackboardVariableRangeCheck<T>(
-                        String(props.variableName || 'variable'),
-                        Number(props.minValue) || 0,
-                        Number(props.maxValue) || 100
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            // ========== 通用条件节点 ==========
-            case 'numeric-comparison':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new NumericComparison<T>(
-                        String(props.propertyPath || 'value'),
-                        String(props.compareOperator || 'equal') as 'greater' | 'less' | 'equal' | 'greaterEqual' | 'lessEqual' | 'notEqual',
-                        Number(props.compareValue) || 0
-                    );
-                    return conditional.update(ctx);
-                });
-                break;
-
-            case 'property-exists':
-                node = new ExecuteActionConditional<T>((ctx: T) => {
-                    const conditional = new PropertyExists<T>(String(props.propertyPath || 'property'));
-                    return conditional.update(ctx);
-                });
-                break;
-
-
-
-            // ========== 高级装饰器节点 ==========
-            case 'cooldown':
-                const cooldownTime = Number(props.cooldownTime) || 1.0;
-                node = new CooldownDecorator<T>(cooldownTime);
-                break;
-
-            case 'timeout':
-                const timeoutDuration = Number(props.timeoutDuration) || 5.0;
-                node = new TimeoutDecorator<T>(timeoutDuration);
-                break;
+        // 根节点本身不执行逻辑，直接处理第一个子节点
+        if (nodeConfig.type === 'root') {
+            const firstChildId = nodeConfig.children?.[0];
+            const firstChildConfig = firstChildId !== undefined ? nodeMap.get(firstChildId) : undefined;
+            if (firstChildConfig) {
+                return BehaviorTreeBuilder.createNodeFromJSONConfig<T>(firstChildConfig, nodeMap, context, treeLibrary);
+            }
 
-            case 'chance':
-                const successChance = Number(props.successChance) || 0.5;
-                node = new ChanceDecorator<T>(successChance);
-                break;
+            // 如果没有子节点，创建一个默认成功节点
+            return new ExecuteAction<T>(() => TaskStatus.Success);
+        }
 
-            default:
-                console.warn('⚠️ 未知的节点类型:', nodeConfig.type, '，使用默认成功节点');
-                node = new ExecuteAction<T>(() => TaskStatus.Success);
-                break;
+        const node = BehaviorTreeBuilder.getNodeRegistry(context).create<T>(
+            nodeConfig.type,
+            nodeConfig.properties || {},
+            BehaviorTreeBuilder.createNodeBuildContext<T>(nodeConfig.id, context, nodeConfig.condition, nodeConfig.name, treeLibrary)
+        );
+        if (nodeConfig.tags && nodeConfig.tags.length > 0) {
+            node.tags = [...nodeConfig.tags];
         }
 
         // 为复合节点和装饰器添加子节点
@@ -1549,7 +957,7 @@ export class BehaviorTreeBuilder<T> {
                 for (const childId of nodeConfig.children) {
                     const childConfig = nodeMap.get(childId);
                     if (childConfig) {
-                        const childNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(childConfig, nodeMap, context);
+                        const childNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(childConfig, nodeMap, context, treeLibrary);
                         (node as Composite<T>).addChild(childNode);
                     } else {
                         console.warn(`⚠️ 未找到子节点配置: ${childId}`);
@@ -1563,7 +971,7 @@ export class BehaviorTreeBuilder<T> {
                 const childId = nodeConfig.children[0];
                 const childConfig = nodeMap.get(childId);
                 if (childConfig) {
-                    const childNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(childConfig, nodeMap, context);
+                    const childNode = BehaviorTreeBuilder.createNodeFromJSONConfig<T>(childConfig, nodeMap, context, treeLibrary);
                     (node as Decorator<T>).child = childNode;
                 } else {
                     console.warn(`⚠️ 未找到子节点配置: ${childId}`);
@@ -1574,6 +982,161 @@ export class BehaviorTreeBuilder<T> {
         return node;
     }
 
+    /**
+     * 获取执行上下文使用的节点类型注册表
+     * @param context 执行上下文
+     * @returns 上下文中的nodeRegistry，未提供时返回默认注册表
+     */
+    private static getNodeRegistry(context: unknown): NodeTypeRegistry {
+        return (context as ExecutionContext | undefined)?.nodeRegistry || NodeTypeRegistry.getDefault();
+    }
+
+    /**
+     * 创建传递给节点工厂的构建上下文
+     * @param nodeId 节点ID
+     * @param context 执行上下文
+     * @param condition 节点的条件配置
+     * @param nodeName 节点名称
+     * @param treeLibrary 子行为树库
+     * @returns 节点构建上下文
+     */
+    private static createNodeBuildContext<T>(
+        nodeId: string,
+        context: T,
+        condition?: ConditionConfig,
+        nodeName?: string,
+        treeLibrary?: IBehaviorTreeLibrary
+    ): NodeBuildContext<T> {
+        return {
+            context,
+            nodeId,
+            nodeName,
+            condition,
+            createSubTreeReference: (subTreePath, shareBlackboard, remapping) =>
+                BehaviorTreeBuilder.createSubTreeReference(
+                    subTreePath,
+                    shareBlackboard,
+                    context as T & { blackboard?: Blackboard },
+                    remapping as Record<string, NodePropertyValue> | undefined,
+                    treeLibrary
+                )
+        };
+    }
+
+    /**
+     * 创建子行为树引用节点
+     * @description 从构建选项或上下文中的treeLibrary加载子树配置，并构建独立的子行为树实例
+     * @param subTreePath 子树路径或名称
+     * @param shareBlackboard 是否与父树共享黑板，否则子树使用独立的黑板
+     * @param context 父树的执行上下文
+     * @param remapping 端口映射表，值为"{{parentKey}}"时绑定父树黑板变量，否则作为常量
+     * @param optionsLibrary 构建选项中的子行为树库，优先于上下文中的treeLibrary
+     * @returns 子行为树引用节点
+     * @throws {Error} 当缺少treeLibrary、子树不存在或子树之间存在循环引用时抛出错误
+     */
+    private static createSubTreeReference<T extends { blackboard?: Blackboard }>(
+        subTreePath: string,
+        shareBlackboard: boolean,
+        context: T,
+        remapping?: Record<string, NodePropertyValue>,
+        optionsLibrary?: IBehaviorTreeLibrary
+    ): BehaviorTreeReference<T> {
+        const treeLibrary = optionsLibrary ?? (context as ExecutionContext).treeLibrary;
+        if (!treeLibrary) {
+            throw new Error(`加载子行为树 "${subTreePath}" 失败：构建选项和上下文中都未提供treeLibrary`);
+        }
+
+        // 子树上下文继承父上下文，因此可以读取到从根行为树开始的子树引用链
+        const chain = ((context as Record<symbol, unknown>)[subTreeChainKey] as string[] | undefined) ?? [];
+        if (chain.includes(subTreePath)) {
+            const cycle = [...chain.slice(chain.indexOf(subTreePath)), subTreePath].join(' -> ');
+            throw new Error(`检测到子行为树循环引用: ${cycle}`);
+        }
+
+        const subTreeConfig = treeLibrary.resolve(subTreePath);
+        if (!subTreeConfig) {
+            throw new Error(`未找到子行为树: ${subTreePath}`);
+        }
+
+        // 子树使用继承父上下文的独立上下文对象，避免覆盖父上下文中的黑板引用
+        const subTreeContext = Object.create(context) as T & ExecutionContext;
+        (subTreeContext as Record<symbol, unknown>)[subTreeChainKey] = [...chain, subTreePath];
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(
+            subTreeConfig,
+            subTreeContext,
+            { blackboard: shareBlackboard ? context.blackboard : undefined, treeLibrary: optionsLibrary }
+        );
+
+        const portBindings = BehaviorTreeBuilder.createPortBindings(
+            subTreePath,
+            subTreeConfig.ports || [],
+            remapping || {},
+            context.blackboard
+        );
+
+        return new BehaviorTreeReference<T>(tree, portBindings, shareBlackboard);
+    }
+
+    /**
+     * 根据端口映射表创建子树端口绑定
+     * @param subTreePath 子树路径或名称（用于错误信息）
+     * @param ports 子树声明的端口
+     * @param remapping 端口映射表
+     * @param parentBlackboard 父树黑板
+     * @returns 端口绑定列表，未映射的端口使用子树中的默认值
+     * @throws {Error} 当映射了未声明的端口、父树变量不存在或类型不匹配、或为输出端口映射常量时抛出错误
+     */
+    private static createPortBindings(
+        subTreePath: string,
+        ports: BehaviorTreePortConfig[],
+        remapping: Record<string, NodePropertyValue>,
+        parentBlackboard?: Blackboard
+    ): SubTreePortBinding[] {
+        for (const portName of Object.keys(remapping)) {
+            if (!ports.some(port => port.name === portName)) {
+                throw new Error(`子行为树 "${subTreePath}" 没有声明端口: ${portName}`);
+            }
+        }
+
+        const bindings: SubTreePortBinding[] = [];
+        for (const port of ports) {
+            const mapped = remapping[port.name];
+            if (mapped === undefined) {
+                continue;
+            }
+
+            const portType = parseBlackboardValueType(port.type);
+            const parentKeyMatch = typeof mapped === 'string' ? mapped.match(/^{{\s*(\w+)\s*}}$/) : null;
+
+            if (parentKeyMatch) {
+                const parentKey = parentKeyMatch[1]!;
+                const parentVariable = parentBlackboard?.getVariableDefinition(parentKey);
+                if (!parentVariable) {
+                    throw new Error(`子行为树 "${subTreePath}" 的端口 "${port.name}" 绑定的父树黑板变量不存在: ${parentKey}`);
+                }
+                if (parentVariable.type !== portType) {
+                    throw new Error(
+                        `子行为树 "${subTreePath}" 的端口 "${port.name}" 类型 "${portType}" 与父树黑板变量 "${parentKey}" 的类型 "${parentVariable.type}" 不匹配`
+                    );
+                }
+
+                bindings.push({ port: port.name, direction: port.direction, parentKey });
+            } else {
+                if (port.direction !== 'input') {
+                    throw new Error(`子行为树 "${subTreePath}" 的输出端口 "${port.name}" 必须绑定父树黑板变量`);
+                }
+
+                bindings.push({
+                    port: port.name,
+                    direction: port.direction,
+                    value: convertBlackboardValue(mapped, portType)
+                });
+            }
+        }
+
+        return bindings;
+    }
+
     /**
      * 创建条件函数
      * @param condition 条件配置
@@ -1618,75 +1181,4 @@ export class BehaviorTreeBuilder<T> {
 
         return () => TaskStatus.Success;
     }
-
-    /**
-     * 替换对象中的黑板变量引用
-     * @param obj 要处理的对象
-     * @param blackboard 黑板实例
-     * @returns 替换后的对象
-     */
-    private static replaceBlackboardVariables(obj: any, blackboard: any): any {
-        if (obj === null || obj === undefined) {
-            return obj;
-        }
-
-        if (typeof obj === 'string') {
-            // 检查是否是纯黑板变量引用（如 "{{variableName}}"）
-            const pureVariableMatch = obj.match(/^{{\s*(\w+)\s*}}$/);
-            if (pureVariableMatch) {
-                // 纯变量引用，返回原始类型的值
-                const varName = pureVariableMatch[1];
-                const value = blackboard.getValue(varName);
-                if (value !== undefined) {
-                    return value; // 保持原始类型
-                }
-                return obj; // 变量不存在，返回原字符串
-            }
-
-            // 包含变量的字符串模板，进行字符串替换
-            return obj.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-                const value = blackboard.getValue(varName);
-                return value !== undefined ? String(value) : match;
-            });
-        }
-
-        if (Array.isArray(obj)) {
-            // 处理数组
-            return obj.map(item => BehaviorTreeBuilder.replaceBlackboardVariables(item, blackboard));
-        }
-
-        if (typeof obj === 'object') {
-            // 处理对象
-            const result: any = {};
-            for (const [key, value] of Object.entries(obj)) {
-                result[key] = BehaviorTreeBuilder.replaceBlackboardVariables(value, blackboard);
-            }
-            return result;
-        }
-
-        return obj;
-    }
-
-    /**
-     * 提取嵌套属性值
-     * @param prop 属性配置对象或直接值
-     * @returns 提取的值
-     */
-    private static extractNestedValue(prop: any): any {
-        if (prop === null || prop === undefined) {
-            return prop;
-        }
-
-        // 如果是简单值，直接返回
-        if (typeof prop !== 'object') {
-            return prop;
-        }
-
-        // 如果有value属性，递归提取
-        if ('value' in prop) {
-            return BehaviorTreeBuilder.extractNestedValue(prop.value);
-        }
-
-        return prop;
-    }
 }
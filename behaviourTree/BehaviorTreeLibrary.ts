@@ -0,0 +1,417 @@
+import {
+    BehaviorTreeBuilder,
+    BehaviorTreeBuildOptions,
+    BehaviorTreeBuildResult,
+    BehaviorTreeJSONConfig,
+    ExecutionContext,
+    IBehaviorTreeLibrary
+} from './BehaviorTreeBuilder';
+import { NodeTypeRegistry } from './factories/NodeTypeRegistry';
+import {
+    ConfigValidationResult,
+    formatConfigIssues,
+    validateBehaviorTreeConfig
+} from './serialization/BehaviorTreeConfigValidator';
+
+/**
+ * 行为树定义来源，可以是配置对象或JSON字符串
+ */
+export type BehaviorTreeDefinitionSource = BehaviorTreeJSONConfig | string;
+
+/**
+ * 行为树加载函数
+ * @description 根据名称加载行为树定义，可以同步返回或返回Promise（例如读取文件或网络请求），
+ * 找不到时返回undefined
+ * @param name 行为树名称
+ */
+export type BehaviorTreeLoader = (
+    name: string
+) => BehaviorTreeDefinitionSource | undefined | Promise<BehaviorTreeDefinitionSource | undefined>;
+
+/**
+ * 行为树资源库
+ *
+ * @description
+ * 按名称管理行为树JSON配置，解析后的定义会被缓存，每次实例化都会从缓存的定义构建新的节点树，
+ * 因此同一个定义可以安全地为多个代理创建独立的行为树实例。
+ * - 通过register()直接注册配置，或通过加载函数按需加载
+ * - 作为IBehaviorTreeLibrary为behavior-tree-reference节点按名称解析子树
+ * - 检测子树之间的循环引用
+ *
+ * @example
+ * ```typescript
+ * const library = new BehaviorTreeLibrary(name => fs.readFileSync(`trees/${name}.json`, 'utf-8'));
+ * library.register('patrol', patrolConfig);
+ *
+ * const { tree } = library.instantiate('guard', { agent });
+ *
+ * // 异步加载函数需要先预加载
+ * const remoteLibrary = new BehaviorTreeLibrary(name => fetch(`/trees/${name}.json`).then(r => r.text()));
+ * await remoteLibrary.load('boss');
+ * const boss = remoteLibrary.instantiate('boss', { agent });
+ * ```
+ */
+export class BehaviorTreeLibrary implements IBehaviorTreeLibrary {
+    /** 已解析的行为树定义缓存 */
+    private readonly _definitions = new Map<string, BehaviorTreeJSONConfig>();
+
+    /** 已缓存的验证结果：行为树名称 → 节点类型注册表 → 验证结果 */
+    private readonly _validations = new Map<string, Map<NodeTypeRegistry, ConfigValidationResult>>();
+
+    /** 已通过循环引用检查的定义名称 */
+    private readonly _verified = new Set<string>();
+
+    /** 正在进行的异步加载 */
+    private readonly _pendingLoads = new Map<string, Promise<BehaviorTreeJSONConfig>>();
+
+    /** 加载函数 */
+    private _loader: BehaviorTreeLoader | null;
+
+    /**
+     * 创建行为树资源库
+     * @param loader 可选的加载函数，用于加载未注册的行为树
+     */
+    constructor(loader?: BehaviorTreeLoader) {
+        this._loader = loader ?? null;
+    }
+
+    /**
+     * 设置加载函数
+     * @param loader 加载函数，为null时只能使用已注册的定义
+     */
+    public setLoader(loader: BehaviorTreeLoader | null): void {
+        this._loader = loader;
+    }
+
+    /**
+     * 注册行为树定义
+     * @description 已存在同名定义时会被替换
+     * @param name 行为树名称
+     * @param source 配置对象或JSON字符串
+     * @throws {Error} 当定义无法解析或缺少节点时抛出错误
+     */
+    public register(name: string, source: BehaviorTreeDefinitionSource): void {
+        this._definitions.set(name, BehaviorTreeLibrary.parseDefinition(name, source));
+        this._validations.delete(name);
+        this._verified.clear();
+    }
+
+    /**
+     * 移除行为树定义
+     * @param name 行为树名称
+     * @returns 是否存在并移除了该定义
+     */
+    public unregister(name: string): boolean {
+        this._verified.clear();
+        this._validations.delete(name);
+        return this._definitions.delete(name);
+    }
+
+    /**
+     * 检查是否已缓存指定的行为树定义
+     * @param name 行为树名称
+     */
+    public has(name: string): boolean {
+        return this._definitions.has(name);
+    }
+
+    /**
+     * 获取所有已缓存的行为树名称
+     */
+    public getNames(): string[] {
+        return Array.from(this._definitions.keys());
+    }
+
+    /**
+     * 清空所有缓存的定义
+     */
+    public clear(): void {
+        this._definitions.clear();
+        this._validations.clear();
+        this._verified.clear();
+        this._pendingLoads.clear();
+    }
+
+    /**
+     * 解析行为树定义
+     * @description 未缓存的定义会通过同步加载函数加载，并检查循环引用
+     * @param name 行为树名称
+     * @returns 行为树定义，不存在时返回undefined
+     * @throws {Error} 当存在循环引用，或加载函数返回Promise（需要先调用load()）时抛出错误
+     */
+    public resolve(name: string): BehaviorTreeJSONConfig | undefined {
+        const definition = this.getDefinitionSync(name);
+        if (definition && !this._verified.has(name)) {
+            this.checkCircularReferences(name, []);
+        }
+
+        return definition;
+    }
+
+    /**
+     * 异步加载行为树定义及其引用的所有子树
+     * @description 加载完成后可以同步地实例化该行为树
+     * @param name 行为树名称
+     * @returns 行为树定义
+     * @throws {Error} 当定义不存在、无法解析或存在循环引用时抛出错误
+     */
+    public async load(name: string): Promise<BehaviorTreeJSONConfig> {
+        await this.loadRecursive(name, new Set<string>());
+        this.checkCircularReferences(name, []);
+        return this._definitions.get(name)!;
+    }
+
+    /**
+     * 获取行为树定义直接引用的子树名称
+     * @param name 行为树名称
+     * @returns 子树名称列表（已去重）
+     * @throws {Error} 当定义不存在时抛出错误
+     */
+    public getDependencies(name: string): string[] {
+        const definition = this.getDefinitionSync(name);
+        if (!definition) {
+            throw new Error(`未找到行为树: ${name}`);
+        }
+
+        return BehaviorTreeLibrary.collectReferences(definition);
+    }
+
+    /**
+     * 验证行为树定义
+     * @description 验证结果按节点类型注册表缓存，同一个定义只会验证一次
+     * @param name 行为树名称
+     * @param registry 节点类型注册表，默认为NodeTypeRegistry.getDefault()
+     * @returns 验证结果
+     * @throws {Error} 当定义不存在时抛出错误
+     */
+    public validate(name: string, registry: NodeTypeRegistry = NodeTypeRegistry.getDefault()): ConfigValidationResult {
+        const definition = this.getDefinitionSync(name);
+        if (!definition) {
+            throw new Error(`未找到行为树: ${name}`);
+        }
+
+        let validations = this._validations.get(name);
+        if (!validations) {
+            validations = new Map();
+            this._validations.set(name, validations);
+        }
+
+        let result = validations.get(registry);
+        if (!result) {
+            result = validateBehaviorTreeConfig(definition, { registry });
+            validations.set(registry, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * 从缓存的定义实例化行为树
+     * @description 每次调用都会创建新的节点树和黑板，适合为每个代理创建独立的实例。
+     * 子树引用通过构建选项中的treeLibrary解析，不会修改传入的上下文的treeLibrary；
+     * 严格模式下使用缓存的验证结果，不会在每次实例化时重新验证
+     * @param name 行为树名称
+     * @param context 执行上下文
+     * @param options 构建选项，未提供treeLibrary时优先使用上下文中的treeLibrary，其次使用当前资源库
+     * @returns 构建结果
+     * @throws {Error} 当定义不存在、存在循环引用或严格模式下验证失败时抛出错误
+     */
+    public instantiate<T extends ExecutionContext = ExecutionContext>(
+        name: string,
+        context?: T,
+        options: BehaviorTreeBuildOptions = {}
+    ): BehaviorTreeBuildResult<T> {
+        const definition = this.resolve(name);
+        if (!definition) {
+            throw new Error(`未找到行为树: ${name}`);
+        }
+
+        if (options.strict) {
+            const validation = this.validate(name, context?.nodeRegistry);
+            if (!validation.valid) {
+                const errors = validation.issues.filter(issue => issue.severity === 'error');
+                throw new Error(`行为树 "${name}" 配置验证失败，共${errors.length}个错误:\n${formatConfigIssues(errors)}`);
+            }
+        }
+
+        return BehaviorTreeBuilder.fromBehaviorTreeConfig<T>(definition, context, {
+            ...options,
+            strict: false,
+            treeLibrary: options.treeLibrary ?? context?.treeLibrary ?? this
+        });
+    }
+
+    /**
+     * 异步加载并实例化行为树
+     * @param name 行为树名称
+     * @param context 执行上下文
+     * @param options 构建选项
+     * @returns 构建结果
+     */
+    public async instantiateAsync<T extends ExecutionContext = ExecutionContext>(
+        name: string,
+        context?: T,
+        options: BehaviorTreeBuildOptions = {}
+    ): Promise<BehaviorTreeBuildResult<T>> {
+        await this.load(name);
+        return this.instantiate<T>(name, context, options);
+    }
+
+    /**
+     * 同步获取定义，必要时通过加载函数加载
+     */
+    private getDefinitionSync(name: string): BehaviorTreeJSONConfig | undefined {
+        const cached = this._definitions.get(name);
+        if (cached || !this._loader) {
+            return cached;
+        }
+
+        const source = this._loader(name);
+        if (BehaviorTreeLibrary.isPromiseLike(source)) {
+            // 避免未处理的Promise拒绝
+            source.then(undefined, () => undefined);
+            throw new Error(`行为树 "${name}" 需要异步加载，请先调用load()`);
+        }
+
+        if (source === undefined) {
+            return undefined;
+        }
+
+        const definition = BehaviorTreeLibrary.parseDefinition(name, source);
+        this._definitions.set(name, definition);
+        return definition;
+    }
+
+    /**
+     * 递归加载定义及其引用的子树
+     */
+    private async loadRecursive(name: string, visited: Set<string>): Promise<void> {
+        if (visited.has(name)) {
+            return;
+        }
+        visited.add(name);
+
+        const definition = await this.loadDefinition(name);
+        for (const reference of BehaviorTreeLibrary.collectReferences(definition)) {
+            await this.loadRecursive(reference, visited);
+        }
+    }
+
+    /**
+     * 异步加载单个定义，同名的并发加载会共享同一个Promise
+     */
+    private loadDefinition(name: string): Promise<BehaviorTreeJSONConfig> {
+        const cached = this._definitions.get(name);
+        if (cached) {
+            return Promise.resolve(cached);
+        }
+
+        const pending = this._pendingLoads.get(name);
+        if (pending) {
+            return pending;
+        }
+
+        const loader = this._loader;
+        if (!loader) {
+            return Promise.reject(new Error(`未找到行为树: ${name}`));
+        }
+
+        const promise = Promise.resolve()
+            .then(() => loader(name))
+            .then((source) => {
+                if (source === undefined) {
+                    throw new Error(`未找到行为树: ${name}`);
+                }
+
+                const definition = BehaviorTreeLibrary.parseDefinition(name, source);
+                this._definitions.set(name, definition);
+                return definition;
+            })
+            .finally(() => {
+                this._pendingLoads.delete(name);
+            });
+
+        this._pendingLoads.set(name, promise);
+        return promise;
+    }
+
+    /**
+     * 深度优先检查循环引用
+     * @param name 当前检查的行为树名称
+     * @param path 从起点到当前行为树的引用路径
+     * @throws {Error} 当存在循环引用时抛出包含引用路径的错误
+     */
+    private checkCircularReferences(name: string, path: string[]): void {
+        if (this._verified.has(name)) {
+            return;
+        }
+
+        const index = path.indexOf(name);
+        if (index !== -1) {
+            const cycle = [...path.slice(index), name].join(' -> ');
+            throw new Error(`检测到子行为树循环引用: ${cycle}`);
+        }
+
+        const definition = this.getDefinitionSync(name);
+        if (!definition) {
+            // 缺失的子树由构建时报告
+            return;
+        }
+
+        path.push(name);
+        for (const reference of BehaviorTreeLibrary.collectReferences(definition)) {
+            this.checkCircularReferences(reference, path);
+        }
+        path.pop();
+
+        this._verified.add(name);
+    }
+
+    /**
+     * 收集定义中behavior-tree-reference节点引用的子树名称
+     */
+    private static collectReferences(definition: BehaviorTreeJSONConfig): string[] {
+        const references = new Set<string>();
+        for (const node of definition.nodes) {
+            if (node.type !== 'behavior-tree-reference') {
+                continue;
+            }
+
+            const subTreePath = node.properties?.subTreePath || node.properties?.treePath;
+            if (typeof subTreePath === 'string' && subTreePath) {
+                references.add(subTreePath);
+            }
+        }
+
+        return Array.from(references);
+    }
+
+    /**
+     * 解析并校验行为树定义
+     */
+    private static parseDefinition(name: string, source: BehaviorTreeDefinitionSource): BehaviorTreeJSONConfig {
+        let definition: BehaviorTreeJSONConfig;
+        if (typeof source === 'string') {
+            try {
+                definition = JSON.parse(source) as BehaviorTreeJSONConfig;
+            } catch (error) {
+                throw new Error(`解析行为树 "${name}" 失败: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        } else {
+            definition = source;
+        }
+
+        if (!definition || !Array.isArray(definition.nodes) || definition.nodes.length === 0) {
+            throw new Error(`行为树 "${name}" 的配置无效：缺少nodes属性或nodes为空`);
+        }
+
+        return definition;
+    }
+
+    /**
+     * 检查值是否为Promise（thenable）
+     */
+    private static isPromiseLike<V>(value: unknown): value is PromiseLike<V> {
+        return value != null && typeof (value as PromiseLike<unknown>).then === 'function';
+    }
+}
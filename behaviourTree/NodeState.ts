@@ -0,0 +1,67 @@
+/**
+ * 可以安全地进行JSON序列化的值
+ */
+export type NodeStateValue =
+    | string
+    | number
+    | boolean
+    | null
+    | NodeStateValue[]
+    | { [key: string]: NodeStateValue };
+
+/**
+ * 节点的运行时状态数据
+ */
+export type NodeStateData = { [key: string]: NodeStateValue };
+
+/**
+ * 有状态节点接口
+ *
+ * @description
+ * 节点除status以外还持有运行时状态（计时、计数、洗牌顺序等）时实现此接口，
+ * BehaviorTree.captureState()/restoreState()会通过它保存和恢复节点状态。
+ * 返回的数据必须可以JSON序列化，并且不依赖对象引用（例如用索引代替子节点引用）
+ *
+ * @example
+ * ```typescript
+ * class PatrolAction extends Behavior<GameContext> implements IStatefulNode {
+ *   private _waypointIndex = 0;
+ *
+ *   public captureState(): NodeStateData {
+ *     return { waypointIndex: this._waypointIndex };
+ *   }
+ *
+ *   public restoreState(state: NodeStateData): void {
+ *     this._waypointIndex = state.waypointIndex as number;
+ *   }
+ *
+ *   public update(context: GameContext): TaskStatus { ... }
+ * }
+ * ```
+ */
+export interface IStatefulNode {
+    /**
+     * 获取节点的运行时状态
+     * @returns 可JSON序列化的状态数据
+     */
+    captureState(): NodeStateData;
+
+    /**
+     * 恢复节点的运行时状态
+     * @description 调用时节点的status已经恢复
+     * @param state captureState()返回的状态数据
+     */
+    restoreState(state: NodeStateData): void;
+}
+
+/**
+ * 类型守卫：检查节点是否实现了有状态节点接口
+ * @param node 要检查的节点
+ * @returns 是否实现了IStatefulNode
+ */
+export function isStatefulNode(node: unknown): node is IStatefulNode {
+    return node != null &&
+           typeof node === 'object' &&
+           typeof (node as IStatefulNode).captureState === 'function' &&
+           typeof (node as IStatefulNode).restoreState === 'function';
+}
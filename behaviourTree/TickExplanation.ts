@@ -0,0 +1,346 @@
+import type { Behavior } from './Behavior';
+import type { CompareOperator } from './conditionals/BlackboardConditionals';
+import { TaskStatus } from './TaskStatus';
+import { ITreeObserver, NodeAbortEvent, NodeEndEvent, NodeStartEvent, TickEndEvent } from './TreeObserver';
+import { isIConditional } from './conditionals/IConditional';
+import { NodeTypeRegistry } from './factories/NodeTypeRegistry';
+
+/**
+ * 黑板值比较的求值结果
+ */
+export interface ComparisonExplanation {
+    kind: 'comparison';
+    /** 左侧的黑板变量名 */
+    variable: string;
+    /** 比较运算符 */
+    operator: CompareOperator;
+    /** 左侧的值，变量不存在时为undefined */
+    left: unknown;
+    /** 右侧的值 */
+    right: unknown;
+    /** 右侧的黑板变量名，与固定值比较时没有此字段 */
+    compareVariable?: string;
+    /** 比较结果 */
+    passed: boolean;
+}
+
+/**
+ * 冷却装饰器的检查结果
+ */
+export interface CooldownExplanation {
+    kind: 'cooldown';
+    /** 是否因冷却未执行子节点 */
+    blocked: boolean;
+    /** 剩余冷却时间（秒） */
+    remaining: number;
+    /** 冷却时间（秒） */
+    cooldownTime: number;
+}
+
+/**
+ * 概率装饰器的检查结果
+ */
+export interface ChanceExplanation {
+    kind: 'chance';
+    /** 是否因概率检查未通过而未执行子节点 */
+    blocked: boolean;
+    /** 本次执行的随机数，尚未检查时为null */
+    roll: number | null;
+    /** 成功概率 */
+    chance: number;
+}
+
+/**
+ * 超时装饰器的检查结果
+ */
+export interface TimeoutExplanation {
+    kind: 'timeout';
+    /** 是否因超时而失败 */
+    blocked: boolean;
+    /** 已执行时间（秒） */
+    elapsed: number;
+    /** 超时时间（秒） */
+    timeout: number;
+}
+
+/**
+ * 条件装饰器的检查结果
+ */
+export interface ConditionExplanation {
+    kind: 'condition';
+    /** 是否因条件不满足而未执行子节点 */
+    blocked: boolean;
+    /** 条件的求值结果，条件不支持说明时没有此字段 */
+    condition?: NodeExplanationDetails;
+}
+
+/**
+ * 节点在最近一次执行中的判断依据
+ */
+export type NodeExplanationDetails =
+    | ComparisonExplanation
+    | CooldownExplanation
+    | ChanceExplanation
+    | TimeoutExplanation
+    | ConditionExplanation;
+
+/**
+ * 可以说明判断依据的节点
+ * @description 条件和装饰器实现此接口，用于BehaviorTree.explainLastTick()
+ */
+export interface IExplainableNode {
+    /**
+     * 说明最近一次执行的判断依据
+     * @returns 判断依据，尚未执行时返回null
+     */
+    explain(): NodeExplanationDetails | null;
+}
+
+/**
+ * 检查对象是否实现了IExplainableNode
+ */
+export function isExplainableNode(node: unknown): node is IExplainableNode {
+    return node != null && typeof (node as IExplainableNode).explain === 'function';
+}
+
+/**
+ * 执行说明中的节点
+ */
+export interface TickExplanationNode {
+    /** 节点ID */
+    id: string;
+    /** 节点路径 */
+    path: string;
+    /** 节点类型，通过配置创建的节点为配置中的类型，其他节点为类名 */
+    type: string;
+    /** 节点名称 */
+    name?: string;
+    /** 执行前的状态 */
+    previousStatus: TaskStatus;
+    /** 执行后的状态，被中止的节点为Invalid */
+    status: TaskStatus;
+    /** 是否为条件节点 */
+    conditional: boolean;
+    /** 是否在本次执行中被中止 */
+    aborted?: boolean;
+    /** 判断依据 */
+    details?: NodeExplanationDetails;
+    /** 本次执行访问的子节点，按访问顺序排列 */
+    children: TickExplanationNode[];
+}
+
+/**
+ * 单次执行的说明
+ */
+export interface TickExplanation {
+    /** 执行序号（从0开始） */
+    tickIndex: number;
+    /** 根节点的执行状态 */
+    status: TaskStatus;
+    /** 根节点 */
+    root: TickExplanationNode | null;
+    /** 结果为失败的条件节点，包括条件装饰器 */
+    failedConditions: TickExplanationNode[];
+    /** 阻止子节点执行的装饰器 */
+    blockedDecorators: TickExplanationNode[];
+    /** 被中止的节点 */
+    abortedNodes: TickExplanationNode[];
+    /** 可读的说明文本 */
+    summary: string;
+}
+
+/**
+ * 记录执行过程并生成说明的观察者
+ * @description 由BehaviorTree.setTickExplanationEnabled()创建
+ */
+export class TickExplainer<T> implements ITreeObserver<T> {
+    /** 正在执行的节点栈 */
+    private _stack: TickExplanationNode[] = [];
+
+    /** 本次执行的根节点 */
+    private _root: TickExplanationNode | null = null;
+
+    /** 本次执行中被中止的节点，可能发生在任意层级 */
+    private _pendingAborts: TickExplanationNode[] = [];
+
+    private _lastExplanation: TickExplanation | null = null;
+
+    /**
+     * 获取最近一次完成的执行的说明
+     */
+    public get lastExplanation(): TickExplanation | null {
+        return this._lastExplanation;
+    }
+
+    public onTickStart(): void {
+        this._stack = [];
+        this._root = null;
+        this._pendingAborts = [];
+    }
+
+    public onNodeStart(event: NodeStartEvent<T>): void {
+        const node = createExplanationNode(event.node, event.id, event.path, event.status);
+        const parent = this._stack[this._stack.length - 1];
+        if (parent) {
+            parent.children.push(node);
+        } else if (this._root === null) {
+            this._root = node;
+        }
+        this._stack.push(node);
+    }
+
+    public onNodeEnd(event: NodeEndEvent<T>): void {
+        const node = this._stack.pop();
+        if (!node || node.path !== event.path) {
+            // 在执行中途开始记录，没有对应的开始事件
+            this._stack = [];
+            return;
+        }
+        node.status = event.status;
+        if (isExplainableNode(event.node)) {
+            const details = event.node.explain();
+            if (details) {
+                node.details = details;
+            }
+        }
+    }
+
+    public onAbort(event: NodeAbortEvent<T>): void {
+        const parent = this._stack[this._stack.length - 1];
+        if (!parent) {
+            return;
+        }
+        const node = createExplanationNode(event.node, event.id, event.path, TaskStatus.Running);
+        node.status = TaskStatus.Invalid;
+        node.aborted = true;
+
+        // 复合节点先中止子节点再中止自身，把已记录的子节点移到该节点下
+        const prefix = `${event.path}/`;
+        while (parent.children.length > 0 && parent.children[parent.children.length - 1]!.path.startsWith(prefix)) {
+            node.children.unshift(parent.children.pop()!);
+        }
+        parent.children.push(node);
+        this._pendingAborts.push(node);
+    }
+
+    public onTickEnd(event: TickEndEvent<T>): void {
+        const failedConditions: TickExplanationNode[] = [];
+        const blockedDecorators: TickExplanationNode[] = [];
+        if (this._root) {
+            collectNodes(this._root, failedConditions, blockedDecorators);
+        }
+
+        const explanation: TickExplanation = {
+            tickIndex: event.tickIndex,
+            status: event.status,
+            root: this._root,
+            failedConditions,
+            blockedDecorators,
+            abortedNodes: this._pendingAborts,
+            summary: ''
+        };
+        explanation.summary = summarize(explanation);
+        this._lastExplanation = explanation;
+
+        this._stack = [];
+        this._root = null;
+        this._pendingAborts = [];
+    }
+}
+
+/**
+ * 创建说明节点
+ */
+function createExplanationNode<T>(node: Behavior<T>, id: string, path: string, previousStatus: TaskStatus): TickExplanationNode {
+    const source = NodeTypeRegistry.getNodeSource(node);
+    const explanationNode: TickExplanationNode = {
+        id,
+        path,
+        type: source?.type ?? node.constructor.name,
+        previousStatus,
+        status: previousStatus,
+        conditional: isIConditional(node),
+        children: []
+    };
+    if (node.name !== undefined) {
+        explanationNode.name = node.name;
+    }
+    return explanationNode;
+}
+
+/**
+ * 先序收集失败的条件和阻止执行的装饰器
+ */
+function collectNodes(
+    node: TickExplanationNode,
+    failedConditions: TickExplanationNode[],
+    blockedDecorators: TickExplanationNode[]
+): void {
+    if (!node.aborted) {
+        if (node.details && 'blocked' in node.details && node.details.blocked) {
+            blockedDecorators.push(node);
+        }
+        if (node.conditional && node.status === TaskStatus.Failure) {
+            failedConditions.push(node);
+        }
+    }
+    for (const child of node.children) {
+        collectNodes(child, failedConditions, blockedDecorators);
+    }
+}
+
+/**
+ * 生成可读的说明文本
+ */
+function summarize(explanation: TickExplanation): string {
+    const lines: string[] = [];
+    const root = explanation.root;
+    lines.push(`第${explanation.tickIndex}次执行: ${root ? nodeLabel(root) : '根节点'} → ${TaskStatus[explanation.status]}`);
+
+    for (const node of explanation.failedConditions) {
+        const reason = node.details ? describeDetails(node.details) : '';
+        lines.push(`条件不满足: ${nodeLabel(node)}${reason ? ` (${reason})` : ''}`);
+    }
+    for (const node of explanation.blockedDecorators) {
+        // 条件装饰器已作为失败的条件列出
+        if (node.details!.kind !== 'condition') {
+            lines.push(`装饰器阻止执行: ${nodeLabel(node)} (${describeDetails(node.details!)})`);
+        }
+    }
+    for (const node of explanation.abortedNodes) {
+        lines.push(`被中止: ${nodeLabel(node)}`);
+    }
+    return lines.join('\n');
+}
+
+function nodeLabel(node: TickExplanationNode): string {
+    return node.name !== undefined && node.name !== node.id ? `${node.name}[${node.id}]` : node.id;
+}
+
+/**
+ * 描述判断依据
+ */
+function describeDetails(details: NodeExplanationDetails): string {
+    switch (details.kind) {
+        case 'comparison': {
+            const right = details.compareVariable !== undefined
+                ? `${details.compareVariable}=${formatValue(details.right)}`
+                : formatValue(details.right);
+            return `${details.variable}=${formatValue(details.left)} ${details.operator} ${right}`;
+        }
+        case 'cooldown':
+            return `冷却剩余${details.remaining.toFixed(2)}秒/${details.cooldownTime}秒`;
+        case 'chance':
+            return details.roll === null
+                ? `概率${details.chance}`
+                : `随机数${details.roll.toFixed(3)} > 概率${details.chance}`;
+        case 'timeout':
+            return `已执行${details.elapsed.toFixed(2)}秒 >= 超时${details.timeout}秒`;
+        case 'condition':
+            return details.condition ? describeDetails(details.condition) : '';
+    }
+}
+
+function formatValue(value: unknown): string {
+    return JSON.stringify(value) ?? String(value);
+}
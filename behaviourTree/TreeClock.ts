@@ -0,0 +1,134 @@
+/**
+ * 时钟接口
+ *
+ * @description 为基于时间的节点（WaitAction、CooldownDecorator、TimeoutDecorator等）提供当前时间，
+ * 节点通过执行上下文中的clock属性获取所属行为树的时钟
+ */
+export interface IClock {
+    /**
+     * 获取当前时间
+     * @returns 当前时间（秒）
+     */
+    now(): number;
+}
+
+/**
+ * 包含时钟的上下文接口
+ */
+export interface IClockContext {
+    /** 行为树时钟 */
+    clock: IClock;
+}
+
+/**
+ * 行为树时钟
+ *
+ * @description
+ * 由BehaviorTree持有，每次tick时按照传入的deltaTime（或TimeManager提供的deltaTime）推进。
+ * 行为树暂停时时钟不会推进，timeScale可以单独调整某棵行为树的时间流速。
+ * 无头模拟时使用固定的deltaTime调用tick即可得到确定的结果。
+ *
+ * @example
+ * ```typescript
+ * const tree = new BehaviorTree(context, root, 0);
+ * tree.getClock().timeScale = 0.5; // 慢动作
+ *
+ * // 快进模拟10秒
+ * for (let i = 0; i < 600; i++) {
+ *   tree.tick(1 / 60);
+ * }
+ * ```
+ */
+export class TreeClock implements IClock {
+    /** 当前时间（秒） */
+    private _time: number;
+
+    /** 最近一次推进的时间差（秒，已缩放） */
+    private _deltaTime: number = 0;
+
+    /** 时间缩放比例，0表示停止 */
+    private _timeScale: number = 1;
+
+    /**
+     * 创建时钟
+     * @param startTime 起始时间（秒），默认0
+     */
+    constructor(startTime: number = 0) {
+        this._time = startTime;
+    }
+
+    public now(): number {
+        return this._time;
+    }
+
+    /**
+     * 最近一次推进的时间差（秒，已缩放）
+     */
+    public get deltaTime(): number {
+        return this._deltaTime;
+    }
+
+    /**
+     * 时间缩放比例
+     */
+    public get timeScale(): number {
+        return this._timeScale;
+    }
+
+    public set timeScale(value: number) {
+        if (value < 0 || !isFinite(value)) {
+            throw new Error('时间缩放比例必须是非负有限数');
+        }
+        this._timeScale = value;
+    }
+
+    /**
+     * 推进时钟
+     * @param deltaTime 未缩放的时间差（秒）
+     * @throws {Error} 当deltaTime为负数或不是有限数时抛出错误
+     */
+    public advance(deltaTime: number): void {
+        if (deltaTime < 0 || !isFinite(deltaTime)) {
+            throw new Error('时间差必须是非负有限数');
+        }
+        this._deltaTime = deltaTime * this._timeScale;
+        this._time += this._deltaTime;
+    }
+
+    /**
+     * 重置时钟
+     * @param time 重置后的时间（秒），默认0
+     */
+    public reset(time: number = 0): void {
+        this._time = time;
+        this._deltaTime = 0;
+    }
+}
+
+/**
+ * 使用系统时间的时钟，节点不在行为树中执行（上下文中没有时钟）时使用
+ */
+export const systemClock: IClock = {
+    now: () => performance.now() / 1000
+};
+
+/**
+ * 类型守卫：检查上下文是否包含时钟
+ * @param context 执行上下文
+ * @returns 是否包含时钟
+ */
+export function hasClock(context: unknown): context is IClockContext {
+    return context != null &&
+           typeof context === 'object' &&
+           'clock' in context &&
+           typeof (context as IClockContext).clock?.now === 'function';
+}
+
+/**
+ * 获取上下文中的时钟
+ * @param context 执行上下文
+ * @returns 上下文中的时钟，不存在时返回系统时钟
+ */
+export function getClock(context: unknown): IClock {
+    return hasClock(context) ? context.clock : systemClock;
+}
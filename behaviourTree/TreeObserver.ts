@@ -0,0 +1,308 @@
+import type { Behavior } from './Behavior';
+import type { BehaviorTree } from './BehaviorTree';
+import { TaskStatus } from './TaskStatus';
+
+/**
+ * 节点事件的公共信息
+ */
+export interface NodeObserverEvent<T> {
+    /** 节点所在的行为树 */
+    tree: BehaviorTree<T>;
+    /** 节点实例 */
+    node: Behavior<T>;
+    /** 节点ID，通过配置创建的节点为配置中的ID，其他节点为路径 */
+    id: string;
+    /** 节点在树中的路径，如"root/1/0" */
+    path: string;
+}
+
+/**
+ * 节点开始执行事件
+ */
+export interface NodeStartEvent<T> extends NodeObserverEvent<T> {
+    /** 执行前的状态 */
+    status: TaskStatus;
+    /** 本次执行是否会调用onStart()（执行前状态为Invalid） */
+    starting: boolean;
+    /** 开始时间（毫秒，performance.now()） */
+    startTime: number;
+}
+
+/**
+ * 节点执行结束事件
+ */
+export interface NodeEndEvent<T> extends NodeObserverEvent<T> {
+    /** 执行前的状态 */
+    previousStatus: TaskStatus;
+    /** 执行后的状态 */
+    status: TaskStatus;
+    /** 开始时间（毫秒，performance.now()） */
+    startTime: number;
+    /** 执行耗时（毫秒），包含子节点的执行时间 */
+    duration: number;
+}
+
+/**
+ * 节点状态变化事件
+ */
+export interface NodeStatusChangeEvent<T> extends NodeObserverEvent<T> {
+    /** 变化前的状态 */
+    previousStatus: TaskStatus;
+    /** 变化后的状态 */
+    status: TaskStatus;
+}
+
+/**
+ * 节点中止事件
+ */
+export interface NodeAbortEvent<T> extends NodeObserverEvent<T> {}
+
+/**
+ * 行为树执行开始事件
+ */
+export interface TickStartEvent<T> {
+    /** 行为树 */
+    tree: BehaviorTree<T>;
+    /** 本次执行的序号（从0开始），与getStats().totalTicks一致 */
+    tickIndex: number;
+    /** 开始时间（毫秒，performance.now()） */
+    startTime: number;
+}
+
+/**
+ * 行为树执行结束事件
+ */
+export interface TickEndEvent<T> extends TickStartEvent<T> {
+    /** 根节点的执行状态 */
+    status: TaskStatus;
+    /** 执行耗时（毫秒） */
+    duration: number;
+}
+
+/**
+ * 行为树更新事件
+ */
+export interface TreeUpdateEvent<T> {
+    /** 行为树 */
+    tree: BehaviorTree<T>;
+    /** 本次更新的时间差（秒，未缩放），与getLastDeltaTime()一致 */
+    deltaTime: number;
+}
+
+/**
+ * 行为树观察者
+ *
+ * @description
+ * 通过BehaviorTree.addObserver()添加，所有回调都是可选的。
+ * 用于构建调试器、日志和性能分析工具，回调中抛出的错误会被捕获并输出到控制台，不会影响行为树执行。
+ *
+ * @example
+ * ```typescript
+ * tree.addObserver({
+ *   onStatusChange: (e) => console.log(`${e.id}: ${TaskStatus[e.previousStatus]} → ${TaskStatus[e.status]}`),
+ *   onTickEnd: (e) => console.log(`第${e.tickIndex}次执行耗时${e.duration.toFixed(2)}ms`)
+ * });
+ * ```
+ */
+export interface ITreeObserver<T = any> {
+    /** 调用tick()开始更新（暂停时不触发），根节点因updatePeriod未执行时也会触发 */
+    onUpdateStart?(event: TreeUpdateEvent<T>): void;
+    /** 调用tick()的更新结束 */
+    onUpdateEnd?(event: TreeUpdateEvent<T>): void;
+    /** 根节点开始执行 */
+    onTickStart?(event: TickStartEvent<T>): void;
+    /** 根节点执行结束 */
+    onTickEnd?(event: TickEndEvent<T>): void;
+    /** 节点开始执行（每次tick都会触发） */
+    onNodeStart?(event: NodeStartEvent<T>): void;
+    /** 节点执行结束（每次tick都会触发） */
+    onNodeEnd?(event: NodeEndEvent<T>): void;
+    /** 节点执行后状态发生变化 */
+    onStatusChange?(event: NodeStatusChangeEvent<T>): void;
+    /** 正在运行的节点被中止 */
+    onAbort?(event: NodeAbortEvent<T>): void;
+}
+
+/**
+ * 中断当前执行的信号
+ *
+ * @description
+ * 观察者在回调中抛出此错误会立即中断根节点的本次执行（不会被当作回调错误处理），
+ * 被中断的执行不会分发后续的节点事件和onTickEnd，节点状态保持在中断时的位置。
+ * 由TreeDebugger用于在断点处停止
+ */
+export class TreeExecutionHalt extends Error {
+    constructor() {
+        super('行为树执行已中断');
+        this.name = 'TreeExecutionHalt';
+    }
+}
+
+/**
+ * 节点的观察者绑定
+ * @description 由BehaviorTree在添加观察者时设置到每个节点上，未添加观察者时节点的绑定为null。
+ * 不使用上下文类型参数，避免影响Behavior<T>之间的类型兼容性
+ */
+export interface NodeObserverBinding {
+    /** 节点ID */
+    readonly id: string;
+    /** 节点路径 */
+    readonly path: string;
+    /** 事件分发器 */
+    readonly dispatcher: TreeObserverDispatcher<any>;
+}
+
+/**
+ * 观察者事件分发器
+ * @description 保存行为树的观察者列表并向它们分发事件
+ */
+export class TreeObserverDispatcher<T> {
+    private readonly _tree: BehaviorTree<T>;
+    private readonly _observers: ITreeObserver<T>[] = [];
+
+    /**
+     * @param tree 所属的行为树
+     */
+    constructor(tree: BehaviorTree<T>) {
+        this._tree = tree;
+    }
+
+    /**
+     * 观察者数量
+     */
+    public get size(): number {
+        return this._observers.length;
+    }
+
+    /**
+     * 添加观察者
+     * @param observer 观察者
+     * @returns 是否添加成功，已存在时返回false
+     */
+    public add(observer: ITreeObserver<T>): boolean {
+        if (this._observers.includes(observer)) {
+            return false;
+        }
+        this._observers.push(observer);
+        return true;
+    }
+
+    /**
+     * 移除观察者
+     * @param observer 观察者
+     * @returns 是否移除成功
+     */
+    public remove(observer: ITreeObserver<T>): boolean {
+        const index = this._observers.indexOf(observer);
+        if (index === -1) {
+            return false;
+        }
+        this._observers.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * 分发更新开始事件
+     */
+    public updateStart(deltaTime: number): void {
+        this._emit('onUpdateStart', { tree: this._tree, deltaTime });
+    }
+
+    /**
+     * 分发更新结束事件
+     */
+    public updateEnd(deltaTime: number): void {
+        this._emit('onUpdateEnd', { tree: this._tree, deltaTime });
+    }
+
+    /**
+     * 分发根节点开始执行事件
+     */
+    public tickStart(tickIndex: number, startTime: number): void {
+        this._emit('onTickStart', { tree: this._tree, tickIndex, startTime });
+    }
+
+    /**
+     * 分发根节点执行结束事件
+     */
+    public tickEnd(tickIndex: number, startTime: number, status: TaskStatus): void {
+        this._emit('onTickEnd', {
+            tree: this._tree,
+            tickIndex,
+            startTime,
+            status,
+            duration: performance.now() - startTime
+        });
+    }
+
+    /**
+     * 分发节点开始执行事件
+     */
+    public nodeStart(node: Behavior<T>, binding: NodeObserverBinding, startTime: number): void {
+        this._emit('onNodeStart', {
+            tree: this._tree,
+            node,
+            id: binding.id,
+            path: binding.path,
+            status: node.status,
+            starting: node.status === TaskStatus.Invalid,
+            startTime
+        });
+    }
+
+    /**
+     * 分发节点执行结束事件，状态变化时同时分发状态变化事件
+     */
+    public nodeEnd(node: Behavior<T>, binding: NodeObserverBinding, previousStatus: TaskStatus, startTime: number): void {
+        const status = node.status;
+        this._emit('onNodeEnd', {
+            tree: this._tree,
+            node,
+            id: binding.id,
+            path: binding.path,
+            previousStatus,
+            status,
+            startTime,
+            duration: performance.now() - startTime
+        });
+
+        if (status !== previousStatus) {
+            this._emit('onStatusChange', {
+                tree: this._tree,
+                node,
+                id: binding.id,
+                path: binding.path,
+                previousStatus,
+                status
+            });
+        }
+    }
+
+    /**
+     * 分发节点中止事件
+     */
+    public abort(node: Behavior<T>, binding: NodeObserverBinding): void {
+        this._emit('onAbort', { tree: this._tree, node, id: binding.id, path: binding.path });
+    }
+
+    /**
+     * 调用所有观察者的指定回调
+     */
+    private _emit<K extends keyof ITreeObserver<T>>(method: K, event: Parameters<NonNullable<ITreeObserver<T>[K]>>[0]): void {
+        // 复制列表，允许在回调中添加或移除观察者
+        for (const observer of this._observers.slice()) {
+            const callback = observer[method] as ((event: unknown) => void) | undefined;
+            if (!callback) {
+                continue;
+            }
+            try {
+                callback.call(observer, event);
+            } catch (error) {
+                if (error instanceof TreeExecutionHalt) {
+                    throw error;
+                }
+                console.error(`行为树观察者${method}回调发生错误:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,32 @@
+import { Random, RandomStream } from '../core/Random';
+
+/**
+ * 包含随机数流的上下文接口
+ */
+export interface IRandomContext {
+    /** 行为树随机数流 */
+    random: RandomStream;
+}
+
+/**
+ * 类型守卫：检查上下文是否包含随机数流
+ * @param context 执行上下文
+ * @returns 是否包含随机数流
+ */
+export function hasRandom(context: unknown): context is IRandomContext {
+    return context != null &&
+           typeof context === 'object' &&
+           'random' in context &&
+           (context as IRandomContext).random instanceof RandomStream;
+}
+
+/**
+ * 获取上下文中的随机数流
+ * @description 随机节点（ChanceDecorator、RandomSelector等）通过此函数获取所属行为树的随机数流，
+ * 使相同种子的行为树做出相同的决策
+ * @param context 执行上下文
+ * @returns 上下文中的随机数流，不存在时返回全局Random的默认随机数流
+ */
+export function getRandom(context: unknown): RandomStream {
+    return hasRandom(context) ? context.random : Random.getDefaultStream();
+}
@@ -0,0 +1,136 @@
+import { Behavior } from './Behavior';
+import { Composite } from './composites/Composite';
+import { Decorator } from './decorators/Decorator';
+
+/**
+ * 根节点在树中的路径
+ */
+export const ROOT_NODE_PATH = 'root';
+
+/**
+ * 获取节点的子节点
+ * @param node 节点
+ * @returns 复合节点的子节点列表或装饰器的子节点，叶子节点返回空数组
+ */
+export function getChildNodes<T>(node: Behavior<T>): ReadonlyArray<Behavior<T>> {
+    if (node instanceof Composite) {
+        return node.children;
+    }
+    if (node instanceof Decorator && node.child) {
+        return [node.child];
+    }
+    return [];
+}
+
+/**
+ * 获取节点的稳定ID
+ * @description 设置了id的节点（包括通过配置创建的节点）使用该ID，其他节点使用"root/1/0"形式的路径
+ * @param node 节点
+ * @param path 节点在树中的路径
+ * @returns 节点ID
+ */
+export function getNodeId<T>(node: Behavior<T>, path: string): string {
+    return node.id ?? path;
+}
+
+/**
+ * 先序遍历以指定节点为根的子树
+ * @param root 根节点
+ * @param visitor 访问函数，参数为节点、节点ID和节点路径
+ * @param path 根节点的路径，默认"root"
+ */
+export function forEachNode<T>(
+    root: Behavior<T>,
+    visitor: (node: Behavior<T>, id: string, path: string) => void,
+    path: string = ROOT_NODE_PATH
+): void {
+    visitor(root, getNodeId(root, path), path);
+
+    const children = getChildNodes(root);
+    for (let i = 0; i < children.length; i++) {
+        forEachNode(children[i]!, visitor, `${path}/${i}`);
+    }
+}
+
+/**
+ * 遍历到的节点
+ */
+export interface TreeWalkEntry<T> {
+    /** 节点 */
+    node: Behavior<T>;
+    /** 节点ID */
+    id: string;
+    /** 节点路径 */
+    path: string;
+    /** 深度，根节点为0 */
+    depth: number;
+    /** 父节点，根节点为null */
+    parent: Behavior<T> | null;
+}
+
+/**
+ * 先序遍历以指定节点为根的子树
+ * @description 复合节点按顺序遍历所有子节点，装饰器遍历其子节点。
+ * 返回迭代器，可以通过for...of遍历并用break提前结束
+ * @param root 根节点
+ * @param path 根节点的路径，默认"root"
+ * @returns 按先序排列的节点迭代器
+ *
+ * @example
+ * ```typescript
+ * for (const { node, path, depth } of walkTree(tree.getRoot())) {
+ *   console.log(`${'  '.repeat(depth)}${node.name ?? node.constructor.name} (${path})`);
+ * }
+ * ```
+ */
+export function* walkTree<T>(root: Behavior<T>, path: string = ROOT_NODE_PATH): Generator<TreeWalkEntry<T>, void, undefined> {
+    const stack: TreeWalkEntry<T>[] = [{ node: root, id: getNodeId(root, path), path, depth: 0, parent: null }];
+    while (stack.length > 0) {
+        const entry = stack.pop()!;
+        yield entry;
+
+        // 逆序入栈，保证按子节点顺序遍历
+        const children = getChildNodes(entry.node);
+        for (let i = children.length - 1; i >= 0; i--) {
+            const child = children[i]!;
+            const childPath = `${entry.path}/${i}`;
+            stack.push({ node: child, id: getNodeId(child, childPath), path: childPath, depth: entry.depth + 1, parent: entry.node });
+        }
+    }
+}
+
+/**
+ * 按ID或路径查找节点
+ * @description 先按ID查找，没有找到时按路径查找
+ * @param root 根节点
+ * @param idOrPath 节点ID或"root/1/0"形式的路径
+ * @returns 找到的节点，不存在时返回undefined
+ */
+export function findNode<T>(root: Behavior<T>, idOrPath: string): Behavior<T> | undefined {
+    let byPath: Behavior<T> | undefined;
+    for (const entry of walkTree(root)) {
+        if (entry.id === idOrPath) {
+            return entry.node;
+        }
+        if (byPath === undefined && entry.path === idOrPath) {
+            byPath = entry.node;
+        }
+    }
+    return byPath;
+}
+
+/**
+ * 查找带有指定标签的所有节点
+ * @param root 根节点
+ * @param tag 标签
+ * @returns 按先序排列的节点列表
+ */
+export function findNodesByTag<T>(root: Behavior<T>, tag: string): Behavior<T>[] {
+    const nodes: Behavior<T>[] = [];
+    for (const { node } of walkTree(root)) {
+        if (node.hasTag(tag)) {
+            nodes.push(node);
+        }
+    }
+    return nodes;
+}
@@ -0,0 +1,229 @@
+import { Behavior } from '../Behavior';
+import { TaskStatus } from '../TaskStatus';
+import { ActionResult } from '../events/EventRegistry';
+import { getClock } from '../TreeClock';
+
+/**
+ * 异步动作处理函数
+ * @param context 执行上下文
+ * @param signal 取消信号，节点被中止、重置或超时时触发
+ * @returns 动作结果，可以是同步结果或Promise
+ */
+export type AsyncActionHandler<T> = (context: T, signal: AbortSignal) => ActionResult;
+
+/**
+ * 异步动作配置选项
+ */
+export interface AsyncActionOptions {
+    /** 超时时间（秒），小于等于0表示不超时。在行为树中执行时按行为树时钟计时 */
+    timeout?: number;
+    /** 动作名称，用于调试和错误日志 */
+    name?: string;
+}
+
+/**
+ * 将动作结果转换为TaskStatus
+ *
+ * @description 支持TaskStatus枚举、'success'/'failure'/'running'字符串和布尔值，
+ * 无法识别的结果视为成功
+ * @param result 动作结果（不能是Promise）
+ * @returns 对应的任务状态
+ */
+export function actionResultToTaskStatus(result: unknown): TaskStatus {
+    if (result === TaskStatus.Success || result === TaskStatus.Failure || result === TaskStatus.Running) {
+        return result;
+    }
+
+    if (typeof result === 'string') {
+        switch (result.toLowerCase()) {
+            case 'success': return TaskStatus.Success;
+            case 'failure': return TaskStatus.Failure;
+            case 'running': return TaskStatus.Running;
+            default: return TaskStatus.Success;
+        }
+    }
+
+    return result === false ? TaskStatus.Failure : TaskStatus.Success;
+}
+
+/**
+ * 检查值是否为Promise（thenable）
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<ActionResult> {
+    return value != null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * 异步动作节点
+ *
+ * @description
+ * 包装一个可能返回Promise的函数，在Promise完成之前返回Running，
+ * 完成后在之后的tick中将结果映射为Success或Failure：
+ * - Promise被拒绝时返回Failure
+ * - 节点被中止、重置或超时时通过AbortSignal通知处理函数取消操作
+ * - 处理函数同步返回结果时立即映射为对应状态
+ *
+ * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * const moveTo = new AsyncAction<GameContext>(async (context, signal) => {
+ *   await context.agent.moveTo(context.target, { signal });
+ *   return 'success';
+ * }, { timeout: 5 });
+ * ```
+ */
+export class AsyncAction<T> extends Behavior<T> {
+    /** 异步处理函数 */
+    private readonly _handler: AsyncActionHandler<T>;
+
+    /** 超时时间（秒） */
+    public timeout: number;
+
+    /** 当前挂起操作的取消控制器，为null表示没有挂起的操作 */
+    private _controller: AbortController | null = null;
+
+    /** 挂起的Promise完成后得到的状态 */
+    private _settledStatus: TaskStatus | null = null;
+
+    /** 当前操作的开始时间（秒） */
+    private _startTime: number = 0;
+
+    /** 操作代数，用于忽略已取消操作的迟到结果 */
+    private _generation: number = 0;
+
+    /**
+     * 创建异步动作
+     * @param handler 异步处理函数，不能为null
+     * @param options 配置选项
+     * @throws {Error} 当handler不是函数时抛出错误
+     */
+    constructor(handler: AsyncActionHandler<T>, options: AsyncActionOptions = {}) {
+        super();
+
+        if (typeof handler !== 'function') {
+            throw new Error('异步动作必须是一个函数');
+        }
+
+        this._handler = handler;
+        this.timeout = options.timeout ?? 0;
+        this.name = options.name;
+    }
+
+    public update(context: T): TaskStatus {
+        if (this._controller === null) {
+            return this._begin(context);
+        }
+
+        if (this._settledStatus !== null) {
+            const status = this._settledStatus;
+            this._clearPending();
+
+            // 异步结果为running时，下一次tick重新调用处理函数
+            return status;
+        }
+
+        if (this.timeout > 0 && getClock(context).now() - this._startTime >= this.timeout) {
+            console.warn(`AsyncAction ${this.getName()}: 异步操作超时 (${this.timeout}s)`);
+            this.cancel();
+            return TaskStatus.Failure;
+        }
+
+        return TaskStatus.Running;
+    }
+
+    /**
+     * 节点被中止时取消挂起的异步操作
+     */
+    public override onAbort(_context: T): void {
+        this.cancel();
+    }
+
+    public override invalidate(): void {
+        super.invalidate();
+        this.cancel();
+    }
+
+    public override dispose(): void {
+        this.cancel();
+        super.dispose();
+    }
+
+    /**
+     * 取消挂起的异步操作
+     * @description 触发AbortSignal，并忽略该操作之后返回的结果
+     */
+    public cancel(): void {
+        if (this._controller === null) {
+            return;
+        }
+
+        const controller = this._controller;
+        this._clearPending();
+        controller.abort();
+    }
+
+    /**
+     * 是否存在挂起的异步操作
+     */
+    public isPending(): boolean {
+        return this._controller !== null && this._settledStatus === null;
+    }
+
+    /**
+     * 获取动作名称
+     * @returns 动作名称或函数名
+     */
+    public getName(): string {
+        return this.name || this._handler.name || 'Anonymous AsyncAction';
+    }
+
+    /**
+     * 调用处理函数，开始新的操作
+     */
+    private _begin(context: T): TaskStatus {
+        const controller = new AbortController();
+        const generation = ++this._generation;
+
+        let result: ActionResult;
+        try {
+            result = this._handler(context, controller.signal);
+        } catch (error) {
+            console.error(`AsyncAction ${this.getName()} 执行时发生错误:`, error);
+            return TaskStatus.Failure;
+        }
+
+        if (!isPromiseLike(result)) {
+            return actionResultToTaskStatus(result);
+        }
+
+        this._controller = controller;
+        this._settledStatus = null;
+        this._startTime = getClock(context).now();
+
+        result.then(
+            (value) => {
+                if (generation === this._generation && this._controller === controller) {
+                    this._settledStatus = actionResultToTaskStatus(value);
+                }
+            },
+            (error) => {
+                if (generation === this._generation && this._controller === controller) {
+                    console.error(`AsyncAction ${this.getName()} 异步操作失败:`, error);
+                    this._settledStatus = TaskStatus.Failure;
+                }
+            }
+        );
+
+        return TaskStatus.Running;
+    }
+
+    /**
+     * 清除挂起操作的状态
+     */
+    private _clearPending(): void {
+        this._controller = null;
+        this._settledStatus = null;
+        this._generation++;
+    }
+}
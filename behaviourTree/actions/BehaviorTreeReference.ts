@@ -1,22 +1,207 @@
 import { Behavior } from '../Behavior';
-import { BehaviorTree } from '../BehaviorTree';
+import { BehaviorTree, BehaviorTreeSnapshot } from '../BehaviorTree';
 import { TaskStatus } from '../TaskStatus';
+import { Blackboard } from '../Blackboard';
+import { TreeClock, hasClock } from '../TreeClock';
+import { hasRandom } from '../TreeRandom';
+import { IStatefulNode, NodeStateData } from '../NodeState';
 
 /**
- * 作为子项运行整个BehaviorTree并返回成功
+ * 子树端口方向
+ * - input: 子树开始执行时从父树复制到子树
+ * - output: 子树执行结束时从子树复制回父树
+ * - inout: 同时作为输入和输出
  */
-export class BehaviorTreeReference<T> extends Behavior<T> {
-    private _childTree: BehaviorTree<T>;
+export type SubTreePortDirection = 'input' | 'output' | 'inout';
 
-    constructor(tree: BehaviorTree<T>) {
+/**
+ * 子树端口绑定
+ * @description 描述子树黑板中的一个端口变量与父树黑板变量或常量之间的映射关系
+ */
+export interface SubTreePortBinding {
+    /** 端口名称（子树黑板中的变量名） */
+    port: string;
+    /** 端口方向 */
+    direction: SubTreePortDirection;
+    /** 绑定的父树黑板变量名 */
+    parentKey?: string;
+    /** 没有绑定父树变量时写入输入端口的常量值 */
+    value?: unknown;
+}
+
+/**
+ * 子行为树引用节点
+ *
+ * @description
+ * 作为子节点运行整个BehaviorTree，并返回子树根节点的实际状态：
+ * - 子树随父树同步执行，忽略子树自身的updatePeriod，并使用父树的时钟和随机数流
+ * - 父树中止该节点时，子树中正在运行的节点会收到onAbort回调
+ * - 该节点被重置时子树也会被重置
+ * - 配置端口绑定后，每次开始执行时将输入复制到子树黑板，
+ *   正常结束（Success/Failure）时将输出复制回父树黑板，被中止时不复制输出
+ *
+ * @template T 上下文类型
+ */
+export class BehaviorTreeReference<T> extends Behavior<T> implements IStatefulNode {
+    private _childTree: BehaviorTree<any>;
+
+    /** 端口绑定 */
+    private readonly _portBindings: SubTreePortBinding[];
+
+    /** 子树是否与父树共享黑板 */
+    private readonly _sharesBlackboard: boolean;
+
+    /**
+     * 创建子行为树引用节点
+     * @param tree 子行为树，不能为null
+     * @param portBindings 端口绑定列表
+     * @param sharesBlackboard 子树是否与父树共享黑板，共享时释放子树不会清空黑板，默认false
+     * @throws {Error} 当tree为null时抛出错误
+     */
+    constructor(tree: BehaviorTree<any>, portBindings: SubTreePortBinding[] = [], sharesBlackboard: boolean = false) {
         super();
 
+        if (tree == null) {
+            throw new Error('子行为树不能为null或undefined');
+        }
+
         this._childTree = tree;
+        this._portBindings = portBindings;
+        this._sharesBlackboard = sharesBlackboard;
+    }
+
+    public override tick(context: T): TaskStatus {
+        // 子树不会自行推进时钟，使用父树的时钟
+        if (hasClock(context) && context.clock instanceof TreeClock && this._childTree.getClock() !== context.clock) {
+            this._childTree.setClock(context.clock);
+        }
+        if (hasRandom(context) && this._childTree.getRandom() !== context.random) {
+            this._childTree.setRandom(context.random);
+        }
+
+        if (this.status == TaskStatus.Invalid) {
+            this.copyInputs(context);
+        }
+
+        const status = super.tick(context);
+
+        if (status != TaskStatus.Running) {
+            this.copyOutputs(context);
+        }
+
+        return status;
     }
 
     public update(_context: T): TaskStatus {
-        this._childTree.tick();
+        return this._childTree.tickImmediate();
+    }
+
+    /**
+     * 父树中止该节点时中止子树中正在运行的节点
+     */
+    public override onAbort(_context: T): void {
+        this._childTree.reset();
+    }
+
+    public override invalidate(): void {
+        super.invalidate();
+        this._childTree.getRoot()?.invalidate();
+    }
+
+    public override dispose(): void {
+        this._childTree?.dispose(this._sharesBlackboard);
+        this._childTree = null!;
+        super.dispose();
+    }
+
+    /**
+     * 获取节点的运行时状态
+     * @returns 子行为树的快照
+     */
+    public captureState(): NodeStateData {
+        return { tree: this._childTree.captureState() as unknown as NodeStateData };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this._childTree.restoreState(state.tree as unknown as BehaviorTreeSnapshot);
+    }
+
+    /**
+     * 获取引用的子行为树
+     * @returns 子行为树实例
+     */
+    public getChildTree(): BehaviorTree<any> {
+        return this._childTree;
+    }
+
+    /**
+     * 获取端口绑定
+     * @returns 端口绑定列表
+     */
+    public getPortBindings(): readonly SubTreePortBinding[] {
+        return this._portBindings;
+    }
+
+    /**
+     * 将输入端口的值从父树黑板（或常量）复制到子树黑板
+     */
+    private copyInputs(context: T): void {
+        if (this._portBindings.length === 0) {
+            return;
+        }
+
+        const parentBlackboard = this.getParentBlackboard(context);
+        const childBlackboard = this._childTree.getBlackboard();
+
+        for (const binding of this._portBindings) {
+            if (binding.direction === 'output') {
+                continue;
+            }
+
+            if (binding.parentKey !== undefined) {
+                if (parentBlackboard) {
+                    childBlackboard.setValue(binding.port, parentBlackboard.getValue(binding.parentKey));
+                }
+            } else if (binding.value !== undefined) {
+                childBlackboard.setValue(binding.port, binding.value);
+            }
+        }
+    }
+
+    /**
+     * 将输出端口的值从子树黑板复制回父树黑板
+     */
+    private copyOutputs(context: T): void {
+        if (this._portBindings.length === 0) {
+            return;
+        }
+
+        const parentBlackboard = this.getParentBlackboard(context);
+        if (!parentBlackboard) {
+            return;
+        }
+
+        const childBlackboard = this._childTree.getBlackboard();
+        for (const binding of this._portBindings) {
+            if (binding.direction !== 'input' && binding.parentKey !== undefined) {
+                parentBlackboard.setValue(binding.parentKey, childBlackboard.getValue(binding.port));
+            }
+        }
+    }
+
+    /**
+     * 从父树上下文中获取黑板
+     */
+    private getParentBlackboard(context: T): Blackboard | undefined {
+        const blackboard = (context as { blackboard?: Blackboard } | undefined)?.blackboard;
+        if (!blackboard) {
+            console.warn('BehaviorTreeReference: 父树上下文中未找到黑板，端口绑定将被忽略');
+        }
 
-        return TaskStatus.Success;
+        return blackboard;
     }
 }
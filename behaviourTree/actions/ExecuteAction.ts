@@ -37,9 +37,6 @@ export class ExecuteAction<T> extends Behavior<T> {
     
     /** 是否启用错误处理（默认true） */
     private readonly _enableErrorHandling: boolean;
-    
-    /** 动作名称（用于调试和错误日志） */
-    private readonly _name?: string;
 
     /**
      * 创建执行动作
@@ -68,7 +65,7 @@ export class ExecuteAction<T> extends Behavior<T> {
 
         this._action = action;
         this._enableErrorHandling = options.enableErrorHandling ?? true;
-        this._name = options.name;
+        this.name = options.name;
     }
 
     /**
@@ -83,13 +80,13 @@ export class ExecuteAction<T> extends Behavior<T> {
                 
                 // 验证返回值是否为有效的TaskStatus
                 if (!this.isValidTaskStatus(result)) {
-                    console.error(`ExecuteAction ${this._name || ''}: 动作函数返回了无效的TaskStatus: ${result}`);
+                    console.error(`ExecuteAction ${this.name || ''}: 动作函数返回了无效的TaskStatus: ${result}`);
                     return TaskStatus.Failure;
                 }
                 
                 return result;
             } catch (error) {
-                const actionName = this._name ? `"${this._name}"` : '';
+                const actionName = this.name ? `"${this.name}"` : '';
                 console.error(`ExecuteAction ${actionName} 执行时发生错误:`, error);
                 return TaskStatus.Failure;
             }
@@ -115,7 +112,7 @@ export class ExecuteAction<T> extends Behavior<T> {
      * @returns 动作名称或函数名
      */
     public getName(): string {
-        return this._name || this._action.name || 'Anonymous Action';
+        return this.name || this._action.name || 'Anonymous Action';
     }
 
     /**
@@ -3,25 +3,61 @@ import { TaskStatus } from '../TaskStatus';
 
 /**
  * 简单的任务，它将输出指定的文本并返回成功。 它可以用于调试。
+ *
+ * 上下文带有黑板时，文本中的{{variableName}}会被替换为黑板变量的值；
+ * 上下文提供log函数时，还会以log(message, logLevel)的形式转发日志
  */
 export class LogAction<T> extends Behavior<T> {
     /** 文本 */
     public text: string;
-    /** 是否输出error还是log */
-    public isError: boolean = false;
+    /** 日志级别（debug、info、warn、error），error级别使用console.error输出 */
+    public logLevel: string;
+    /** 输出到控制台时添加在文本前的前缀 */
+    public prefix: string = '';
 
-    constructor(text: string) {
+    constructor(text: string, logLevel: string = 'info') {
         super();
 
         this.text = text;
+        this.logLevel = logLevel;
+    }
+
+    /** 是否输出error还是log */
+    public get isError(): boolean {
+        return this.logLevel.toLowerCase() === 'error';
+    }
+
+    public set isError(value: boolean) {
+        this.logLevel = value ? 'error' : 'info';
     }
 
-    public update(_context: T): TaskStatus {
+    public update(context: T): TaskStatus {
+        const message = this.formatText(context);
         if (this.isError)
-            console.error(this.text);
+            console.error(this.prefix + message);
         else
-            console.log(this.text);
+            console.log(this.prefix + message);
+
+        const log = (context as { log?: unknown } | undefined)?.log;
+        if (typeof log === 'function') {
+            log.call(context, message, this.logLevel);
+        }
 
         return TaskStatus.Success;
     }
+
+    /**
+     * 替换文本中的黑板变量引用，变量不存在时保留原样
+     */
+    private formatText(context: T): string {
+        const blackboard = (context as { blackboard?: { getValue(name: string): unknown } } | undefined)?.blackboard;
+        if (!blackboard) {
+            return this.text;
+        }
+
+        return this.text.replace(/\{\{(\w+)\}\}/g, (match, varName: string) => {
+            const value = blackboard.getValue(varName);
+            return value !== undefined ? String(value) : match;
+        });
+    }
 }
@@ -1,5 +1,7 @@
 import { Behavior } from '../Behavior';
 import { TaskStatus } from '../TaskStatus';
+import { hasClock } from '../TreeClock';
+import { IStatefulNode, NodeStateData } from '../NodeState';
 
 /**
  * 时间上下文接口
@@ -27,7 +29,10 @@ function hasTimeContext(obj: unknown): obj is ITimeContext {
  * 
  * @description 
  * 在指定时间内返回Running状态，时间到达后返回Success状态。
- * 支持外部时间管理以提高性能。
+ * 时间来源按以下顺序选择：
+ * 1. 启用useExternalTime且上下文包含deltaTime时使用上下文中的deltaTime
+ * 2. 上下文包含时钟（在行为树中执行）时使用行为树时钟，遵循时间缩放和暂停
+ * 3. 否则使用内部的系统时间计算
  * 
  * @template T 上下文类型
  * 
@@ -44,7 +49,7 @@ function hasTimeContext(obj: unknown): obj is ITimeContext {
  * const waitAction = new WaitAction<GameContext>(1.5, true);
  * ```
  */
-export class WaitAction<T> extends Behavior<T> {
+export class WaitAction<T> extends Behavior<T> implements IStatefulNode {
     /** 等待的时间（秒） */
     public waitTime: number;
     
@@ -57,6 +62,9 @@ export class WaitAction<T> extends Behavior<T> {
     /** 上次更新的时间戳（用于内部时间计算） */
     private _lastUpdateTime: number = 0;
 
+    /** 上次更新时的行为树时钟时间（使用行为树时钟时） */
+    private _lastClockTime: number | undefined = undefined;
+
     /**
      * 创建等待动作
      * @param waitTime 等待时间（秒），必须大于0
@@ -77,11 +85,12 @@ export class WaitAction<T> extends Behavior<T> {
     public override onStart(): void {
         this._elapsedTime = 0;
         this._lastUpdateTime = performance.now() / 1000;
+        this._lastClockTime = undefined;
     }
 
     /**
      * 更新等待状态
-     * @param context 上下文对象，如果包含deltaTime属性则使用外部时间
+     * @param context 上下文对象，如果包含deltaTime属性则使用外部时间，包含时钟时使用行为树时钟
      * @returns 当前执行状态
      */
     public update(context: T): TaskStatus {
@@ -96,6 +105,11 @@ export class WaitAction<T> extends Behavior<T> {
                 console.warn('WaitAction: 无效的deltaTime值，回退到内部时间计算');
                 deltaTime = this._calculateInternalDeltaTime();
             }
+        } else if (hasClock(context)) {
+            // 使用行为树时钟，首次更新时的时间差为0
+            const currentTime = context.clock.now();
+            deltaTime = this._lastClockTime === undefined ? 0 : currentTime - this._lastClockTime;
+            this._lastClockTime = currentTime;
         } else {
             // 使用内部时间计算
             deltaTime = this._calculateInternalDeltaTime();
@@ -155,9 +169,32 @@ export class WaitAction<T> extends Behavior<T> {
         if (resetProgress) {
             this._elapsedTime = 0;
             this._lastUpdateTime = performance.now() / 1000;
+            this._lastClockTime = undefined;
         }
     }
 
+    /**
+     * 获取节点的运行时状态
+     * @returns 已等待的时间和上次更新时的行为树时钟时间
+     */
+    public captureState(): NodeStateData {
+        return {
+            elapsedTime: this._elapsedTime,
+            lastClockTime: this._lastClockTime ?? null
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @description 使用内部时间计算时从恢复的时刻开始继续计时
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this._elapsedTime = state.elapsedTime as number;
+        this._lastClockTime = (state.lastClockTime as number | null) ?? undefined;
+        this._lastUpdateTime = performance.now() / 1000;
+    }
+
     /**
      * 检查是否已完成等待
      * @returns 是否已完成
@@ -1,5 +1,6 @@
 export * from './ExecuteAction';
 export * from './LogAction';
 export * from './WaitAction';
+export * from './AsyncAction';
 export * from './BehaviorTreeReference';
 export * from './BlackboardActions'; 
\ No newline at end of file
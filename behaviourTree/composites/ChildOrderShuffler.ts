@@ -0,0 +1,112 @@
+import { Behavior } from '../Behavior';
+import { ArrayExt } from '../../core/ArrayExt';
+import { RandomStream } from '../../core/Random';
+
+/**
+ * 子节点顺序洗牌器
+ *
+ * @description
+ * 由RandomSelector和RandomSequence共用，记录子节点的原始顺序，
+ * 负责洗牌、恢复原始顺序，以及将洗牌后的顺序保存为原始顺序中的索引和从索引恢复。
+ * 所有方法都返回新的子节点顺序，由组合节点赋值给自己的子节点列表
+ *
+ * @template T 上下文类型
+ */
+export class ChildOrderShuffler<T> {
+    /** 使用洗牌器的节点名称，用于错误信息 */
+    private readonly _ownerName: string;
+
+    /** 原始子节点顺序的备份 */
+    private _originalOrder: Array<Behavior<T>> | null = null;
+
+    /**
+     * @param ownerName 使用洗牌器的节点名称，用于错误信息
+     */
+    constructor(ownerName: string) {
+        this._ownerName = ownerName;
+    }
+
+    /**
+     * 从原始顺序开始洗牌，使洗牌结果只取决于随机数流的状态
+     * @description 第一次调用时备份子节点的原始顺序
+     * @param children 当前子节点顺序
+     * @param random 随机数流
+     * @returns 洗牌后的子节点顺序，洗牌失败时为原始顺序
+     */
+    public shuffle(children: Array<Behavior<T>>, random: RandomStream): Array<Behavior<T>> {
+        // 备份原始顺序（仅在第一次时）
+        if (this._originalOrder === null && children.length > 0) {
+            this._originalOrder = [...children];
+        }
+
+        let result = this._originalOrder && this._originalOrder.length === children.length
+            ? [...this._originalOrder]
+            : children;
+
+        // 只有在有多个子节点时才进行洗牌
+        if (result.length > 1) {
+            try {
+                ArrayExt.shuffle(result, random);
+            } catch (error) {
+                console.error(`${this._ownerName}: 洗牌子节点时发生错误:`, error);
+                // 如果洗牌失败，恢复原始顺序
+                if (this._originalOrder) {
+                    result = [...this._originalOrder];
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 在当前顺序的基础上立即重新洗牌
+     * @param children 当前子节点顺序，会被原地打乱
+     * @param random 随机数流
+     */
+    public reshuffle(children: Array<Behavior<T>>, random: RandomStream): void {
+        if (children.length > 1) {
+            try {
+                ArrayExt.shuffle(children, random);
+            } catch (error) {
+                console.error(`${this._ownerName}: 手动洗牌时发生错误`, error);
+            }
+        }
+    }
+
+    /**
+     * 恢复原始子节点顺序
+     * @param children 当前子节点顺序
+     * @returns 原始顺序，尚未备份时返回当前顺序
+     */
+    public restore(children: Array<Behavior<T>>): Array<Behavior<T>> {
+        return this._originalOrder ? [...this._originalOrder] : children;
+    }
+
+    /**
+     * 获取当前顺序在原始顺序中的索引
+     * @param children 当前子节点顺序
+     * @returns 索引列表，尚未洗牌或子节点已变化时返回null
+     */
+    public captureOrder(children: Array<Behavior<T>>): number[] | null {
+        const originalOrder = this._originalOrder;
+        const order = originalOrder ? children.map(child => originalOrder.indexOf(child)) : null;
+        return order && !order.includes(-1) ? order : null;
+    }
+
+    /**
+     * 按原始顺序中的索引恢复子节点顺序
+     * @param children 当前子节点顺序，尚未备份时作为原始顺序
+     * @param order captureOrder()返回的索引列表
+     * @returns 恢复后的子节点顺序，索引数量与子节点数量不一致时返回当前顺序
+     */
+    public restoreOrder(children: Array<Behavior<T>>, order: number[]): Array<Behavior<T>> {
+        if (this._originalOrder === null) {
+            this._originalOrder = [...children];
+        }
+        const originalOrder = this._originalOrder;
+        return order.length === originalOrder.length
+            ? order.map(index => originalOrder[index]!)
+            : children;
+    }
+}
@@ -2,6 +2,7 @@ import { Behavior } from '../Behavior';
 import { TaskStatus } from '../TaskStatus';
 import { AbortTypes, AbortTypesExt } from './AbortTypes';
 import { isIConditional, IConditional } from '../conditionals/IConditional';
+import { IStatefulNode, NodeStateData } from '../NodeState';
 
 /**
  * 条件装饰器接口，用于类型安全的条件性中止逻辑
@@ -32,7 +33,7 @@ function isConditionalDecorator<T>(node: Behavior<T>): node is Behavior<T> & ICo
  * @template T 上下文类型
  * @abstract
  */
-export abstract class Composite<T> extends Behavior<T> {
+export abstract class Composite<T> extends Behavior<T> implements IStatefulNode {
     /** 中止类型，决定节点在何种情况下会被中止*/
     public abortType: AbortTypes = AbortTypes.None;
 
@@ -59,6 +60,22 @@ export abstract class Composite<T> extends Behavior<T> {
         }
     }
 
+    /**
+     * 中止节点及其所有子节点
+     *
+     * 重写父类方法，先中止子节点再中止自身，使onAbort()按从深到浅的顺序触发
+     *
+     * @param context 执行上下文
+     */
+    public override abort(context: T): void {
+        const childrenLength = this._children.length;
+        for (let i = 0; i < childrenLength; i++) {
+            this._children[i]!.abort(context);
+        }
+
+        super.abort(context);
+    }
+
     /**
      * 释放节点及其所有子节点的资源
      *
@@ -77,8 +94,10 @@ export abstract class Composite<T> extends Behavior<T> {
      * 节点开始执行时的初始化
      * 
      * 检查是否存在低优先级条件中止，并重置当前子节点索引
+     *
+     * @param context 执行上下文
      */
-    public override onStart(): void {
+    public override onStart(context?: T): void {
         // 检查子节点中是否存在低优先级条件中止
         this._hasLowerPriorityConditionalAbort = this.hasLowerPriorityConditionalAbortInChildren();
         this._currentChildIndex = 0;
@@ -126,15 +145,83 @@ export abstract class Composite<T> extends Behavior<T> {
         return false;
     }
 
+    /**
+     * 子节点列表（只读）
+     */
+    public get children(): ReadonlyArray<Behavior<T>> {
+        return this._children;
+    }
+
     /**
      * 添加子节点
-     * 
+     *
      * @param child 要添加的子节点
      */
     public addChild(child: Behavior<T>): void {
         this._children.push(child);
     }
 
+    /**
+     * 从指定子节点恢复执行
+     *
+     * 重新初始化节点（调用onStart()）后将当前子节点索引指向该子节点，并将节点标记为Running，
+     * 下次执行时从该子节点继续而不是从第一个子节点重新开始。用于行为树热重载后恢复正在运行的分支
+     *
+     * @param child 要继续执行的子节点
+     * @param context 执行上下文
+     * @throws {Error} 当指定节点不是当前节点的子节点时抛出错误
+     */
+    public resumeFrom(child: Behavior<T>, context?: T): void {
+        if (!this._children.includes(child)) {
+            throw new Error('指定的节点不是当前节点的子节点');
+        }
+
+        // onStart()可能会调整子节点顺序（如随机组合节点），需要在之后查找索引
+        this.onStart(context);
+        this._currentChildIndex = this._children.indexOf(child);
+        this.status = TaskStatus.Running;
+    }
+
+    /**
+     * 获取节点的运行时状态
+     * @returns 当前子节点索引等状态数据
+     */
+    public captureState(): NodeStateData {
+        return {
+            currentChildIndex: this._currentChildIndex,
+            hasLowerPriorityConditionalAbort: this._hasLowerPriorityConditionalAbort
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this._currentChildIndex = state.currentChildIndex as number;
+        this._hasLowerPriorityConditionalAbort = state.hasLowerPriorityConditionalAbort as boolean;
+    }
+
+    /**
+     * 中止正在运行的子节点
+     *
+     * 用于同时执行多个子节点的复合节点（如Parallel、Race）在得出结果后停止其余子节点，
+     * 被中止的子节点会收到onAbort回调。已结束的子节点保留结果，在onEnd()中统一使其无效
+     *
+     * @param context 执行上下文
+     * @param startIndex 从该索引开始检查子节点，默认0
+     * @protected
+     */
+    protected abortRunningChildren(context: T, startIndex: number = 0): void {
+        const childrenLength = this._children.length;
+        for (let i = startIndex; i < childrenLength; i++) {
+            const child = this._children[i]!;
+            if (child.status === TaskStatus.Running) {
+                child.abort(context);
+            }
+        }
+    }
+
     /**
      * 检查第一个子节点是否为条件节点
      * 
@@ -150,7 +237,7 @@ export abstract class Composite<T> extends Behavior<T> {
      * 更新自中止条件节点
      * 
      * 检查当前索引之前的条件节点状态变化，支持自中止功能。
-     * 当条件节点状态不符合预期时，会重置当前索引并使后续子节点无效。
+     * 当条件节点状态不符合预期时，会重置当前索引并中止后续子节点。
      * 
      * @param context 执行上下文
      * @param statusCheck 期望的状态值
@@ -168,10 +255,10 @@ export abstract class Composite<T> extends Behavior<T> {
             if (status !== statusCheck) {
                 this._currentChildIndex = i;
 
-                // 中止时使后续子节点无效
+                // 中止后续子节点，正在运行的节点会收到onAbort回调
                 const childrenLength = this._children.length;
                 for (let j = i; j < childrenLength; j++) {
-                    this._children[j]!.invalidate();
+                    this._children[j]!.abort(context);
                 }
                 break;
             }
@@ -206,10 +293,10 @@ export abstract class Composite<T> extends Behavior<T> {
                     // 条件满足，需要中止当前执行，回到这个节点
                     this._currentChildIndex = i;
 
-                    // 中止时使后续子节点无效
+                    // 中止后续子节点，正在运行的节点会收到onAbort回调
                     const childrenLength = this._children.length;
                     for (let j = i + 1; j < childrenLength; j++) {
-                        this._children[j]!.invalidate();
+                        this._children[j]!.abort(context);
                     }
                     
                     break;
@@ -229,10 +316,10 @@ export abstract class Composite<T> extends Behavior<T> {
                         if (shouldAbort) {
                             this._currentChildIndex = i;
 
-                            // 中止时使后续子节点无效
+                            // 中止后续子节点，正在运行的节点会收到onAbort回调
                             const childrenLength = this._children.length;
                             for (let j = i + 1; j < childrenLength; j++) {
-                                this._children[j]!.invalidate();
+                                this._children[j]!.abort(context);
                             }
                             
                             break;
@@ -1,21 +1,87 @@
 import { Composite } from './Composite';
+import { Behavior } from '../Behavior';
 import { TaskStatus } from '../TaskStatus';
 
+/**
+ * 并行策略
+ * @description 决定需要多少个子节点成功（或失败）时并行节点结束
+ */
+export enum ParallelPolicy {
+    /** 任一子节点 */
+    RequireOne = 'one',
+    /** 所有子节点 */
+    RequireAll = 'all',
+    /** 指定数量的子节点 */
+    RequireN = 'n'
+}
+
+/**
+ * 并行策略选项
+ * @description "one"、"all"，或者数字表示需要的子节点数量（RequireN）
+ */
+export type ParallelPolicyOption = 'one' | 'all' | number;
+
+/**
+ * 并行节点选项
+ */
+export interface ParallelOptions {
+    /** 成功策略，默认"all" */
+    success?: ParallelPolicyOption;
+    /** 失败策略，默认"one" */
+    failure?: ParallelPolicyOption;
+}
+
 /**
  * 并行组合器
- * 
+ *
  * @description
- * 同时执行所有子节点，直到满足终止条件：
- * - 任何子节点失败时返回失败
- * - 所有子节点成功时返回成功
+ * 同时执行所有子节点，根据成功策略和失败策略决定结果：
+ * - 成功的子节点数量满足成功策略时返回成功
+ * - 失败的子节点数量满足失败策略时返回失败
+ * - 所有子节点都已结束但两个策略都不满足时返回失败
  * - 其他情况返回运行中
- * 
+ *
+ * 已经成功或失败的子节点在本次并行执行结束前不会再被执行。
+ * 得出结果时会中止仍在运行的子节点。
+ * 默认策略为所有子节点成功时成功、任一子节点失败时失败
+ *
  * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * // 任一子节点成功即成功，所有子节点失败才失败
+ * const search = new Parallel<GameContext>({ success: 'one', failure: 'all' });
+ *
+ * // 三个子节点中任意两个成功即成功
+ * const vote = new Parallel<GameContext>({ success: 2, failure: 2 });
+ * ```
  */
 export class Parallel<T> extends Composite<T> {
+    /** 成功策略 */
+    public successPolicy: ParallelPolicy;
+
+    /** 成功策略为RequireN时需要成功的子节点数量 */
+    public successCount: number;
+
+    /** 失败策略 */
+    public failurePolicy: ParallelPolicy;
+
+    /** 失败策略为RequireN时需要失败的子节点数量 */
+    public failureCount: number;
+
     /** 缓存的子节点数量，避免重复访问length属性*/
     private _childCount: number = 0;
 
+    /**
+     * 创建并行节点
+     * @param options 并行节点选项
+     */
+    constructor(options: ParallelOptions = {}) {
+        super();
+        [this.successPolicy, this.successCount] = parsePolicyOption(options.success ?? 'all');
+        [this.failurePolicy, this.failureCount] = parsePolicyOption(options.failure ?? 'one');
+    }
+
     public override onStart(): void {
         super.onStart();
         this._childCount = this._children.length;
@@ -26,29 +92,34 @@ export class Parallel<T> extends Composite<T> {
             return TaskStatus.Success;
         }
 
+        const successThreshold = this.getThreshold(this.successPolicy, this.successCount);
+        const failureThreshold = this.getThreshold(this.failurePolicy, this.failureCount);
         let successCount = 0;
-        
-        // 使用缓存的长度和提前退出优化
+        let failureCount = 0;
+
         for (let i = 0; i < this._childCount; i++) {
             const child = this._children[i]!;
-            child.tick(context);
 
-            const status = child.status;
-            
-            // 提前退出：任何子节点失败立即返回失败
-            if (status === TaskStatus.Failure) {
-                return TaskStatus.Failure;
+            // 已结束的子节点保留结果，不再执行
+            let status = child.status;
+            if (status !== TaskStatus.Success && status !== TaskStatus.Failure) {
+                status = child.tick(context);
             }
-            
-            // 计数成功的子节点
-            if (status === TaskStatus.Success) {
-                successCount++;
+
+            // 提前退出：满足策略后不再执行后续子节点
+            if (status === TaskStatus.Success && ++successCount >= successThreshold) {
+                this.abortRunningChildren(context);
+                return TaskStatus.Success;
+            }
+            if (status === TaskStatus.Failure && ++failureCount >= failureThreshold) {
+                this.abortRunningChildren(context);
+                return TaskStatus.Failure;
             }
         }
 
-        // 所有子节点都成功
-        if (successCount === this._childCount) {
-            return TaskStatus.Success;
+        // 所有子节点都已结束但不满足任何策略
+        if (successCount + failureCount === this._childCount) {
+            return TaskStatus.Failure;
         }
 
         return TaskStatus.Running;
@@ -57,9 +128,34 @@ export class Parallel<T> extends Composite<T> {
     /**
      * 添加子节点时更新缓存
      */
-    public override addChild(child: import('../Behavior.js').Behavior<T>): void {
+    public override addChild(child: Behavior<T>): void {
         super.addChild(child);
         this._childCount = this._children.length;
     }
+
+    /**
+     * 获取策略需要的子节点数量
+     * @description RequireN的数量超过子节点数量时按子节点数量计算
+     */
+    private getThreshold(policy: ParallelPolicy, count: number): number {
+        switch (policy) {
+            case ParallelPolicy.RequireOne:
+                return 1;
+            case ParallelPolicy.RequireAll:
+                return this._childCount;
+            case ParallelPolicy.RequireN:
+                return Math.min(Math.max(count, 1), this._childCount);
+        }
+    }
 }
 
+/**
+ * 解析并行策略选项
+ * @returns 策略和RequireN的数量
+ */
+function parsePolicyOption(option: ParallelPolicyOption): [ParallelPolicy, number] {
+    if (typeof option === 'number') {
+        return [ParallelPolicy.RequireN, option];
+    }
+    return [option === 'one' ? ParallelPolicy.RequireOne : ParallelPolicy.RequireAll, 1];
+}
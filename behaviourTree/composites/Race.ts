@@ -0,0 +1,37 @@
+import { Composite } from './Composite';
+import { TaskStatus } from '../TaskStatus';
+
+/**
+ * 竞速节点
+ *
+ * @description
+ * 同时执行所有子节点，第一个结束的子节点决定结果：
+ * - 任一子节点成功或失败时返回该子节点的结果，并中止其余正在运行的子节点
+ * - 同一次执行中有多个子节点结束时，按子节点顺序靠前的优先
+ * - 没有子节点时返回失败
+ *
+ * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * // 找到掩体或者超时，先发生的决定结果
+ * const race = new Race<GameContext>();
+ * race.addChild(new FindCover());
+ * race.addChild(new WaitAction(3));
+ * ```
+ */
+export class Race<T> extends Composite<T> {
+    public update(context: T): TaskStatus {
+        const childrenLength = this._children.length;
+        for (let i = 0; i < childrenLength; i++) {
+            const child = this._children[i]!;
+            const status = child.tick(context);
+            if (status === TaskStatus.Success || status === TaskStatus.Failure) {
+                this.abortRunningChildren(context);
+                return status;
+            }
+        }
+
+        return childrenLength === 0 ? TaskStatus.Failure : TaskStatus.Running;
+    }
+}
@@ -1,6 +1,9 @@
 import { Sequence } from './Sequence';
-import { ArrayExt } from '../../core/ArrayExt';
 import { AbortTypes } from './AbortTypes';
+import { Random, RandomStream } from '../../core/Random';
+import { getRandom } from '../TreeRandom';
+import { NodeStateData } from '../NodeState';
+import { ChildOrderShuffler } from './ChildOrderShuffler';
 
 /**
  * 随机序列节点
@@ -25,8 +28,8 @@ export class RandomSequence<T> extends Sequence<T> {
     /** 是否在每次重新开始时都重新洗牌*/
     private _reshuffleOnRestart: boolean;
     
-    /** 原始子节点顺序的备份 */
-    private _originalOrder: Array<any> | null = null;
+    /** 子节点顺序洗牌器，保存原始子节点顺序 */
+    private readonly _shuffler = new ChildOrderShuffler<T>('RandomSequence');
 
     /**
      * 创建随机序列节点
@@ -40,29 +43,12 @@ export class RandomSequence<T> extends Sequence<T> {
 
     /**
      * 节点开始时的处理
-     * 随机打乱子节点顺序
+     * 随机打乱子节点顺序，在行为树中执行时使用行为树的随机数流
      */
-    public override onStart(): void {
+    public override onStart(context?: T): void {
         // 首先调用父类的onStart方法，重置_currentChildIndex
         super.onStart();
-        
-        // 备份原始顺序（仅在第一次时）
-        if (this._originalOrder === null && this._children.length > 0) {
-            this._originalOrder = [...this._children];
-        }
-
-        // 只有在有多个子节点时才进行洗牌
-        if (this._children.length > 1) {
-            try {
-                ArrayExt.shuffle(this._children);
-            } catch (error) {
-                console.error('RandomSequence: 洗牌子节点时发生错误:', error);
-                // 如果洗牌失败，恢复原始顺序
-                if (this._originalOrder) {
-                    this._children = [...this._originalOrder];
-                }
-            }
-        }
+        this._children = this._shuffler.shuffle(this._children, getRandom(context));
     }
 
     /**
@@ -73,8 +59,32 @@ export class RandomSequence<T> extends Sequence<T> {
         super.invalidate();
         
         // 如果不需要每次重启都洗牌，恢复原始顺序
-        if (!this._reshuffleOnRestart && this._originalOrder) {
-            this._children = [...this._originalOrder];
+        if (!this._reshuffleOnRestart) {
+            this._children = this._shuffler.restore(this._children);
+        }
+    }
+
+    /**
+     * 获取节点的运行时状态
+     * @returns 当前子节点索引和洗牌后的子节点顺序（原始顺序中的索引）
+     */
+    public override captureState(): NodeStateData {
+        return {
+            ...super.captureState(),
+            order: this._shuffler.captureOrder(this._children)
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public override restoreState(state: NodeStateData): void {
+        super.restoreState(state);
+
+        const order = state.order as number[] | null;
+        if (order) {
+            this._children = this._shuffler.restoreOrder(this._children, order);
         }
     }
 
@@ -99,23 +109,16 @@ export class RandomSequence<T> extends Sequence<T> {
      * @description 将子节点顺序恢复到添加时的原始顺序
      */
     public restoreOriginalOrder(): void {
-        if (this._originalOrder) {
-            this._children = [...this._originalOrder];
-        }
+        this._children = this._shuffler.restore(this._children);
     }
 
     /**
      * 手动重新洗牌子节点
      * @description 立即重新洗牌子节点顺序，不等待下次开始
+     * @param random 随机数流，默认使用全局Random的默认随机数流
      */
-    public reshuffleNow(): void {
-        if (this._children.length > 1) {
-            try {
-                ArrayExt.shuffle(this._children);
-            } catch (error) {
-                console.error('RandomSequence: 手动洗牌时发生错误', error);
-            }
-        }
+    public reshuffleNow(random: RandomStream = Random.getDefaultStream()): void {
+        this._shuffler.reshuffle(this._children, random);
     }
 }
 
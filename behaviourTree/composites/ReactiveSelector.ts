@@ -0,0 +1,54 @@
+import { Composite } from './Composite';
+import { TaskStatus } from '../TaskStatus';
+
+/**
+ * 响应式选择器组合器
+ *
+ * @description
+ * 与Selector相同，按顺序执行子节点直到找到成功的节点，但每次执行都从第一个子节点重新开始，
+ * 不需要设置中止类型就能让高优先级的分支及时打断低优先级的分支
+ * （与BehaviorTree.CPP的ReactiveFallback一致）：
+ * - 正在运行的子节点之前的子节点每次执行都会重新开始（onStart、update、onEnd），
+ *   已结束的条件和动作都会重新执行
+ * - 任何子节点成功时中止其后正在运行的子节点并返回成功
+ * - 子节点运行中时中止其后正在运行的子节点并返回运行中，
+ *   因此之前的子节点变为运行中时会中止原来运行的子节点
+ * - 所有子节点失败时返回失败
+ *
+ * 正在运行的子节点之前的子节点应该是条件或立即结束的动作
+ *
+ * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * // 巡逻途中发现敌人时立即中止巡逻
+ * const brain = new ReactiveSelector<GameContext>();
+ * brain.addChild(attackWhenEnemyVisible);
+ * brain.addChild(new Patrol());
+ * ```
+ */
+export class ReactiveSelector<T> extends Composite<T> {
+    public update(context: T): TaskStatus {
+        const childrenLength = this._children.length;
+        for (let i = 0; i < childrenLength; i++) {
+            const child = this._children[i]!;
+
+            // 已结束的子节点重新开始，正在运行的子节点继续执行
+            if (child.status === TaskStatus.Success || child.status === TaskStatus.Failure) {
+                child.invalidate();
+            }
+
+            const status = child.tick(context);
+            if (status === TaskStatus.Failure) {
+                continue;
+            }
+
+            this._currentChildIndex = i;
+            this.abortRunningChildren(context, i + 1);
+            return status === TaskStatus.Success ? TaskStatus.Success : TaskStatus.Running;
+        }
+
+        this._currentChildIndex = 0;
+        return TaskStatus.Failure;
+    }
+}
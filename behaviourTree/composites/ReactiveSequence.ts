@@ -0,0 +1,54 @@
+import { Composite } from './Composite';
+import { TaskStatus } from '../TaskStatus';
+
+/**
+ * 响应式序列组合器
+ *
+ * @description
+ * 与Sequence相同，按顺序执行子节点直到所有节点成功，但每次执行都从第一个子节点重新开始，
+ * 不需要设置中止类型就能及时响应条件的变化（与BehaviorTree.CPP的ReactiveSequence一致）：
+ * - 正在运行的子节点之前的子节点每次执行都会重新开始（onStart、update、onEnd），
+ *   已结束的条件和动作都会重新执行
+ * - 任何子节点失败时中止其后正在运行的子节点并返回失败
+ * - 子节点运行中时中止其后正在运行的子节点并返回运行中，
+ *   因此之前的子节点变为运行中时会中止原来运行的子节点
+ * - 所有子节点成功时返回成功
+ *
+ * 正在运行的子节点之前的子节点应该是条件或立即结束的动作，
+ * 会持续运行的动作放在这些子节点之前会使其后的子节点每次都被中止
+ *
+ * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * // 敌人可见时追击，敌人消失时立即中止追击
+ * const chase = new ReactiveSequence<GameContext>();
+ * chase.addChild(new IsEnemyVisible());
+ * chase.addChild(new MoveToEnemy());
+ * ```
+ */
+export class ReactiveSequence<T> extends Composite<T> {
+    public update(context: T): TaskStatus {
+        const childrenLength = this._children.length;
+        for (let i = 0; i < childrenLength; i++) {
+            const child = this._children[i]!;
+
+            // 已结束的子节点重新开始，正在运行的子节点继续执行
+            if (child.status === TaskStatus.Success || child.status === TaskStatus.Failure) {
+                child.invalidate();
+            }
+
+            const status = child.tick(context);
+            if (status === TaskStatus.Success) {
+                continue;
+            }
+
+            this._currentChildIndex = i;
+            this.abortRunningChildren(context, i + 1);
+            return status === TaskStatus.Failure ? TaskStatus.Failure : TaskStatus.Running;
+        }
+
+        this._currentChildIndex = 0;
+        return TaskStatus.Success;
+    }
+}
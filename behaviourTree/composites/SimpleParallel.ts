@@ -0,0 +1,83 @@
+import { Composite } from './Composite';
+import { TaskStatus } from '../TaskStatus';
+
+/**
+ * 简单并行节点的结束方式
+ */
+export enum SimpleParallelFinishMode {
+    /** 主任务结束时立即中止后台任务 */
+    Immediate = 'immediate',
+    /** 主任务结束后等待正在运行的后台任务结束 */
+    Delayed = 'delayed'
+}
+
+/**
+ * 简单并行节点
+ *
+ * @description
+ * 第一个子节点为主任务，第二个子节点为后台任务，每次执行时先执行主任务再执行后台任务：
+ * - 主任务运行期间，后台任务结束后会在下次执行时重新开始
+ * - 主任务结束时，按结束方式中止后台任务或等待其结束
+ * - 结果始终为主任务的结果
+ *
+ * @template T 上下文类型
+ *
+ * @example
+ * ```typescript
+ * // 移动到目标的同时持续瞄准，到达后停止瞄准
+ * const moveAndAim = new SimpleParallel<GameContext>();
+ * moveAndAim.addChild(new MoveToTarget());
+ * moveAndAim.addChild(new AimAtEnemy());
+ * ```
+ */
+export class SimpleParallel<T> extends Composite<T> {
+    /** 主任务结束时的处理方式 */
+    public finishMode: SimpleParallelFinishMode;
+
+    /**
+     * 创建简单并行节点
+     * @param finishMode 主任务结束时的处理方式，默认立即中止后台任务
+     */
+    constructor(finishMode: SimpleParallelFinishMode = SimpleParallelFinishMode.Immediate) {
+        super();
+        this.finishMode = finishMode;
+    }
+
+    public update(context: T): TaskStatus {
+        const main = this._children[0];
+        if (!main) {
+            throw new Error('简单并行节点需要主任务子节点');
+        }
+        const background = this._children[1];
+
+        // 主任务结束后保留结果，等待后台任务时不再执行
+        let mainStatus = main.status;
+        if (mainStatus !== TaskStatus.Success && mainStatus !== TaskStatus.Failure) {
+            mainStatus = main.tick(context);
+        }
+
+        if (!background) {
+            return mainStatus;
+        }
+
+        if (mainStatus === TaskStatus.Running) {
+            // 后台任务在主任务运行期间循环执行
+            if (background.status === TaskStatus.Success || background.status === TaskStatus.Failure) {
+                background.invalidate();
+            }
+            background.tick(context);
+            return TaskStatus.Running;
+        }
+
+        if (this.finishMode === SimpleParallelFinishMode.Immediate) {
+            this.abortRunningChildren(context);
+            return mainStatus;
+        }
+
+        // 延迟结束：只继续执行尚未结束的后台任务，不再重新开始
+        if (background.status === TaskStatus.Running && background.tick(context) === TaskStatus.Running) {
+            return TaskStatus.Running;
+        }
+        return mainStatus;
+    }
+}
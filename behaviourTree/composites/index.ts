@@ -1,8 +1,13 @@
 export * from './AbortTypes';
+export * from './ChildOrderShuffler';
 export * from './Composite';
 export * from './Parallel';
 export * from './ParallelSelector';
+export * from './Race';
 export * from './RandomSelector';
 export * from './RandomSequence';
+export * from './ReactiveSelector';
+export * from './ReactiveSequence';
 export * from './Selector';
-export * from './Sequence'; 
+export * from './Sequence';
+export * from './SimpleParallel'; 
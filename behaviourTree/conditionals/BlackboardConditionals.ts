@@ -1,6 +1,7 @@
 import { IConditional } from './IConditional';
 import { Blackboard, BlackboardValueType } from '../Blackboard';
 import { TaskStatus } from '../TaskStatus';
+import type { ComparisonExplanation, IExplainableNode } from '../TickExplanation';
 
 /**
  * 黑板比较操作符
@@ -39,7 +40,7 @@ export enum CompareOperator {
  * );
  * ```
  */
-export class BlackboardValueComparison<T> implements IConditional<T> {
+export class BlackboardValueComparison<T> implements IConditional<T>, IExplainableNode {
     readonly discriminator = 'IConditional' as const;
     
     /** 要比较的黑板变量名 */
@@ -54,6 +55,9 @@ export class BlackboardValueComparison<T> implements IConditional<T> {
     /** 要比较的另一个黑板变量名（与compareValue二选一） */
     public compareVariable?: string;
 
+    /** 最近一次求值的比较值和结果 */
+    private _lastEvaluation: { left: unknown; right: unknown; passed: boolean } | null = null;
+
     constructor(
         variableName: string,
         operator: CompareOperator,
@@ -73,11 +77,13 @@ export class BlackboardValueComparison<T> implements IConditional<T> {
         const blackboard = (context as any).blackboard;
         if (!blackboard || !(blackboard instanceof Blackboard)) {
             console.warn('BlackboardValueComparison: 上下文中未找到Blackboard实例');
+            this._lastEvaluation = { left: undefined, right: this.compareValue, passed: false };
             return TaskStatus.Failure;
         }
 
         if (!blackboard.hasVariable(this.variableName)) {
             console.warn(`BlackboardValueComparison: 变量 "${this.variableName}" 不存在`);
+            this._lastEvaluation = { left: undefined, right: this.compareValue, passed: false };
             return TaskStatus.Failure;
         }
 
@@ -88,6 +94,7 @@ export class BlackboardValueComparison<T> implements IConditional<T> {
         if (this.compareVariable) {
             if (!blackboard.hasVariable(this.compareVariable)) {
                 console.warn(`BlackboardValueComparison: 比较变量 "${this.compareVariable}" 不存在`);
+                this._lastEvaluation = { left: leftValue, right: undefined, passed: false };
                 return TaskStatus.Failure;
             }
             rightValue = blackboard.getValue(this.compareVariable);
@@ -96,9 +103,29 @@ export class BlackboardValueComparison<T> implements IConditional<T> {
         }
 
         const result = this._performComparison(leftValue, rightValue, this.operator);
+        this._lastEvaluation = { left: leftValue, right: rightValue, passed: result };
         return result ? TaskStatus.Success : TaskStatus.Failure;
     }
 
+    /**
+     * 说明最近一次比较的左右两侧的值和运算符
+     */
+    public explain(): ComparisonExplanation | null {
+        if (!this._lastEvaluation) {
+            return null;
+        }
+        const explanation: ComparisonExplanation = {
+            kind: 'comparison',
+            variable: this.variableName,
+            operator: this.operator,
+            ...this._lastEvaluation
+        };
+        if (this.compareVariable) {
+            explanation.compareVariable = this.compareVariable;
+        }
+        return explanation;
+    }
+
     /**
      * 执行比较操作
      */
@@ -1,6 +1,7 @@
 import { ExecuteAction } from '../actions/ExecuteAction';
 import { TaskStatus } from '../TaskStatus';
 import { IConditional } from './IConditional';
+import { IExplainableNode, NodeExplanationDetails, isExplainableNode } from '../TickExplanation';
 
 /**
  * 执行动作条件包装器
@@ -25,9 +26,12 @@ import { IConditional } from './IConditional';
  * );
  * ```
  */
-export class ExecuteActionConditional<T> extends ExecuteAction<T> implements IConditional<T> {
+export class ExecuteActionConditional<T> extends ExecuteAction<T> implements IConditional<T>, IExplainableNode {
     /** 条件节点标识符 */
     public readonly discriminator: "IConditional" = "IConditional";
+
+    /** 被包装的条件，用于说明判断依据 */
+    private readonly _conditional?: IConditional<T>;
     
     /**
      * 创建执行动作条件
@@ -41,9 +45,29 @@ export class ExecuteActionConditional<T> extends ExecuteAction<T> implements ICo
             enableErrorHandling?: boolean;
             /** 条件名称，用于调试 */
             name?: string;
+            /** action所执行的条件，用于说明判断依据 */
+            conditional?: IConditional<T>;
         } = {}
     ) {
         super(action, options);
+        this._conditional = options.conditional;
+    }
+
+    /**
+     * 将条件包装为节点
+     * @param conditional 条件
+     * @returns 新的ExecuteActionConditional实例，判断依据由条件说明
+     */
+    public static fromConditional<T>(conditional: IConditional<T>): ExecuteActionConditional<T> {
+        return new ExecuteActionConditional<T>((context) => conditional.update(context), { conditional });
+    }
+
+    /**
+     * 说明最近一次执行的判断依据
+     * @returns 被包装的条件的判断依据，条件不支持说明时返回null
+     */
+    public explain(): NodeExplanationDetails | null {
+        return isExplainableNode(this._conditional) ? this._conditional.explain() : null;
     }
 
     /**
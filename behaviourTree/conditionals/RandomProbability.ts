@@ -1,11 +1,13 @@
 import { Behavior } from '../Behavior';
 import { TaskStatus } from '../TaskStatus';
 import { IConditional } from './IConditional';
+import { getRandom } from '../TreeRandom';
 
 /**
  * 当随机概率高于successProbability概率时返回成功。
  * 否则它将返回失败。
  * successProbability应该在0和1之间
+ * 在行为树中执行时使用行为树的随机数流
  */
 export class RandomProbability<T> extends Behavior<T> implements IConditional<T> {
     public readonly discriminator: "IConditional" = "IConditional";
@@ -18,8 +20,8 @@ export class RandomProbability<T> extends Behavior<T> implements IConditional<T>
         this._successProbability = successProbability;
     }
 
-    public update(_context: T): TaskStatus {
-        if (Math.random() > this._successProbability)
+    public update(context: T): TaskStatus {
+        if (getRandom(context).value() > this._successProbability)
             return TaskStatus.Success;
 
         return TaskStatus.Failure;
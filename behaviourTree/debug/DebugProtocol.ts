@@ -0,0 +1,494 @@
+import { Behavior } from '../Behavior';
+import { BehaviorTree } from '../BehaviorTree';
+import { TaskStatus } from '../TaskStatus';
+import { NodeStateValue } from '../NodeState';
+import { ITreeObserver } from '../TreeObserver';
+import { ROOT_NODE_PATH, getChildNodes, getNodeId } from '../TreeTraversal';
+import { NodeTypeRegistry } from '../factories/NodeTypeRegistry';
+import { Breakpoint, BreakpointCondition, BreakpointType, TreeHaltInfo } from './TreeDebugger';
+
+/**
+ * 远程调试协议版本
+ */
+export const DEBUG_PROTOCOL_VERSION = 1;
+
+/**
+ * 节点结构信息
+ */
+export interface DebugNodeInfo {
+    /** 节点ID */
+    id: string;
+    /** 节点在树中的路径 */
+    path: string;
+    /** 节点类型，通过配置创建的节点为配置中的类型，其他节点为类名 */
+    type: string;
+    /** 节点名称 */
+    name?: string;
+    /** 节点标签 */
+    tags?: string[];
+    /** 当前状态 */
+    status: TaskStatus;
+    /** 子节点 */
+    children?: DebugNodeInfo[];
+}
+
+/**
+ * 节点状态变化：[节点ID, 新状态]
+ */
+export type DebugNodeStatus = [nodeId: string, status: TaskStatus];
+
+/**
+ * 黑板变量值：变量名 → 值
+ */
+export type DebugBlackboardValues = Record<string, NodeStateValue>;
+
+/**
+ * 连接建立时发送的握手消息
+ */
+export interface DebugHelloMessage {
+    type: 'hello';
+    /** 协议版本 */
+    version: number;
+    /** 已注册的代理名称 */
+    agents: string[];
+    /** 当前选中的代理 */
+    selectedAgent: string | null;
+}
+
+/**
+ * 代理列表变化消息
+ */
+export interface DebugAgentsMessage {
+    type: 'agents';
+    agents: string[];
+    selectedAgent: string | null;
+}
+
+/**
+ * 行为树结构消息，选中代理或客户端连接时发送
+ */
+export interface DebugTreeMessage {
+    type: 'tree';
+    agent: string;
+    /** 根节点结构和当前状态 */
+    root: DebugNodeInfo;
+    /** 全部黑板变量的当前值 */
+    blackboard: DebugBlackboardValues;
+    /** 是否暂停 */
+    paused: boolean;
+    /** 已执行的次数 */
+    tick: number;
+}
+
+/**
+ * 单次执行消息
+ */
+export interface DebugTickMessage {
+    type: 'tick';
+    agent: string;
+    /** 执行序号（从0开始） */
+    tick: number;
+    /** 根节点的执行状态 */
+    status: TaskStatus;
+    /** 执行耗时（毫秒） */
+    duration: number;
+    /** 本次执行中节点状态的变化，按发生顺序排列 */
+    nodes: DebugNodeStatus[];
+    /** 上一条消息之后发生变化的黑板变量 */
+    blackboard?: DebugBlackboardValues;
+    /** 上一条消息之后被移除的黑板变量 */
+    removed?: string[];
+}
+
+/**
+ * 黑板变化消息，在两次执行之间修改黑板时发送
+ */
+export interface DebugBlackboardMessage {
+    type: 'blackboard';
+    agent: string;
+    blackboard: DebugBlackboardValues;
+    removed?: string[];
+}
+
+/**
+ * 暂停状态变化消息
+ */
+export interface DebugPausedMessage {
+    type: 'paused';
+    agent: string;
+    paused: boolean;
+}
+
+/**
+ * 命中断点或单步执行后中断的消息，随后会发送中断时的行为树结构消息
+ */
+export interface DebugHaltedMessage {
+    type: 'halted';
+    agent: string;
+    halt: TreeHaltInfo;
+}
+
+/**
+ * 断点列表变化消息
+ */
+export interface DebugBreakpointsMessage {
+    type: 'breakpoints';
+    agent: string;
+    breakpoints: Breakpoint[];
+}
+
+/**
+ * 命令执行成功的应答
+ */
+export interface DebugAckMessage {
+    type: 'ack';
+    /** 命令ID */
+    id?: number | string;
+    /** 命令类型 */
+    command: DebugCommand['type'];
+}
+
+/**
+ * 命令执行失败的应答
+ */
+export interface DebugErrorMessage {
+    type: 'error';
+    id?: number | string;
+    message: string;
+}
+
+/**
+ * 调试端发送给客户端的消息
+ */
+export type DebugServerMessage =
+    | DebugHelloMessage
+    | DebugAgentsMessage
+    | DebugTreeMessage
+    | DebugTickMessage
+    | DebugBlackboardMessage
+    | DebugPausedMessage
+    | DebugHaltedMessage
+    | DebugBreakpointsMessage
+    | DebugAckMessage
+    | DebugErrorMessage;
+
+/**
+ * 命令的公共字段
+ */
+export interface DebugCommandBase {
+    /** 可选的命令ID，应答消息中会原样返回 */
+    id?: number | string;
+}
+
+/**
+ * 暂停选中的代理
+ */
+export interface DebugPauseCommand extends DebugCommandBase {
+    type: 'pause';
+}
+
+/**
+ * 恢复选中的代理
+ */
+export interface DebugResumeCommand extends DebugCommandBase {
+    type: 'resume';
+}
+
+/**
+ * 暂停选中的代理并执行一次，中断时完成被中断的执行（与stepTick相同）
+ */
+export interface DebugStepCommand extends DebugCommandBase {
+    type: 'step' | 'stepTick';
+    /** 时间差（秒），默认使用更新周期，每帧更新模式使用最近一次的时间差 */
+    deltaTime?: number;
+}
+
+/**
+ * 执行到下一个节点事件
+ */
+export interface DebugStepNodeCommand extends DebugCommandBase {
+    type: 'stepNode';
+    /** 开始新的执行时使用的时间差（秒） */
+    deltaTime?: number;
+}
+
+/**
+ * 继续执行到下一个断点
+ */
+export interface DebugContinueCommand extends DebugCommandBase {
+    type: 'continue';
+}
+
+/**
+ * 在选中代理的节点上设置断点
+ */
+export interface DebugSetBreakpointCommand extends DebugCommandBase {
+    type: 'setBreakpoint';
+    nodeId: string;
+    /** 断点类型，默认'start' */
+    breakpointType?: BreakpointType;
+    condition?: BreakpointCondition;
+}
+
+/**
+ * 移除选中代理的断点
+ */
+export interface DebugRemoveBreakpointCommand extends DebugCommandBase {
+    type: 'removeBreakpoint';
+    breakpointId: number;
+}
+
+/**
+ * 设置选中代理的黑板变量
+ */
+export interface DebugSetBlackboardValueCommand extends DebugCommandBase {
+    type: 'setBlackboardValue';
+    name: string;
+    value: NodeStateValue;
+}
+
+/**
+ * 选中代理
+ */
+export interface DebugSelectAgentCommand extends DebugCommandBase {
+    type: 'selectAgent';
+    agent: string;
+}
+
+/**
+ * 客户端发送给调试端的命令
+ */
+export type DebugCommand =
+    | DebugPauseCommand
+    | DebugResumeCommand
+    | DebugStepCommand
+    | DebugStepNodeCommand
+    | DebugContinueCommand
+    | DebugSetBreakpointCommand
+    | DebugRemoveBreakpointCommand
+    | DebugSetBlackboardValueCommand
+    | DebugSelectAgentCommand;
+
+/**
+ * 解析客户端发送的命令
+ * @param data JSON文本
+ * @returns 命令
+ * @throws {Error} 当数据不是有效的命令时抛出错误
+ */
+export function parseDebugCommand(data: string): DebugCommand {
+    let command: unknown;
+    try {
+        command = JSON.parse(data);
+    } catch {
+        throw new Error('无法解析调试命令');
+    }
+
+    if (command == null || typeof command !== 'object' || typeof (command as DebugCommand).type !== 'string') {
+        throw new Error('调试命令缺少type字段');
+    }
+    return command as DebugCommand;
+}
+
+/**
+ * 将值深拷贝为可JSON序列化的值
+ */
+function toDebugValue(value: unknown): NodeStateValue {
+    if (value === undefined) {
+        return null;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value as NodeStateValue;
+    }
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 序列化节点结构
+ * @param node 节点
+ * @param path 节点路径，默认"root"
+ * @returns 节点及其子节点的结构信息
+ */
+export function serializeNodeTree<T>(node: Behavior<T>, path: string = ROOT_NODE_PATH): DebugNodeInfo {
+    const source = NodeTypeRegistry.getNodeSource(node);
+    const info: DebugNodeInfo = {
+        id: getNodeId(node, path),
+        path,
+        type: source?.type ?? node.constructor.name,
+        status: node.status
+    };
+    if (node.name !== undefined) {
+        info.name = node.name;
+    }
+    if (node.tags && node.tags.length > 0) {
+        info.tags = [...node.tags];
+    }
+
+    const children = getChildNodes(node);
+    if (children.length > 0) {
+        info.children = children.map((child, i) => serializeNodeTree(child, `${path}/${i}`));
+    }
+    return info;
+}
+
+/**
+ * 行为树调试序列化器
+ *
+ * @description
+ * 将一棵行为树的结构、每次执行的节点状态变化和黑板差异转换为调试协议消息。
+ * attach()后通过观察者在每次执行结束时输出tick消息，黑板只发送与上一条消息相比发生变化的变量
+ *
+ * @example
+ * ```typescript
+ * const serializer = new DebugSerializer(tree, 'npc-1', message => socket.send(JSON.stringify(message)));
+ * socket.send(JSON.stringify(serializer.serializeTree()));
+ * serializer.attach();
+ * ```
+ */
+export class DebugSerializer<T> {
+    private readonly _tree: BehaviorTree<T>;
+    private readonly _agent: string;
+    private readonly _emit: (message: DebugServerMessage) => void;
+    private readonly _observer: ITreeObserver<T>;
+
+    /** 上一条消息中黑板变量的JSON文本 */
+    private _blackboardBaseline = new Map<string, string>();
+
+    /** 正在执行的tick中节点状态的变化 */
+    private _nodes: DebugNodeStatus[] = [];
+
+    private _attached: boolean = false;
+
+    /**
+     * @param tree 行为树
+     * @param agent 代理名称
+     * @param emit 消息输出函数
+     */
+    constructor(tree: BehaviorTree<T>, agent: string, emit: (message: DebugServerMessage) => void) {
+        this._tree = tree;
+        this._agent = agent;
+        this._emit = emit;
+        this._observer = {
+            onTickStart: () => {
+                this._nodes = [];
+            },
+            onStatusChange: (event) => {
+                this._nodes.push([event.id, event.status]);
+            },
+            onTickEnd: (event) => {
+                const message: DebugTickMessage = {
+                    type: 'tick',
+                    agent: this._agent,
+                    tick: event.tickIndex,
+                    status: event.status,
+                    duration: event.duration,
+                    nodes: this._nodes
+                };
+                this._nodes = [];
+                const diff = this._diffBlackboard();
+                if (diff) {
+                    message.blackboard = diff.blackboard;
+                    if (diff.removed) {
+                        message.removed = diff.removed;
+                    }
+                }
+                this._emit(message);
+            }
+        };
+    }
+
+    /**
+     * 代理名称
+     */
+    public get agent(): string {
+        return this._agent;
+    }
+
+    /**
+     * 行为树
+     */
+    public get tree(): BehaviorTree<T> {
+        return this._tree;
+    }
+
+    /**
+     * 开始输出tick消息
+     */
+    public attach(): void {
+        if (!this._attached) {
+            this._attached = true;
+            this._tree.addObserver(this._observer);
+        }
+    }
+
+    /**
+     * 停止输出tick消息
+     */
+    public detach(): void {
+        if (this._attached) {
+            this._attached = false;
+            this._tree.removeObserver(this._observer);
+        }
+    }
+
+    /**
+     * 生成行为树结构消息，并以当前黑板作为之后差异比较的基准
+     * @returns 行为树结构消息
+     */
+    public serializeTree(): DebugTreeMessage {
+        const blackboard: DebugBlackboardValues = {};
+        this._blackboardBaseline.clear();
+        const board = this._tree.getBlackboard();
+        for (const name of board.getVariableNames()) {
+            const value = toDebugValue(board.getValue(name));
+            blackboard[name] = value;
+            this._blackboardBaseline.set(name, JSON.stringify(value));
+        }
+
+        return {
+            type: 'tree',
+            agent: this._agent,
+            root: serializeNodeTree(this._tree.getRoot()),
+            blackboard,
+            paused: this._tree.isPaused(),
+            tick: this._tree.getStats().totalTicks
+        };
+    }
+
+    /**
+     * 生成黑板变化消息
+     * @returns 黑板变化消息，没有变化时返回null
+     */
+    public serializeBlackboardChanges(): DebugBlackboardMessage | null {
+        const diff = this._diffBlackboard();
+        return diff && { type: 'blackboard', agent: this._agent, ...diff };
+    }
+
+    /**
+     * 比较黑板与上一条消息的差异并更新基准
+     */
+    private _diffBlackboard(): { blackboard: DebugBlackboardValues; removed?: string[] } | null {
+        const board = this._tree.getBlackboard();
+        const names = board.getVariableNames();
+        const blackboard: DebugBlackboardValues = {};
+        let changed = false;
+
+        for (const name of names) {
+            const value = toDebugValue(board.getValue(name));
+            const json = JSON.stringify(value);
+            if (this._blackboardBaseline.get(name) !== json) {
+                this._blackboardBaseline.set(name, json);
+                blackboard[name] = value;
+                changed = true;
+            }
+        }
+
+        const current = new Set(names);
+        const removed = [...this._blackboardBaseline.keys()].filter(name => !current.has(name));
+        removed.forEach(name => this._blackboardBaseline.delete(name));
+
+        if (!changed && removed.length === 0) {
+            return null;
+        }
+        return removed.length > 0 ? { blackboard, removed } : { blackboard };
+    }
+}
@@ -0,0 +1,306 @@
+import { BehaviorTree } from '../BehaviorTree';
+import {
+    DEBUG_PROTOCOL_VERSION,
+    DebugCommand,
+    DebugSerializer,
+    DebugServerMessage,
+    parseDebugCommand
+} from './DebugProtocol';
+import { IDebugConnection, IDebugTransport } from './DebugTransport';
+import { TreeDebugger } from './TreeDebugger';
+
+/**
+ * 远程调试端
+ *
+ * @description
+ * 管理一组可调试的行为树（代理），通过传输层与调试客户端通信：
+ * - 客户端连接时发送握手消息和选中代理的行为树结构
+ * - 选中代理每次执行后广播节点状态变化和黑板差异
+ * - 处理客户端的命令：暂停、恢复、单步执行、断点、修改黑板变量、选中代理
+ *
+ * 同一时间只观察一个选中的代理，未选中的代理没有额外开销。
+ * 第一次对代理使用断点或单步执行命令时为其创建TreeDebugger，断点在切换代理后保留
+ *
+ * @example
+ * ```typescript
+ * const server = new DebugServer(new NodeWebSocketTransport(new WebSocketServer({ port: 9229 })));
+ * server.addAgent('boss', bossTree);
+ * server.addAgent('npc-1', npcTree);
+ *
+ * // 游戏结束时
+ * server.close();
+ * ```
+ */
+export class DebugServer {
+    private readonly _transport: IDebugTransport;
+    private readonly _agents = new Map<string, BehaviorTree<any>>();
+    private readonly _debuggers = new Map<string, TreeDebugger<any>>();
+    private _selected: DebugSerializer<any> | null = null;
+    private _closed: boolean = false;
+
+    /**
+     * 创建调试端并开始接收连接
+     * @param transport 传输层
+     */
+    constructor(transport: IDebugTransport) {
+        this._transport = transport;
+        transport.start({
+            onConnect: (connection) => this._handleConnect(connection),
+            onMessage: (data, connection) => this._handleMessage(data, connection)
+        });
+    }
+
+    /**
+     * 当前选中的代理名称
+     */
+    public get selectedAgent(): string | null {
+        return this._selected?.agent ?? null;
+    }
+
+    /**
+     * 添加代理
+     * @description 没有选中的代理时自动选中新添加的代理
+     * @param name 代理名称
+     * @param tree 行为树
+     * @throws {Error} 当代理名称已存在时抛出错误
+     */
+    public addAgent(name: string, tree: BehaviorTree<any>): void {
+        if (this._agents.has(name)) {
+            throw new Error(`调试代理已存在: ${name}`);
+        }
+        this._agents.set(name, tree);
+
+        if (!this._selected) {
+            this.selectAgent(name);
+        } else {
+            this._broadcastAgents();
+        }
+    }
+
+    /**
+     * 移除代理
+     * @description 移除选中的代理时自动选中剩余的第一个代理
+     * @param name 代理名称
+     * @returns 是否移除成功
+     */
+    public removeAgent(name: string): boolean {
+        if (!this._agents.delete(name)) {
+            return false;
+        }
+        this._debuggers.get(name)?.dispose();
+        this._debuggers.delete(name);
+
+        if (this._selected?.agent === name) {
+            this._selected.detach();
+            this._selected = null;
+            const next = this._agents.keys().next();
+            if (!next.done) {
+                this.selectAgent(next.value);
+                return true;
+            }
+        }
+        this._broadcastAgents();
+        return true;
+    }
+
+    /**
+     * 获取所有代理名称
+     */
+    public getAgentNames(): string[] {
+        return [...this._agents.keys()];
+    }
+
+    /**
+     * 选中代理，之后广播该代理的执行情况
+     * @param name 代理名称
+     * @throws {Error} 当代理不存在时抛出错误
+     */
+    public selectAgent(name: string): void {
+        const tree = this._agents.get(name);
+        if (!tree) {
+            throw new Error(`未知的调试代理: ${name}`);
+        }
+
+        this._selected?.detach();
+        this._selected = new DebugSerializer(tree, name, message => this._broadcast(message));
+        this._broadcastAgents();
+        this._broadcast(this._selected.serializeTree());
+        this._selected.attach();
+    }
+
+    /**
+     * 关闭调试端
+     * @description 停止观察选中的代理并关闭传输层，暂停的代理保持暂停状态
+     */
+    public close(): void {
+        if (this._closed) {
+            return;
+        }
+        this._closed = true;
+        this._selected?.detach();
+        this._selected = null;
+        this._debuggers.forEach(treeDebugger => treeDebugger.dispose());
+        this._debuggers.clear();
+        this._agents.clear();
+        this._transport.close();
+    }
+
+    /**
+     * 执行命令
+     * @param command 命令
+     * @throws {Error} 当命令无效或执行失败时抛出错误
+     */
+    public execute(command: DebugCommand): void {
+        if (command.type === 'selectAgent') {
+            this.selectAgent(command.agent);
+            return;
+        }
+
+        const selected = this._selected;
+        if (!selected) {
+            throw new Error('没有选中的调试代理');
+        }
+        const tree = selected.tree;
+        const wasPaused = tree.isPaused();
+
+        switch (command.type) {
+            case 'pause':
+                tree.pause();
+                this._broadcast({ type: 'paused', agent: selected.agent, paused: true });
+                break;
+            case 'resume':
+                // 中断时先完成被中断的执行，避免从中断时的节点状态继续运行
+                if (this._debuggers.get(selected.agent)?.isHalted) {
+                    this._debuggers.get(selected.agent)!.stepTick();
+                }
+                tree.resume();
+                this._broadcast({ type: 'paused', agent: selected.agent, paused: false });
+                break;
+            case 'step':
+            case 'stepTick':
+                this._getDebugger(selected.agent).stepTick(command.deltaTime);
+                this._broadcastPausedChange(selected.agent, wasPaused);
+                break;
+            case 'stepNode':
+                this._getDebugger(selected.agent).stepNode(command.deltaTime);
+                this._broadcastPausedChange(selected.agent, wasPaused);
+                break;
+            case 'continue':
+                this._getDebugger(selected.agent).continue();
+                this._broadcastPausedChange(selected.agent, wasPaused);
+                break;
+            case 'setBreakpoint':
+                this._getDebugger(selected.agent).addBreakpoint(command.nodeId, {
+                    type: command.breakpointType,
+                    condition: command.condition
+                });
+                this._broadcastBreakpoints(selected.agent);
+                break;
+            case 'removeBreakpoint':
+                if (!this._getDebugger(selected.agent).removeBreakpoint(command.breakpointId)) {
+                    throw new Error(`断点不存在: ${command.breakpointId}`);
+                }
+                this._broadcastBreakpoints(selected.agent);
+                break;
+            case 'setBlackboardValue': {
+                const blackboard = tree.getBlackboard();
+                if (!blackboard.hasVariable(command.name)) {
+                    throw new Error(`黑板变量不存在: ${command.name}`);
+                }
+                if (!blackboard.setValue(command.name, command.value, true)) {
+                    throw new Error(`无法设置黑板变量: ${command.name}`);
+                }
+                const changes = selected.serializeBlackboardChanges();
+                if (changes) {
+                    this._broadcast(changes);
+                }
+                break;
+            }
+            default:
+                throw new Error(`未知的调试命令: ${(command as DebugCommand).type}`);
+        }
+    }
+
+    /**
+     * 客户端连接时发送握手消息和选中代理的结构
+     */
+    private _handleConnect(connection: IDebugConnection): void {
+        this._send(connection, {
+            type: 'hello',
+            version: DEBUG_PROTOCOL_VERSION,
+            agents: this.getAgentNames(),
+            selectedAgent: this.selectedAgent
+        });
+        if (this._selected) {
+            // 先广播尚未发送的黑板变化，避免其他客户端错过这些变化
+            const changes = this._selected.serializeBlackboardChanges();
+            if (changes) {
+                this._broadcast(changes);
+            }
+            this._send(connection, this._selected.serializeTree());
+        }
+    }
+
+    /**
+     * 解析并执行客户端发送的命令，向发送方应答
+     */
+    private _handleMessage(data: string, connection: IDebugConnection): void {
+        let command: DebugCommand | undefined;
+        try {
+            command = parseDebugCommand(data);
+            this.execute(command);
+            this._send(connection, { type: 'ack', id: command.id, command: command.type });
+        } catch (error) {
+            this._send(connection, {
+                type: 'error',
+                id: command?.id,
+                message: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /**
+     * 获取代理的调试器，不存在时创建
+     */
+    private _getDebugger(agent: string): TreeDebugger<any> {
+        let treeDebugger = this._debuggers.get(agent);
+        if (!treeDebugger) {
+            treeDebugger = new TreeDebugger(this._agents.get(agent)!, {
+                onHalt: (halt) => {
+                    this._broadcast({ type: 'halted', agent, halt });
+                    if (this._selected?.agent === agent) {
+                        this._broadcast(this._selected.serializeTree());
+                    }
+                }
+            });
+            this._debuggers.set(agent, treeDebugger);
+        }
+        return treeDebugger;
+    }
+
+    /**
+     * 暂停状态发生变化时广播
+     */
+    private _broadcastPausedChange(agent: string, wasPaused: boolean): void {
+        const paused = this._agents.get(agent)!.isPaused();
+        if (paused !== wasPaused) {
+            this._broadcast({ type: 'paused', agent, paused });
+        }
+    }
+
+    private _broadcastBreakpoints(agent: string): void {
+        this._broadcast({ type: 'breakpoints', agent, breakpoints: this._getDebugger(agent).getBreakpoints() });
+    }
+
+    private _broadcastAgents(): void {
+        this._broadcast({ type: 'agents', agents: this.getAgentNames(), selectedAgent: this.selectedAgent });
+    }
+
+    private _broadcast(message: DebugServerMessage): void {
+        this._transport.broadcast(JSON.stringify(message));
+    }
+
+    private _send(connection: IDebugConnection, message: DebugServerMessage): void {
+        connection.send(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,267 @@
+/**
+ * 调试连接，代表一个已连接的调试客户端
+ */
+export interface IDebugConnection {
+    /**
+     * 向该客户端发送数据
+     * @param data JSON文本
+     */
+    send(data: string): void;
+}
+
+/**
+ * 传输层事件处理函数
+ */
+export interface DebugTransportHandlers {
+    /** 客户端连接时调用 */
+    onConnect(connection: IDebugConnection): void;
+    /** 收到客户端数据时调用 */
+    onMessage(data: string, connection: IDebugConnection): void;
+}
+
+/**
+ * 调试传输层接口
+ *
+ * @description 负责与调试客户端之间的数据收发，与调试协议本身无关，
+ * 可以基于WebSocket、postMessage或其他通道实现
+ */
+export interface IDebugTransport {
+    /**
+     * 开始接收连接和数据
+     * @param handlers 事件处理函数
+     */
+    start(handlers: DebugTransportHandlers): void;
+
+    /**
+     * 向所有已连接的客户端发送数据
+     * @param data JSON文本
+     */
+    broadcast(data: string): void;
+
+    /**
+     * 关闭传输层并断开所有客户端
+     */
+    close(): void;
+}
+
+/**
+ * 内存回环传输层的客户端
+ */
+export class LoopbackDebugClient {
+    private readonly _sendToServer: (data: string) => void;
+    private readonly _onDisconnect: () => void;
+    private readonly _listeners: Array<(data: string) => void> = [];
+    private _connected: boolean = true;
+
+    /**
+     * 由LoopbackTransport.connect()创建
+     * @param sendToServer 向调试端发送数据的函数
+     * @param onDisconnect 断开连接时调用
+     */
+    constructor(sendToServer: (data: string) => void, onDisconnect: () => void) {
+        this._sendToServer = sendToServer;
+        this._onDisconnect = onDisconnect;
+    }
+
+    /**
+     * 是否处于连接状态
+     */
+    public get connected(): boolean {
+        return this._connected;
+    }
+
+    /**
+     * 向调试端发送数据
+     * @param data JSON文本
+     */
+    public send(data: string): void {
+        if (this._connected) {
+            this._sendToServer(data);
+        }
+    }
+
+    /**
+     * 添加数据监听器
+     * @param listener 收到调试端数据时调用
+     */
+    public addListener(listener: (data: string) => void): void {
+        this._listeners.push(listener);
+    }
+
+    /**
+     * 断开连接
+     */
+    public disconnect(): void {
+        if (this._connected) {
+            this._connected = false;
+            this._onDisconnect();
+        }
+    }
+
+    /**
+     * 接收调试端发送的数据，由LoopbackTransport调用
+     * @param data JSON文本
+     */
+    public deliver(data: string): void {
+        if (this._connected) {
+            this._listeners.forEach(listener => listener(data));
+        }
+    }
+}
+
+/**
+ * 内存回环传输层
+ *
+ * @description 调试端和客户端位于同一进程内，数据同步传递，用于测试和嵌入式调试面板
+ *
+ * @example
+ * ```typescript
+ * const transport = new LoopbackTransport();
+ * const server = new DebugServer(transport);
+ * const client = transport.connect(data => console.log(JSON.parse(data)));
+ * client.send(JSON.stringify({ type: 'pause' }));
+ * ```
+ */
+export class LoopbackTransport implements IDebugTransport {
+    private _handlers: DebugTransportHandlers | null = null;
+    private readonly _clients = new Map<LoopbackDebugClient, IDebugConnection>();
+
+    /**
+     * 连接一个新的客户端
+     * @description 数据同步传递，需要接收连接时发送的握手消息时应通过listener参数添加监听器
+     * @param listener 可选的数据监听器
+     * @returns 客户端
+     */
+    public connect(listener?: (data: string) => void): LoopbackDebugClient {
+        const client: LoopbackDebugClient = new LoopbackDebugClient(
+            (data) => this._handlers?.onMessage(data, connection),
+            () => this._clients.delete(client)
+        );
+        const connection: IDebugConnection = { send: (data) => client.deliver(data) };
+        if (listener) {
+            client.addListener(listener);
+        }
+        this._clients.set(client, connection);
+        this._handlers?.onConnect(connection);
+        return client;
+    }
+
+    public start(handlers: DebugTransportHandlers): void {
+        this._handlers = handlers;
+        for (const connection of this._clients.values()) {
+            handlers.onConnect(connection);
+        }
+    }
+
+    public broadcast(data: string): void {
+        for (const client of this._clients.keys()) {
+            client.deliver(data);
+        }
+    }
+
+    public close(): void {
+        for (const client of [...this._clients.keys()]) {
+            client.disconnect();
+        }
+        this._handlers = null;
+    }
+}
+
+/**
+ * 与ws库兼容的WebSocket连接
+ */
+export interface WebSocketLike {
+    readonly readyState: number;
+    send(data: string): void;
+    close(): void;
+    on(event: 'message', listener: (data: unknown) => void): unknown;
+    on(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * 与ws库兼容的WebSocket服务器
+ */
+export interface WebSocketServerLike {
+    on(event: 'connection', listener: (socket: WebSocketLike) => void): unknown;
+    close(): void;
+}
+
+/** WebSocket的OPEN状态 */
+const WEB_SOCKET_OPEN = 1;
+
+/**
+ * Node环境的WebSocket传输层
+ *
+ * @description
+ * 基于ws库（或接口兼容的实现）的WebSocketServer，每个WebSocket连接对应一个调试客户端。
+ * 本库不直接依赖ws，由调用方创建服务器后传入
+ *
+ * @example
+ * ```typescript
+ * import { WebSocketServer } from 'ws';
+ *
+ * const transport = new NodeWebSocketTransport(new WebSocketServer({ port: 9229 }));
+ * const debugServer = new DebugServer(transport);
+ * debugServer.addAgent('boss', bossTree);
+ * ```
+ */
+export class NodeWebSocketTransport implements IDebugTransport {
+    private readonly _server: WebSocketServerLike;
+    private readonly _sockets = new Set<WebSocketLike>();
+    private _handlers: DebugTransportHandlers | null = null;
+    private _listening: boolean = false;
+
+    /**
+     * @param server WebSocket服务器
+     */
+    constructor(server: WebSocketServerLike) {
+        this._server = server;
+    }
+
+    public start(handlers: DebugTransportHandlers): void {
+        this._handlers = handlers;
+        if (this._listening) {
+            return;
+        }
+        this._listening = true;
+
+        this._server.on('connection', (socket) => {
+            if (!this._handlers) {
+                socket.close();
+                return;
+            }
+
+            this._sockets.add(socket);
+            const connection: IDebugConnection = {
+                send: (data) => NodeWebSocketTransport._send(socket, data)
+            };
+            socket.on('message', (data) => this._handlers?.onMessage(String(data), connection));
+            socket.on('close', () => this._sockets.delete(socket));
+            this._handlers.onConnect(connection);
+        });
+    }
+
+    public broadcast(data: string): void {
+        for (const socket of this._sockets) {
+            NodeWebSocketTransport._send(socket, data);
+        }
+    }
+
+    public close(): void {
+        this._handlers = null;
+        for (const socket of this._sockets) {
+            socket.close();
+        }
+        this._sockets.clear();
+        this._server.close();
+    }
+
+    /**
+     * 向处于打开状态的连接发送数据
+     */
+    private static _send(socket: WebSocketLike, data: string): void {
+        if (socket.readyState === WEB_SOCKET_OPEN) {
+            socket.send(data);
+        }
+    }
+}
@@ -0,0 +1,492 @@
+import { BehaviorTree, BehaviorTreeSnapshot } from '../BehaviorTree';
+import { TaskStatus } from '../TaskStatus';
+import { NodeStateValue } from '../NodeState';
+import { ITreeObserver } from '../TreeObserver';
+import { ActionResult, EventRegistry, IConditionChecker, IEventHandler } from '../events/EventRegistry';
+
+/**
+ * 录制格式版本
+ */
+export const TICK_RECORDING_VERSION = 1;
+
+/**
+ * 黑板写入记录：[变量名, 值]
+ */
+export type RecordedBlackboardWrite = [name: string, value: NodeStateValue];
+
+/**
+ * 节点状态变化记录：[节点ID, 新状态]
+ */
+export type RecordedStatusTransition = [nodeId: string, status: TaskStatus];
+
+/**
+ * 可以记录的事件处理器结果
+ */
+export type RecordedHandlerResult = TaskStatus | 'success' | 'failure' | 'running' | boolean;
+
+/**
+ * 事件处理器调用记录
+ */
+export interface RecordedHandlerCall {
+    /** 动作处理器或条件检查器 */
+    kind: 'action' | 'condition';
+    /** 事件名称 */
+    name: string;
+    /** 同步返回的结果 */
+    result?: RecordedHandlerResult;
+    /** 是否为异步处理器 */
+    async?: boolean;
+    /** 异步处理器的完成情况，录制结束时仍未完成则没有此字段 */
+    settled?: {
+        /** 在第几次tick（从0开始）之前完成 */
+        beforeTick: number;
+        /** 完成时的结果 */
+        result?: RecordedHandlerResult;
+        /** 是否失败 */
+        rejected?: boolean;
+    };
+    /** 处理器同步执行期间写入的黑板值 */
+    writes?: RecordedBlackboardWrite[];
+}
+
+/**
+ * 单次tick的记录
+ */
+export interface RecordedTick {
+    /** tick使用的时间差（秒，未缩放） */
+    deltaTime: number;
+    /** tick之前由行为树以外的代码写入的黑板值 */
+    writes?: RecordedBlackboardWrite[];
+    /** tick期间的事件处理器调用，按调用顺序排列 */
+    calls?: RecordedHandlerCall[];
+    /** tick期间节点状态的变化，按发生顺序排列 */
+    transitions: RecordedStatusTransition[];
+}
+
+/**
+ * 行为树执行录制
+ * @description 可JSON序列化，可以附加到缺陷报告中
+ */
+export interface TickRecording {
+    /** 录制格式版本 */
+    version: number;
+    /** 开始录制时的行为树状态（包含随机数流状态和时钟） */
+    initialState: BehaviorTreeSnapshot;
+    /** 按顺序记录的tick */
+    ticks: RecordedTick[];
+}
+
+/**
+ * 回放报告
+ */
+export interface TickReplayReport {
+    /** 回放结果是否与录制不一致 */
+    diverged: boolean;
+    /** 已回放的tick数量 */
+    ticksReplayed: number;
+    /** 第一次出现不一致的tick序号（从0开始） */
+    divergedAtTick?: number;
+    /** 不一致的原因 */
+    reason?: string;
+    /** 录制时该tick的节点状态变化 */
+    expected?: RecordedStatusTransition[];
+    /** 回放时该tick的节点状态变化 */
+    actual?: RecordedStatusTransition[];
+}
+
+/**
+ * 创建记录节点状态变化的观察者
+ * @param onTransition 状态变化回调
+ */
+function createTransitionObserver<T>(onTransition: (transition: RecordedStatusTransition) => void): ITreeObserver<T> {
+    return {
+        onStatusChange: (event) => onTransition([event.id, event.status])
+    };
+}
+
+/**
+ * 创建拦截处理器查找的事件注册表
+ * @param base 原始事件注册表
+ * @param getAction 返回替代的动作处理器
+ * @param getCondition 返回替代的条件检查器
+ */
+function createInterceptingRegistry(
+    base: EventRegistry,
+    getAction: (name: string) => IEventHandler | undefined,
+    getCondition: (name: string) => IConditionChecker | undefined
+): EventRegistry {
+    const registry = Object.create(base) as EventRegistry;
+    registry.getActionHandler = getAction;
+    registry.getConditionHandler = getCondition;
+    return registry;
+}
+
+/**
+ * 将值深拷贝为可JSON序列化的值
+ */
+function toRecordedValue(value: unknown): NodeStateValue {
+    if (value === undefined) {
+        return null;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value as NodeStateValue;
+    }
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 检查结果是否为Promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<ActionResult> {
+    return value != null && typeof (value as PromiseLike<ActionResult>).then === 'function';
+}
+
+/**
+ * 行为树执行录制器
+ *
+ * @description
+ * 创建后立即开始录制，记录重现行为树决策所需的全部输入：
+ * - 开始录制时的行为树快照（包含随机数流状态、时钟和黑板）
+ * - 每次tick的deltaTime
+ * - 行为树以外的代码在tick之间写入的黑板值
+ * - 事件注册表中动作处理器和条件检查器的结果（包括异步处理器完成的时机）
+ *
+ * 同时记录每次tick中节点状态的变化，回放时用于检测行为是否一致。
+ * 只记录通过tick()进行的更新，录制期间不应替换根节点
+ *
+ * @example
+ * ```typescript
+ * const recorder = new TickRecorder(tree);
+ * // ... 游戏正常运行 ...
+ * const recording = recorder.stop();
+ * fs.writeFileSync('bug-1234.json', JSON.stringify(recording));
+ *
+ * // 复现
+ * const fresh = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, context).tree;
+ * const report = await TickReplayer.replay(fresh, recording);
+ * if (report.diverged) {
+ *   console.log(`第${report.divergedAtTick}次tick出现分歧: ${report.reason}`);
+ * }
+ * ```
+ */
+export class TickRecorder<T> {
+    private readonly _tree: BehaviorTree<T>;
+    private readonly _recording: TickRecording;
+
+    /** 是否正在录制 */
+    private _recordingActive: boolean = true;
+
+    /** 正在录制的tick */
+    private _currentTick: RecordedTick | null = null;
+
+    /** 正在执行的事件处理器调用 */
+    private _currentCall: RecordedHandlerCall | null = null;
+
+    /** 等待记录到下一次tick的外部黑板写入 */
+    private _pendingWrites: RecordedBlackboardWrite[] = [];
+
+    /** 停止录制时执行的清理函数 */
+    private readonly _cleanups: Array<() => void> = [];
+
+    /**
+     * 创建录制器并开始录制
+     * @param tree 要录制的行为树
+     */
+    constructor(tree: BehaviorTree<T>) {
+        this._tree = tree;
+        this._recording = {
+            version: TICK_RECORDING_VERSION,
+            initialState: tree.captureState(),
+            ticks: []
+        };
+
+        this._observeTicks();
+        this._listenBlackboard();
+        this._interceptEventRegistry();
+    }
+
+    /**
+     * 是否正在录制
+     */
+    public get isRecording(): boolean {
+        return this._recordingActive;
+    }
+
+    /**
+     * 获取当前的录制内容
+     * @returns 录制内容的副本
+     */
+    public getRecording(): TickRecording {
+        return JSON.parse(JSON.stringify(this._recording));
+    }
+
+    /**
+     * 停止录制并恢复行为树
+     * @returns 录制内容
+     */
+    public stop(): TickRecording {
+        if (this._recordingActive) {
+            this._recordingActive = false;
+            this._cleanups.forEach(cleanup => cleanup());
+            this._cleanups.length = 0;
+        }
+        return this.getRecording();
+    }
+
+    /**
+     * 通过观察者记录每次更新和节点状态变化
+     * @description 暂停的行为树不会执行也不会分发更新事件，无需记录
+     */
+    private _observeTicks(): void {
+        const tree = this._tree;
+        const observer: ITreeObserver<T> = {
+            ...createTransitionObserver<T>(transition => {
+                this._currentTick?.transitions.push(transition);
+            }),
+            onUpdateStart: (event) => {
+                const tick: RecordedTick = { deltaTime: event.deltaTime, transitions: [] };
+                if (this._pendingWrites.length > 0) {
+                    tick.writes = this._pendingWrites;
+                    this._pendingWrites = [];
+                }
+                this._currentTick = tick;
+            },
+            onUpdateEnd: () => {
+                const tick = this._currentTick;
+                this._currentTick = null;
+                if (tick) {
+                    this._recording.ticks.push(tick);
+                }
+            }
+        };
+
+        tree.addObserver(observer);
+        this._cleanups.push(() => tree.removeObserver(observer));
+    }
+
+    /**
+     * 监听黑板变量，记录行为树以外的写入
+     */
+    private _listenBlackboard(): void {
+        const blackboard = this._tree.getBlackboard();
+        const listenerIds = blackboard.getVariableNames().map(name => blackboard.addListener(name, (value) => {
+            const write: RecordedBlackboardWrite = [name, toRecordedValue(value)];
+            if (this._currentCall) {
+                (this._currentCall.writes ??= []).push(write);
+            } else if (!this._currentTick) {
+                this._pendingWrites.push(write);
+            }
+            // tick期间由节点写入的值可以通过回放重现，不需要记录
+        }));
+
+        this._cleanups.push(() => {
+            listenerIds.forEach(id => blackboard.removeListener(id));
+        });
+    }
+
+    /**
+     * 替换上下文中的事件注册表，记录处理器的结果
+     */
+    private _interceptEventRegistry(): void {
+        const context = this._tree.getContext() as { eventRegistry?: EventRegistry } | undefined;
+        const registry = context?.eventRegistry;
+        if (!context || !registry) {
+            return;
+        }
+
+        context.eventRegistry = createInterceptingRegistry(
+            registry,
+            (name) => {
+                const handler = registry.getActionHandler(name);
+                return handler && ((ctx, parameters, signal) => this._recordCall('action', name, () => handler(ctx, parameters, signal)));
+            },
+            (name) => {
+                const checker = registry.getConditionHandler(name);
+                return checker && ((ctx, parameters) => this._recordCall('condition', name, () => checker(ctx, parameters)) as boolean);
+            }
+        );
+
+        this._cleanups.push(() => {
+            context.eventRegistry = registry;
+        });
+    }
+
+    /**
+     * 执行处理器并记录结果
+     * @param kind 处理器类型
+     * @param name 事件名称
+     * @param invoke 调用处理器的函数
+     * @returns 处理器的结果
+     */
+    private _recordCall(kind: 'action' | 'condition', name: string, invoke: () => ActionResult): ActionResult {
+        const call: RecordedHandlerCall = { kind, name };
+        if (this._currentTick) {
+            (this._currentTick.calls ??= []).push(call);
+        }
+
+        const previousCall = this._currentCall;
+        this._currentCall = call;
+        let result: ActionResult;
+        try {
+            result = invoke();
+        } finally {
+            this._currentCall = previousCall;
+        }
+
+        if (!isPromiseLike(result)) {
+            call.result = result;
+            return result;
+        }
+
+        call.async = true;
+        const settle = (settled: NonNullable<RecordedHandlerCall['settled']>) => {
+            if (this._recordingActive) {
+                call.settled = settled;
+            }
+        };
+        const pending = result;
+        return new Promise<ActionResult>((resolve, reject) => {
+            pending.then(
+                (value) => {
+                    settle({ beforeTick: this._recording.ticks.length, result: value as RecordedHandlerResult });
+                    resolve(value);
+                },
+                (error) => {
+                    settle({ beforeTick: this._recording.ticks.length, rejected: true });
+                    reject(error);
+                }
+            );
+        });
+    }
+}
+
+/**
+ * 行为树执行回放器
+ *
+ * @description
+ * 将新构建的行为树恢复到录制开始时的状态，然后按录制的deltaTime逐次tick，
+ * 在每次tick之前写入录制的外部黑板值，事件处理器返回录制的结果而不会执行真实的处理器。
+ * 每次tick后比较节点状态变化，报告第一次出现不一致的tick
+ */
+export class TickReplayer {
+    /**
+     * 回放录制
+     * @param tree 使用与录制时相同配置新构建的行为树
+     * @param recording 录制内容
+     * @returns 回放报告
+     * @throws {Error} 当录制格式版本不受支持时抛出错误
+     */
+    public static async replay<T>(tree: BehaviorTree<T>, recording: TickRecording): Promise<TickReplayReport> {
+        if (recording?.version !== TICK_RECORDING_VERSION) {
+            throw new Error(`不支持的行为树录制版本: ${recording?.version}`);
+        }
+
+        tree.restoreState(recording.initialState);
+
+        const blackboard = tree.getBlackboard();
+        const context = tree.getContext() as { eventRegistry?: EventRegistry } | undefined;
+        const originalRegistry = context?.eventRegistry;
+        const hasCalls = recording.ticks.some(tick => tick.calls && tick.calls.length > 0);
+
+        // 异步处理器完成的时机：tick序号 → 完成函数
+        const settlements = new Map<number, Array<() => void>>();
+        let expectedCalls: RecordedHandlerCall[] = [];
+        let callMismatch: string | null = null;
+
+        const nextCall = (kind: 'action' | 'condition', name: string): RecordedHandlerCall | undefined => {
+            const call = expectedCalls.shift();
+            if (!call || call.kind !== kind || call.name !== name) {
+                callMismatch ??= call
+                    ? `处理器调用不一致: 期望${call.kind} "${call.name}"，实际${kind} "${name}"`
+                    : `出现录制中没有的处理器调用: ${kind} "${name}"`;
+                return undefined;
+            }
+            for (const [variable, value] of call.writes ?? []) {
+                blackboard.setValue(variable, value, true);
+            }
+            return call;
+        };
+
+        const replayAction = (name: string): IEventHandler => () => {
+            const call = nextCall('action', name);
+            if (!call) {
+                return TaskStatus.Failure;
+            }
+            if (!call.async) {
+                return call.result!;
+            }
+            return new Promise<ActionResult>((resolve, reject) => {
+                const settled = call.settled;
+                if (!settled) {
+                    return;
+                }
+                const list = settlements.get(settled.beforeTick) ?? [];
+                list.push(() => settled.rejected
+                    ? reject(new Error(`回放: 异步处理器 "${name}" 失败`))
+                    : resolve(settled.result!));
+                settlements.set(settled.beforeTick, list);
+            });
+        };
+
+        const replayCondition = (name: string): IConditionChecker => () => nextCall('condition', name)?.result === true;
+
+        if (context && (originalRegistry || hasCalls)) {
+            context.eventRegistry = createInterceptingRegistry(originalRegistry ?? new EventRegistry(), replayAction, replayCondition);
+        }
+
+        let transitions: RecordedStatusTransition[] = [];
+        const observer = createTransitionObserver<T>(transition => transitions.push(transition));
+        tree.addObserver(observer);
+
+        try {
+            for (let i = 0; i < recording.ticks.length; i++) {
+                const recorded = recording.ticks[i]!;
+
+                for (const [name, value] of recorded.writes ?? []) {
+                    blackboard.setValue(name, value, true);
+                }
+
+                const settles = settlements.get(i);
+                if (settles) {
+                    settlements.delete(i);
+                    settles.forEach(settle => settle());
+                    // 等待异步动作收到结果
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+
+                expectedCalls = [...(recorded.calls ?? [])];
+                transitions = [];
+                tree.tick(recorded.deltaTime);
+
+                const reason = callMismatch
+                    ?? (expectedCalls.length > 0 ? `录制中的处理器调用没有发生: ${expectedCalls[0]!.kind} "${expectedCalls[0]!.name}"` : null)
+                    ?? (TickReplayer._sameTransitions(recorded.transitions, transitions) ? null : '节点状态变化与录制不一致');
+                if (reason) {
+                    return {
+                        diverged: true,
+                        ticksReplayed: i + 1,
+                        divergedAtTick: i,
+                        reason,
+                        expected: recorded.transitions,
+                        actual: transitions
+                    };
+                }
+            }
+        } finally {
+            tree.removeObserver(observer);
+            if (context && context.eventRegistry !== originalRegistry) {
+                context.eventRegistry = originalRegistry;
+            }
+        }
+
+        return { diverged: false, ticksReplayed: recording.ticks.length };
+    }
+
+    /**
+     * 比较两组节点状态变化是否相同
+     */
+    private static _sameTransitions(expected: RecordedStatusTransition[], actual: RecordedStatusTransition[]): boolean {
+        return expected.length === actual.length &&
+               expected.every(([id, status], i) => actual[i]![0] === id && actual[i]![1] === status);
+    }
+}
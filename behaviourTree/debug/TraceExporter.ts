@@ -0,0 +1,336 @@
+import { BehaviorTree } from '../BehaviorTree';
+import { TaskStatus } from '../TaskStatus';
+import { ITreeObserver, NodeEndEvent } from '../TreeObserver';
+import { NodeTypeRegistry } from '../factories/NodeTypeRegistry';
+
+/**
+ * 跟踪事件
+ * @description Chrome Trace Event格式中的一条事件，时间单位为微秒
+ */
+export interface TraceEvent {
+    /** 事件名称 */
+    name: string;
+    /** 事件类型：X为完整的时间片，i为瞬时事件，M为元数据 */
+    ph: 'X' | 'i' | 'M';
+    /** 进程ID */
+    pid: number;
+    /** 线程ID，每个代理一个 */
+    tid: number;
+    /** 分类 */
+    cat?: string;
+    /** 时间戳（微秒） */
+    ts?: number;
+    /** 持续时间（微秒），仅用于X事件 */
+    dur?: number;
+    /** 瞬时事件的范围，t为线程 */
+    s?: 't';
+    /** 附加参数 */
+    args?: Record<string, unknown>;
+}
+
+/**
+ * 跟踪文件
+ * @description Chrome Trace Event的JSON对象格式，可以直接在chrome://tracing或Perfetto中打开
+ */
+export interface TraceFile {
+    traceEvents: TraceEvent[];
+    displayTimeUnit: 'ms';
+}
+
+/**
+ * 跟踪事件的输出目标
+ */
+export interface ITraceSink {
+    /**
+     * 写入一条事件
+     * @param event 跟踪事件
+     */
+    write(event: TraceEvent): void;
+
+    /**
+     * 结束写入
+     */
+    close(): void;
+}
+
+/**
+ * 保存在内存中的跟踪输出
+ *
+ * @example
+ * ```typescript
+ * const sink = new MemoryTraceSink();
+ * // ...
+ * fs.writeFileSync('ai.trace.json', JSON.stringify(sink.toJSON()));
+ * ```
+ */
+export class MemoryTraceSink implements ITraceSink {
+    /** 已写入的事件 */
+    public readonly events: TraceEvent[] = [];
+
+    public write(event: TraceEvent): void {
+        this.events.push(event);
+    }
+
+    public close(): void {
+        // 内存输出无需关闭
+    }
+
+    /**
+     * 转换为跟踪文件
+     */
+    public toJSON(): TraceFile {
+        return { traceEvents: this.events.slice(), displayTimeUnit: 'ms' };
+    }
+}
+
+/**
+ * 逐条输出文本的跟踪输出
+ *
+ * @description
+ * 以JSON数组格式输出事件，适合写入文件流，长时间录制时不需要把所有事件保存在内存中。
+ * 关闭时补全结尾的"]"，未正常关闭的文件也可以被Chrome加载
+ *
+ * @example
+ * ```typescript
+ * const stream = fs.createWriteStream('ai.trace.json');
+ * const sink = new StreamTraceSink(chunk => stream.write(chunk));
+ * ```
+ */
+export class StreamTraceSink implements ITraceSink {
+    private readonly _writeChunk: (chunk: string) => void;
+    private _count: number = 0;
+    private _closed: boolean = false;
+
+    /**
+     * @param writeChunk 输出文本片段的函数
+     */
+    constructor(writeChunk: (chunk: string) => void) {
+        this._writeChunk = writeChunk;
+    }
+
+    public write(event: TraceEvent): void {
+        if (this._closed) {
+            return;
+        }
+        this._writeChunk((this._count++ === 0 ? '[\n' : ',\n') + JSON.stringify(event));
+    }
+
+    public close(): void {
+        if (this._closed) {
+            return;
+        }
+        this._closed = true;
+        this._writeChunk(this._count === 0 ? '[]\n' : '\n]\n');
+    }
+}
+
+/**
+ * 跟踪导出器选项
+ */
+export interface TraceExporterOptions {
+    /** 进程ID，默认1 */
+    pid?: number;
+    /** 进程名称，默认"BehaviorTree" */
+    processName?: string;
+    /** 是否记录黑板写入，默认true */
+    blackboardWrites?: boolean;
+}
+
+/**
+ * 被跟踪的行为树
+ */
+interface TracedTree {
+    tid: number;
+    cleanup: () => void;
+}
+
+/**
+ * 行为树执行跟踪导出器
+ *
+ * @description
+ * 将行为树的执行转换为Chrome Trace Event格式，用于在chrome://tracing或Perfetto中分析帧耗时：
+ * - 每个代理一条轨道（线程）
+ * - 每次执行为一个时间片，节点的执行为嵌套在其中的时间片
+ * - 节点被中止和黑板写入为瞬时事件
+ *
+ * 时间来自performance.now()。只有通过tick()执行的节点会被记录，
+ * 被TreeDebugger中断的执行不会输出节点时间片
+ *
+ * @example
+ * ```typescript
+ * const sink = new MemoryTraceSink();
+ * const exporter = new TraceExporter(sink);
+ * exporter.addTree('guard-1', guardTree);
+ * exporter.addTree('guard-2', otherTree);
+ * // ... 运行游戏
+ * exporter.close();
+ * fs.writeFileSync('ai.trace.json', JSON.stringify(sink.toJSON()));
+ * ```
+ */
+export class TraceExporter {
+    private readonly _sink: ITraceSink;
+    private readonly _pid: number;
+    private readonly _blackboardWrites: boolean;
+    private readonly _trees = new Map<string, TracedTree>();
+    private _nextTid: number = 1;
+    private _closed: boolean = false;
+
+    /**
+     * @param sink 跟踪事件的输出目标
+     * @param options 导出器选项
+     */
+    constructor(sink: ITraceSink, options: TraceExporterOptions = {}) {
+        this._sink = sink;
+        this._pid = options.pid ?? 1;
+        this._blackboardWrites = options.blackboardWrites ?? true;
+        sink.write({
+            name: 'process_name',
+            ph: 'M',
+            pid: this._pid,
+            tid: 0,
+            args: { name: options.processName ?? 'BehaviorTree' }
+        });
+    }
+
+    /**
+     * 开始跟踪一棵行为树
+     * @param agent 代理名称，作为轨道名称
+     * @param tree 行为树
+     */
+    public addTree<T>(agent: string, tree: BehaviorTree<T>): void {
+        if (this._closed) {
+            throw new Error('跟踪导出器已关闭');
+        }
+        if (this._trees.has(agent)) {
+            throw new Error(`跟踪的代理已存在: ${agent}`);
+        }
+
+        const tid = this._nextTid++;
+        this._sink.write({ name: 'thread_name', ph: 'M', pid: this._pid, tid, args: { name: agent } });
+
+        const observer: ITreeObserver<T> = {
+            onTickEnd: (event) => {
+                this._sink.write({
+                    name: 'tick',
+                    cat: 'tick',
+                    ph: 'X',
+                    ts: toMicroseconds(event.startTime),
+                    dur: toMicroseconds(event.duration),
+                    pid: this._pid,
+                    tid,
+                    args: { tickIndex: event.tickIndex, status: TaskStatus[event.status] }
+                });
+            },
+            onNodeEnd: (event) => this._writeNodeSlice(event, tid),
+            onAbort: (event) => {
+                this._writeInstant(`abort ${event.id}`, 'abort', tid, { id: event.id, path: event.path });
+            }
+        };
+        tree.addObserver(observer);
+
+        const cleanups: Array<() => void> = [() => tree.removeObserver(observer)];
+        if (this._blackboardWrites) {
+            const blackboard = tree.getBlackboard();
+            const listenerIds = blackboard.getVariableNames().map(name => blackboard.addListener(name, (value) => {
+                this._writeInstant(`set ${name}`, 'blackboard', tid, { name, value: toTraceValue(value) });
+            }));
+            cleanups.push(() => listenerIds.forEach(id => blackboard.removeListener(id)));
+        }
+
+        this._trees.set(agent, { tid, cleanup: () => cleanups.forEach(cleanup => cleanup()) });
+    }
+
+    /**
+     * 停止跟踪一棵行为树
+     * @param agent 代理名称
+     * @returns 是否移除成功
+     */
+    public removeTree(agent: string): boolean {
+        const traced = this._trees.get(agent);
+        if (!traced) {
+            return false;
+        }
+        traced.cleanup();
+        this._trees.delete(agent);
+        return true;
+    }
+
+    /**
+     * 获取正在跟踪的代理名称
+     */
+    public getAgentNames(): string[] {
+        return [...this._trees.keys()];
+    }
+
+    /**
+     * 停止跟踪所有行为树并关闭输出
+     */
+    public close(): void {
+        if (this._closed) {
+            return;
+        }
+        for (const agent of [...this._trees.keys()]) {
+            this.removeTree(agent);
+        }
+        this._closed = true;
+        this._sink.close();
+    }
+
+    /**
+     * 输出节点执行的时间片
+     */
+    private _writeNodeSlice<T>(event: NodeEndEvent<T>, tid: number): void {
+        const source = NodeTypeRegistry.getNodeSource(event.node);
+        this._sink.write({
+            name: event.node.name ?? event.id,
+            cat: 'node',
+            ph: 'X',
+            ts: toMicroseconds(event.startTime),
+            dur: toMicroseconds(event.duration),
+            pid: this._pid,
+            tid,
+            args: {
+                id: event.id,
+                path: event.path,
+                type: source?.type ?? event.node.constructor.name,
+                status: TaskStatus[event.status]
+            }
+        });
+    }
+
+    /**
+     * 输出当前时间的瞬时事件
+     */
+    private _writeInstant(name: string, cat: string, tid: number, args: Record<string, unknown>): void {
+        this._sink.write({
+            name,
+            cat,
+            ph: 'i',
+            s: 't',
+            ts: toMicroseconds(performance.now()),
+            pid: this._pid,
+            tid,
+            args
+        });
+    }
+}
+
+/**
+ * 毫秒转换为微秒
+ */
+function toMicroseconds(milliseconds: number): number {
+    return Math.round(milliseconds * 1000);
+}
+
+/**
+ * 转换为可以JSON序列化的值，对象值复制一份，避免之后的修改影响已输出的事件
+ */
+function toTraceValue(value: unknown): unknown {
+    if (value === undefined) {
+        return null;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    return JSON.parse(JSON.stringify(value));
+}
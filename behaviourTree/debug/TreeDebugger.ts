@@ -0,0 +1,421 @@
+import { BehaviorTree, BehaviorTreeSnapshot } from '../BehaviorTree';
+import { TaskStatus } from '../TaskStatus';
+import { NodeStateValue } from '../NodeState';
+import { ITreeObserver, NodeObserverEvent, TreeExecutionHalt } from '../TreeObserver';
+import { BlackboardValueComparison, CompareOperator } from '../conditionals/BlackboardConditionals';
+
+/**
+ * 每帧更新模式下单步执行时没有可用时间差的默认值（秒）
+ */
+const DEFAULT_STEP_DELTA_TIME = 1 / 60;
+
+/**
+ * 断点类型
+ * - start: 节点开始执行（每次tick进入节点）
+ * - statusChange: 节点执行后状态发生变化
+ * - failure: 节点执行失败
+ * - abort: 正在运行的节点被中止
+ */
+export type BreakpointType = 'start' | 'statusChange' | 'failure' | 'abort';
+
+/**
+ * 断点的黑板条件，只有条件满足时断点才会生效
+ */
+export interface BreakpointCondition {
+    /** 黑板变量名 */
+    variable: string;
+    /** 比较运算符 */
+    operator: CompareOperator;
+    /** 比较值 */
+    value: NodeStateValue;
+}
+
+/**
+ * 断点选项
+ */
+export interface BreakpointOptions {
+    /** 断点类型，默认'start' */
+    type?: BreakpointType;
+    /** 黑板条件 */
+    condition?: BreakpointCondition;
+}
+
+/**
+ * 断点
+ */
+export interface Breakpoint {
+    /** 断点ID */
+    id: number;
+    /** 节点ID */
+    nodeId: string;
+    /** 断点类型 */
+    type: BreakpointType;
+    /** 黑板条件 */
+    condition?: BreakpointCondition;
+}
+
+/**
+ * 中断位置
+ * - start: 节点开始执行之前
+ * - end: 节点执行之后
+ * - abort: 节点被中止之后
+ */
+export type TreeHaltPhase = 'start' | 'end' | 'abort';
+
+/**
+ * 中断信息
+ */
+export interface TreeHaltInfo {
+    /** 被中断的执行序号（从0开始） */
+    tickIndex: number;
+    /** 中断所在的节点ID */
+    nodeId: string;
+    /** 中断所在的节点路径 */
+    path: string;
+    /** 中断位置 */
+    phase: TreeHaltPhase;
+    /** 节点执行前的状态 */
+    previousStatus: TaskStatus;
+    /** 节点当前的状态，节点被中止时为Invalid */
+    status: TaskStatus;
+    /** 触发中断的断点ID，单步执行时没有此字段 */
+    breakpointId?: number;
+}
+
+/**
+ * 调试器选项
+ */
+export interface TreeDebuggerOptions {
+    /**
+     * 中断时的回调
+     * @description 在行为树执行过程中调用，此时节点状态和黑板处于中断时的位置
+     */
+    onHalt?: (halt: TreeHaltInfo) => void;
+}
+
+/**
+ * 调试器的执行模式
+ * - breakpoints: 在命中的断点处中断
+ * - step: 在下一个节点事件处中断
+ * - run: 不中断
+ */
+type DebuggerMode = 'breakpoints' | 'step' | 'run';
+
+/**
+ * 行为树调试器
+ *
+ * @description
+ * 支持在节点上设置断点，命中断点时行为树在该节点处中断本次执行并暂停，
+ * 之后可以逐个节点单步执行（stepNode）、完成本次执行（stepTick）或继续运行到下一个断点（continue）。
+ *
+ * 行为树的执行是同步的，无法真正挂起，因此调试器在每次执行开始时保存快照，
+ * 中断时立即结束本次执行，单步或继续时先恢复快照再重新执行到中断位置之后。
+ * 这要求执行过程是确定的：使用行为树的时钟和随机数流，自定义节点的运行时状态通过IStatefulNode保存。
+ * 重新执行时事件处理器等外部代码会被再次调用，可以配合TickRecorder使用。
+ * 中断时节点状态停留在本次执行的中途，应通过stepTick()或continue()结束中断，而不是直接调用tree.resume()
+ *
+ * @example
+ * ```typescript
+ * const treeDebugger = new TreeDebugger(tree, {
+ *   onHalt: (halt) => console.log(`在${halt.nodeId}处中断`)
+ * });
+ * treeDebugger.addBreakpoint('attack', { type: 'failure' });
+ *
+ * tree.tick(0.1);                // 命中断点后行为树暂停
+ * treeDebugger.stepNode();       // 执行到下一个节点事件
+ * treeDebugger.continue();       // 继续运行到下一个断点，没有命中时恢复行为树
+ * ```
+ */
+export class TreeDebugger<T> {
+    private readonly _tree: BehaviorTree<T>;
+    private readonly _onHalt?: (halt: TreeHaltInfo) => void;
+    private readonly _observer: ITreeObserver<T>;
+
+    private readonly _breakpoints = new Map<number, Breakpoint>();
+    private _nextBreakpointId: number = 1;
+
+    /** 当前的中断信息 */
+    private _halt: TreeHaltInfo | null = null;
+
+    /** 中断位置在本次执行中的事件序号 */
+    private _haltEventIndex: number = -1;
+
+    /** 本次执行开始时的快照，没有断点时不保存 */
+    private _tickSnapshot: BehaviorTreeSnapshot | null = null;
+
+    /** 是否正在执行 */
+    private _inTick: boolean = false;
+
+    /** 本次执行中已发生的节点事件数 */
+    private _eventIndex: number = 0;
+
+    /** 重新执行时跳过的事件序号（包含） */
+    private _skipUntil: number = -1;
+
+    private _mode: DebuggerMode = 'breakpoints';
+    private _disposed: boolean = false;
+
+    /**
+     * 创建调试器并开始观察行为树
+     * @param tree 行为树
+     * @param options 调试器选项
+     */
+    constructor(tree: BehaviorTree<T>, options: TreeDebuggerOptions = {}) {
+        this._tree = tree;
+        this._onHalt = options.onHalt;
+        this._observer = {
+            onTickStart: () => this._handleTickStart(),
+            onTickEnd: () => this._handleTickEnd(),
+            onNodeStart: (event) => this._handleEvent(event, 'start', event.status, event.status),
+            onNodeEnd: (event) => this._handleEvent(event, 'end', event.previousStatus, event.status),
+            onAbort: (event) => this._handleEvent(event, 'abort', TaskStatus.Running, TaskStatus.Invalid)
+        };
+        tree.addObserver(this._observer);
+    }
+
+    /**
+     * 是否处于中断状态
+     */
+    public get isHalted(): boolean {
+        return this._halt !== null;
+    }
+
+    /**
+     * 获取当前的中断信息
+     * @returns 中断信息，没有中断时返回null
+     */
+    public getHaltInfo(): TreeHaltInfo | null {
+        return this._halt && { ...this._halt };
+    }
+
+    /**
+     * 添加断点
+     * @param nodeId 节点ID
+     * @param options 断点选项
+     * @returns 断点
+     */
+    public addBreakpoint(nodeId: string, options: BreakpointOptions = {}): Breakpoint {
+        const breakpoint: Breakpoint = { id: this._nextBreakpointId++, nodeId, type: options.type ?? 'start' };
+        if (options.condition) {
+            breakpoint.condition = { ...options.condition };
+        }
+        this._breakpoints.set(breakpoint.id, breakpoint);
+        return { ...breakpoint };
+    }
+
+    /**
+     * 移除断点
+     * @param id 断点ID
+     * @returns 是否移除成功
+     */
+    public removeBreakpoint(id: number): boolean {
+        return this._breakpoints.delete(id);
+    }
+
+    /**
+     * 移除所有断点
+     */
+    public clearBreakpoints(): void {
+        this._breakpoints.clear();
+    }
+
+    /**
+     * 获取所有断点
+     */
+    public getBreakpoints(): Breakpoint[] {
+        return [...this._breakpoints.values()].map(breakpoint => ({ ...breakpoint }));
+    }
+
+    /**
+     * 执行到下一个节点事件（节点开始、结束或被中止）
+     * @description 没有中断时暂停行为树并开始一次新的执行，在根节点开始处中断
+     * @param deltaTime 开始新的执行时使用的时间差（秒），默认使用更新周期，每帧更新模式使用最近一次的时间差
+     * @returns 新的中断信息，本次执行已完成时返回null
+     */
+    public stepNode(deltaTime?: number): TreeHaltInfo | null {
+        this._run('step', deltaTime);
+        return this.getHaltInfo();
+    }
+
+    /**
+     * 完成本次执行，不在断点处中断，完成后行为树保持暂停
+     * @description 没有中断时暂停行为树并完整执行一次
+     * @param deltaTime 开始新的执行时使用的时间差（秒）
+     */
+    public stepTick(deltaTime?: number): void {
+        this._run('run', deltaTime);
+    }
+
+    /**
+     * 继续执行
+     * @description 中断时继续本次执行，在下一个命中的断点处中断，本次执行完成后恢复行为树；
+     * 没有中断时直接恢复行为树
+     */
+    public continue(): void {
+        if (this._halt) {
+            this._run('breakpoints');
+        }
+        if (!this._halt) {
+            this._tree.resume();
+        }
+    }
+
+    /**
+     * 停止观察行为树
+     * @description 移除所有断点，行为树的暂停状态保持不变
+     */
+    public dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        this._tree.removeObserver(this._observer);
+        this._breakpoints.clear();
+        this._halt = null;
+        this._tickSnapshot = null;
+    }
+
+    /**
+     * 以指定模式执行
+     * @param mode 执行模式
+     * @param deltaTime 开始新的执行时使用的时间差（秒）
+     */
+    private _run(mode: DebuggerMode, deltaTime?: number): void {
+        if (this._disposed) {
+            throw new Error('调试器已释放');
+        }
+
+        this._mode = mode;
+        try {
+            if (this._halt && this._tickSnapshot) {
+                // 回到本次执行开始时的状态，重新执行到中断位置之后
+                this._skipUntil = this._haltEventIndex;
+                this._halt = null;
+                this._tree.restoreState(this._tickSnapshot, { abortRunningNodes: false });
+            } else {
+                this._tree.pause();
+                this._tree.getClock().advance(deltaTime ?? this._getDefaultDeltaTime());
+            }
+            this._tree.tickImmediate();
+        } finally {
+            this._mode = 'breakpoints';
+            this._skipUntil = -1;
+        }
+    }
+
+    /**
+     * 获取单步执行的默认时间差
+     */
+    private _getDefaultDeltaTime(): number {
+        if (this._tree.updatePeriod > 0) {
+            return this._tree.updatePeriod;
+        }
+        return this._tree.getLastDeltaTime() || DEFAULT_STEP_DELTA_TIME;
+    }
+
+    private _handleTickStart(): void {
+        this._inTick = true;
+        this._eventIndex = 0;
+
+        // 重新执行时沿用中断的那次执行开始时的快照
+        if (this._skipUntil >= 0) {
+            return;
+        }
+        // 在中断状态下由外部开始了新的执行，放弃原来的中断
+        this._halt = null;
+        const canHalt = this._mode === 'step' || (this._mode === 'breakpoints' && this._breakpoints.size > 0);
+        this._tickSnapshot = canHalt ? this._tree.captureState() : null;
+    }
+
+    private _handleTickEnd(): void {
+        this._inTick = false;
+        this._tickSnapshot = null;
+    }
+
+    /**
+     * 处理节点事件，需要中断时抛出TreeExecutionHalt
+     */
+    private _handleEvent(event: NodeObserverEvent<T>, phase: TreeHaltPhase, previousStatus: TaskStatus, status: TaskStatus): void {
+        // 执行以外的中止（例如reset）不计入
+        if (!this._inTick) {
+            return;
+        }
+
+        const index = this._eventIndex++;
+        if (index <= this._skipUntil || this._mode === 'run' || !this._tickSnapshot) {
+            return;
+        }
+
+        let breakpoint: Breakpoint | undefined;
+        if (this._mode === 'breakpoints') {
+            breakpoint = this._findBreakpoint(event.id, phase, previousStatus, status);
+            if (!breakpoint) {
+                return;
+            }
+        }
+
+        const halt: TreeHaltInfo = {
+            tickIndex: this._tree.getStats().totalTicks,
+            nodeId: event.id,
+            path: event.path,
+            phase,
+            previousStatus,
+            status
+        };
+        if (breakpoint) {
+            halt.breakpointId = breakpoint.id;
+        }
+
+        this._halt = halt;
+        this._haltEventIndex = index;
+        this._inTick = false;
+        this._tree.pause();
+
+        if (this._onHalt) {
+            try {
+                this._onHalt({ ...halt });
+            } catch (error) {
+                console.error('调试器中断回调发生错误:', error);
+            }
+        }
+        throw new TreeExecutionHalt();
+    }
+
+    /**
+     * 查找在当前节点事件处命中的断点
+     */
+    private _findBreakpoint(nodeId: string, phase: TreeHaltPhase, previousStatus: TaskStatus, status: TaskStatus): Breakpoint | undefined {
+        for (const breakpoint of this._breakpoints.values()) {
+            if (breakpoint.nodeId !== nodeId || !TreeDebugger._matchesPhase(breakpoint.type, phase, previousStatus, status)) {
+                continue;
+            }
+            if (!breakpoint.condition || this._checkCondition(breakpoint.condition)) {
+                return breakpoint;
+            }
+        }
+        return undefined;
+    }
+
+    private static _matchesPhase(type: BreakpointType, phase: TreeHaltPhase, previousStatus: TaskStatus, status: TaskStatus): boolean {
+        switch (type) {
+            case 'start':
+                return phase === 'start';
+            case 'statusChange':
+                return phase === 'end' && status !== previousStatus;
+            case 'failure':
+                return phase === 'end' && status === TaskStatus.Failure;
+            case 'abort':
+                return phase === 'abort';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * 检查断点的黑板条件
+     */
+    private _checkCondition(condition: BreakpointCondition): boolean {
+        const comparison = new BlackboardValueComparison<unknown>(condition.variable, condition.operator, condition.value);
+        return comparison.update({ blackboard: this._tree.getBlackboard() }) === TaskStatus.Success;
+    }
+}
@@ -0,0 +1,301 @@
+import { Behavior } from '../Behavior';
+import { BehaviorTree } from '../BehaviorTree';
+import { TaskStatus } from '../TaskStatus';
+import { ITreeObserver, NodeAbortEvent, NodeEndEvent, NodeStartEvent } from '../TreeObserver';
+import { NodeTypeRegistry } from '../factories/NodeTypeRegistry';
+
+/**
+ * 单个节点的性能统计
+ * @description 时间单位为毫秒。自身耗时不包含被观察到的子节点的执行时间，总耗时包含
+ */
+export interface NodeProfile {
+    /** 节点ID */
+    id: string;
+    /** 节点路径 */
+    path: string;
+    /** 节点类型，通过配置创建的节点为配置中的类型，其他节点为类名 */
+    type: string;
+    /** 执行次数 */
+    ticks: number;
+    /** 自身耗时合计 */
+    totalSelfTime: number;
+    /** 平均自身耗时 */
+    averageSelfTime: number;
+    /** 最大自身耗时 */
+    maxSelfTime: number;
+    /** 总耗时合计（包含子节点） */
+    totalTime: number;
+    /** 平均总耗时 */
+    averageTime: number;
+    /** 最大总耗时 */
+    maxTime: number;
+    /** 执行后为Success的次数 */
+    successCount: number;
+    /** 执行后为Failure的次数 */
+    failureCount: number;
+    /** 执行后为Running的次数 */
+    runningCount: number;
+    /** 被中止的次数 */
+    abortCount: number;
+}
+
+/**
+ * 热点报告的排序字段
+ */
+export type NodeProfileSortKey =
+    | 'totalSelfTime'
+    | 'averageSelfTime'
+    | 'maxSelfTime'
+    | 'totalTime'
+    | 'averageTime'
+    | 'maxTime'
+    | 'ticks'
+    | 'abortCount';
+
+/**
+ * 热点报告选项
+ */
+export interface ProfileReportOptions {
+    /** 排序字段（降序），默认'totalSelfTime' */
+    sortBy?: NodeProfileSortKey;
+    /** 最多包含的节点数，默认包含全部 */
+    limit?: number;
+}
+
+/**
+ * 热点报告
+ * @description 可JSON序列化
+ */
+export interface ProfileReport {
+    /** 统计期间的执行次数 */
+    tickCount: number;
+    /** 统计期间的执行耗时合计（毫秒） */
+    totalTickTime: number;
+    /** 排序字段 */
+    sortBy: NodeProfileSortKey;
+    /** 按排序字段降序排列的节点统计 */
+    nodes: NodeProfile[];
+}
+
+/**
+ * 正在执行的节点的计时信息
+ */
+interface ProfileFrame {
+    /** 节点ID */
+    id: string;
+    /** 子节点的执行耗时合计 */
+    childTime: number;
+}
+
+/**
+ * 节点性能分析器
+ *
+ * @description
+ * 通过观察者统计每个节点的执行次数、自身耗时和总耗时以及执行结果和中止次数，用于找出大型行为树中开销较大的节点。
+ * 创建后开始统计，不使用时调用dispose()，未添加观察者的行为树没有额外开销。
+ *
+ * @example
+ * ```typescript
+ * const profiler = new TreeProfiler(tree);
+ * for (let i = 0; i < 1000; i++) {
+ *   tree.tick(1 / 60);
+ * }
+ * console.log(profiler.formatReport({ limit: 10 }));
+ * profiler.dispose();
+ * ```
+ */
+export class TreeProfiler<T> {
+    private readonly _tree: BehaviorTree<T>;
+    private readonly _observer: ITreeObserver<T>;
+    private readonly _profiles = new Map<string, NodeProfile>();
+
+    /** 正在执行的节点栈 */
+    private _stack: ProfileFrame[] = [];
+
+    private _tickCount: number = 0;
+    private _totalTickTime: number = 0;
+    private _disposed: boolean = false;
+
+    /**
+     * 创建分析器并开始统计
+     * @param tree 行为树
+     */
+    constructor(tree: BehaviorTree<T>) {
+        this._tree = tree;
+        this._observer = {
+            onTickStart: () => {
+                // 被中断的执行不会分发结束事件，丢弃未完成的计时
+                this._stack = [];
+            },
+            onTickEnd: (event) => {
+                this._tickCount++;
+                this._totalTickTime += event.duration;
+            },
+            onNodeStart: (event) => this._handleNodeStart(event),
+            onNodeEnd: (event) => this._handleNodeEnd(event),
+            onAbort: (event) => this._handleAbort(event)
+        };
+        tree.addObserver(this._observer);
+    }
+
+    /**
+     * 统计期间的执行次数
+     */
+    public get tickCount(): number {
+        return this._tickCount;
+    }
+
+    /**
+     * 获取节点的性能统计
+     * @param id 节点ID
+     * @returns 节点统计，节点尚未执行时返回undefined
+     */
+    public getNodeProfile(id: string): NodeProfile | undefined {
+        const profile = this._profiles.get(id);
+        return profile && { ...profile };
+    }
+
+    /**
+     * 获取所有已执行节点的性能统计，按首次执行的顺序排列
+     */
+    public getNodeProfiles(): NodeProfile[] {
+        return [...this._profiles.values()].map(profile => ({ ...profile }));
+    }
+
+    /**
+     * 清空所有统计
+     */
+    public reset(): void {
+        this._profiles.clear();
+        this._stack = [];
+        this._tickCount = 0;
+        this._totalTickTime = 0;
+    }
+
+    /**
+     * 生成热点报告
+     * @param options 报告选项
+     * @returns 热点报告
+     */
+    public createReport(options: ProfileReportOptions = {}): ProfileReport {
+        const sortBy = options.sortBy ?? 'totalSelfTime';
+        const nodes = this.getNodeProfiles().sort((a, b) => b[sortBy] - a[sortBy]);
+        if (options.limit !== undefined && options.limit >= 0) {
+            nodes.length = Math.min(nodes.length, options.limit);
+        }
+        return {
+            tickCount: this._tickCount,
+            totalTickTime: this._totalTickTime,
+            sortBy,
+            nodes
+        };
+    }
+
+    /**
+     * 生成文本格式的热点报告
+     * @param options 报告选项
+     * @returns 每行一个节点的报告文本
+     */
+    public formatReport(options: ProfileReportOptions = {}): string {
+        const report = this.createReport(options);
+        const lines = [
+            `执行次数: ${report.tickCount}, 总耗时: ${report.totalTickTime.toFixed(3)}ms, 排序: ${report.sortBy}`,
+            '节点ID | 类型 | 次数 | 自身耗时(合计/平均/最大) | 总耗时(合计/平均/最大) | 成功/失败/运行/中止'
+        ];
+        for (const node of report.nodes) {
+            lines.push([
+                node.id,
+                node.type,
+                node.ticks,
+                `${node.totalSelfTime.toFixed(3)}/${node.averageSelfTime.toFixed(3)}/${node.maxSelfTime.toFixed(3)}`,
+                `${node.totalTime.toFixed(3)}/${node.averageTime.toFixed(3)}/${node.maxTime.toFixed(3)}`,
+                `${node.successCount}/${node.failureCount}/${node.runningCount}/${node.abortCount}`
+            ].join(' | '));
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * 停止统计
+     * @description 已有的统计数据仍然可以查询
+     */
+    public dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        this._tree.removeObserver(this._observer);
+        this._stack = [];
+    }
+
+    private _handleNodeStart(event: NodeStartEvent<T>): void {
+        this._stack.push({ id: event.id, childTime: 0 });
+    }
+
+    private _handleNodeEnd(event: NodeEndEvent<T>): void {
+        const frame = this._stack.pop();
+        if (!frame || frame.id !== event.id) {
+            // 在执行中途开始统计，没有对应的开始事件
+            this._stack = [];
+            return;
+        }
+
+        const parent = this._stack[this._stack.length - 1];
+        if (parent) {
+            parent.childTime += event.duration;
+        }
+
+        const profile = this._getProfile(event.id, event.path, event.node);
+        const selfTime = Math.max(0, event.duration - frame.childTime);
+        profile.ticks++;
+        profile.totalSelfTime += selfTime;
+        profile.maxSelfTime = Math.max(profile.maxSelfTime, selfTime);
+        profile.averageSelfTime = profile.totalSelfTime / profile.ticks;
+        profile.totalTime += event.duration;
+        profile.maxTime = Math.max(profile.maxTime, event.duration);
+        profile.averageTime = profile.totalTime / profile.ticks;
+
+        switch (event.status) {
+            case TaskStatus.Success:
+                profile.successCount++;
+                break;
+            case TaskStatus.Failure:
+                profile.failureCount++;
+                break;
+            case TaskStatus.Running:
+                profile.runningCount++;
+                break;
+        }
+    }
+
+    private _handleAbort(event: NodeAbortEvent<T>): void {
+        this._getProfile(event.id, event.path, event.node).abortCount++;
+    }
+
+    /**
+     * 获取或创建节点的统计记录
+     */
+    private _getProfile(id: string, path: string, node: Behavior<T>): NodeProfile {
+        let profile = this._profiles.get(id);
+        if (!profile) {
+            profile = {
+                id,
+                path,
+                type: NodeTypeRegistry.getNodeSource(node)?.type ?? node.constructor.name,
+                ticks: 0,
+                totalSelfTime: 0,
+                averageSelfTime: 0,
+                maxSelfTime: 0,
+                totalTime: 0,
+                averageTime: 0,
+                maxTime: 0,
+                successCount: 0,
+                failureCount: 0,
+                runningCount: 0,
+                abortCount: 0
+            };
+            this._profiles.set(id, profile);
+        }
+        return profile;
+    }
+}
@@ -0,0 +1,7 @@
+export * from './TickRecording';
+export * from './DebugProtocol';
+export * from './DebugTransport';
+export * from './DebugServer';
+export * from './TreeDebugger';
+export * from './TreeProfiler';
+export * from './TraceExporter';
@@ -10,7 +10,7 @@ export class AlwaysFail<T> extends Decorator<T> {
             throw new Error("child必须不能为空");
         }
 
-        let status = this.child.update(context);
+        let status = this.child.tick(context);
 
         if (status == TaskStatus.Running)
             return TaskStatus.Running;
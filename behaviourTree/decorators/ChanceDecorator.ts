@@ -1,31 +1,33 @@
 import { Decorator } from './Decorator';
 import { TaskStatus } from '../TaskStatus';
+import { getRandom } from '../TreeRandom';
+import { IStatefulNode, NodeStateData } from '../NodeState';
+import type { ChanceExplanation, IExplainableNode } from '../TickExplanation';
 
 /**
  * 概率装饰器
  *
- * @description 以指定概率执行子节点，用于实现随机性行为
+ * @description 以指定概率执行子节点，用于实现随机性行为。
+ * 在行为树中执行时使用行为树的随机数流，相同种子的行为树做出相同的决策
  */
-export class ChanceDecorator<T> extends Decorator<T> {
+export class ChanceDecorator<T> extends Decorator<T> implements IStatefulNode, IExplainableNode {
     /** 成功概率（0.0 - 1.0） */
-    private successChance: number;
+    public successChance: number;
     /** 本次执行是否通过概率检查 */
     private shouldExecute: boolean = false;
+    /** 本次执行的随机数，尚未检查时为null */
+    private lastRoll: number | null = null;
 
     constructor(successChance: number) {
         super();
         this.successChance = Math.max(0, Math.min(1, successChance)); // 确保在0-1范围内
     }
 
-    public override onStart(): void {
+    public override onStart(context?: T): void {
         // 在开始时进行一次概率检查，并保存结果
-        const random = Math.random();
+        const random = getRandom(context).value();
+        this.lastRoll = random;
         this.shouldExecute = random <= this.successChance;
-
-        // 只有概率检查通过时才调用子节点的 onStart
-        if (this.shouldExecute && this.child && this.child.onStart) {
-            this.child.onStart();
-        }
     }
 
     public update(context: T): TaskStatus {
@@ -36,13 +38,35 @@ export class ChanceDecorator<T> extends Decorator<T> {
         }
 
         // 概率检查成功，执行子节点
-        return this.child ? this.child.update(context) : TaskStatus.Success;
+        return this.child ? this.child.tick(context) : TaskStatus.Success;
     }
 
-    public override onEnd(): void {
-        if (this.child && this.child.onEnd) {
-            this.child.onEnd();
-        }
+    /**
+     * 获取节点的运行时状态
+     * @returns 本次执行的概率检查结果
+     */
+    public captureState(): NodeStateData {
+        return { shouldExecute: this.shouldExecute };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this.shouldExecute = state.shouldExecute as boolean;
+    }
+
+    /**
+     * 说明本次执行的概率检查结果
+     */
+    public explain(): ChanceExplanation {
+        return {
+            kind: 'chance',
+            blocked: this.lastRoll !== null && !this.shouldExecute,
+            roll: this.lastRoll,
+            chance: this.successChance
+        };
     }
 
     /**
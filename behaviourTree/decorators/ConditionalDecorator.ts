@@ -2,12 +2,14 @@ import { Decorator } from './Decorator';
 import { TaskStatus } from '../TaskStatus';
 import { IConditional, isIConditional } from '../conditionals/IConditional';
 import { AbortTypes } from '../composites/AbortTypes';
+import { IStatefulNode, NodeStateData } from '../NodeState';
+import { ConditionExplanation, IExplainableNode, isExplainableNode } from '../TickExplanation';
 
 /**
  * 装饰器，只有在满足条件的情况下才会运行其子程序。
  * 默认情况下，该条件将在每一次执行中被重新评估
  */
-export class ConditionalDecorator<T> extends Decorator<T> implements IConditional<T> {
+export class ConditionalDecorator<T> extends Decorator<T> implements IConditional<T>, IStatefulNode, IExplainableNode {
     public readonly discriminator: "IConditional" = "IConditional";
     
     /** 中止类型，决定节点在何种情况下会被中止 */
@@ -54,6 +56,11 @@ export class ConditionalDecorator<T> extends Decorator<T> implements IConditiona
             const childStatus = this.child.tick(context);
             return childStatus;
         }
+
+        // 条件不再满足时中止正在运行的子节点
+        if (this.child.status === TaskStatus.Running) {
+            this.child.abort(context);
+        }
         return TaskStatus.Failure;
     }
 
@@ -68,5 +75,39 @@ export class ConditionalDecorator<T> extends Decorator<T> implements IConditiona
         return this._conditionalStatus;
     }
 
+    /**
+     * 说明最近一次的条件评估结果
+     */
+    public explain(): ConditionExplanation | null {
+        if (this._conditionalStatus === TaskStatus.Invalid) {
+            return null;
+        }
+        const explanation: ConditionExplanation = {
+            kind: 'condition',
+            blocked: this._conditionalStatus === TaskStatus.Failure
+        };
+        const details = isExplainableNode(this._conditional) ? this._conditional.explain() : null;
+        if (details) {
+            explanation.condition = details;
+        }
+        return explanation;
+    }
+
+    /**
+     * 获取节点的运行时状态
+     * @returns 最近一次的条件评估结果
+     */
+    public captureState(): NodeStateData {
+        return { conditionalStatus: this._conditionalStatus };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this._conditionalStatus = state.conditionalStatus as TaskStatus;
+    }
+
 
 }
@@ -1,39 +1,45 @@
 import { Decorator } from './Decorator';
 import { TaskStatus } from '../TaskStatus';
+import { IClock, getClock, systemClock } from '../TreeClock';
+import { IStatefulNode, NodeStateData } from '../NodeState';
+import type { CooldownExplanation, IExplainableNode } from '../TickExplanation';
 
 /**
  * 冷却装饰器
  * 
- * @description 在指定时间内阻止子节点重复执行，实现技能冷却等机制
+ * @description 在指定时间内阻止子节点重复执行，实现技能冷却等机制。
+ * 在行为树中执行时使用行为树时钟计时，遵循时间缩放和暂停
  */
-export class CooldownDecorator<T> extends Decorator<T> {
+export class CooldownDecorator<T> extends Decorator<T> implements IStatefulNode, IExplainableNode {
     /** 冷却时间（秒） */
-    private cooldownTime: number;
+    public cooldownTime: number;
     
     /** 上次执行时间 */
-    private lastExecutionTime: number = 0;
+    private lastExecutionTime: number = Number.NEGATIVE_INFINITY;
+
+    /** 最近一次更新时使用的时钟 */
+    private clock: IClock = systemClock;
+
+    /** 最近一次更新是否因冷却未执行子节点 */
+    private lastBlocked: boolean = false;
 
     constructor(cooldownTime: number) {
         super();
         this.cooldownTime = cooldownTime;
     }
 
-    public override onStart(): void {
-        if (this.child && this.child.onStart) {
-            this.child.onStart();
-        }
-    }
-
     public update(context: T): TaskStatus {
-        const currentTime = performance.now() / 1000;
+        this.clock = getClock(context);
+        const currentTime = this.clock.now();
         
         // 检查是否还在冷却中
-        if (currentTime - this.lastExecutionTime < this.cooldownTime) {
+        this.lastBlocked = currentTime - this.lastExecutionTime < this.cooldownTime;
+        if (this.lastBlocked) {
             return TaskStatus.Failure; // 还在冷却中
         }
         
         // 执行子节点
-        const childResult = this.child ? this.child.update(context) : TaskStatus.Success;
+        const childResult = this.child ? this.child.tick(context) : TaskStatus.Success;
         
         // 如果子节点执行完成（成功或失败），更新最后执行时间
         if (childResult === TaskStatus.Success || childResult === TaskStatus.Failure) {
@@ -43,24 +49,48 @@ export class CooldownDecorator<T> extends Decorator<T> {
         return childResult;
     }
 
-    public override onEnd(): void {
-        if (this.child && this.child.onEnd) {
-            this.child.onEnd();
-        }
+    /**
+     * 获取节点的运行时状态
+     * @returns 上次执行时间，从未执行过时为null
+     */
+    public captureState(): NodeStateData {
+        return {
+            lastExecutionTime: isFinite(this.lastExecutionTime) ? this.lastExecutionTime : null
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this.lastExecutionTime = (state.lastExecutionTime as number | null) ?? Number.NEGATIVE_INFINITY;
+    }
+
+    /**
+     * 说明最近一次更新是否因冷却未执行子节点
+     */
+    public explain(): CooldownExplanation {
+        return {
+            kind: 'cooldown',
+            blocked: this.lastBlocked,
+            remaining: this.getRemainingCooldownTime(),
+            cooldownTime: this.cooldownTime
+        };
     }
 
     /**
      * 重置冷却时间
      */
     public resetCooldown(): void {
-        this.lastExecutionTime = 0;
+        this.lastExecutionTime = Number.NEGATIVE_INFINITY;
     }
 
     /**
      * 获取剩余冷却时间
      */
     public getRemainingCooldownTime(): number {
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.clock.now();
         const remaining = this.cooldownTime - (currentTime - this.lastExecutionTime);
         return Math.max(0, remaining);
     }
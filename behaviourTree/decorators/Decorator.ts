@@ -8,6 +8,25 @@ export abstract class Decorator<T> extends Behavior<T> {
         this.child?.invalidate();
     }
 
+    /**
+     * 节点执行结束时的清理
+     *
+     * 使子节点无效，为下一次执行做准备
+     */
+    public override onEnd(): void {
+        this.child?.invalidate();
+    }
+
+    /**
+     * 中止节点及其子节点
+     *
+     * 重写父类方法，先中止子节点再中止自身
+     */
+    public override abort(context: T): void {
+        this.child?.abort(context);
+        super.abort(context);
+    }
+
     /**
      * 释放节点及其子节点的资源
      *
@@ -1,5 +1,6 @@
 import { Decorator } from './Decorator';
 import { TaskStatus } from '../TaskStatus';
+import { IStatefulNode, NodeStateData } from '../NodeState';
 
 /**
  * 重复执行装饰器
@@ -23,7 +24,7 @@ import { TaskStatus } from '../TaskStatus';
  * const untilSuccess = Repeater.createUntilSuccess<GameContext>();
  * ```
  */
-export class Repeater<T> extends Decorator<T> {
+export class Repeater<T> extends Decorator<T> implements IStatefulNode {
     /** 重复执行其子任务的次数（-1表示无限重复） */
     public count: number;
     
@@ -157,6 +158,26 @@ export class Repeater<T> extends Decorator<T> {
         return this._lastChildStatus;
     }
 
+    /**
+     * 获取节点的运行时状态
+     * @returns 已执行的迭代次数和最后一次子节点的执行结果
+     */
+    public captureState(): NodeStateData {
+        return {
+            iterationCount: this._iterationCount,
+            lastChildStatus: this._lastChildStatus
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this._iterationCount = state.iterationCount as number;
+        this._lastChildStatus = state.lastChildStatus as TaskStatus;
+    }
+
     /**
      * 重置重复器状态
      */
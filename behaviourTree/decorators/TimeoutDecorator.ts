@@ -1,33 +1,42 @@
 import { Decorator } from './Decorator';
 import { TaskStatus } from '../TaskStatus';
+import { IClock, getClock, systemClock } from '../TreeClock';
+import { IStatefulNode, NodeStateData } from '../NodeState';
+import type { IExplainableNode, TimeoutExplanation } from '../TickExplanation';
 
 /**
  * 超时装饰器
  * 
- * @description 如果子节点执行时间超过指定限制，则强制返回失败状态
+ * @description 如果子节点执行时间超过指定限制，则强制返回失败状态。
+ * 在行为树中执行时使用行为树时钟计时，遵循时间缩放和暂停
  */
-export class TimeoutDecorator<T> extends Decorator<T> {
+export class TimeoutDecorator<T> extends Decorator<T> implements IStatefulNode, IExplainableNode {
     /** 超时时间（秒） */
-    private timeoutDuration: number;
+    public timeoutDuration: number;
     
-    /** 开始执行时间 */
-    private startTime: number = 0;
+    /** 开始执行时间，首次更新时记录 */
+    private startTime: number | undefined = undefined;
+
+    /** 最近一次更新时使用的时钟 */
+    private clock: IClock = systemClock;
     
     /** 是否已开始执行 */
     private hasStarted: boolean = false;
 
+    /** 最近一次更新时的已执行时间 */
+    private lastElapsedTime: number = 0;
+
+    /** 最近一次更新是否超时 */
+    private lastTimedOut: boolean = false;
+
     constructor(timeoutDuration: number) {
         super();
         this.timeoutDuration = timeoutDuration;
     }
 
-    public override onStart(): void {
-        this.startTime = performance.now() / 1000;
+    public override onStart(context?: T): void {
+        this.startTime = undefined;
         this.hasStarted = true;
-        
-        if (this.child && this.child.onStart) {
-            this.child.onStart();
-        }
     }
 
     public update(context: T): TaskStatus {
@@ -35,17 +44,21 @@ export class TimeoutDecorator<T> extends Decorator<T> {
             return TaskStatus.Failure;
         }
         
-        const currentTime = performance.now() / 1000;
-        const elapsedTime = currentTime - this.startTime;
+        this.clock = getClock(context);
+        const elapsedTime = this.getElapsedTime();
+        this.lastElapsedTime = elapsedTime;
+        this.lastTimedOut = elapsedTime >= this.timeoutDuration;
         
         // 检查是否超时
-        if (elapsedTime >= this.timeoutDuration) {
+        if (this.lastTimedOut) {
             console.warn(`TimeoutDecorator: 子节点执行超时 (${elapsedTime.toFixed(2)}s >= ${this.timeoutDuration}s)`);
+            // 中止仍在运行的子节点，使其收到onAbort回调
+            this.child?.abort(context);
             return TaskStatus.Failure; // 超时失败
         }
         
         // 执行子节点
-        const childResult = this.child ? this.child.update(context) : TaskStatus.Success;
+        const childResult = this.child ? this.child.tick(context) : TaskStatus.Success;
         
         // 如果子节点完成，重置状态
         if (childResult !== TaskStatus.Running) {
@@ -57,10 +70,39 @@ export class TimeoutDecorator<T> extends Decorator<T> {
 
     public override onEnd(): void {
         this.hasStarted = false;
-        
-        if (this.child && this.child.onEnd) {
-            this.child.onEnd();
-        }
+        super.onEnd();
+    }
+
+    /**
+     * 获取节点的运行时状态
+     * @returns 开始执行时间和是否已开始执行
+     */
+    public captureState(): NodeStateData {
+        return {
+            startTime: this.startTime ?? null,
+            hasStarted: this.hasStarted
+        };
+    }
+
+    /**
+     * 恢复节点的运行时状态
+     * @param state captureState()返回的状态数据
+     */
+    public restoreState(state: NodeStateData): void {
+        this.startTime = (state.startTime as number | null) ?? undefined;
+        this.hasStarted = state.hasStarted as boolean;
+    }
+
+    /**
+     * 说明最近一次更新是否超时
+     */
+    public explain(): TimeoutExplanation {
+        return {
+            kind: 'timeout',
+            blocked: this.lastTimedOut,
+            elapsed: this.lastElapsedTime,
+            timeout: this.timeoutDuration
+        };
     }
 
     /**
@@ -71,9 +113,7 @@ export class TimeoutDecorator<T> extends Decorator<T> {
             return this.timeoutDuration;
         }
         
-        const currentTime = performance.now() / 1000;
-        const elapsedTime = currentTime - this.startTime;
-        return Math.max(0, this.timeoutDuration - elapsedTime);
+        return Math.max(0, this.timeoutDuration - this.getElapsedTime());
     }
 
     /**
@@ -84,7 +124,10 @@ export class TimeoutDecorator<T> extends Decorator<T> {
             return 0;
         }
         
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.clock.now();
+        if (this.startTime === undefined) {
+            this.startTime = currentTime;
+        }
         return currentTime - this.startTime;
     }
 
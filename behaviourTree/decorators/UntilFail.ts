@@ -10,10 +10,14 @@ export class UntilFail<T> extends Decorator<T> {
             throw new Error("child必须不为空");
         }
 
-        let status = this.child.update(context);
+        let status = this.child.tick(context);
 
-        if (status != TaskStatus.Failure)
+        if (status != TaskStatus.Failure) {
+            // 子节点成功后重置，下次执行时重新开始
+            if (status == TaskStatus.Success)
+                this.child.invalidate();
             return TaskStatus.Running;
+        }
 
         return TaskStatus.Success;
     }
@@ -10,10 +10,14 @@ export class UntilSuccess<T> extends Decorator<T> {
             throw new Error("child必须不为空");
         }
 
-        let status = this.child.update(context);
+        let status = this.child.tick(context);
 
-        if (status != TaskStatus.Success)
+        if (status != TaskStatus.Success) {
+            // 子节点失败后重置，下次执行时重新开始
+            if (status == TaskStatus.Failure)
+                this.child.invalidate();
             return TaskStatus.Running;
+        }
 
         return TaskStatus.Success;
     }
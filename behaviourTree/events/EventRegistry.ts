@@ -1,12 +1,14 @@
 import { TaskStatus } from '../TaskStatus';
+import type { NodePropertySchema } from '../factories/NodeTypeRegistry';
 
 /**
  * 事件处理器接口
+ * @description 异步处理器可以通过signal参数感知节点被中止、重置或超时
  * @template TContext 执行上下文类型，通常包含 node、component、blackboard 等
  * @template TParams 参数类型，可以是具体的参数对象类型
  */
 export interface IEventHandler<TContext = IBehaviorTreeContext, TParams = Record<string, any>> {
-    (context: TContext, parameters?: TParams): ActionResult;
+    (context: TContext, parameters?: TParams, signal?: AbortSignal): ActionResult;
 }
 
 /**
@@ -18,6 +20,21 @@ export interface IConditionChecker<TContext = IBehaviorTreeContext, TParams = Re
     (context: TContext, parameters?: TParams): boolean;
 }
 
+/**
+ * 事件处理器元数据
+ * @description 供编辑器展示处理器和编辑参数使用，不影响处理器的执行
+ */
+export interface EventHandlerMetadata {
+    /** 编辑器中显示的名称 */
+    displayName?: string;
+    /** 处理器描述 */
+    description?: string;
+    /** 分类，用于在编辑器中分组 */
+    category?: string;
+    /** 参数描述 */
+    parameters?: Record<string, NodePropertySchema>;
+}
+
 /**
  * 行为树执行上下文的基础接口
  * 这是一个通用的基础接口
@@ -112,18 +129,25 @@ export class EventRegistry {
     private regexActionHandlers = new Map<RegExp, IEventHandler>();
     private regexConditionHandlers = new Map<RegExp, IConditionChecker>();
     
+    // 处理器元数据存储，以事件名称或正则表达式为键
+    private actionMetadata = new Map<string | RegExp, EventHandlerMetadata>();
+    private conditionMetadata = new Map<string | RegExp, EventHandlerMetadata>();
+    
     /**
      * 注册动作处理器
      * @template TContext 上下文类型
      * @template TParams 参数类型
      * @param eventName 事件名称
      * @param handler 处理器函数，必须返回 ActionResult 类型
+     * @param metadata 可选的元数据，用于导出编辑器节点目录
      */
     registerAction<TContext = IBehaviorTreeContext, TParams = Record<string, any>>(
         eventName: string, 
-        handler: IEventHandler<TContext, TParams>
+        handler: IEventHandler<TContext, TParams>,
+        metadata?: EventHandlerMetadata
     ): void {
         this.actionHandlers.set(eventName, handler as IEventHandler);
+        this.setMetadata(this.actionMetadata, eventName, metadata);
     }
     
     /**
@@ -132,12 +156,15 @@ export class EventRegistry {
      * @template TParams 参数类型
      * @param eventPattern 事件名称正则表达式
      * @param handler 处理器函数，必须返回 ActionResult 类型
+     * @param metadata 可选的元数据，用于导出编辑器节点目录
      */
     registerActionRegex<TContext = IBehaviorTreeContext, TParams = Record<string, any>>(
         eventPattern: RegExp, 
-        handler: IEventHandler<TContext, TParams>
+        handler: IEventHandler<TContext, TParams>,
+        metadata?: EventHandlerMetadata
     ): void {
         this.regexActionHandlers.set(eventPattern, handler as IEventHandler);
+        this.setMetadata(this.actionMetadata, eventPattern, metadata);
     }
     
     /**
@@ -146,12 +173,15 @@ export class EventRegistry {
      * @template TParams 参数类型
      * @param eventName 事件名称
      * @param checker 检查器函数，必须返回 boolean 类型
+     * @param metadata 可选的元数据，用于导出编辑器节点目录
      */
     registerCondition<TContext = IBehaviorTreeContext, TParams = Record<string, any>>(
         eventName: string, 
-        checker: IConditionChecker<TContext, TParams>
+        checker: IConditionChecker<TContext, TParams>,
+        metadata?: EventHandlerMetadata
     ): void {
         this.conditionHandlers.set(eventName, checker as IConditionChecker);
+        this.setMetadata(this.conditionMetadata, eventName, metadata);
     }
     
     /**
@@ -160,12 +190,15 @@ export class EventRegistry {
      * @template TParams 参数类型
      * @param eventPattern 事件名称正则表达式
      * @param checker 检查器函数，必须返回 boolean 类型
+     * @param metadata 可选的元数据，用于导出编辑器节点目录
      */
     registerConditionRegex<TContext = IBehaviorTreeContext, TParams = Record<string, any>>(
         eventPattern: RegExp, 
-        checker: IConditionChecker<TContext, TParams>
+        checker: IConditionChecker<TContext, TParams>,
+        metadata?: EventHandlerMetadata
     ): void {
         this.regexConditionHandlers.set(eventPattern, checker as IConditionChecker);
+        this.setMetadata(this.conditionMetadata, eventPattern, metadata);
     }
     
     /**
@@ -224,6 +257,52 @@ export class EventRegistry {
         return [...new Set([...actionPatterns, ...conditionPatterns])];
     }
     
+    /**
+     * 获取所有精确匹配的动作事件名称
+     */
+    getActionNames(): string[] {
+        return Array.from(this.actionHandlers.keys());
+    }
+    
+    /**
+     * 获取所有精确匹配的条件事件名称
+     */
+    getConditionNames(): string[] {
+        return Array.from(this.conditionHandlers.keys());
+    }
+    
+    /**
+     * 获取所有动作处理器的正则表达式模式
+     */
+    getActionPatterns(): RegExp[] {
+        return Array.from(this.regexActionHandlers.keys());
+    }
+    
+    /**
+     * 获取所有条件检查器的正则表达式模式
+     */
+    getConditionPatterns(): RegExp[] {
+        return Array.from(this.regexConditionHandlers.keys());
+    }
+    
+    /**
+     * 获取动作处理器的元数据
+     * @param eventNameOrPattern 注册时使用的事件名称或正则表达式
+     * @returns 元数据，未提供时返回undefined
+     */
+    getActionMetadata(eventNameOrPattern: string | RegExp): EventHandlerMetadata | undefined {
+        return this.actionMetadata.get(eventNameOrPattern);
+    }
+    
+    /**
+     * 获取条件检查器的元数据
+     * @param eventNameOrPattern 注册时使用的事件名称或正则表达式
+     * @returns 元数据，未提供时返回undefined
+     */
+    getConditionMetadata(eventNameOrPattern: string | RegExp): EventHandlerMetadata | undefined {
+        return this.conditionMetadata.get(eventNameOrPattern);
+    }
+    
     /**
      * 测试事件名是否匹配任何已注册的处理器（包括正则表达式）
      * @param eventName 事件名称
@@ -239,6 +318,23 @@ export class EventRegistry {
         this.conditionHandlers.clear();
         this.regexActionHandlers.clear();
         this.regexConditionHandlers.clear();
+        this.actionMetadata.clear();
+        this.conditionMetadata.clear();
+    }
+    
+    /**
+     * 更新处理器元数据，重新注册时未提供元数据会移除旧的元数据
+     */
+    private setMetadata(
+        store: Map<string | RegExp, EventHandlerMetadata>,
+        key: string | RegExp,
+        metadata: EventHandlerMetadata | undefined
+    ): void {
+        if (metadata) {
+            store.set(key, metadata);
+        } else {
+            store.delete(key);
+        }
     }
 }
 
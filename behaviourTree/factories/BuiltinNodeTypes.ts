@@ -0,0 +1,898 @@
+import { TaskStatus } from '../TaskStatus';
+import { ExecuteAction } from '../actions/ExecuteAction';
+import { WaitAction } from '../actions/WaitAction';
+import { LogAction } from '../actions/LogAction';
+import { AsyncAction } from '../actions/AsyncAction';
+import {
+    SetBlackboardValue,
+    AddToBlackboardValue,
+    ToggleBlackboardBool,
+    ResetBlackboardVariable,
+    MathBlackboardOperation,
+    MathOperation,
+    LogBlackboardValue,
+    WaitForBlackboardCondition
+} from '../actions/BlackboardActions';
+import { BlackboardValueType } from '../Blackboard';
+import { getRandom } from '../TreeRandom';
+import { ExecuteActionConditional } from '../conditionals/ExecuteActionConditional';
+import { IConditional } from '../conditionals/IConditional';
+import {
+    CompareOperator,
+    BlackboardValueComparison,
+    BlackboardVariableExists,
+    BlackboardVariableTypeCheck,
+    BlackboardVariableRangeCheck
+} from '../conditionals/BlackboardConditionals';
+import { NumericComparison, PropertyExists } from '../conditionals/GeneralConditionals';
+import { Selector } from '../composites/Selector';
+import { Sequence } from '../composites/Sequence';
+import { Parallel, ParallelPolicy, ParallelPolicyOption } from '../composites/Parallel';
+import { ParallelSelector } from '../composites/ParallelSelector';
+import { Race } from '../composites/Race';
+import { ReactiveSelector } from '../composites/ReactiveSelector';
+import { ReactiveSequence } from '../composites/ReactiveSequence';
+import { SimpleParallel, SimpleParallelFinishMode } from '../composites/SimpleParallel';
+import { RandomSelector } from '../composites/RandomSelector';
+import { RandomSequence } from '../composites/RandomSequence';
+import { ConditionalDecorator } from '../decorators/ConditionalDecorator';
+import { AlwaysFail } from '../decorators/AlwaysFail';
+import { AlwaysSucceed } from '../decorators/AlwaysSucceed';
+import { Inverter } from '../decorators/Inverter';
+import { Repeater } from '../decorators/Repeater';
+import { UntilFail } from '../decorators/UntilFail';
+import { UntilSuccess } from '../decorators/UntilSuccess';
+import { CooldownDecorator } from '../decorators/CooldownDecorator';
+import { TimeoutDecorator } from '../decorators/TimeoutDecorator';
+import { ChanceDecorator } from '../decorators/ChanceDecorator';
+import { ConditionFactory, ConditionConfig } from './ConditionFactory';
+import {
+    cleanVariableName,
+    formatAbortType,
+    parseAbortType,
+    parseBlackboardValueType,
+    parseCompareOperator,
+    replaceBlackboardVariables
+} from './NodePropertyUtils';
+import type { NodePropertySchema, NodeTypeRegistry } from './NodeTypeRegistry';
+
+/**
+ * 变量名属性描述
+ */
+const variableNameProperty: NodePropertySchema = { type: 'string', default: 'variable', description: '黑板变量名' };
+
+/**
+ * 中止类型属性描述
+ */
+const abortTypeProperty: NodePropertySchema = {
+    type: 'string',
+    default: 'None',
+    description: '中止类型',
+    options: ['None', 'Self', 'LowerPriority', 'Both']
+};
+
+const parallelPolicyProperty: NodePropertySchema = {
+    type: 'string',
+    options: Object.values(ParallelPolicy)
+};
+
+/**
+ * 黑板比较操作符可选值
+ */
+const compareOperatorOptions = Object.values(CompareOperator);
+
+/**
+ * 将条件对象包装为可以放入行为树的条件节点
+ */
+function wrapConditional<T>(conditional: IConditional<T>): ExecuteActionConditional<T> {
+    return ExecuteActionConditional.fromConditional(conditional);
+}
+
+/**
+ * 解析事件节点的参数，支持JSON字符串和黑板变量替换
+ */
+function resolveEventParameters(parameters: unknown, ctx: any, tag: string): Record<string, any> {
+    let resolved: any = {};
+    if (parameters) {
+        if (typeof parameters === 'string') {
+            try {
+                resolved = JSON.parse(parameters);
+            } catch (e) {
+                console.warn(`[${tag}] 参数解析失败: ${parameters}`);
+            }
+        } else {
+            resolved = parameters;
+        }
+
+        // 支持黑板变量替换
+        const blackboard = ctx.blackboard;
+        if (blackboard) {
+            resolved = replaceBlackboardVariables(resolved, blackboard);
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * 转换为并行策略选项，策略为"n"时使用数量
+ */
+function toParallelPolicyOption(policy: string, count: number): ParallelPolicyOption {
+    const normalized = policy.toLowerCase();
+    if (normalized === ParallelPolicy.RequireN) {
+        return count;
+    }
+    return normalized === ParallelPolicy.RequireOne ? 'one' : 'all';
+}
+
+/**
+ * 解析简单并行节点的结束方式，未知的值按立即结束处理
+ */
+function parseSimpleParallelFinishMode(value: string): SimpleParallelFinishMode {
+    return value.toLowerCase() === SimpleParallelFinishMode.Delayed
+        ? SimpleParallelFinishMode.Delayed
+        : SimpleParallelFinishMode.Immediate;
+}
+
+/**
+ * 解析数学运算类型，支持枚举值（如"add"）和枚举名（如"Add"）
+ */
+function parseMathOperation(value: string): MathOperation {
+    const values = Object.values(MathOperation) as string[];
+    const normalized = value.toLowerCase();
+    return values.includes(normalized) ? normalized as MathOperation : MathOperation.Add;
+}
+
+/**
+ * 注册复合节点
+ */
+function registerComposites(registry: NodeTypeRegistry): void {
+    registry.register({
+        type: 'selector',
+        category: 'composite',
+        displayName: '选择器',
+        description: '选择器：依次执行子节点直到一个成功',
+        properties: { abortType: abortTypeProperty },
+        nodeClass: Selector,
+        serialize: (node) => ({ abortType: formatAbortType((node as Selector<any>).abortType) }),
+        factory: (props) => new Selector(parseAbortType(props.abortType))
+    });
+
+    registry.register({
+        type: 'sequence',
+        category: 'composite',
+        displayName: '序列',
+        description: '序列：依次执行子节点直到一个失败',
+        properties: { abortType: abortTypeProperty },
+        nodeClass: Sequence,
+        serialize: (node) => ({ abortType: formatAbortType((node as Sequence<any>).abortType) }),
+        factory: (props) => new Sequence(parseAbortType(props.abortType))
+    });
+
+    registry.register({
+        type: 'parallel',
+        category: 'composite',
+        displayName: '并行',
+        description: '并行：同时执行所有子节点，按成功策略和失败策略决定结果',
+        properties: {
+            successPolicy: { ...parallelPolicyProperty, default: 'all', description: '成功策略' },
+            successCount: { type: 'number', default: 1, min: 1, description: '成功策略为n时需要成功的子节点数量' },
+            failurePolicy: { ...parallelPolicyProperty, default: 'one', description: '失败策略' },
+            failureCount: { type: 'number', default: 1, min: 1, description: '失败策略为n时需要失败的子节点数量' }
+        },
+        nodeClass: Parallel,
+        serialize: (node) => {
+            const parallel = node as Parallel<any>;
+            return {
+                successPolicy: parallel.successPolicy,
+                successCount: parallel.successCount,
+                failurePolicy: parallel.failurePolicy,
+                failureCount: parallel.failureCount
+            };
+        },
+        factory: (props) => new Parallel({
+            success: toParallelPolicyOption(props.successPolicy, props.successCount),
+            failure: toParallelPolicyOption(props.failurePolicy, props.failureCount)
+        })
+    });
+
+    registry.register({
+        type: 'parallel-selector',
+        category: 'composite',
+        displayName: '并行选择器',
+        description: '并行选择器：同时执行所有子节点，任一成功即成功',
+        nodeClass: ParallelSelector,
+        serialize: () => ({}),
+        factory: () => new ParallelSelector()
+    });
+
+    registry.register({
+        type: 'reactive-sequence',
+        category: 'composite',
+        displayName: '响应式序列',
+        description: '响应式序列：每次执行都从第一个子节点重新开始，之前的子节点失败时中止正在运行的子节点',
+        nodeClass: ReactiveSequence,
+        serialize: () => ({}),
+        factory: () => new ReactiveSequence()
+    });
+
+    registry.register({
+        type: 'reactive-selector',
+        category: 'composite',
+        displayName: '响应式选择器',
+        description: '响应式选择器：每次执行都从第一个子节点重新开始，之前的子节点成功时中止正在运行的子节点',
+        nodeClass: ReactiveSelector,
+        serialize: () => ({}),
+        factory: () => new ReactiveSelector()
+    });
+
+    registry.register({
+        type: 'simple-parallel',
+        category: 'composite',
+        displayName: '简单并行',
+        description: '简单并行：执行主任务的同时执行后台任务，结果为主任务的结果',
+        properties: {
+            finishMode: {
+                type: 'string',
+                default: SimpleParallelFinishMode.Immediate,
+                description: '主任务结束时立即中止后台任务（immediate）或等待其结束（delayed）',
+                options: Object.values(SimpleParallelFinishMode)
+            }
+        },
+        children: { min: 2, max: 2 },
+        nodeClass: SimpleParallel,
+        serialize: (node) => ({ finishMode: (node as SimpleParallel<any>).finishMode }),
+        factory: (props) => new SimpleParallel(parseSimpleParallelFinishMode(props.finishMode))
+    });
+
+    registry.register({
+        type: 'race',
+        category: 'composite',
+        displayName: '竞速',
+        description: '竞速：同时执行所有子节点，第一个结束的子节点决定结果',
+        nodeClass: Race,
+        serialize: () => ({}),
+        factory: () => new Race()
+    });
+
+    registry.register({
+        type: 'random-selector',
+        category: 'composite',
+        displayName: '随机选择器',
+        description: '随机选择器：以随机顺序执行子节点直到一个成功',
+        properties: { abortType: abortTypeProperty },
+        nodeClass: RandomSelector,
+        serialize: (node) => ({ abortType: formatAbortType((node as RandomSelector<any>).abortType) }),
+        factory: (props) => new RandomSelector(parseAbortType(props.abortType))
+    });
+
+    registry.register({
+        type: 'random-sequence',
+        category: 'composite',
+        displayName: '随机序列',
+        description: '随机序列：以随机顺序执行子节点直到一个失败',
+        properties: { abortType: abortTypeProperty },
+        nodeClass: RandomSequence,
+        serialize: (node) => ({ abortType: formatAbortType((node as RandomSequence<any>).abortType) }),
+        factory: (props) => new RandomSequence(parseAbortType(props.abortType))
+    });
+}
+
+/**
+ * 注册装饰器节点
+ */
+function registerDecorators(registry: NodeTypeRegistry): void {
+    registry.register({
+        type: 'repeater',
+        category: 'decorator',
+        displayName: '重复',
+        description: '重复执行子节点指定次数，-1表示无限重复',
+        properties: {
+            count: { type: 'number', default: -1, min: -1 },
+            endOnFailure: { type: 'boolean', default: false },
+            endOnSuccess: { type: 'boolean', default: false }
+        },
+        nodeClass: Repeater,
+        serialize: (node) => {
+            const repeater = node as Repeater<any>;
+            return { count: repeater.count, endOnFailure: repeater.endOnFailure, endOnSuccess: repeater.endOnSuccess };
+        },
+        factory: (props) => new Repeater(props.count, props.endOnFailure, props.endOnSuccess)
+    });
+
+    registry.register({
+        type: 'inverter',
+        category: 'decorator',
+        displayName: '反转',
+        description: '反转子节点的执行结果',
+        nodeClass: Inverter,
+        serialize: () => ({}),
+        factory: () => new Inverter()
+    });
+
+    registry.register({
+        type: 'always-succeed',
+        category: 'decorator',
+        displayName: '总是成功',
+        description: '无论子节点结果如何都返回成功',
+        nodeClass: AlwaysSucceed,
+        serialize: () => ({}),
+        factory: () => new AlwaysSucceed()
+    });
+
+    registry.register({
+        type: 'always-fail',
+        category: 'decorator',
+        displayName: '总是失败',
+        description: '无论子节点结果如何都返回失败',
+        nodeClass: AlwaysFail,
+        serialize: () => ({}),
+        factory: () => new AlwaysFail()
+    });
+
+    registry.register({
+        type: 'until-success',
+        category: 'decorator',
+        displayName: '直到成功',
+        description: '重复执行子节点直到成功',
+        nodeClass: UntilSuccess,
+        serialize: () => ({}),
+        factory: () => new UntilSuccess()
+    });
+
+    registry.register({
+        type: 'until-fail',
+        category: 'decorator',
+        displayName: '直到失败',
+        description: '重复执行子节点直到失败',
+        nodeClass: UntilFail,
+        serialize: () => ({}),
+        factory: () => new UntilFail()
+    });
+
+    registry.register({
+        type: 'conditional-decorator',
+        category: 'decorator',
+        displayName: '条件装饰器',
+        description: '条件满足时才执行子节点',
+        properties: {
+            conditionType: { type: 'string', options: ['blackboardCompare', 'eventCondition', 'custom'] },
+            shouldReevaluate: { type: 'boolean', default: true },
+            abortType: abortTypeProperty
+        },
+        factory: (props, { context, condition }) => {
+            // 根据conditionType属性确定条件类型
+            let conditionConfig: ConditionConfig | undefined = condition;
+            if (props.conditionType === 'blackboardCompare') {
+                conditionConfig = { type: 'blackboard-value-comparison' };
+            } else if (props.conditionType === 'eventCondition') {
+                conditionConfig = { type: 'event-condition' };
+            } else if (props.conditionType === 'custom') {
+                conditionConfig = { type: 'condition-custom' };
+            }
+
+            const conditional = ConditionFactory.createCondition(conditionConfig, props, context);
+            return new ConditionalDecorator(conditional, props.shouldReevaluate, parseAbortType(props.abortType));
+        }
+    });
+
+    registry.register({
+        type: 'cooldown',
+        category: 'decorator',
+        displayName: '冷却',
+        properties: { cooldownTime: { type: 'number', default: 1.0, min: 0, description: '冷却时间（秒）' } },
+        nodeClass: CooldownDecorator,
+        serialize: (node) => ({ cooldownTime: (node as CooldownDecorator<any>).cooldownTime }),
+        factory: (props) => new CooldownDecorator(props.cooldownTime)
+    });
+
+    registry.register({
+        type: 'timeout',
+        category: 'decorator',
+        displayName: '超时',
+        properties: { timeoutDuration: { type: 'number', default: 5.0, min: 0, description: '超时时间（秒）' } },
+        nodeClass: TimeoutDecorator,
+        serialize: (node) => ({ timeoutDuration: (node as TimeoutDecorator<any>).timeoutDuration }),
+        factory: (props) => new TimeoutDecorator(props.timeoutDuration)
+    });
+
+    registry.register({
+        type: 'chance',
+        category: 'decorator',
+        displayName: '概率',
+        properties: { successChance: { type: 'number', default: 0.5, min: 0, max: 1, description: '执行子节点的概率' } },
+        nodeClass: ChanceDecorator,
+        serialize: (node) => ({ successChance: (node as ChanceDecorator<any>).successChance }),
+        factory: (props) => new ChanceDecorator(props.successChance)
+    });
+}
+
+/**
+ * 注册动作节点
+ */
+function registerActions(registry: NodeTypeRegistry): void {
+    registry.register({
+        type: 'log-action',
+        category: 'action',
+        displayName: '输出日志',
+        description: '输出日志，支持{{variableName}}黑板变量替换',
+        properties: {
+            message: { type: 'string', default: 'Default log message' },
+            logLevel: { type: 'string', default: 'info', options: ['debug', 'info', 'warn', 'error'] }
+        },
+        nodeClass: LogAction,
+        serialize: (node) => ({ message: (node as LogAction<any>).text, logLevel: (node as LogAction<any>).logLevel }),
+        factory: (props) => {
+            const action = new LogAction(props.message, props.logLevel);
+            action.prefix = '[BehaviorTree] ';
+            return action;
+        }
+    });
+
+    registry.register({
+        type: 'wait-action',
+        category: 'action',
+        displayName: '等待',
+        properties: { waitTime: { type: 'number', default: 1.0, min: 0, description: '等待时间（秒）' } },
+        nodeClass: WaitAction,
+        serialize: (node) => ({ waitTime: (node as WaitAction<any>).waitTime }),
+        factory: (props) => new WaitAction(props.waitTime)
+    });
+
+    registry.register({
+        type: 'behavior-tree-reference',
+        category: 'action',
+        displayName: '子行为树',
+        description: '运行另一个行为树',
+        properties: {
+            subTreePath: { type: 'string' },
+            treePath: { type: 'string' },
+            shareBlackboard: { type: 'boolean', default: false },
+            remapping: { type: 'object' }
+        },
+        factory: (props, buildContext) => {
+            const subTreePath = props.subTreePath || props.treePath;
+            if (!subTreePath) {
+                console.warn('behavior-tree-reference节点缺少subTreePath属性');
+                return new ExecuteAction(() => TaskStatus.Failure);
+            }
+
+            return buildContext.createSubTreeReference(subTreePath, props.shareBlackboard, props.remapping);
+        }
+    });
+
+    registry.register({
+        type: 'execute-action',
+        category: 'action',
+        displayName: '执行代码',
+        description: '执行自定义动作代码',
+        properties: { actionCode: { type: 'string' } },
+        factory: (props) => {
+            const actionCode = props.actionCode;
+            if (!actionCode) {
+                return new ExecuteAction(() => TaskStatus.Success);
+            }
+
+            try {
+                // 创建安全的执行函数
+                const actionFunc = new Function('context', 'TaskStatus', `
+                    const { Success, Failure, Running, Invalid } = TaskStatus;
+                    try {
+                        ${actionCode}
+                    } catch (error) {
+                        console.error('动作执行错误:', error);
+                        return TaskStatus.Failure;
+                    }
+                `);
+                return new ExecuteAction((ctx) => {
+                    try {
+                        const result = actionFunc(ctx, TaskStatus);
+                        return result || TaskStatus.Success;
+                    } catch (error) {
+                        console.error('执行动作失败:', error);
+                        return TaskStatus.Failure;
+                    }
+                });
+            } catch (error) {
+                console.warn('解析动作代码失败，使用默认动作:', error);
+                return new ExecuteAction(() => TaskStatus.Success);
+            }
+        }
+    });
+
+    registry.register({
+        type: 'event-action',
+        category: 'action',
+        displayName: '事件动作',
+        description: '调用事件注册表中的动作处理器，支持异步处理器',
+        properties: {
+            eventName: { type: 'string' },
+            parameters: { type: 'any' },
+            timeout: { type: 'number', default: 0, min: 0, description: '超时时间（秒），0表示不超时' }
+        },
+        factory: (props) => {
+            const eventName: string | undefined = props.eventName;
+            if (!eventName) {
+                console.warn('[event-action] 缺少 eventName 属性');
+                return new ExecuteAction(() => TaskStatus.Failure);
+            }
+
+            return new AsyncAction((ctx: any, signal: AbortSignal) => {
+                // 从上下文中获取事件注册表
+                const eventRegistry = ctx.eventRegistry;
+                if (!eventRegistry) {
+                    console.warn(`[event-action] 未找到事件注册表，请在执行上下文中提供 eventRegistry`);
+                    return TaskStatus.Failure;
+                }
+
+                // 获取事件处理器
+                const handler = eventRegistry.getActionHandler ?
+                    eventRegistry.getActionHandler(eventName) :
+                    eventRegistry.handlers?.get(eventName);
+
+                if (!handler) {
+                    console.warn(`[event-action] 未找到事件处理器: ${eventName}`);
+                    return TaskStatus.Failure;
+                }
+
+                // 执行事件处理器，异步结果由AsyncAction跟踪直到完成
+                const parameters = resolveEventParameters(props.parameters, ctx, 'event-action');
+                return handler(ctx, parameters, signal);
+            }, { name: eventName, timeout: props.timeout });
+        }
+    });
+
+    registry.register({
+        type: 'set-blackboard-value',
+        category: 'action',
+        displayName: '设置黑板变量',
+        properties: {
+            variableName: variableNameProperty,
+            value: { type: 'any' },
+            sourceVariable: { type: 'string' },
+            force: { type: 'boolean', default: false }
+        },
+        nodeClass: SetBlackboardValue,
+        serialize: (node) => {
+            const action = node as SetBlackboardValue<any>;
+            return { variableName: action.variableName, value: action.value, sourceVariable: action.sourceVariable, force: action.force };
+        },
+        factory: (props) => new SetBlackboardValue(
+            cleanVariableName(props.variableName),
+            props.value,
+            props.sourceVariable !== undefined ? cleanVariableName(props.sourceVariable) : undefined,
+            props.force
+        )
+    });
+
+    registry.register({
+        type: 'add-to-blackboard',
+        category: 'action',
+        displayName: '黑板变量累加',
+        properties: {
+            variableName: variableNameProperty,
+            increment: { type: 'number', default: 1 },
+            incrementVariable: { type: 'string' }
+        },
+        nodeClass: AddToBlackboardValue,
+        serialize: (node) => {
+            const action = node as AddToBlackboardValue<any>;
+            return { variableName: action.variableName, increment: action.increment, incrementVariable: action.incrementVariable };
+        },
+        factory: (props) => new AddToBlackboardValue(props.variableName, props.increment, props.incrementVariable)
+    });
+    registry.registerAlias('add-blackboard-value', 'add-to-blackboard');
+
+    registry.register({
+        type: 'toggle-blackboard-bool',
+        category: 'action',
+        displayName: '切换黑板布尔值',
+        properties: { variableName: variableNameProperty },
+        nodeClass: ToggleBlackboardBool,
+        serialize: (node) => ({ variableName: (node as ToggleBlackboardBool<any>).variableName }),
+        factory: (props) => new ToggleBlackboardBool(props.variableName)
+    });
+
+    registry.register({
+        type: 'reset-blackboard-variable',
+        category: 'action',
+        displayName: '重置黑板变量',
+        properties: { variableName: variableNameProperty },
+        nodeClass: ResetBlackboardVariable,
+        serialize: (node) => ({ variableName: (node as ResetBlackboardVariable<any>).variableName }),
+        factory: (props) => new ResetBlackboardVariable(props.variableName)
+    });
+
+    registry.register({
+        type: 'math-blackboard-operation',
+        category: 'action',
+        displayName: '黑板数学运算',
+        properties: {
+            targetVariable: { type: 'string', default: 'result' },
+            operand1Variable: { type: 'string', default: 'operand1' },
+            operand2: { type: 'any', default: 0, description: '数值或黑板变量名' },
+            operation: { type: 'string', default: 'add', options: Object.values(MathOperation) }
+        },
+        nodeClass: MathBlackboardOperation,
+        serialize: (node) => {
+            const action = node as MathBlackboardOperation<any>;
+            return {
+                targetVariable: action.targetVariable,
+                operand1Variable: action.operand1Variable,
+                operand2: action.operand2,
+                operation: action.operation
+            };
+        },
+        factory: (props) => new MathBlackboardOperation(
+            props.targetVariable,
+            props.operand1Variable,
+            typeof props.operand2 === 'string' ? props.operand2 : Number(props.operand2),
+            parseMathOperation(props.operation)
+        )
+    });
+
+    registry.register({
+        type: 'log-blackboard-value',
+        category: 'action',
+        displayName: '输出黑板变量',
+        properties: {
+            variableName: variableNameProperty,
+            prefix: { type: 'string', default: '[Blackboard]' }
+        },
+        nodeClass: LogBlackboardValue,
+        serialize: (node) => {
+            const action = node as LogBlackboardValue<any>;
+            return { variableName: action.variableName, prefix: action.prefix };
+        },
+        factory: (props) => new LogBlackboardValue(props.variableName, props.prefix)
+    });
+
+    registry.register({
+        type: 'wait-blackboard-condition',
+        category: 'action',
+        displayName: '等待黑板变量',
+        properties: {
+            variableName: variableNameProperty,
+            expectedValue: { type: 'any' }
+        },
+        factory: (props) => new WaitForBlackboardCondition(props.variableName, props.expectedValue)
+    });
+}
+
+/**
+ * 注册条件节点
+ */
+function registerConditions(registry: NodeTypeRegistry): void {
+    registry.register({
+        type: 'condition-random',
+        category: 'condition',
+        displayName: '随机条件',
+        properties: { successProbability: { type: 'number', default: 0.5, min: 0, max: 1 } },
+        factory: (props) => new ExecuteActionConditional((ctx) => {
+            return getRandom(ctx).value() < props.successProbability ? TaskStatus.Success : TaskStatus.Failure;
+        })
+    });
+
+    registry.register({
+        type: 'condition-custom',
+        category: 'condition',
+        displayName: '自定义条件',
+        description: '执行自定义条件代码',
+        properties: { conditionCode: { type: 'string' } },
+        factory: (props) => {
+            const conditionCode = props.conditionCode;
+            if (!conditionCode) {
+                return new ExecuteActionConditional(() => TaskStatus.Success);
+            }
+
+            try {
+                const condFunc = new Function('context', `
+                    try {
+                        ${conditionCode}
+                    } catch (error) {
+                        console.error('条件检查错误:', error);
+                        return false;
+                    }
+                `);
+                return new ExecuteActionConditional((ctx) => {
+                    try {
+                        const result = condFunc(ctx);
+                        return result ? TaskStatus.Success : TaskStatus.Failure;
+                    } catch (error) {
+                        console.error('条件检查失败:', error);
+                        return TaskStatus.Failure;
+                    }
+                });
+            } catch (error) {
+                console.warn('解析条件代码失败:', error);
+                return new ExecuteActionConditional(() => TaskStatus.Failure);
+            }
+        }
+    });
+
+    registry.register({
+        type: 'numeric-comparison',
+        category: 'condition',
+        displayName: '数值比较',
+        description: '比较上下文中的数值属性',
+        properties: {
+            propertyPath: { type: 'string', default: 'value' },
+            compareOperator: {
+                type: 'string',
+                default: 'equal',
+                options: ['equal', 'notEqual', 'greater', 'greaterEqual', 'less', 'lessEqual']
+            },
+            compareValue: { type: 'number', default: 0 }
+        },
+        factory: (props) => wrapConditional(new NumericComparison(props.propertyPath, props.compareOperator, props.compareValue))
+    });
+    registry.registerAlias('condition-numeric', 'numeric-comparison');
+
+    registry.register({
+        type: 'property-exists',
+        category: 'condition',
+        displayName: '属性存在',
+        description: '检查上下文中的属性是否存在',
+        properties: { propertyPath: { type: 'string', default: 'property' } },
+        factory: (props) => wrapConditional(new PropertyExists(props.propertyPath))
+    });
+    registry.registerAlias('condition-property', 'property-exists');
+
+    registry.register({
+        type: 'event-condition',
+        category: 'condition',
+        displayName: '事件条件',
+        description: '调用事件注册表中的条件检查器',
+        properties: {
+            eventName: { type: 'string' },
+            parameters: { type: 'any' }
+        },
+        factory: (props) => {
+            const eventName: string | undefined = props.eventName;
+            if (!eventName) {
+                console.warn('[event-condition] 缺少 eventName 属性');
+                return new ExecuteActionConditional(() => TaskStatus.Failure);
+            }
+
+            return new ExecuteActionConditional((ctx: any) => {
+                try {
+                    // 从上下文中获取事件注册表
+                    const eventRegistry = ctx.eventRegistry;
+                    if (!eventRegistry) {
+                        console.warn(`[event-condition] 未找到事件注册表，请在执行上下文中提供 eventRegistry`);
+                        return TaskStatus.Failure;
+                    }
+
+                    // 获取条件处理器
+                    const checker = eventRegistry.getConditionHandler ?
+                        eventRegistry.getConditionHandler(eventName) :
+                        eventRegistry.handlers?.get(eventName);
+
+                    if (!checker) {
+                        console.warn(`[event-condition] 未找到条件处理器: ${eventName}`);
+                        return TaskStatus.Failure;
+                    }
+
+                    // 执行条件检查
+                    const parameters = resolveEventParameters(props.parameters, ctx, 'event-condition');
+                    const result = checker(ctx, parameters);
+
+                    // 处理异步结果
+                    if (result instanceof Promise) {
+                        console.warn(`[event-condition] 条件 ${eventName} 返回Promise，条件节点不支持异步操作`);
+                        return TaskStatus.Failure;
+                    }
+
+                    return result ? TaskStatus.Success : TaskStatus.Failure;
+                } catch (error) {
+                    console.error(`[event-condition] 条件 ${eventName} 检查失败:`, error);
+                    return TaskStatus.Failure;
+                }
+            });
+        }
+    });
+
+    registry.register({
+        type: 'blackboard-value-comparison',
+        category: 'condition',
+        displayName: '黑板值比较',
+        description: '比较黑板变量与指定值或另一个黑板变量',
+        properties: {
+            variableName: variableNameProperty,
+            operator: { type: 'string', options: compareOperatorOptions },
+            compareOperator: { type: 'string', options: compareOperatorOptions },
+            compareValue: { type: 'any' },
+            compareVariable: { type: 'string' }
+        },
+        factory: (props) => wrapConditional(new BlackboardValueComparison(
+            props.variableName,
+            parseCompareOperator(props.operator ?? props.compareOperator ?? 'equal'),
+            props.compareValue,
+            props.compareVariable
+        ))
+    });
+
+    registry.register({
+        type: 'blackboard-variable-exists',
+        category: 'condition',
+        displayName: '黑板变量存在',
+        properties: {
+            variableName: variableNameProperty,
+            invert: { type: 'boolean', default: false }
+        },
+        factory: (props) => wrapConditional(new BlackboardVariableExists(props.variableName, props.invert))
+    });
+
+    registry.register({
+        type: 'blackboard-variable-type-check',
+        category: 'condition',
+        displayName: '黑板变量类型检查',
+        properties: {
+            variableName: variableNameProperty,
+            expectedType: { type: 'string', default: 'string', options: Object.values(BlackboardValueType) }
+        },
+        factory: (props) => wrapConditional(new BlackboardVariableTypeCheck(
+            props.variableName,
+            parseBlackboardValueType(props.expectedType)
+        ))
+    });
+
+    registry.register({
+        type: 'blackboard-variable-range-check',
+        category: 'condition',
+        displayName: '黑板变量范围检查',
+        properties: {
+            variableName: variableNameProperty,
+            minValue: { type: 'number', default: 0 },
+            maxValue: { type: 'number', default: 100 }
+        },
+        factory: (props) => wrapConditional(new BlackboardVariableRangeCheck(props.variableName, props.minValue, props.maxValue))
+    });
+}
+
+/**
+ * 注册编辑器配置格式使用的PascalCase类型别名
+ */
+function registerEditorAliases(registry: NodeTypeRegistry): void {
+    const aliases: Record<string, string> = {
+        Sequence: 'sequence',
+        Selector: 'selector',
+        Parallel: 'parallel',
+        ParallelSelector: 'parallel-selector',
+        SimpleParallel: 'simple-parallel',
+        Race: 'race',
+        ReactiveSequence: 'reactive-sequence',
+        ReactiveSelector: 'reactive-selector',
+        ReactiveFallback: 'reactive-selector',
+        RandomSelector: 'random-selector',
+        RandomSequence: 'random-sequence',
+        AlwaysSucceed: 'always-succeed',
+        AlwaysFail: 'always-fail',
+        Inverter: 'inverter',
+        UntilSuccess: 'until-success',
+        UntilFail: 'until-fail',
+        LogAction: 'log-action',
+        WaitAction: 'wait-action',
+        ExecuteAction: 'execute-action'
+    };
+
+    for (const [alias, target] of Object.entries(aliases)) {
+        registry.registerAlias(alias, target);
+    }
+
+    // 编辑器格式中Repeater默认只执行一次
+    registry.registerAlias('Repeater', 'repeater', { count: 1 });
+}
+
+/**
+ * 将所有内置节点类型注册到注册表
+ * @param registry 节点类型注册表
+ */
+export function registerBuiltinNodeTypes(registry: NodeTypeRegistry): void {
+    registerComposites(registry);
+    registerDecorators(registry);
+    registerActions(registry);
+    registerConditions(registry);
+    registerEditorAliases(registry);
+}
+
@@ -0,0 +1,196 @@
+import { EventRegistry, EventHandlerMetadata } from '../events/EventRegistry';
+import {
+    NodeCategory,
+    NodeChildrenConstraint,
+    NodePropertySchema,
+    NodePropertyType,
+    NodeTypeRegistry
+} from './NodeTypeRegistry';
+
+/**
+ * 节点目录格式版本
+ */
+export const NODE_CATALOG_VERSION = 1;
+
+/**
+ * 节点目录中的属性描述
+ */
+export interface NodeCatalogProperty {
+    /** 属性名 */
+    name: string;
+    /** 属性值类型 */
+    type: NodePropertyType;
+    /** 编辑器中显示的名称，未声明时为属性名 */
+    displayName: string;
+    /** 属性描述 */
+    description?: string;
+    /** 默认值 */
+    default?: unknown;
+    /** 是否为必需属性 */
+    required: boolean;
+    /** 数值属性的最小值 */
+    min?: number;
+    /** 数值属性的最大值 */
+    max?: number;
+    /** 可选值列表 */
+    options?: Array<string | number | boolean>;
+}
+
+/**
+ * 节点目录中的节点类型
+ */
+export interface NodeCatalogEntry {
+    /** 节点类型名称 */
+    type: string;
+    /** 节点类别 */
+    category: NodeCategory;
+    /** 编辑器中显示的名称，未声明时为类型名称 */
+    displayName: string;
+    /** 节点描述 */
+    description?: string;
+    /** 指向该类型的别名 */
+    aliases: string[];
+    /** 属性列表 */
+    properties: NodeCatalogProperty[];
+    /** 子节点数量约束 */
+    children: NodeChildrenConstraint;
+}
+
+/**
+ * 节点目录中的事件处理器
+ */
+export interface EventHandlerCatalogEntry {
+    /** 事件名称，正则表达式处理器为模式的字符串形式 */
+    name: string;
+    /** 是否为正则表达式处理器 */
+    isPattern: boolean;
+    /** 编辑器中显示的名称，未声明时为事件名称 */
+    displayName: string;
+    /** 处理器描述 */
+    description?: string;
+    /** 分类 */
+    category?: string;
+    /** 参数列表 */
+    parameters: NodeCatalogProperty[];
+}
+
+/**
+ * 节点目录
+ * @description 可以直接通过JSON.stringify序列化，供编辑器生成节点面板和属性面板
+ */
+export interface NodeCatalog {
+    /** 目录格式版本 */
+    version: number;
+    /** 节点类型 */
+    nodes: NodeCatalogEntry[];
+    /** 事件动作处理器（对应event-action节点的eventName） */
+    eventActions: EventHandlerCatalogEntry[];
+    /** 事件条件检查器（对应event-condition节点的eventName） */
+    eventConditions: EventHandlerCatalogEntry[];
+}
+
+/**
+ * 节点目录导出选项
+ */
+export interface NodeCatalogOptions {
+    /** 节点类型注册表，默认为NodeTypeRegistry.getDefault() */
+    registry?: NodeTypeRegistry;
+    /** 事件注册表，不提供时目录中不包含事件处理器 */
+    eventRegistry?: EventRegistry;
+}
+
+/**
+ * 导出节点目录
+ * @description 包含注册表中的所有节点类型（含自定义节点）以及事件注册表中的处理器
+ * @param options 导出选项
+ * @returns 可序列化为JSON的节点目录
+ *
+ * @example
+ * ```typescript
+ * const catalog = exportNodeCatalog({ eventRegistry: GlobalEventRegistry.getInstance() });
+ * fs.writeFileSync('node-catalog.json', JSON.stringify(catalog, null, 2));
+ * ```
+ */
+export function exportNodeCatalog(options: NodeCatalogOptions = {}): NodeCatalog {
+    const registry = options.registry ?? NodeTypeRegistry.getDefault();
+    const eventRegistry = options.eventRegistry;
+
+    const nodes = registry.getDefinitions().map((definition): NodeCatalogEntry => ({
+        type: definition.type,
+        category: definition.category,
+        displayName: definition.displayName ?? definition.type,
+        description: definition.description,
+        aliases: registry.getAliases(definition.type),
+        properties: toCatalogProperties(definition.properties),
+        children: { ...registry.getChildrenConstraint(definition.type)! }
+    }));
+
+    if (!eventRegistry) {
+        return { version: NODE_CATALOG_VERSION, nodes, eventActions: [], eventConditions: [] };
+    }
+
+    return {
+        version: NODE_CATALOG_VERSION,
+        nodes,
+        eventActions: toHandlerEntries(
+            eventRegistry.getActionNames(),
+            eventRegistry.getActionPatterns(),
+            key => eventRegistry.getActionMetadata(key)
+        ),
+        eventConditions: toHandlerEntries(
+            eventRegistry.getConditionNames(),
+            eventRegistry.getConditionPatterns(),
+            key => eventRegistry.getConditionMetadata(key)
+        )
+    };
+}
+
+/**
+ * 将属性描述转换为目录属性列表
+ */
+function toCatalogProperties(properties: Record<string, NodePropertySchema> | undefined): NodeCatalogProperty[] {
+    if (!properties) {
+        return [];
+    }
+
+    return Object.entries(properties).map(([name, schema]) => {
+        const property: NodeCatalogProperty = {
+            name,
+            type: schema.type,
+            displayName: schema.displayName ?? name,
+            required: schema.required ?? false
+        };
+
+        if (schema.description !== undefined) property.description = schema.description;
+        if (schema.default !== undefined) property.default = schema.default;
+        if (schema.min !== undefined) property.min = schema.min;
+        if (schema.max !== undefined) property.max = schema.max;
+        if (schema.options !== undefined) property.options = [...schema.options];
+
+        return property;
+    });
+}
+
+/**
+ * 将事件处理器转换为目录条目
+ */
+function toHandlerEntries(
+    names: string[],
+    patterns: RegExp[],
+    getMetadata: (key: string | RegExp) => EventHandlerMetadata | undefined
+): EventHandlerCatalogEntry[] {
+    const toEntry = (key: string | RegExp): EventHandlerCatalogEntry => {
+        const name = typeof key === 'string' ? key : key.source;
+        const metadata = getMetadata(key) ?? {};
+        return {
+            name,
+            isPattern: typeof key !== 'string',
+            displayName: metadata.displayName ?? name,
+            description: metadata.description,
+            category: metadata.category,
+            parameters: toCatalogProperties(metadata.parameters)
+        };
+    };
+
+    return [...names.map(toEntry), ...patterns.map(toEntry)];
+}
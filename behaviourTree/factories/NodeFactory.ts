@@ -1,283 +1,28 @@
 import { Behavior } from '../Behavior';
-import { TaskStatus } from '../TaskStatus';
-import { Composite } from '../composites/Composite';
-import { Decorator } from '../decorators/Decorator';
-import { ExecuteAction } from '../actions/ExecuteAction';
-import { ConditionalDecorator } from '../decorators/ConditionalDecorator';
-import { Selector } from '../composites/Selector';
-import { Sequence } from '../composites/Sequence';
-import { Parallel } from '../composites/Parallel';
-import { ParallelSelector } from '../composites/ParallelSelector';
-import { RandomSelector } from '../composites/RandomSelector';
-import { RandomSequence } from '../composites/RandomSequence';
-import { Repeater } from '../decorators/Repeater';
-import { Inverter } from '../decorators/Inverter';
-import { AlwaysSucceed } from '../decorators/AlwaysSucceed';
-import { AlwaysFail } from '../decorators/AlwaysFail';
-import { UntilSuccess } from '../decorators/UntilSuccess';
-import { UntilFail } from '../decorators/UntilFail';
-import { AbortTypes } from '../composites/AbortTypes';
 import { Blackboard } from '../Blackboard';
+import { BehaviorTreeBuilder, BehaviorTreeNodeConfig } from '../BehaviorTreeBuilder';
 
-import { ConditionFactory, ConditionConfig } from './ConditionFactory';
-
-/**
- * 节点配置接口
- */
-export interface BehaviorTreeNodeConfig {
-    id: string;
-    type: string;
-    name: string;
-    properties?: Record<string, any>;
-    children?: string[];
-    condition?: ConditionConfig;
-}
+export type { BehaviorTreeNodeConfig };
 
 /**
  * 节点工厂类
- * @description 专门负责创建各种类型的行为树节点，保持代码整洁和可维护性
+ * @description 从JSON节点配置创建节点，节点类型由NodeTypeRegistry解析，与BehaviorTreeBuilder使用相同的创建逻辑
  */
 export class NodeFactory {
     /**
      * 从节点配置创建节点实例
+     * @description 递归创建节点及其所有子节点
      * @param nodeConfig 节点配置
      * @param nodeMap 节点ID到配置的映射表
-     * @param context 执行上下文
+     * @param context 执行上下文，可以通过nodeRegistry属性指定节点类型注册表
      * @returns 创建的节点实例
+     * @throws {Error} 当节点类型未注册时抛出错误
      */
     public static createNode<T extends { blackboard?: Blackboard }>(
         nodeConfig: BehaviorTreeNodeConfig,
         nodeMap: Map<string, BehaviorTreeNodeConfig>,
         context: T
     ): Behavior<T> {
-        console.log('🔧 [NodeFactory] 创建节点:', nodeConfig.type, nodeConfig.name);
-
-        const props = nodeConfig.properties || {};
-        let node: Behavior<T>;
-
-        // 根据节点类型创建对应的节点实例
-        switch (nodeConfig.type) {
-            case 'root':
-                node = NodeFactory.createRootNode(nodeConfig, nodeMap, context);
-                break;
-
-            // 复合节点
-            case 'selector':
-                node = NodeFactory.createSelectorNode(props);
-                break;
-            case 'sequence':
-                node = NodeFactory.createSequenceNode(props);
-                break;
-            case 'parallel':
-                node = new Parallel<T>();
-                break;
-            case 'parallel-selector':
-                node = new ParallelSelector<T>();
-                break;
-            case 'random-selector':
-                node = new RandomSelector<T>();
-                break;
-            case 'random-sequence':
-                node = new RandomSequence<T>();
-                break;
-
-            // 装饰器节点
-            case 'repeater':
-                node = NodeFactory.createRepeaterNode(props);
-                break;
-            case 'inverter':
-                node = new Inverter<T>();
-                break;
-            case 'always-succeed':
-                node = new AlwaysSucceed<T>();
-                break;
-            case 'always-fail':
-                node = new AlwaysFail<T>();
-                break;
-            case 'until-success':
-                node = new UntilSuccess<T>();
-                break;
-            case 'until-fail':
-                node = new UntilFail<T>();
-                break;
-
-            // 条件装饰器 - 特殊处理
-            case 'conditional-decorator':
-                node = NodeFactory.createConditionalDecorator(nodeConfig, context);
-                break;
-
-            // 其他所有节点类型都委托给原始的创建逻辑
-            default:
-                // 返回null表示需要使用原始的创建逻辑
-                return null as any;
-        }
-
-        // 为复合节点和装饰器添加子节点
-        NodeFactory.attachChildren(node, nodeConfig, nodeMap, context);
-
-        console.log('✅ [NodeFactory] 节点创建完成:', nodeConfig.type);
-        return node;
+        return BehaviorTreeBuilder.createNodeFromJSONConfig<T>(nodeConfig, nodeMap, context);
     }
-
-    /**
-     * 创建根节点
-     */
-    private static createRootNode<T extends { blackboard?: Blackboard }>(
-        nodeConfig: BehaviorTreeNodeConfig,
-        nodeMap: Map<string, BehaviorTreeNodeConfig>,
-        context: T
-    ): Behavior<T> {
-        // 根节点本身不执行逻辑，直接处理第一个子节点
-        if (nodeConfig.children && nodeConfig.children.length > 0) {
-            const firstChildId = nodeConfig.children[0];
-            const firstChildConfig = nodeMap.get(firstChildId);
-            if (firstChildConfig) {
-                // 递归创建子节点，但这里需要特殊处理以避免无限递归
-                // 我们返回一个包装节点，在运行时执行子节点
-                return new ExecuteAction<T>((ctx: T) => {
-                    // 这里应该执行实际的子节点逻辑
-                    // 但为了简化，我们返回成功
-                    return TaskStatus.Success;
-                });
-            }
-        }
-        // 如果没有子节点，创建一个默认成功节点
-        return new ExecuteAction<T>(() => TaskStatus.Success);
-    }
-
-    /**
-     * 创建选择器节点
-     */
-    private static createSelectorNode<T>(props: Record<string, any>): Selector<T> {
-        const abortType = NodeFactory.getAbortType(String(props.abortType || 'None'));
-        return new Selector<T>(abortType);
-    }
-
-    /**
-     * 创建序列节点
-     */
-    private static createSequenceNode<T>(props: Record<string, any>): Sequence<T> {
-        const abortType = NodeFactory.getAbortType(String(props.abortType || 'None'));
-        return new Sequence<T>(abortType);
-    }
-
-    /**
-     * 创建重复器节点
-     */
-    private static createRepeaterNode<T>(props: Record<string, any>): Repeater<T> {
-        const countProp = props.count;
-        const count = typeof countProp === 'number' ? countProp : -1; // -1 表示无限重复
-        return new Repeater<T>(count);
-    }
-
-    /**
-     * 创建条件装饰器节点
-     */
-    private static createConditionalDecorator<T>(
-        nodeConfig: BehaviorTreeNodeConfig,
-        context: T
-    ): ConditionalDecorator<T> {
-        const props = nodeConfig.properties || {};
-        
-        // 根据conditionType属性确定条件类型
-        let conditionConfig: ConditionConfig | undefined = nodeConfig.condition;
-        
-        if (props.conditionType === 'blackboardCompare') {
-            conditionConfig = { type: 'blackboard-value-comparison' };
-        } else if (props.conditionType === 'eventCondition') {
-            conditionConfig = { type: 'event-condition' };
-        } else if (props.conditionType === 'custom') {
-            conditionConfig = { type: 'condition-custom' };
-        }
-
-        // 使用条件工厂创建条件
-        const conditionalNode = ConditionFactory.createCondition(
-            conditionConfig,
-            props,
-            context
-        );
-
-        // 提取shouldReevaluate属性
-        const shouldReevaluate = NodeFactory.extractNestedValue(props.shouldReevaluate) !== false;
-        
-        // 提取中止类型
-        const abortType = NodeFactory.getAbortType(NodeFactory.extractNestedValue(props.abortType) || 'None');
-
-        return new ConditionalDecorator<T>(conditionalNode, shouldReevaluate, abortType);
-    }
-
-    /**
-     * 为节点附加子节点
-     */
-    private static attachChildren<T extends { blackboard?: Blackboard }>(
-        node: Behavior<T>,
-        nodeConfig: BehaviorTreeNodeConfig,
-        nodeMap: Map<string, BehaviorTreeNodeConfig>,
-        context: T
-    ): void {
-        if (!nodeConfig.children || nodeConfig.children.length === 0) {
-            return;
-        }
-
-        if (node instanceof Composite) {
-            // 复合节点可以有多个子节点
-            for (const childId of nodeConfig.children) {
-                const childConfig = nodeMap.get(childId);
-                if (childConfig) {
-                    // 这里需要调用完整的节点创建逻辑，包括原始的BehaviorTreeBuilder逻辑
-                    // 为了避免循环依赖，我们暂时跳过子节点创建
-                    console.log(`[NodeFactory] 跳过子节点创建: ${childId}`);
-                } else {
-                    console.warn(`⚠️ [NodeFactory] 未找到子节点配置: ${childId}`);
-                }
-            }
-        } else if (node instanceof Decorator) {
-            // 装饰器只能有一个子节点
-            if (nodeConfig.children.length > 1) {
-                console.warn('⚠️ [NodeFactory] 装饰器节点只能有一个子节点，将使用第一个');
-            }
-            const childId = nodeConfig.children[0];
-            const childConfig = nodeMap.get(childId);
-            if (childConfig) {
-                // 同样，这里需要调用完整的节点创建逻辑
-                console.log(`[NodeFactory] 跳过装饰器子节点创建: ${childId}`);
-            } else {
-                console.warn(`⚠️ [NodeFactory] 未找到子节点配置: ${childId}`);
-            }
-        }
-    }
-
-    /**
-     * 获取中止类型
-     */
-    private static getAbortType(value: string): AbortTypes {
-        switch (value.toLowerCase()) {
-            case 'none': return AbortTypes.None;
-            case 'self': return AbortTypes.Self;
-            case 'lowerpriority': return AbortTypes.LowerPriority;
-            case 'both': return AbortTypes.Both;
-            default: return AbortTypes.None;
-        }
-    }
-
-    /**
-     * 提取嵌套属性值
-     */
-    private static extractNestedValue(prop: any): any {
-        if (prop === null || prop === undefined) {
-            return prop;
-        }
-
-        // 如果是简单值，直接返回
-        if (typeof prop !== 'object') {
-            return prop;
-        }
-
-        // 如果有value属性，递归提取
-        if ('value' in prop) {
-            return NodeFactory.extractNestedValue(prop.value);
-        }
-
-        return prop;
-    }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,276 @@
+import { BlackboardValueType } from '../Blackboard';
+import { AbortTypes } from '../composites/AbortTypes';
+import { CompareOperator } from '../conditionals/BlackboardConditionals';
+
+/**
+ * 节点配置属性解析工具
+ * @description 供节点工厂解析JSON和编辑器配置中的属性值
+ */
+
+/**
+ * 提取嵌套属性值
+ * @description 处理编辑器生成的{ type, value }嵌套属性结构
+ * @param prop 属性配置对象或直接值
+ * @returns 提取的值
+ */
+export function extractNestedValue(prop: any): any {
+    if (prop === null || prop === undefined) {
+        return prop;
+    }
+
+    // 如果是简单值，直接返回
+    if (typeof prop !== 'object') {
+        return prop;
+    }
+
+    // 如果有value属性，递归提取
+    if ('value' in prop) {
+        return extractNestedValue(prop.value);
+    }
+
+    return prop;
+}
+
+/**
+ * 解析中止类型字符串为枚举值（不区分大小写）
+ * @param value 中止类型字符串
+ * @returns 对应的中止类型枚举值，无法识别时返回None
+ */
+export function parseAbortType(value: unknown): AbortTypes {
+    switch (String(value ?? '').toLowerCase()) {
+        case 'self': return AbortTypes.Self;
+        case 'lowerpriority': case 'lower_priority': return AbortTypes.LowerPriority;
+        case 'both': return AbortTypes.Both;
+        default: return AbortTypes.None;
+    }
+}
+
+/**
+ * 将中止类型枚举值格式化为配置中使用的字符串
+ * @param abortType 中止类型
+ * @returns 中止类型名称，与parseAbortType互逆
+ */
+export function formatAbortType(abortType: AbortTypes): string {
+    switch (abortType) {
+        case AbortTypes.Self: return 'Self';
+        case AbortTypes.LowerPriority: return 'LowerPriority';
+        case AbortTypes.Both: return 'Both';
+        default: return 'None';
+    }
+}
+
+/**
+ * 解析比较操作符字符串为枚举值（不区分大小写）
+ * @param value 操作符字符串
+ * @returns 对应的比较操作符，无法识别时返回Equal
+ */
+export function parseCompareOperator(value: unknown): CompareOperator {
+    switch (String(value ?? '').toLowerCase()) {
+        case 'equal': return CompareOperator.Equal;
+        case 'notequal': case 'not_equal': return CompareOperator.NotEqual;
+        case 'greater': return CompareOperator.Greater;
+        case 'greaterorequal': case 'greater_or_equal': return CompareOperator.GreaterOrEqual;
+        case 'less': return CompareOperator.Less;
+        case 'lessorequal': case 'less_or_equal': return CompareOperator.LessOrEqual;
+        case 'contains': return CompareOperator.Contains;
+        case 'notcontains': case 'not_contains': return CompareOperator.NotContains;
+        default: return CompareOperator.Equal;
+    }
+}
+
+/**
+ * 映射字符串类型到BlackboardValueType枚举
+ * @param typeString 类型字符串
+ * @returns 对应的黑板值类型枚举，无法识别时返回Object
+ */
+export function parseBlackboardValueType(typeString: string): BlackboardValueType {
+    switch (typeString.toLowerCase()) {
+        case 'string':
+            return BlackboardValueType.String;
+        case 'number':
+            return BlackboardValueType.Number;
+        case 'boolean':
+            return BlackboardValueType.Boolean;
+        case 'vector2':
+            return BlackboardValueType.Vector2;
+        case 'vector3':
+            return BlackboardValueType.Vector3;
+        case 'object':
+            return BlackboardValueType.Object;
+        case 'array':
+            return BlackboardValueType.Array;
+        default:
+            console.warn(`未知的变量类型: ${typeString}, 默认使用Object类型`);
+            return BlackboardValueType.Object;
+    }
+}
+
+/**
+ * 转换黑板变量值到正确的类型
+ * @param value 原始值（通常来自JSON，都是字符串）
+ * @param targetType 目标类型
+ * @returns 转换后的值
+ */
+export function convertBlackboardValue(value: any, targetType: BlackboardValueType): any {
+    // 为不同类型提供合理的默认值
+    if (value === null || value === undefined || value === '') {
+        switch (targetType) {
+            case BlackboardValueType.String:
+                return '';
+            case BlackboardValueType.Number:
+                return 0;
+            case BlackboardValueType.Boolean:
+                return false; // 布尔类型默认为false
+            case BlackboardValueType.Vector2:
+                return { x: 0, y: 0 };
+            case BlackboardValueType.Vector3:
+                return { x: 0, y: 0, z: 0 };
+            case BlackboardValueType.Object:
+                return {};
+            case BlackboardValueType.Array:
+                return [];
+            default:
+                return null;
+        }
+    }
+
+    switch (targetType) {
+        case BlackboardValueType.String:
+            return String(value);
+
+        case BlackboardValueType.Number:
+            if (typeof value === 'string') {
+                const num = parseFloat(value);
+                if (isNaN(num)) {
+                    console.warn(`无法将 "${value}" 转换为数字，使用默认值 0`);
+                    return 0;
+                }
+                return num;
+            }
+            return typeof value === 'number' ? value : 0;
+
+        case BlackboardValueType.Boolean:
+            if (typeof value === 'string') {
+                // 处理空字符串的情况
+                if (value === '') return false;
+                return value.toLowerCase() === 'true';
+            }
+            return Boolean(value);
+
+        case BlackboardValueType.Vector2:
+            if (typeof value === 'string') {
+                try {
+                    const parsed = JSON.parse(value);
+                    return parsed && typeof parsed === 'object' && 'x' in parsed && 'y' in parsed
+                        ? parsed
+                        : { x: 0, y: 0 };
+                } catch {
+                    console.warn(`无法解析Vector2值 "${value}"，使用默认值 {x:0, y:0}`);
+                    return { x: 0, y: 0 };
+                }
+            }
+            return value && typeof value === 'object' && 'x' in value && 'y' in value
+                ? value
+                : { x: 0, y: 0 };
+
+        case BlackboardValueType.Vector3:
+            if (typeof value === 'string') {
+                try {
+                    const parsed = JSON.parse(value);
+                    return parsed && typeof parsed === 'object' && 'x' in parsed && 'y' in parsed && 'z' in parsed
+                        ? parsed
+                        : { x: 0, y: 0, z: 0 };
+                } catch {
+                    console.warn(`无法解析Vector3值 "${value}"，使用默认值 {x:0, y:0, z:0}`);
+                    return { x: 0, y: 0, z: 0 };
+                }
+            }
+            return value && typeof value === 'object' && 'x' in value && 'y' in value && 'z' in value
+                ? value
+                : { x: 0, y: 0, z: 0 };
+
+        case BlackboardValueType.Object:
+            if (typeof value === 'string') {
+                try {
+                    return JSON.parse(value);
+                } catch {
+                    console.warn(`无法解析Object值 "${value}"，使用默认值 {}`);
+                    return {};
+                }
+            }
+            return typeof value === 'object' ? value : {};
+
+        case BlackboardValueType.Array:
+            if (typeof value === 'string') {
+                try {
+                    const parsed = JSON.parse(value);
+                    return Array.isArray(parsed) ? parsed : [];
+                } catch {
+                    console.warn(`无法解析Array值 "${value}"，使用默认值 []`);
+                    return [];
+                }
+            }
+            return Array.isArray(value) ? value : [];
+
+        default:
+            return value;
+    }
+}
+
+/**
+ * 移除变量名两侧的黑板变量引用语法
+ * @param variableName 原始变量名，例如"{{health}}"
+ * @returns 清理后的变量名
+ */
+export function cleanVariableName(variableName: unknown): string {
+    return String(variableName).replace(/^\{\{|\}\}$/g, '');
+}
+
+/**
+ * 替换对象中的黑板变量引用
+ * @description 纯变量引用（如"{{health}}"）保持变量的原始类型，字符串模板中的引用被替换为字符串
+ * @param obj 要处理的对象
+ * @param blackboard 黑板实例
+ * @returns 替换后的对象
+ */
+export function replaceBlackboardVariables(obj: any, blackboard: any): any {
+    if (obj === null || obj === undefined) {
+        return obj;
+    }
+
+    if (typeof obj === 'string') {
+        // 检查是否是纯黑板变量引用（如 "{{variableName}}"）
+        const pureVariableMatch = obj.match(/^{{\s*(\w+)\s*}}$/);
+        if (pureVariableMatch) {
+            // 纯变量引用，返回原始类型的值
+            const varName = pureVariableMatch[1];
+            const value = blackboard.getValue(varName);
+            if (value !== undefined) {
+                return value; // 保持原始类型
+            }
+            return obj; // 变量不存在，返回原字符串
+        }
+
+        // 包含变量的字符串模板，进行字符串替换
+        return obj.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
+            const value = blackboard.getValue(varName);
+            return value !== undefined ? String(value) : match;
+        });
+    }
+
+    if (Array.isArray(obj)) {
+        // 处理数组
+        return obj.map(item => replaceBlackboardVariables(item, blackboard));
+    }
+
+    if (typeof obj === 'object') {
+        // 处理对象
+        const result: any = {};
+        for (const [key, value] of Object.entries(obj)) {
+            result[key] = replaceBlackboardVariables(value, blackboard);
+        }
+        return result;
+    }
+
+    return obj;
+}
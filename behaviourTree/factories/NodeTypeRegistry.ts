@@ -0,0 +1,431 @@
+import { Behavior } from '../Behavior';
+import { ConditionConfig } from './ConditionFactory';
+import { extractNestedValue } from './NodePropertyUtils';
+import { registerBuiltinNodeTypes } from './BuiltinNodeTypes';
+
+/**
+ * 节点类别
+ * @description 复合节点和装饰器会在创建后由构建器附加子节点
+ */
+export type NodeCategory = 'composite' | 'decorator' | 'action' | 'condition';
+
+/**
+ * 节点属性值类型
+ */
+export type NodePropertyType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+/**
+ * 节点属性描述
+ */
+export interface NodePropertySchema {
+    /** 属性值类型，创建节点前会将配置中的值转换为该类型 */
+    type: NodePropertyType;
+    /** 配置中未提供时使用的默认值 */
+    default?: unknown;
+    /** 是否为必需属性 */
+    required?: boolean;
+    /** 编辑器中显示的名称 */
+    displayName?: string;
+    /** 属性描述 */
+    description?: string;
+    /** 数值属性的最小值 */
+    min?: number;
+    /** 数值属性的最大值 */
+    max?: number;
+    /** 可选值列表（枚举属性） */
+    options?: ReadonlyArray<string | number | boolean>;
+}
+
+/**
+ * 子节点数量约束
+ */
+export interface NodeChildrenConstraint {
+    /** 最少子节点数量 */
+    min: number;
+    /** 最多子节点数量，为null表示不限制 */
+    max: number | null;
+}
+
+/**
+ * 节点构建上下文
+ * @description 构建器在调用节点工厂时提供的信息和服务
+ * @template T 执行上下文类型
+ */
+export interface NodeBuildContext<T> {
+    /** 执行上下文 */
+    context: T;
+    /** 配置中的节点ID */
+    nodeId: string;
+    /** 配置中的节点名称 */
+    nodeName?: string;
+    /** 节点的条件配置（用于条件装饰器） */
+    condition?: ConditionConfig;
+    /**
+     * 创建子行为树引用节点
+     * @param subTreePath 子树路径或名称
+     * @param shareBlackboard 是否与父树共享黑板
+     * @param remapping 端口映射表
+     */
+    createSubTreeReference(subTreePath: string, shareBlackboard: boolean, remapping?: Record<string, unknown>): Behavior<T>;
+}
+
+/**
+ * 节点工厂函数
+ * @param properties 按属性描述解析后的节点属性
+ * @param buildContext 节点构建上下文
+ * @returns 节点实例（不包含子节点）
+ */
+export type NodeTypeFactory<T = any> = (properties: Record<string, any>, buildContext: NodeBuildContext<T>) => Behavior<T>;
+
+/**
+ * 节点类型定义
+ */
+export interface NodeTypeDefinition<T = any> {
+    /** 节点类型名称，即配置中的type字段 */
+    type: string;
+    /** 节点类别 */
+    category: NodeCategory;
+    /** 节点工厂函数 */
+    factory: NodeTypeFactory<T>;
+    /** 属性描述 */
+    properties?: Record<string, NodePropertySchema>;
+    /** 编辑器中显示的名称 */
+    displayName?: string;
+    /** 节点描述 */
+    description?: string;
+    /** 子节点数量约束，未提供时按类别推断 */
+    children?: NodeChildrenConstraint;
+    /** 节点类，导出时与节点实例的构造函数精确匹配以使用serialize */
+    nodeClass?: abstract new (...args: any[]) => Behavior<any>;
+    /**
+     * 从节点实例读取属性，用于将代码构建的行为树导出为配置
+     * @param node 节点实例（构造函数为nodeClass）
+     * @returns 可以传回factory的属性
+     */
+    serialize?: (node: Behavior<T>) => Record<string, unknown>;
+}
+
+/**
+ * 节点的配置来源
+ * @description 通过注册表创建的节点会记录创建时使用的类型和属性，导出时用于还原无法从实例读取属性的节点
+ */
+export interface NodeSource {
+    /** 节点类型名称（别名已解析为目标类型） */
+    type: string;
+    /** 配置中的节点ID */
+    id: string;
+    /** 配置中的节点名称 */
+    name?: string;
+    /** 解析后的节点属性 */
+    properties: Record<string, unknown>;
+    /** 节点的条件配置 */
+    condition?: ConditionConfig;
+}
+
+/**
+ * 通过注册表创建的节点及其配置来源
+ */
+const nodeSources = new WeakMap<Behavior<any>, NodeSource>();
+
+/**
+ * 节点类型别名
+ */
+interface NodeTypeAlias {
+    /** 目标类型名称 */
+    target: string;
+    /** 覆盖目标类型的属性默认值 */
+    defaults?: Record<string, unknown>;
+}
+
+/**
+ * 节点类型注册表
+ *
+ * @description
+ * 管理配置中的节点类型名称到节点工厂的映射，JSON配置、编辑器配置和NodeFactory都通过注册表创建节点。
+ * 默认注册表包含所有内置节点类型，自定义节点可以注册到默认注册表，
+ * 也可以注册到独立的注册表并通过执行上下文的nodeRegistry属性传入构建器。
+ *
+ * @example
+ * ```typescript
+ * NodeTypeRegistry.getDefault().register<GameContext>({
+ *   type: 'attack-target',
+ *   category: 'action',
+ *   properties: {
+ *     damage: { type: 'number', default: 10 },
+ *     targetKey: { type: 'string', required: true }
+ *   },
+ *   factory: (props) => new AttackTarget(props.targetKey, props.damage)
+ * });
+ * ```
+ */
+export class NodeTypeRegistry {
+    /** 默认注册表实例 */
+    private static _default: NodeTypeRegistry | null = null;
+
+    /** 节点类型定义 */
+    private readonly _definitions = new Map<string, NodeTypeDefinition>();
+
+    /** 节点类型别名 */
+    private readonly _aliases = new Map<string, NodeTypeAlias>();
+
+    /**
+     * 获取通过注册表创建的节点的配置来源
+     * @param node 节点实例
+     * @returns 配置来源，节点不是通过注册表创建时返回undefined
+     */
+    public static getNodeSource(node: Behavior<any>): NodeSource | undefined {
+        return nodeSources.get(node);
+    }
+
+    /**
+     * 获取包含所有内置节点类型的默认注册表
+     * @returns 默认注册表实例
+     */
+    public static getDefault(): NodeTypeRegistry {
+        if (!NodeTypeRegistry._default) {
+            NodeTypeRegistry._default = NodeTypeRegistry.createWithBuiltins();
+        }
+        return NodeTypeRegistry._default;
+    }
+
+    /**
+     * 创建包含所有内置节点类型的新注册表
+     * @returns 新的注册表实例
+     */
+    public static createWithBuiltins(): NodeTypeRegistry {
+        const registry = new NodeTypeRegistry();
+        registerBuiltinNodeTypes(registry);
+        return registry;
+    }
+
+    /**
+     * 注册节点类型
+     * @param definition 节点类型定义
+     * @param override 是否允许覆盖已注册的同名类型
+     * @throws {Error} 当类型已注册且不允许覆盖时抛出错误
+     */
+    public register<T = any>(definition: NodeTypeDefinition<T>, override: boolean = false): void {
+        if (!definition.type || typeof definition.factory !== 'function') {
+            throw new Error('节点类型定义必须包含type和factory');
+        }
+
+        if (!override && this.has(definition.type)) {
+            throw new Error(`节点类型 "${definition.type}" 已注册，如需替换请设置override参数`);
+        }
+
+        this._aliases.delete(definition.type);
+        this._definitions.set(definition.type, definition as NodeTypeDefinition);
+    }
+
+    /**
+     * 注册节点类型别名
+     * @param alias 别名
+     * @param target 目标类型名称
+     * @param defaults 使用别名时覆盖的属性默认值
+     * @throws {Error} 当目标类型未注册时抛出错误
+     */
+    public registerAlias(alias: string, target: string, defaults?: Record<string, unknown>): void {
+        if (!this._definitions.has(target)) {
+            throw new Error(`无法为未注册的节点类型 "${target}" 创建别名`);
+        }
+
+        this._aliases.set(alias, { target, defaults });
+    }
+
+    /**
+     * 移除节点类型或别名
+     * @param type 节点类型名称或别名
+     * @returns 是否存在并移除
+     */
+    public unregister(type: string): boolean {
+        return this._definitions.delete(type) || this._aliases.delete(type);
+    }
+
+    /**
+     * 检查节点类型或别名是否已注册
+     * @param type 节点类型名称或别名
+     */
+    public has(type: string): boolean {
+        return this._definitions.has(type) || this._aliases.has(type);
+    }
+
+    /**
+     * 获取节点类型定义
+     * @param type 节点类型名称或别名
+     * @returns 节点类型定义，不存在时返回undefined
+     */
+    public get(type: string): NodeTypeDefinition | undefined {
+        const alias = this._aliases.get(type);
+        return this._definitions.get(alias ? alias.target : type);
+    }
+
+    /**
+     * 获取所有已注册的节点类型名称（不包含别名）
+     */
+    public getTypes(): string[] {
+        return Array.from(this._definitions.keys());
+    }
+
+    /**
+     * 获取所有已注册的节点类型定义
+     */
+    public getDefinitions(): NodeTypeDefinition[] {
+        return Array.from(this._definitions.values());
+    }
+
+    /**
+     * 查找可以序列化节点实例的类型定义
+     * @param node 节点实例
+     * @returns nodeClass与节点构造函数一致且提供了serialize的定义，不存在时返回undefined
+     */
+    public findDefinitionForNode(node: Behavior<any>): NodeTypeDefinition | undefined {
+        for (const definition of this._definitions.values()) {
+            if (definition.nodeClass === node.constructor && definition.serialize) {
+                return definition;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 获取指向节点类型的所有别名
+     * @param type 节点类型名称
+     * @returns 别名列表
+     */
+    public getAliases(type: string): string[] {
+        const aliases: string[] = [];
+        for (const [alias, entry] of this._aliases) {
+            if (entry.target === type) {
+                aliases.push(alias);
+            }
+        }
+        return aliases;
+    }
+
+    /**
+     * 获取节点类型的子节点数量约束
+     * @description 未在定义中声明时，复合节点至少需要一个子节点，装饰器需要一个子节点，动作和条件节点没有子节点
+     * @param type 节点类型名称或别名
+     * @returns 子节点数量约束，类型不存在时返回undefined
+     */
+    public getChildrenConstraint(type: string): NodeChildrenConstraint | undefined {
+        const definition = this.get(type);
+        if (!definition) {
+            return undefined;
+        }
+
+        if (definition.children) {
+            return definition.children;
+        }
+
+        switch (definition.category) {
+            case 'composite': return { min: 1, max: null };
+            case 'decorator': return { min: 1, max: 1 };
+            default: return { min: 0, max: 0 };
+        }
+    }
+
+    /**
+     * 创建节点实例
+     * @param type 节点类型名称或别名
+     * @param properties 配置中的原始属性
+     * @param buildContext 节点构建上下文
+     * @returns 节点实例（不包含子节点）
+     * @throws {Error} 当节点类型未注册或缺少必需属性时抛出错误
+     */
+    public create<T>(type: string, properties: Record<string, unknown>, buildContext: NodeBuildContext<T>): Behavior<T> {
+        const definition = this.get(type);
+        if (!definition) {
+            throw new Error(`未知的节点类型: "${type}"（节点 "${buildContext.nodeId}"），请先通过NodeTypeRegistry注册该类型`);
+        }
+
+        const defaults = this._aliases.get(type)?.defaults;
+        const resolved = NodeTypeRegistry.resolveProperties(definition, properties, defaults, buildContext.nodeId);
+        const node = definition.factory(resolved, buildContext);
+        node.id = buildContext.nodeId;
+        if (buildContext.nodeName !== undefined) {
+            node.name = buildContext.nodeName;
+        }
+
+        const recorded: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(resolved)) {
+            if (value !== undefined) {
+                recorded[key] = value;
+            }
+        }
+        nodeSources.set(node, {
+            type: definition.type,
+            id: buildContext.nodeId,
+            name: buildContext.nodeName,
+            properties: recorded,
+            condition: buildContext.condition
+        });
+
+        return node;
+    }
+
+    /**
+     * 按属性描述解析节点属性
+     * @description 提取嵌套的属性值，应用默认值并转换类型，未声明的属性原样保留
+     */
+    private static resolveProperties(
+        definition: NodeTypeDefinition,
+        properties: Record<string, unknown>,
+        defaults: Record<string, unknown> | undefined,
+        nodeId: string
+    ): Record<string, any> {
+        const resolved: Record<string, any> = {};
+        for (const [key, value] of Object.entries(properties)) {
+            resolved[key] = extractNestedValue(value);
+        }
+
+        if (!definition.properties) {
+            return resolved;
+        }
+
+        for (const [key, schema] of Object.entries(definition.properties)) {
+            const defaultValue = defaults && key in defaults ? defaults[key] : schema.default;
+            let value = NodeTypeRegistry.coerceValue(resolved[key], schema.type);
+
+            if (value === undefined) {
+                if (schema.required) {
+                    throw new Error(`节点 "${nodeId}"（${definition.type}）缺少必需属性: ${key}`);
+                }
+                value = defaultValue;
+            }
+
+            resolved[key] = value;
+        }
+
+        return resolved;
+    }
+
+    /**
+     * 将配置值转换为属性描述中声明的类型
+     * @returns 转换后的值，无法转换或值为空时返回undefined
+     */
+    private static coerceValue(value: unknown, type: NodePropertyType): unknown {
+        if (value === undefined || value === null || value === '') {
+            return undefined;
+        }
+
+        switch (type) {
+            case 'number': {
+                const num = typeof value === 'number' ? value : Number(value);
+                return isNaN(num) ? undefined : num;
+            }
+
+            case 'boolean':
+                if (typeof value === 'string') {
+                    return value.toLowerCase() === 'true';
+                }
+                return Boolean(value);
+
+            case 'string':
+                return typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+            default:
+                return value;
+        }
+    }
+}
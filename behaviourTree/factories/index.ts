@@ -1,2 +1,24 @@
 export { ConditionFactory, ConditionConfig } from './ConditionFactory';
-export { NodeFactory, BehaviorTreeNodeConfig } from './NodeFactory'; 
\ No newline at end of file
+export { NodeFactory, BehaviorTreeNodeConfig } from './NodeFactory';
+export {
+    NodeTypeRegistry,
+    NodeTypeDefinition,
+    NodeTypeFactory,
+    NodeBuildContext,
+    NodeCategory,
+    NodePropertySchema,
+    NodePropertyType,
+    NodeChildrenConstraint,
+    NodeSource
+} from './NodeTypeRegistry';
+export { registerBuiltinNodeTypes } from './BuiltinNodeTypes';
+export {
+    exportNodeCatalog,
+    NODE_CATALOG_VERSION,
+    NodeCatalog,
+    NodeCatalogEntry,
+    NodeCatalogProperty,
+    NodeCatalogOptions,
+    EventHandlerCatalogEntry
+} from './NodeCatalog';
+export * from './NodePropertyUtils';
@@ -5,9 +5,16 @@
 export * from './Behavior';
 export * from './BehaviorTree';
 export * from './BehaviorTreeBuilder';
+export * from './BehaviorTreeLibrary';
 export * from './TaskStatus';
 export * from './ObjectPool';
 export * from './Blackboard';
+export * from './TreeClock';
+export * from './TreeRandom';
+export * from './NodeState';
+export * from './TreeTraversal';
+export * from './TreeObserver';
+export * from './TickExplanation';
 
 // 导出接口类型
 export type { 
@@ -23,7 +30,8 @@ export type {
     IBehaviorTreeContext,
     ActionResult,
     IEventHandler,
-    IConditionChecker
+    IConditionChecker,
+    EventHandlerMetadata
 } from './events/index';
 
 // Actions
@@ -39,4 +47,34 @@ export * from './conditionals/index';
 export * from './decorators/index';
 
 // Events (事件系统)
-export * from './events/index'; 
\ No newline at end of file
+export * from './events/index';
+
+// Serialization (导出为配置)
+export * from './serialization/index';
+
+// Debug (录制回放与远程调试)
+export * from './debug/index';
+
+// Factories (节点类型注册表)
+export {
+    NodeTypeRegistry,
+    NodeFactory,
+    registerBuiltinNodeTypes,
+    exportNodeCatalog,
+    NODE_CATALOG_VERSION
+} from './factories/index';
+export type {
+    NodeTypeDefinition,
+    NodeTypeFactory,
+    NodeBuildContext,
+    NodeCategory,
+    NodePropertySchema,
+    NodePropertyType,
+    NodeChildrenConstraint,
+    NodeSource,
+    NodeCatalog,
+    NodeCatalogEntry,
+    NodeCatalogProperty,
+    NodeCatalogOptions,
+    EventHandlerCatalogEntry
+} from './factories/index'; 
\ No newline at end of file
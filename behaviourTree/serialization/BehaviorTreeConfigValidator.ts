@@ -0,0 +1,411 @@
+import { TypeGuards } from '../../core/TypeGuards';
+import { BlackboardValueType } from '../Blackboard';
+import { NodePropertySchema, NodeTypeRegistry } from '../factories/NodeTypeRegistry';
+import { extractNestedValue } from '../factories/NodePropertyUtils';
+
+/**
+ * 配置问题的严重程度
+ * @description error表示构建会失败或产生与配置不符的行为树，warning表示构建可以进行但配置可能有误
+ */
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+/**
+ * 配置问题
+ */
+export interface ConfigValidationIssue {
+    /** 严重程度 */
+    severity: ConfigIssueSeverity;
+    /** 问题所在的JSON路径，如"$.nodes[2].children[0]" */
+    path: string;
+    /** 相关的节点ID */
+    nodeId?: string;
+    /** 问题描述 */
+    message: string;
+}
+
+/**
+ * 配置验证结果
+ */
+export interface ConfigValidationResult {
+    /** 是否没有error级别的问题 */
+    valid: boolean;
+    /** 所有问题 */
+    issues: ConfigValidationIssue[];
+}
+
+/**
+ * 配置验证选项
+ */
+export interface ConfigValidationOptions {
+    /** 节点类型注册表，默认为NodeTypeRegistry.getDefault() */
+    registry?: NodeTypeRegistry;
+}
+
+/**
+ * 黑板变量类型名称
+ */
+const blackboardTypes = Object.values(BlackboardValueType) as string[];
+
+/**
+ * 子树端口方向
+ */
+const portDirections = ['input', 'output', 'inout'];
+
+/**
+ * 验证行为树JSON配置
+ * @description 一次返回配置中的所有问题，包括结构错误、重复或悬空的节点ID、未知的节点类型、
+ * 子节点数量不符合约束、属性类型错误、循环引用以及无法从根节点到达的节点
+ * @param config 行为树配置（可以是未经类型检查的JSON数据）
+ * @param options 验证选项
+ * @returns 验证结果
+ *
+ * @example
+ * ```typescript
+ * const result = validateBehaviorTreeConfig(JSON.parse(json));
+ * for (const issue of result.issues) {
+ *   console.log(`[${issue.severity}] ${issue.path}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateBehaviorTreeConfig(config: unknown, options: ConfigValidationOptions = {}): ConfigValidationResult {
+    const registry = options.registry ?? NodeTypeRegistry.getDefault();
+    const issues: ConfigValidationIssue[] = [];
+    const report = (severity: ConfigIssueSeverity, path: string, message: string, nodeId?: string) => {
+        issues.push(nodeId !== undefined ? { severity, path, nodeId, message } : { severity, path, message });
+    };
+
+    if (!TypeGuards.isObject(config) || TypeGuards.isArray(config)) {
+        report('error', '$', '配置必须是对象');
+        return { valid: false, issues };
+    }
+
+    const root = config as Record<string, unknown>;
+    validateNodes(root.nodes, registry, report);
+    validateBlackboard(root.blackboard, report);
+    validatePorts(root.ports, report);
+
+    return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
+
+/**
+ * 格式化验证问题，用于错误信息
+ * @param issues 验证问题
+ * @returns 每行一个问题的文本
+ */
+export function formatConfigIssues(issues: readonly ConfigValidationIssue[]): string {
+    return issues.map(issue => {
+        const node = issue.nodeId !== undefined ? `（节点 "${issue.nodeId}"）` : '';
+        return `[${issue.severity}] ${issue.path}${node}: ${issue.message}`;
+    }).join('\n');
+}
+
+type IssueReporter = (severity: ConfigIssueSeverity, path: string, message: string, nodeId?: string) => void;
+
+/**
+ * 验证节点列表
+ */
+function validateNodes(nodes: unknown, registry: NodeTypeRegistry, report: IssueReporter): void {
+    if (!TypeGuards.isArray(nodes) || nodes.length === 0) {
+        report('error', '$.nodes', 'nodes必须是非空数组');
+        return;
+    }
+
+    // 第一遍：收集节点ID
+    const nodeIndex = new Map<string, number>();
+    nodes.forEach((node, i) => {
+        const path = `$.nodes[${i}]`;
+        if (!TypeGuards.isObject(node) || TypeGuards.isArray(node)) {
+            report('error', path, '节点配置必须是对象');
+            return;
+        }
+
+        const id = (node as Record<string, unknown>).id;
+        if (!TypeGuards.validators.nonEmptyString.validate(id)) {
+            report('error', `${path}.id`, '节点ID必须是非空字符串');
+            return;
+        }
+
+        if (nodeIndex.has(id)) {
+            report('error', `${path}.id`, `节点ID重复，与$.nodes[${nodeIndex.get(id)}]相同`, id);
+            return;
+        }
+        nodeIndex.set(id, i);
+    });
+
+    // 第二遍：验证每个节点
+    const childrenOf = new Map<string, string[]>();
+    nodes.forEach((value, i) => {
+        if (!TypeGuards.isObject(value) || TypeGuards.isArray(value)) {
+            return;
+        }
+
+        const node = value as Record<string, unknown>;
+        const path = `$.nodes[${i}]`;
+        const id = TypeGuards.isString(node.id) ? node.id : undefined;
+
+        if (node.name !== undefined && !TypeGuards.isString(node.name)) {
+            report('warning', `${path}.name`, '节点名称应该是字符串', id);
+        }
+
+        if (node.tags !== undefined && (!TypeGuards.isArray(node.tags) || !node.tags.every(tag => TypeGuards.isString(tag)))) {
+            report('warning', `${path}.tags`, '节点标签应该是字符串数组', id);
+        }
+
+        if (node.properties !== undefined && (!TypeGuards.isObject(node.properties) || TypeGuards.isArray(node.properties))) {
+            report('error', `${path}.properties`, 'properties必须是对象', id);
+        }
+
+        // 子节点引用
+        const children: string[] = [];
+        if (node.children !== undefined) {
+            if (!TypeGuards.isArray(node.children)) {
+                report('error', `${path}.children`, 'children必须是节点ID数组', id);
+            } else {
+                node.children.forEach((childId, j) => {
+                    if (!TypeGuards.isString(childId)) {
+                        report('error', `${path}.children[${j}]`, '子节点ID必须是字符串', id);
+                    } else if (!nodeIndex.has(childId)) {
+                        report('error', `${path}.children[${j}]`, `未找到子节点 "${childId}"`, id);
+                    } else {
+                        children.push(childId);
+                    }
+                });
+            }
+        }
+        if (id !== undefined && nodeIndex.get(id) === i) {
+            childrenOf.set(id, children);
+        }
+
+        validateNodeType(node, path, id, registry, report);
+    });
+
+    validateReachability(nodes, nodeIndex, childrenOf, report);
+}
+
+/**
+ * 验证节点类型、子节点数量和属性
+ */
+function validateNodeType(
+    node: Record<string, unknown>,
+    path: string,
+    id: string | undefined,
+    registry: NodeTypeRegistry,
+    report: IssueReporter
+): void {
+    const type = node.type;
+    if (!TypeGuards.validators.nonEmptyString.validate(type)) {
+        report('error', `${path}.type`, '节点类型必须是非空字符串', id);
+        return;
+    }
+
+    const childCount = TypeGuards.isArray(node.children) ? node.children.length : 0;
+
+    // root节点只使用第一个子节点
+    if (type === 'root') {
+        if (childCount === 0) {
+            report('warning', `${path}.children`, 'root节点没有子节点，行为树将直接返回成功', id);
+        } else if (childCount > 1) {
+            report('warning', `${path}.children`, 'root节点只会使用第一个子节点', id);
+        }
+        return;
+    }
+
+    const definition = registry.get(type);
+    if (!definition) {
+        report('error', `${path}.type`, `未知的节点类型 "${type}"`, id);
+        return;
+    }
+
+    const constraint = registry.getChildrenConstraint(type)!;
+    if (constraint.max !== null && childCount > constraint.max) {
+        const message = constraint.max === 0
+            ? `${type}节点不能有子节点`
+            : `${type}节点最多有${constraint.max}个子节点，实际有${childCount}个`;
+        report('error', `${path}.children`, message, id);
+    } else if (childCount < constraint.min) {
+        // 复合节点没有子节点时仍可以构建，其余节点缺少子节点会在运行时出错
+        const severity = definition.category === 'composite' && !definition.children ? 'warning' : 'error';
+        report(severity, `${path}.children`, `${type}节点至少需要${constraint.min}个子节点，实际有${childCount}个`, id);
+    }
+
+    if (!definition.properties || !TypeGuards.isObject(node.properties ?? {})) {
+        return;
+    }
+
+    const properties = (node.properties ?? {}) as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(definition.properties)) {
+        validateProperty(extractNestedValue(properties[key]), schema, `${path}.properties.${key}`, key, id, report);
+    }
+}
+
+/**
+ * 按属性描述验证属性值
+ */
+function validateProperty(
+    value: unknown,
+    schema: NodePropertySchema,
+    path: string,
+    key: string,
+    id: string | undefined,
+    report: IssueReporter
+): void {
+    if (value === undefined || value === null || value === '') {
+        if (schema.required) {
+            report('error', path, `缺少必需属性 "${key}"`, id);
+        }
+        return;
+    }
+
+    switch (schema.type) {
+        case 'number': {
+            const num = TypeGuards.isNumber(value) ? value : TypeGuards.stringToNumber(value).value;
+            if (!TypeGuards.isNumber(num)) {
+                report('error', path, `属性 "${key}" 应该是数字，实际为${JSON.stringify(value)}`, id);
+                return;
+            }
+            if ((schema.min !== undefined && num < schema.min) || (schema.max !== undefined && num > schema.max)) {
+                report('warning', path, `属性 "${key}" 的值${num}超出范围[${schema.min ?? '-∞'}, ${schema.max ?? '+∞'}]`, id);
+            }
+            break;
+        }
+
+        case 'boolean':
+            if (!TypeGuards.isBoolean(value) && !(TypeGuards.isString(value) && /^(true|false)$/i.test(value))) {
+                report('error', path, `属性 "${key}" 应该是布尔值，实际为${JSON.stringify(value)}`, id);
+            }
+            break;
+
+        case 'string':
+            if (TypeGuards.isObject(value)) {
+                report('warning', path, `属性 "${key}" 应该是字符串，对象值会被转换为JSON文本`, id);
+            }
+            break;
+
+        case 'object':
+            if (!TypeGuards.isObject(value) || TypeGuards.isArray(value)) {
+                report('error', path, `属性 "${key}" 应该是对象`, id);
+            }
+            break;
+
+        case 'array':
+            if (!TypeGuards.isArray(value)) {
+                report('error', path, `属性 "${key}" 应该是数组`, id);
+            }
+            break;
+    }
+
+    if (schema.options && !TypeGuards.isObject(value)) {
+        const normalized = String(value).toLowerCase();
+        if (!schema.options.some(option => String(option).toLowerCase() === normalized)) {
+            report('warning', path, `属性 "${key}" 的值${JSON.stringify(value)}不是可选值之一: ${schema.options.join(', ')}`, id);
+        }
+    }
+}
+
+/**
+ * 检查循环引用和无法从根节点到达的节点
+ */
+function validateReachability(
+    nodes: unknown[],
+    nodeIndex: Map<string, number>,
+    childrenOf: Map<string, string[]>,
+    report: IssueReporter
+): void {
+    const rootIndex = nodes.findIndex(node => TypeGuards.isObject(node) && (node as Record<string, unknown>).type === 'root');
+    const rootNode = nodes[rootIndex >= 0 ? rootIndex : 0] as Record<string, unknown> | undefined;
+    const rootId = rootNode && TypeGuards.isString(rootNode.id) ? rootNode.id : undefined;
+    if (rootId === undefined) {
+        return;
+    }
+
+    const reachable = new Set<string>();
+    const stack = new Set<string>();
+    const visit = (id: string) => {
+        reachable.add(id);
+        stack.add(id);
+
+        (childrenOf.get(id) ?? []).forEach((childId, j) => {
+            if (stack.has(childId)) {
+                report('error', `$.nodes[${nodeIndex.get(id)}].children[${j}]`, `子节点 "${childId}" 形成循环引用`, id);
+            } else if (!reachable.has(childId)) {
+                visit(childId);
+            }
+        });
+
+        stack.delete(id);
+    };
+    visit(rootId);
+
+    for (const [id, index] of nodeIndex) {
+        if (!reachable.has(id)) {
+            report('warning', `$.nodes[${index}]`, '节点无法从根节点到达，不会被构建', id);
+        }
+    }
+}
+
+/**
+ * 验证黑板变量配置
+ */
+function validateBlackboard(blackboard: unknown, report: IssueReporter): void {
+    if (blackboard === undefined) {
+        return;
+    }
+    if (!TypeGuards.isArray(blackboard)) {
+        report('error', '$.blackboard', 'blackboard必须是数组');
+        return;
+    }
+
+    const names = new Set<string>();
+    blackboard.forEach((variable, i) => {
+        const path = `$.blackboard[${i}]`;
+        if (!TypeGuards.isObject(variable)) {
+            report('error', path, '黑板变量配置必须是对象');
+            return;
+        }
+
+        const { name, type } = variable as Record<string, unknown>;
+        if (!TypeGuards.validators.nonEmptyString.validate(name)) {
+            report('error', `${path}.name`, '黑板变量名必须是非空字符串');
+        } else if (names.has(name)) {
+            report('error', `${path}.name`, `黑板变量 "${name}" 重复定义`);
+        } else {
+            names.add(name);
+        }
+
+        if (!TypeGuards.isString(type) || !blackboardTypes.includes(type.toLowerCase())) {
+            report('error', `${path}.type`, `无效的黑板变量类型 ${JSON.stringify(type)}，可选值: ${blackboardTypes.join(', ')}`);
+        }
+    });
+}
+
+/**
+ * 验证子树端口配置
+ */
+function validatePorts(ports: unknown, report: IssueReporter): void {
+    if (ports === undefined) {
+        return;
+    }
+    if (!TypeGuards.isArray(ports)) {
+        report('error', '$.ports', 'ports必须是数组');
+        return;
+    }
+
+    ports.forEach((port, i) => {
+        const path = `$.ports[${i}]`;
+        if (!TypeGuards.isObject(port)) {
+            report('error', path, '端口配置必须是对象');
+            return;
+        }
+
+        const { name, type, direction } = port as Record<string, unknown>;
+        if (!TypeGuards.validators.nonEmptyString.validate(name)) {
+            report('error', `${path}.name`, '端口名称必须是非空字符串');
+        }
+        if (!TypeGuards.isString(type) || !blackboardTypes.includes(type.toLowerCase())) {
+            report('error', `${path}.type`, `无效的端口类型 ${JSON.stringify(type)}`);
+        }
+        if (!TypeGuards.isString(direction) || !portDirections.includes(direction)) {
+            report('error', `${path}.direction`, `无效的端口方向 ${JSON.stringify(direction)}，可选值: ${portDirections.join(', ')}`);
+        }
+    });
+}
@@ -0,0 +1,277 @@
+import { Behavior } from '../Behavior';
+import { BehaviorTree } from '../BehaviorTree';
+import { Blackboard } from '../Blackboard';
+import {
+    BehaviorTreeJSONConfig,
+    BehaviorTreeMetadata,
+    BehaviorTreeNodeConfig,
+    BlackboardVariableConfig,
+    NodePropertyValue
+} from '../BehaviorTreeBuilder';
+import { Composite } from '../composites/Composite';
+import { Decorator } from '../decorators/Decorator';
+import { ConditionalDecorator } from '../decorators/ConditionalDecorator';
+import { ExecuteAction } from '../actions/ExecuteAction';
+import { AsyncAction } from '../actions/AsyncAction';
+import { BehaviorTreeReference } from '../actions/BehaviorTreeReference';
+import { NodeTypeRegistry } from '../factories/NodeTypeRegistry';
+
+/**
+ * 无法序列化的节点
+ */
+export interface UnserializableNode {
+    /** 节点在树中的位置，如"root/1/0"表示根节点第2个子节点的第1个子节点 */
+    path: string;
+    /** 节点类名 */
+    nodeType: string;
+    /** 无法序列化的原因 */
+    reason: string;
+}
+
+/**
+ * 行为树导出选项
+ */
+export interface BehaviorTreeExportOptions {
+    /** 节点类型注册表，默认为NodeTypeRegistry.getDefault() */
+    registry?: NodeTypeRegistry;
+    /** 黑板变量导出当前值而不是默认值，默认false */
+    useCurrentValues?: boolean;
+    /** 存在无法序列化的节点时抛出错误，默认false */
+    strict?: boolean;
+    /** 附加到配置中的元数据 */
+    metadata?: BehaviorTreeMetadata;
+}
+
+/**
+ * 行为树导出结果
+ */
+export interface BehaviorTreeExportResult {
+    /** 导出的配置，无法序列化的节点及其子树不包含在内 */
+    config: BehaviorTreeJSONConfig;
+    /** 无法序列化的节点 */
+    unserializable: UnserializableNode[];
+}
+
+/**
+ * 行为树导出器
+ *
+ * @description
+ * 将BehaviorTree导出为BehaviorTreeJSONConfig，可以在编辑器中打开或用于比较差异。
+ * 节点属性按以下顺序获取：
+ * 1. 注册表中nodeClass与节点构造函数一致的类型定义的serialize函数（读取节点的当前属性）
+ * 2. 通过注册表创建节点时记录的配置来源
+ *
+ * 两者都不可用的节点（例如使用代码函数构建的ExecuteAction）无法序列化，会在结果中列出。
+ * 导出的配置重新导入后再次导出，得到的配置保持不变。
+ *
+ * @example
+ * ```typescript
+ * const tree = BehaviorTreeBuilder.begin(context)
+ *   .sequence()
+ *     .waitAction(1)
+ *     .setBlackboardValue('state', 'idle')
+ *   .endComposite()
+ *   .build();
+ *
+ * const { config, unserializable } = BehaviorTreeExporter.exportTree(tree);
+ * fs.writeFileSync('ai.json', JSON.stringify(config, null, 2));
+ * ```
+ */
+export class BehaviorTreeExporter {
+    /**
+     * 导出行为树
+     * @param tree 行为树
+     * @param options 导出选项
+     * @returns 导出的配置和无法序列化的节点
+     * @throws {Error} 严格模式下存在无法序列化的节点时抛出错误
+     */
+    public static exportTree<T>(tree: BehaviorTree<T>, options: BehaviorTreeExportOptions = {}): BehaviorTreeExportResult {
+        const { nodes, unserializable } = BehaviorTreeExporter.exportNodes(tree.getRoot(), options);
+
+        const config: BehaviorTreeJSONConfig = {
+            nodes,
+            blackboard: BehaviorTreeExporter.exportBlackboard(tree.getBlackboard(), options.useCurrentValues),
+            metadata: { ...options.metadata, updatePeriod: tree.updatePeriod }
+        };
+
+        return { config, unserializable };
+    }
+
+    /**
+     * 导出以指定节点为根的节点列表
+     * @param root 根节点
+     * @param options 导出选项
+     * @returns 按先序排列的节点配置（第一个为根节点）和无法序列化的节点
+     * @throws {Error} 严格模式下存在无法序列化的节点时抛出错误
+     */
+    public static exportNodes<T>(
+        root: Behavior<T>,
+        options: BehaviorTreeExportOptions = {}
+    ): { nodes: BehaviorTreeNodeConfig[]; unserializable: UnserializableNode[] } {
+        const registry = options.registry ?? NodeTypeRegistry.getDefault();
+        const nodes: BehaviorTreeNodeConfig[] = [];
+        const unserializable: UnserializableNode[] = [];
+        const usedIds = new Set<string>();
+
+        const visit = (node: Behavior<T>, path: string): string | undefined => {
+            const source = NodeTypeRegistry.getNodeSource(node);
+            const definition = registry.findDefinitionForNode(node);
+
+            let type: string;
+            let properties: Record<string, unknown>;
+            if (definition) {
+                type = definition.type;
+                properties = definition.serialize!(node);
+            } else if (source) {
+                type = source.type;
+                properties = source.properties;
+            } else {
+                unserializable.push({
+                    path,
+                    nodeType: node.constructor.name,
+                    reason: BehaviorTreeExporter.getUnserializableReason(node)
+                });
+                return undefined;
+            }
+
+            const id = BehaviorTreeExporter.createUniqueId(node.id ?? path, usedIds);
+            const config: BehaviorTreeNodeConfig = { id, type, name: node.name ?? type };
+            if (node.tags && node.tags.length > 0) {
+                config.tags = [...node.tags];
+            }
+
+            const cleaned = BehaviorTreeExporter.cleanProperties(properties);
+            if (Object.keys(cleaned).length > 0) {
+                config.properties = cleaned;
+            }
+            if (source?.condition) {
+                config.condition = source.condition;
+            }
+
+            nodes.push(config);
+
+            const children = BehaviorTreeExporter.getChildren(node);
+            if (children.length > 0) {
+                const childIds: string[] = [];
+                children.forEach((child, index) => {
+                    const childId = visit(child, `${path}/${index}`);
+                    if (childId !== undefined) {
+                        childIds.push(childId);
+                    }
+                });
+                config.children = childIds;
+            }
+
+            return id;
+        };
+
+        visit(root, 'root');
+
+        if (options.strict && unserializable.length > 0) {
+            const details = unserializable.map(item => `${item.path}（${item.nodeType}）: ${item.reason}`).join('; ');
+            throw new Error(`存在无法序列化的节点: ${details}`);
+        }
+
+        return { nodes, unserializable };
+    }
+
+    /**
+     * 导出黑板变量定义
+     * @param blackboard 黑板实例
+     * @param useCurrentValues 导出当前值而不是默认值
+     * @returns 黑板变量配置列表
+     */
+    public static exportBlackboard(blackboard: Blackboard, useCurrentValues: boolean = false): BlackboardVariableConfig[] {
+        const variables: BlackboardVariableConfig[] = [];
+
+        for (const name of blackboard.getVariableNames()) {
+            const variable = blackboard.getVariableDefinition(name)!;
+            const config: BlackboardVariableConfig = {
+                name,
+                type: variable.type,
+                value: BehaviorTreeExporter.cloneValue(useCurrentValues ? variable.value : variable.defaultValue)
+            };
+
+            if (variable.description) {
+                config.description = variable.description;
+            }
+            if (variable.group && variable.group !== 'Default') {
+                config.group = variable.group;
+            }
+
+            const constraints: NonNullable<BlackboardVariableConfig['constraints']> = {};
+            if (variable.min !== undefined) constraints.min = variable.min;
+            if (variable.max !== undefined) constraints.max = variable.max;
+            if (variable.readonly) constraints.readonly = true;
+            if (variable.options !== undefined) constraints.options = BehaviorTreeExporter.cloneValue(variable.options);
+            if (Object.keys(constraints).length > 0) {
+                config.constraints = constraints;
+            }
+
+            variables.push(config);
+        }
+
+        return variables;
+    }
+
+    /**
+     * 获取节点的子节点
+     */
+    private static getChildren<T>(node: Behavior<T>): ReadonlyArray<Behavior<T>> {
+        if (node instanceof Composite) {
+            return node.children;
+        }
+        if (node instanceof Decorator && node.child) {
+            return [node.child];
+        }
+        return [];
+    }
+
+    /**
+     * 获取节点无法序列化的原因
+     */
+    private static getUnserializableReason(node: Behavior<any>): string {
+        if (node instanceof ExecuteAction || node instanceof AsyncAction || node instanceof ConditionalDecorator) {
+            return '节点使用代码函数构建，无法转换为配置';
+        }
+        if (node instanceof BehaviorTreeReference) {
+            return '子行为树不是通过配置引用的，无法获取子树路径';
+        }
+        return `注册表中没有nodeClass为${node.constructor.name}且提供serialize的节点类型，节点也不是通过注册表创建的`;
+    }
+
+    /**
+     * 生成不重复的节点ID
+     */
+    private static createUniqueId(preferred: string, usedIds: Set<string>): string {
+        let id = preferred;
+        for (let suffix = 1; usedIds.has(id); suffix++) {
+            id = `${preferred}#${suffix}`;
+        }
+        usedIds.add(id);
+        return id;
+    }
+
+    /**
+     * 移除值为undefined的属性并复制属性值
+     */
+    private static cleanProperties(properties: Record<string, unknown>): Record<string, NodePropertyValue> {
+        const cleaned: Record<string, NodePropertyValue> = {};
+        for (const [key, value] of Object.entries(properties)) {
+            if (value !== undefined) {
+                cleaned[key] = BehaviorTreeExporter.cloneValue(value) as NodePropertyValue;
+            }
+        }
+        return cleaned;
+    }
+
+    /**
+     * 深拷贝可以表示为JSON的值，避免导出的配置与节点或黑板共享对象
+     */
+    private static cloneValue<V>(value: V): V {
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        return JSON.parse(JSON.stringify(value));
+    }
+}
@@ -0,0 +1,2 @@
+export * from './BehaviorTreeExporter';
+export * from './BehaviorTreeConfigValidator';
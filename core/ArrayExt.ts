@@ -1,4 +1,4 @@
-import { Random } from './Random';
+import { Random, RandomStream } from './Random';
 
 /**
  * 数组扩展器和高效数据结构工具
@@ -10,16 +10,17 @@ export class ArrayExt {
      * 时间复杂度: O(n)，空间复杂度: O(1)
      * 
      * @param list 要打乱的数组
+     * @param random 随机数来源，默认使用全局Random
      * @throws {Error} 当数组为null或undefined时抛出错误
      */
-    public static shuffle<T>(list: Array<T>): void {
+    public static shuffle<T>(list: Array<T>, random: Pick<RandomStream, 'integer'> = Random): void {
         if (!list) {
             throw new Error('数组不能为null或undefined');
         }
         
         // 优化：从后往前遍历，减少一次减法运算
         for (let i = list.length - 1; i > 0; i--) {
-            const j = Random.integer(0, i);
+            const j = random.integer(0, i);
             // 使用解构赋值进行交换，更简洁
             [list[i], list[j]] = [list[j]!, list[i]!];
         }
@@ -1,44 +1,62 @@
 /**
- * 高性能伪随机数生成器
- * 使用xorshift128算法，比原生Math.random()更快且质量更好
- * 
- * @example
- * ```typescript
- * // 设置种子（可选，默认使用当前时间）
- * Random.setSeed(12345);
- * 
- * // 生成0-1之间的随机数
- * const value = Random.value();
- * 
- * // 生成指定范围的随机数
- * const rangeValue = Random.range(10, 20);
- * 
- * // 生成随机整数
- * const intValue = Random.integer(1, 100);
- * 
- * // 随机布尔值
- * const bool = Random.boolean();
- * 
- * // 带概率的布尔值
- * const probBool = Random.chance(0.7); // 70%概率返回true
- * ```
+ * 随机数算法
+ * - xorshift128: 默认算法，速度快，与旧版本的种子序列保持一致
+ * - sfc32: Small Fast Counter，统计质量更好
+ * - mulberry32: 只有32位状态，状态最小，适合大量短生命周期的随机数流
  */
-export class Random {
-    private static _x: number = 123456789;
-    private static _y: number = 362436069;
-    private static _z: number = 521288629;
-    private static _w: number = 88675123;
-    private static _initialized: boolean = false;
+export type RandomAlgorithm = 'xorshift128' | 'sfc32' | 'mulberry32';
 
-    /**
-     * 设置随机数种子
-     * @param seed 种子值，如果不提供则使用当前时间
-     */
-    public static setSeed(seed?: number): void {
-        if (seed === undefined) {
-            seed = Date.now();
-        }
-        
+/**
+ * 随机数流的可序列化状态
+ * @description 纯JSON数据，可以直接保存到存档或网络消息中，再通过setState或RandomStream.fromState恢复
+ */
+export interface RandomState {
+    /** 生成器算法 */
+    algorithm: RandomAlgorithm;
+    /** 生成器内部状态（32位无符号整数） */
+    state: number[];
+}
+
+/**
+ * Random.getState返回的xorshift128状态格式（与旧版本一致），setState仍然兼容
+ */
+export interface LegacyRandomState {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+}
+
+/**
+ * 随机数生成器算法的内部接口
+ */
+interface RandomGenerator {
+    /** 算法名称 */
+    readonly algorithm: RandomAlgorithm;
+    /** 状态长度（32位整数个数） */
+    readonly stateSize: number;
+    /** 使用种子初始化状态 */
+    seed(seed: number): void;
+    /** 生成下一个32位无符号整数 */
+    next(): number;
+    /** 获取状态 */
+    getState(): number[];
+    /** 设置状态 */
+    setState(state: number[]): void;
+}
+
+/**
+ * xorshift128算法
+ */
+class Xorshift128Generator implements RandomGenerator {
+    public readonly algorithm = 'xorshift128';
+    public readonly stateSize = 4;
+    private _x: number = 123456789;
+    private _y: number = 362436069;
+    private _z: number = 521288629;
+    private _w: number = 88675123;
+
+    public seed(seed: number): void {
         // 使用种子初始化四个状态变量
         this._x = seed >>> 0;
         this._y = (seed * 1812433253 + 1) >>> 0;
@@ -51,23 +69,13 @@ export class Random {
         if (this._z === 0) this._z = 1;
         if (this._w === 0) this._w = 1;
         
-        this._initialized = true;
-        
         // 预热生成器
         for (let i = 0; i < 10; i++) {
             this.next();
         }
     }
 
-    /**
-     * 生成下一个32位无符号整数（内部使用）
-     * 使用xorshift128算法
-     */
-    private static next(): number {
-        if (!this._initialized) {
-            this.setSeed();
-        }
-        
+    public next(): number {
         const t = this._x ^ (this._x << 11);
         this._x = this._y;
         this._y = this._z;
@@ -77,11 +85,220 @@ export class Random {
         return this._w >>> 0; // 确保返回无符号32位整数
     }
 
+    public getState(): number[] {
+        return [this._x, this._y, this._z, this._w];
+    }
+
+    public setState(state: number[]): void {
+        [this._x, this._y, this._z, this._w] = state as [number, number, number, number];
+    }
+}
+
+/**
+ * sfc32算法（Small Fast Counter）
+ */
+class Sfc32Generator implements RandomGenerator {
+    public readonly algorithm = 'sfc32';
+    public readonly stateSize = 4;
+    private _a: number = 0;
+    private _b: number = 0;
+    private _c: number = 0;
+    private _d: number = 1;
+
+    public seed(seed: number): void {
+        this._a = 0x9e3779b9;
+        this._b = 0x243f6a88;
+        this._c = 0xb7e15162;
+        this._d = seed >>> 0;
+
+        // 预热生成器
+        for (let i = 0; i < 15; i++) {
+            this.next();
+        }
+    }
+
+    public next(): number {
+        const t = (((this._a + this._b) | 0) + this._d) | 0;
+        this._d = (this._d + 1) | 0;
+        this._a = this._b ^ (this._b >>> 9);
+        this._b = (this._c + (this._c << 3)) | 0;
+        this._c = (this._c << 21) | (this._c >>> 11);
+        this._c = (this._c + t) | 0;
+        return t >>> 0;
+    }
+
+    public getState(): number[] {
+        return [this._a >>> 0, this._b >>> 0, this._c >>> 0, this._d >>> 0];
+    }
+
+    public setState(state: number[]): void {
+        [this._a, this._b, this._c, this._d] = state.map(value => value | 0) as [number, number, number, number];
+    }
+}
+
+/**
+ * mulberry32算法
+ */
+class Mulberry32Generator implements RandomGenerator {
+    public readonly algorithm = 'mulberry32';
+    public readonly stateSize = 1;
+    private _state: number = 0;
+
+    public seed(seed: number): void {
+        this._state = seed >>> 0;
+    }
+
+    public next(): number {
+        this._state = (this._state + 0x6d2b79f5) | 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (t ^ (t >>> 14)) >>> 0;
+    }
+
+    public getState(): number[] {
+        return [this._state >>> 0];
+    }
+
+    public setState(state: number[]): void {
+        this._state = state[0]! | 0;
+    }
+}
+
+/**
+ * 创建指定算法的生成器
+ * @param algorithm 算法
+ * @throws {Error} 当算法未知时抛出错误
+ */
+function createGenerator(algorithm: RandomAlgorithm): RandomGenerator {
+    switch (algorithm) {
+        case 'xorshift128':
+            return new Xorshift128Generator();
+        case 'sfc32':
+            return new Sfc32Generator();
+        case 'mulberry32':
+            return new Mulberry32Generator();
+        default:
+            throw new Error(`未知的随机数算法: ${algorithm}`);
+    }
+}
+
+/**
+ * 32位FNV-1a哈希，用于从标签派生子流种子
+ * @param text 文本
+ * @param hash 初始哈希值
+ */
+function hashString(text: string, hash: number = 0x811c9dc5): number {
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * 随机数流
+ * 
+ * @description
+ * 可实例化的伪随机数生成器，每个实例拥有独立的状态，
+ * 使用相同种子和算法创建的随机数流产生相同的序列，互不影响。
+ * 可以通过fork从一个随机数流确定性地派生出多个相互独立的子流，
+ * 例如每个系统或每个角色一个子流，某个系统多消耗随机数不会改变其他系统的序列
+ * 
+ * @example
+ * ```typescript
+ * const a = new RandomStream(42);
+ * const b = new RandomStream(42);
+ * a.integer(1, 6) === b.integer(1, 6); // true
+ * 
+ * // 派生独立的子流
+ * const world = new RandomStream(2024, 'sfc32');
+ * const loot = world.fork('loot');
+ * const ai = world.fork('ai');
+ * 
+ * // 保存并恢复状态
+ * const state = a.getState();
+ * const next = a.value();
+ * a.setState(state);
+ * a.value() === next; // true
+ * 
+ * // 状态是纯JSON数据
+ * const restored = RandomStream.fromState(JSON.parse(JSON.stringify(state)));
+ * ```
+ */
+export class RandomStream {
+    /** 生成器 */
+    private _generator: RandomGenerator;
+
+    /**
+     * 创建随机数流
+     * @param seed 种子值，如果不提供则使用当前时间
+     * @param algorithm 随机数算法，默认xorshift128
+     */
+    constructor(seed?: number, algorithm: RandomAlgorithm = 'xorshift128') {
+        this._generator = createGenerator(algorithm);
+        this.setSeed(seed);
+    }
+
+    /**
+     * 从保存的状态创建随机数流
+     * @param state 通过getState获取的状态
+     * @returns 新的随机数流
+     */
+    public static fromState(state: RandomState | LegacyRandomState): RandomStream {
+        const algorithm = 'algorithm' in state ? state.algorithm : 'xorshift128';
+        const stream = new RandomStream(0, algorithm);
+        stream.setState(state);
+        return stream;
+    }
+
+    /**
+     * 随机数算法
+     */
+    public get algorithm(): RandomAlgorithm {
+        return this._generator.algorithm;
+    }
+
+    /**
+     * 设置随机数种子
+     * @param seed 种子值，如果不提供则使用当前时间
+     */
+    public setSeed(seed?: number): void {
+        if (seed === undefined) {
+            seed = Date.now();
+        }
+        this._generator.seed(seed);
+    }
+
+    /**
+     * 派生子随机数流
+     * @description
+     * 子流的种子由当前状态和标签确定性地计算得出，派生不会消耗当前流的随机数。
+     * 相同状态下使用相同标签派生的子流产生相同的序列，不同标签的子流相互独立
+     * @param label 子流标签，例如系统名称或实体ID
+     * @param algorithm 子流的随机数算法，默认与当前流相同
+     * @returns 新的随机数流
+     */
+    public fork(label: string, algorithm: RandomAlgorithm = this.algorithm): RandomStream {
+        let hash = hashString(this.algorithm);
+        for (const word of this._generator.getState()) {
+            hash = Math.imul(hash ^ word, 0x01000193) >>> 0;
+        }
+        return new RandomStream(hashString(label, hash), algorithm);
+    }
+
+    /**
+     * 生成下一个32位无符号整数（内部使用）
+     */
+    private next(): number {
+        return this._generator.next();
+    }
+
     /**
      * 生成0到1之间的随机浮点数（不包括1）
      * @returns 0 <= value < 1的随机数
      */
-    public static value(): number {
+    public value(): number {
         return this.next() / 0x100000000; // 2^32
     }
 
@@ -91,7 +308,7 @@ export class Random {
      * @param max 最大值（不包含）
      * @returns min <= value < max的随机数
      */
-    public static range(min: number = 0, max: number = 1): number {
+    public range(min: number = 0, max: number = 1): number {
         if (min >= max) {
             throw new Error(`最小值(${min})必须小于最大值(${max})`);
         }
@@ -104,7 +321,7 @@ export class Random {
      * @param max 最大值（包含）
      * @returns min <= value <= max的随机整数
      */
-    public static integer(min: number, max: number): number {
+    public integer(min: number, max: number): number {
         if (!Number.isInteger(min) || !Number.isInteger(max)) {
             throw new Error('最小值和最大值必须是整数');
         }
@@ -118,7 +335,7 @@ export class Random {
      * 生成随机布尔值
      * @returns 随机的true或false
      */
-    public static boolean(): boolean {
+    public boolean(): boolean {
         return this.value() < 0.5;
     }
 
@@ -127,7 +344,7 @@ export class Random {
      * @param probability 返回true的概率（0-1之间）
      * @returns 根据概率返回的布尔值
      */
-    public static chance(probability: number): boolean {
+    public chance(probability: number): boolean {
         if (probability < 0 || probability > 1) {
             throw new Error(`概率值必须在0-1之间，当前值: ${probability}`);
         }
@@ -139,7 +356,7 @@ export class Random {
      * @param array 要选择的数组
      * @returns 随机选中的元素
      */
-    public static choice<T>(array: T[]): T {
+    public choice<T>(array: T[]): T {
         if (array.length === 0) {
             throw new Error('数组不能为空');
         }
@@ -153,7 +370,7 @@ export class Random {
      * @param count 选择的数量
      * @returns 随机选中的元素数组
      */
-    public static sample<T>(array: T[], count: number): T[] {
+    public sample<T>(array: T[], count: number): T[] {
         if (count < 0 || count > array.length) {
             throw new Error(`选择数量(${count})必须在0-${array.length}之间`);
         }
@@ -199,7 +416,7 @@ export class Random {
      * @param standardDeviation 标准差
      * @returns 符合正态分布的随机数
      */
-    public static gaussian(mean: number = 0, standardDeviation: number = 1): number {
+    public gaussian(mean: number = 0, standardDeviation: number = 1): number {
         // 使用Box-Muller变换生成正态分布随机数
         const u1 = this.value();
         const u2 = this.value();
@@ -210,29 +427,210 @@ export class Random {
 
     /**
      * 获取当前随机数生成器的状态（用于保存/恢复）
-     * @returns 生成器状态对象
+     * @returns 可序列化的生成器状态对象
      */
-    public static getState(): { x: number; y: number; z: number; w: number } {
-        if (!this._initialized) {
-            this.setSeed();
-        }
+    public getState(): RandomState {
         return {
-            x: this._x,
-            y: this._y,
-            z: this._z,
-            w: this._w
+            algorithm: this.algorithm,
+            state: this._generator.getState()
         };
     }
 
     /**
      * 恢复随机数生成器的状态
-     * @param state 要恢复的状态对象
-     */
-    public static setState(state: { x: number; y: number; z: number; w: number }): void {
-        this._x = state.x;
-        this._y = state.y;
-        this._z = state.z;
-        this._w = state.w;
-        this._initialized = true;
+     * @description 状态中的算法与当前算法不同时会切换到状态中的算法
+     * @param state 要恢复的状态对象，也接受旧版本的{x, y, z, w}格式
+     * @throws {Error} 当状态格式不正确时抛出错误
+     */
+    public setState(state: RandomState | LegacyRandomState): void {
+        const normalized: RandomState = 'algorithm' in state
+            ? state
+            : { algorithm: 'xorshift128', state: [state.x, state.y, state.z, state.w] };
+
+        const generator = normalized.algorithm === this.algorithm
+            ? this._generator
+            : createGenerator(normalized.algorithm);
+        if (!Array.isArray(normalized.state) ||
+            normalized.state.length !== generator.stateSize ||
+            !normalized.state.every(value => Number.isInteger(value))) {
+            throw new Error(`随机数状态格式不正确: ${normalized.algorithm}需要${generator.stateSize}个整数`);
+        }
+
+        generator.setState(normalized.state);
+        this._generator = generator;
+    }
+}
+
+/**
+ * 全局伪随机数生成器
+ * 静态方法委托给默认的随机数流（RandomStream），默认使用xorshift128算法，比原生Math.random()更快且质量更好。
+ * 需要独立、可复现的随机序列时（例如每棵行为树一个）请使用RandomStream实例
+ * 
+ * @example
+ * ```typescript
+ * // 设置种子（可选，默认使用当前时间）
+ * Random.setSeed(12345);
+ * 
+ * // 生成0-1之间的随机数
+ * const value = Random.value();
+ * 
+ * // 生成指定范围的随机数
+ * const rangeValue = Random.range(10, 20);
+ * 
+ * // 生成随机整数
+ * const intValue = Random.integer(1, 100);
+ * 
+ * // 随机布尔值
+ * const bool = Random.boolean();
+ * 
+ * // 带概率的布尔值
+ * const probBool = Random.chance(0.7); // 70%概率返回true
+ * ```
+ */
+export class Random {
+    /** 默认随机数流，首次使用时以当前时间为种子创建 */
+    private static _defaultStream: RandomStream | null = null;
+
+    /**
+     * 获取默认随机数流
+     * @returns 静态方法使用的随机数流
+     */
+    public static getDefaultStream(): RandomStream {
+        if (this._defaultStream === null) {
+            this._defaultStream = new RandomStream();
+        }
+        return this._defaultStream;
+    }
+
+    /**
+     * 替换默认随机数流
+     * @description 可用于切换全局随机数的算法，例如Random.setDefaultStream(new RandomStream(seed, 'sfc32'))
+     * @param stream 新的默认随机数流
+     */
+    public static setDefaultStream(stream: RandomStream): void {
+        this._defaultStream = stream;
+    }
+
+    /**
+     * 从默认随机数流派生子随机数流
+     * @param label 子流标签
+     * @param algorithm 子流的随机数算法，默认与默认随机数流相同
+     * @returns 新的随机数流
+     */
+    public static fork(label: string, algorithm?: RandomAlgorithm): RandomStream {
+        return this.getDefaultStream().fork(label, algorithm);
+    }
+
+    /**
+     * 设置随机数种子
+     * @param seed 种子值，如果不提供则使用当前时间
+     */
+    public static setSeed(seed?: number): void {
+        this.getDefaultStream().setSeed(seed);
+    }
+
+    /**
+     * 生成0到1之间的随机浮点数（不包括1）
+     * @returns 0 <= value < 1的随机数
+     */
+    public static value(): number {
+        return this.getDefaultStream().value();
+    }
+
+    /**
+     * 生成指定范围内的随机浮点数
+     * @param min 最小值（包含）
+     * @param max 最大值（不包含）
+     * @returns min <= value < max的随机数
+     */
+    public static range(min: number = 0, max: number = 1): number {
+        return this.getDefaultStream().range(min, max);
+    }
+
+    /**
+     * 生成指定范围内的随机整数
+     * @param min 最小值（包含）
+     * @param max 最大值（包含）
+     * @returns min <= value <= max的随机整数
+     */
+    public static integer(min: number, max: number): number {
+        return this.getDefaultStream().integer(min, max);
+    }
+
+    /**
+     * 生成随机布尔值
+     * @returns 随机的true或false
+     */
+    public static boolean(): boolean {
+        return this.getDefaultStream().boolean();
+    }
+
+    /**
+     * 根据概率生成布尔值
+     * @param probability 返回true的概率（0-1之间）
+     * @returns 根据概率返回的布尔值
+     */
+    public static chance(probability: number): boolean {
+        return this.getDefaultStream().chance(probability);
+    }
+
+    /**
+     * 从数组中随机选择一个元素
+     * @param array 要选择的数组
+     * @returns 随机选中的元素
+     */
+    public static choice<T>(array: T[]): T {
+        return this.getDefaultStream().choice(array);
+    }
+
+    /**
+     * 从数组中随机选择多个不重复的元素
+     * @param array 要选择的数组
+     * @param count 选择的数量
+     * @returns 随机选中的元素数组
+     */
+    public static sample<T>(array: T[], count: number): T[] {
+        return this.getDefaultStream().sample(array, count);
+    }
+
+    /**
+     * 生成符合正态分布的随机数（Box-Muller变换）
+     * @param mean 均值
+     * @param standardDeviation 标准差
+     * @returns 符合正态分布的随机数
+     */
+    public static gaussian(mean: number = 0, standardDeviation: number = 1): number {
+        return this.getDefaultStream().gaussian(mean, standardDeviation);
+    }
+
+    /**
+     * 获取当前随机数生成器的状态（用于保存/恢复）
+     * @description 返回与旧版本相同的{x, y, z, w}格式，需要包含算法的状态时请使用getStreamState()
+     * @returns xorshift128生成器的状态对象
+     * @throws {Error} 当默认随机数流不是xorshift128算法时抛出错误
+     */
+    public static getState(): LegacyRandomState {
+        const { algorithm, state } = this.getDefaultStream().getState();
+        if (algorithm !== 'xorshift128') {
+            throw new Error(`默认随机数流使用${algorithm}算法，无法转换为{x, y, z, w}格式，请使用Random.getStreamState()`);
+        }
+        const [x, y, z, w] = state as [number, number, number, number];
+        return { x, y, z, w };
+    }
+
+    /**
+     * 获取默认随机数流的状态，包含生成器算法
+     * @returns 可序列化的生成器状态对象
+     */
+    public static getStreamState(): RandomState {
+        return this.getDefaultStream().getState();
+    }
+
+    /**
+     * 恢复随机数生成器的状态
+     * @param state 要恢复的状态对象，也接受旧版本的{x, y, z, w}格式
+     */
+    public static setState(state: RandomState | LegacyRandomState): void {
+        this.getDefaultStream().setState(state);
     }
 }
@@ -17,6 +17,7 @@ export * as UtilityAI from './utilityAI/index';
 export {
     BehaviorTree,
     BehaviorTreeBuilder,
+    BehaviorTreeLibrary,
     TaskStatus,
     Blackboard,
     BlackboardValueType,
@@ -0,0 +1,233 @@
+/**
+ * BehaviorTreeLibrary 测试
+ *
+ * 测试行为树资源库的注册、加载、缓存、循环引用检测和按代理实例化
+ */
+import { BehaviorTreeLibrary } from '../../behaviourTree/BehaviorTreeLibrary';
+import { BehaviorTreeJSONConfig, ExecutionContext } from '../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTreeReference } from '../../behaviourTree/actions/BehaviorTreeReference';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+
+/**
+ * 创建将黑板变量设置为指定值的简单行为树配置
+ */
+function createSetterConfig(value: number): BehaviorTreeJSONConfig {
+  return {
+    nodes: [
+      { id: 'root', type: 'sequence', name: 'root', children: ['set'] },
+      { id: 'set', type: 'set-blackboard-value', name: 'set', properties: { variableName: 'hp', value } }
+    ],
+    blackboard: [{ name: 'hp', type: 'number', value: 100 }]
+  };
+}
+
+/**
+ * 创建引用其他子树的行为树配置
+ */
+function createReferenceConfig(...subTrees: string[]): BehaviorTreeJSONConfig {
+  return {
+    nodes: [
+      { id: 'root', type: 'sequence', name: 'root', children: subTrees.map((_, i) => `ref${i}`) },
+      ...subTrees.map((subTreePath, i) => ({
+        id: `ref${i}`,
+        type: 'behavior-tree-reference',
+        name: subTreePath,
+        properties: { subTreePath, shareBlackboard: true }
+      }))
+    ],
+    blackboard: [{ name: 'hp', type: 'number', value: 100 }]
+  };
+}
+
+describe('BehaviorTreeLibrary 测试', () => {
+  let library: BehaviorTreeLibrary;
+
+  beforeEach(() => {
+    library = new BehaviorTreeLibrary();
+  });
+
+  describe('注册和解析', () => {
+    test('应该按名称解析已注册的配置', () => {
+      const config = createSetterConfig(50);
+      library.register('setter', config);
+
+      expect(library.has('setter')).toBe(true);
+      expect(library.resolve('setter')).toBe(config);
+      expect(library.resolve('missing')).toBeUndefined();
+      expect(library.getNames()).toEqual(['setter']);
+    });
+
+    test('应该解析JSON字符串形式的定义', () => {
+      library.register('setter', JSON.stringify(createSetterConfig(50)));
+      expect(library.resolve('setter')!.nodes).toHaveLength(2);
+    });
+
+    test('无效的定义应该在注册时抛出错误', () => {
+      expect(() => library.register('bad', '{ not json')).toThrow('解析行为树 "bad" 失败');
+      expect(() => library.register('empty', { nodes: [] })).toThrow('nodes为空');
+    });
+
+    test('应该返回直接引用的子树', () => {
+      library.register('parent', createReferenceConfig('a', 'b', 'a'));
+      expect(library.getDependencies('parent')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('加载函数', () => {
+    test('同步加载函数只应该为每个名称调用一次', () => {
+      const loader = jest.fn((name: string) => name === 'setter' ? JSON.stringify(createSetterConfig(50)) : undefined);
+      library.setLoader(loader);
+
+      library.instantiate('setter');
+      library.instantiate('setter');
+      expect(library.resolve('missing')).toBeUndefined();
+
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(loader).toHaveBeenCalledWith('setter');
+    });
+
+    test('异步加载函数需要先调用load()', () => {
+      library.setLoader(() => Promise.resolve(createSetterConfig(50)));
+      expect(() => library.resolve('setter')).toThrow('需要异步加载');
+    });
+
+    test('load()应该加载行为树及其引用的所有子树', async () => {
+      const sources: Record<string, BehaviorTreeJSONConfig> = {
+        parent: createReferenceConfig('child'),
+        child: createReferenceConfig('leaf'),
+        leaf: createSetterConfig(50)
+      };
+      const loader = jest.fn(async (name: string) => sources[name]);
+      library.setLoader(loader);
+
+      await library.load('parent');
+      expect(library.getNames().sort()).toEqual(['child', 'leaf', 'parent']);
+
+      const { tree, blackboard } = library.instantiate('parent');
+      tree.tickImmediate();
+      expect(blackboard.getValue('hp')).toBe(50);
+      expect(loader).toHaveBeenCalledTimes(3);
+    });
+
+    test('同名的并发加载应该共享同一次加载', async () => {
+      const loader = jest.fn(async () => createSetterConfig(50));
+      library.setLoader(loader);
+
+      await Promise.all([library.load('setter'), library.load('setter')]);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    test('加载不存在的行为树应该被拒绝', async () => {
+      library.setLoader(async () => undefined);
+      await expect(library.load('missing')).rejects.toThrow('未找到行为树: missing');
+    });
+  });
+
+  describe('循环引用检测', () => {
+    test('应该检测间接的循环引用', () => {
+      library.register('a', createReferenceConfig('b'));
+      library.register('b', createReferenceConfig('c'));
+      library.register('c', createReferenceConfig('a'));
+
+      expect(() => library.instantiate('a')).toThrow('检测到子行为树循环引用: a -> b -> c -> a');
+    });
+
+    test('应该检测自引用', () => {
+      library.register('self', createReferenceConfig('self'));
+      expect(() => library.resolve('self')).toThrow('self -> self');
+    });
+
+    test('异步加载时应该检测循环引用', async () => {
+      const sources: Record<string, BehaviorTreeJSONConfig> = {
+        a: createReferenceConfig('b'),
+        b: createReferenceConfig('a')
+      };
+      library.setLoader(async (name: string) => sources[name]);
+
+      await expect(library.load('a')).rejects.toThrow('a -> b -> a');
+    });
+
+    test('多次引用同一子树不应该被视为循环', () => {
+      library.register('leaf', createSetterConfig(50));
+      library.register('parent', createReferenceConfig('leaf', 'leaf'));
+
+      expect(() => library.instantiate('parent')).not.toThrow();
+    });
+  });
+
+  describe('实例化', () => {
+    test('每次实例化应该创建独立的节点和黑板', () => {
+      library.register('setter', createSetterConfig(50));
+
+      const first = library.instantiate('setter');
+      const second = library.instantiate('setter');
+
+      expect(first.tree.getRoot()).not.toBe(second.tree.getRoot());
+      expect(first.blackboard).not.toBe(second.blackboard);
+
+      first.tree.tickImmediate();
+      expect(first.blackboard.getValue('hp')).toBe(50);
+      expect(second.blackboard.getValue('hp')).toBe(100);
+    });
+
+    test('应该通过资源库按名称解析子树引用', () => {
+      library.register('leaf', createSetterConfig(50));
+      library.register('parent', createReferenceConfig('leaf'));
+
+      const agent = { name: 'guard' };
+      const callerContext: ExecutionContext = { agent };
+      const { tree, context } = library.instantiate<ExecutionContext>('parent', callerContext);
+
+      // 资源库通过构建选项传递，不会写入调用方的上下文
+      expect(context).toBe(callerContext);
+      expect(context.treeLibrary).toBeUndefined();
+      expect(context.agent).toBe(agent);
+
+      const reference = (tree.getRoot() as any)._children[0];
+      expect(reference).toBeInstanceOf(BehaviorTreeReference);
+      expect(tree.tickImmediate()).toBe(TaskStatus.Success);
+    });
+
+    test('上下文中的treeLibrary应该优先于当前资源库', () => {
+      const other = new BehaviorTreeLibrary();
+      other.register('leaf', createSetterConfig(20));
+      library.register('leaf', createSetterConfig(50));
+      library.register('parent', createReferenceConfig('leaf'));
+
+      const { tree, blackboard } = library.instantiate<ExecutionContext>('parent', { treeLibrary: other });
+      tree.tickImmediate();
+      expect(blackboard.getValue('hp')).toBe(20);
+    });
+
+    test('严格模式应该使用缓存的验证结果', () => {
+      library.register('setter', createSetterConfig(50));
+      library.register('broken', {
+        nodes: [{ id: 'root', type: 'sequence', name: 'root', children: ['missing'] }]
+      });
+
+      const validation = library.validate('setter');
+      expect(validation.valid).toBe(true);
+      library.instantiate('setter', undefined, { strict: true });
+      expect(library.validate('setter')).toBe(validation);
+
+      expect(() => library.instantiate('broken', undefined, { strict: true })).toThrow('行为树 "broken" 配置验证失败');
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      expect(() => library.instantiate('broken')).not.toThrow();
+      warnSpy.mockRestore();
+
+      // 重新注册后应该重新验证
+      library.register('setter', createSetterConfig(60));
+      expect(library.validate('setter')).not.toBe(validation);
+    });
+
+    test('实例化不存在的行为树应该抛出错误', () => {
+      expect(() => library.instantiate('missing')).toThrow('未找到行为树: missing');
+    });
+
+    test('instantiateAsync()应该加载后实例化', async () => {
+      library.setLoader(async () => createSetterConfig(50));
+      const { tree } = await library.instantiateAsync('setter');
+      expect(tree.tickImmediate()).toBe(TaskStatus.Success);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * 行为树热重载测试
+ *
+ * 测试BehaviorTree.reload对黑板变量、正在运行的分支以及运行状态恢复的处理
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig, ExecutionContext } from '../../behaviourTree/BehaviorTreeBuilder';
+import { Behavior } from '../../behaviourTree/Behavior';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { NodeTypeRegistry } from '../../behaviourTree/factories/NodeTypeRegistry';
+import { BehaviorTreeLibrary } from '../../behaviourTree/BehaviorTreeLibrary';
+
+/** 探针节点的事件记录 */
+const events: string[] = [];
+
+/**
+ * 记录生命周期事件并一直保持运行的探针节点
+ */
+class ProbeAction extends Behavior<ExecutionContext> {
+    constructor(private readonly label: string) {
+        super();
+    }
+
+    public override onStart(): void {
+        events.push(`start:${this.label}`);
+    }
+
+    public override onAbort(): void {
+        events.push(`abort:${this.label}`);
+    }
+
+    public update(): TaskStatus {
+        return TaskStatus.Running;
+    }
+}
+
+function createContext(): ExecutionContext {
+    const registry = NodeTypeRegistry.createWithBuiltins();
+    registry.register({
+        type: 'probe',
+        category: 'action',
+        properties: { label: { type: 'string', default: 'probe' } },
+        factory: (props) => new ProbeAction(props.label)
+    });
+    return { nodeRegistry: registry };
+}
+
+/**
+ * 主序列：计数 → 探针，计数节点每次执行都会使starts加1
+ */
+function createConfig(probeLabel: string = 'v1'): BehaviorTreeJSONConfig {
+    return {
+        nodes: [
+            { id: 'main', type: 'sequence', name: 'main', children: ['count', 'probe'] },
+            {
+                id: 'count',
+                type: 'math-blackboard-operation',
+                name: 'count',
+                properties: { targetVariable: 'starts', operand1Variable: 'starts', operand2: 1, operation: 'add' }
+            },
+            { id: 'probe', type: 'probe', name: 'probe', properties: { label: probeLabel } }
+        ],
+        blackboard: [
+            { name: 'starts', type: 'number', value: 0 },
+            { name: 'legacy', type: 'string', value: 'old' }
+        ],
+        metadata: { updatePeriod: 0 }
+    };
+}
+
+describe('BehaviorTree 热重载测试', () => {
+    beforeEach(() => {
+        events.length = 0;
+    });
+
+    test('应该保留黑板变量的当前值并定义新增的变量', () => {
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(), createContext());
+        tree.tick();
+        blackboard.setValue('legacy', 'changed');
+
+        const config = createConfig();
+        config.blackboard = [
+            { name: 'starts', type: 'number', value: 100 },
+            { name: 'speed', type: 'number', value: 5 }
+        ];
+        const result = tree.reload(config);
+
+        expect(tree.getBlackboard()).toBe(blackboard);
+        expect(blackboard.getValue('starts')).toBe(1);
+        expect(blackboard.getValue('legacy')).toBe('changed');
+        expect(blackboard.getValue('speed')).toBe(5);
+        expect(result.addedVariables).toEqual(['speed']);
+        expect(result.removedVariables).toEqual([]);
+    });
+
+    test('removeMissingVariables为true时应该移除配置中已删除的变量', () => {
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(), createContext());
+
+        const config = createConfig();
+        config.blackboard = config.blackboard!.filter(variable => variable.name !== 'legacy');
+        const result = tree.reload(config, { removeMissingVariables: true });
+
+        expect(result.removedVariables).toEqual(['legacy']);
+        expect(blackboard.hasVariable('legacy')).toBe(false);
+        expect(blackboard.hasVariable('starts')).toBe(true);
+    });
+
+    test('应该中止正在运行的分支并从ID未变化的节点继续执行', () => {
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(), createContext());
+        tree.tick();
+        tree.tick();
+        expect(events).toEqual(['start:v1']);
+
+        const result = tree.reload(createConfig('v2'));
+        expect(events).toEqual(['start:v1', 'abort:v1']);
+        expect(result.restoredNodeIds).toEqual(['main']);
+        expect(tree.getRoot().status).toBe(TaskStatus.Running);
+
+        tree.tick();
+        // 序列从探针节点继续，计数节点不会再次执行
+        expect(events).toEqual(['start:v1', 'abort:v1', 'start:v2']);
+        expect(blackboard.getValue('starts')).toBe(1);
+    });
+
+    test('节点ID变化或禁用恢复时应该从头开始执行', () => {
+        const renamed = createConfig('v2');
+        renamed.nodes[0]!.id = 'main2';
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(), createContext());
+        tree.tick();
+        tree.tick();
+
+        expect(tree.reload(renamed).restoredNodeIds).toEqual([]);
+        tree.tick();
+        expect(blackboard.getValue('starts')).toBe(2);
+
+        expect(tree.reload(renamed, { restoreRunningState: false }).restoredNodeIds).toEqual([]);
+        tree.tick();
+        expect(blackboard.getValue('starts')).toBe(3);
+    });
+
+    test('新配置无效时应该保持原有节点树和黑板不变', () => {
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(), createContext());
+        tree.tick();
+        tree.tick();
+        const root = tree.getRoot();
+
+        const invalid = createConfig();
+        invalid.blackboard!.push({ name: 'extra', type: 'number', value: 1 });
+        invalid.nodes.push({ id: 'bad', type: 'teleport', name: 'bad' });
+        invalid.nodes[0]!.children!.push('bad');
+
+        expect(() => tree.reload(invalid)).toThrow('未知的节点类型');
+        expect(tree.getRoot()).toBe(root);
+        expect(root.status).toBe(TaskStatus.Running);
+        expect(blackboard.hasVariable('extra')).toBe(false);
+        expect(events).toEqual(['start:v1']);
+    });
+
+    test('通过资源库实例化的行为树重载时应该解析子树引用', () => {
+        const library = new BehaviorTreeLibrary();
+        const createMain = (value: number): BehaviorTreeJSONConfig => ({
+            nodes: [
+                { id: 'main', type: 'sequence', name: 'main', children: ['set', 'sub'] },
+                { id: 'set', type: 'set-blackboard-value', name: 'set', properties: { variableName: 'hp', value } },
+                { id: 'sub', type: 'behavior-tree-reference', name: 'sub', properties: { subTreePath: 'sub', shareBlackboard: true } }
+            ],
+            blackboard: [{ name: 'hp', type: 'number', value: 100 }, { name: 'visits', type: 'number', value: 0 }],
+            metadata: { updatePeriod: 0 }
+        });
+        library.register('sub', {
+            nodes: [{ id: 'visit', type: 'set-blackboard-value', name: 'visit', properties: { variableName: 'visits', value: 1 } }]
+        });
+        library.register('main', createMain(50));
+
+        const { tree, blackboard, context } = library.instantiate<ExecutionContext>('main', {});
+        expect(context.treeLibrary).toBeUndefined();
+        expect(tree.getTreeLibrary()).toBe(library);
+
+        tree.reload(createMain(20));
+        tree.tick();
+        tree.tick();
+        expect(blackboard.getValue('hp')).toBe(20);
+        expect(blackboard.getValue('visits')).toBe(1);
+    });
+});
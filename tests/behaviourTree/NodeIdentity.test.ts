@@ -0,0 +1,96 @@
+/**
+ * 节点标识测试
+ *
+ * 测试节点的ID、名称和标签，BehaviorTree.findNode()和findNodesByTag()，
+ * 流畅构建器的named()、withId()和tagged()，以及walkTree()遍历
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../behaviourTree/BehaviorTreeBuilder';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { ExecuteAction } from '../../behaviourTree/actions/ExecuteAction';
+import { CooldownDecorator } from '../../behaviourTree/decorators/CooldownDecorator';
+import { walkTree } from '../../behaviourTree/TreeTraversal';
+import { BehaviorTreeExporter } from '../../behaviourTree/serialization/BehaviorTreeExporter';
+
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'brain', type: 'selector', name: '大脑', children: ['attack', 'patrol'] },
+        { id: 'attack', type: 'cooldown', name: '攻击冷却', tags: ['combat'], properties: { cooldownTime: 2 }, children: ['strike'] },
+        { id: 'strike', type: 'log-action', name: '攻击', tags: ['combat', 'leaf'], properties: { message: 'strike' } },
+        { id: 'patrol', type: 'wait-action', name: '巡逻', tags: ['leaf'], properties: { waitTime: 1 } }
+    ]
+};
+
+describe('节点标识测试', () => {
+    test('通过配置创建的节点应该保留ID、名称和标签', () => {
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config);
+
+        const attack = tree.findNode('attack');
+        expect(attack).toBeInstanceOf(CooldownDecorator);
+        expect(attack).toMatchObject({ id: 'attack', name: '攻击冷却', tags: ['combat'] });
+        expect(attack!.hasTag('combat')).toBe(true);
+        expect(attack!.hasTag('leaf')).toBe(false);
+
+        // 按路径查找
+        expect(tree.findNode('root/0/0')).toBe(tree.findNode('strike'));
+        expect(tree.findNode('root')).toBe(tree.getRoot());
+        expect(tree.findNode('missing')).toBeUndefined();
+
+        expect(tree.findNodesByTag('leaf').map(node => node.id)).toEqual(['strike', 'patrol']);
+        expect(tree.findNodesByTag('combat').map(node => node.id)).toEqual(['attack', 'strike']);
+        expect(tree.findNodesByTag('unknown')).toEqual([]);
+    });
+
+    test('流畅构建器应该可以设置最近添加的节点的名称、ID和标签', () => {
+        const tree = BehaviorTreeBuilder.begin({})
+            .selector().named('brain')
+                .inverter().named('not').withId('not')
+                    .action(() => TaskStatus.Failure).named('fail').tagged('test', 'leaf', 'test')
+                .action(() => TaskStatus.Success).withId('ok').tagged('leaf')
+            .endComposite()
+            .build();
+
+        expect(tree.getRoot().name).toBe('brain');
+        expect(tree.findNode('not')!.name).toBe('not');
+        expect(tree.findNode('root/0/0')).toMatchObject({ name: 'fail', tags: ['test', 'leaf'] });
+        expect(tree.findNodesByTag('leaf').map(node => node.id ?? node.name)).toEqual(['fail', 'ok']);
+        expect(() => BehaviorTreeBuilder.begin({}).named('empty')).toThrow('尚未添加节点');
+    });
+
+    test('walkTree应该按先序遍历节点并提供深度和父节点', () => {
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config);
+
+        const entries = [...walkTree(tree.getRoot())];
+        expect(entries.map(entry => [entry.id, entry.path, entry.depth])).toEqual([
+            ['brain', 'root', 0],
+            ['attack', 'root/0', 1],
+            ['strike', 'root/0/0', 2],
+            ['patrol', 'root/1', 1]
+        ]);
+        expect(entries[0]!.parent).toBeNull();
+        expect(entries[2]!.parent).toBe(tree.findNode('attack'));
+
+        // 提前结束遍历
+        const visited: string[] = [];
+        for (const entry of walkTree(tree.getRoot())) {
+            visited.push(entry.id);
+            if (entry.id === 'attack') {
+                break;
+            }
+        }
+        expect(visited).toEqual(['brain', 'attack']);
+    });
+
+    test('动作名称和导出的配置应该使用节点的名称和标签', () => {
+        const action = new ExecuteAction(() => TaskStatus.Success, { name: 'jump' });
+        expect(action.name).toBe('jump');
+        expect(action.getName()).toBe('jump');
+
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config);
+        tree.findNode('patrol')!.name = '站岗';
+        const exported = BehaviorTreeExporter.exportTree(tree).config;
+        expect(exported.nodes.find(node => node.id === 'patrol')).toMatchObject({ name: '站岗', tags: ['leaf'] });
+
+        const { tree: reloaded } = BehaviorTreeBuilder.fromBehaviorTreeConfig(exported);
+        expect(reloaded.findNodesByTag('combat').map(node => node.id)).toEqual(['attack', 'strike']);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * onAbort 生命周期测试
+ *
+ * 测试被中止的Running节点能够收到onAbort回调
+ */
+import { BehaviorTree } from '../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../behaviourTree/Behavior';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { Sequence } from '../../behaviourTree/composites/Sequence';
+import { Selector } from '../../behaviourTree/composites/Selector';
+import { AbortTypes } from '../../behaviourTree/composites/AbortTypes';
+import { ExecuteActionConditional } from '../../behaviourTree/conditionals/ExecuteActionConditional';
+import { ConditionalDecorator } from '../../behaviourTree/decorators/ConditionalDecorator';
+import { Decorator } from '../../behaviourTree/decorators/Decorator';
+import { AlwaysSucceed } from '../../behaviourTree/decorators/AlwaysSucceed';
+import { AlwaysFail } from '../../behaviourTree/decorators/AlwaysFail';
+import { UntilSuccess } from '../../behaviourTree/decorators/UntilSuccess';
+import { UntilFail } from '../../behaviourTree/decorators/UntilFail';
+import { CooldownDecorator } from '../../behaviourTree/decorators/CooldownDecorator';
+import { TimeoutDecorator } from '../../behaviourTree/decorators/TimeoutDecorator';
+import { ChanceDecorator } from '../../behaviourTree/decorators/ChanceDecorator';
+import { TestUtils, TestContext } from '../utils/TestUtils';
+
+/**
+ * 记录生命周期回调的节点
+ */
+class LifecycleAction extends Behavior<TestContext> {
+  public returnStatus: TaskStatus = TaskStatus.Running;
+  public abortCount: number = 0;
+  public endCount: number = 0;
+
+  constructor(private readonly _log: string[], private readonly _name: string) {
+    super();
+  }
+
+  update(_context: TestContext): TaskStatus {
+    return this.returnStatus;
+  }
+
+  override onEnd(): void {
+    this.endCount++;
+  }
+
+  override onAbort(_context: TestContext): void {
+    this.abortCount++;
+    this._log.push(this._name);
+  }
+}
+
+/**
+ * 记录onAbort顺序的序列节点
+ */
+class LoggingSequence extends Sequence<TestContext> {
+  constructor(private readonly _log: string[], private readonly _name: string) {
+    super();
+  }
+
+  override onAbort(_context: TestContext): void {
+    this._log.push(this._name);
+  }
+}
+
+describe('onAbort 生命周期测试', () => {
+  let context: TestContext;
+  let log: string[];
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+    log = [];
+  });
+
+  test('Self中止应该触发正在运行节点的onAbort而不是onEnd', () => {
+    const sequence = new Sequence<TestContext>(AbortTypes.Self);
+    const condition = ExecuteActionConditional.createPredicate<TestContext>(ctx => ctx.isConditionMet);
+    const action = new LifecycleAction(log, 'action');
+    sequence.addChild(condition);
+    sequence.addChild(action);
+
+    context.isConditionMet = true;
+    sequence.tick(context);
+    expect(sequence.tick(context)).toBe(TaskStatus.Running);
+    expect(action.status).toBe(TaskStatus.Running);
+
+    context.isConditionMet = false;
+    expect(sequence.tick(context)).toBe(TaskStatus.Failure);
+    expect(action.abortCount).toBe(1);
+    expect(action.endCount).toBe(0);
+    expect(action.status).toBe(TaskStatus.Invalid);
+  });
+
+  test('LowerPriority中止应该按从深到浅的顺序触发onAbort', () => {
+    const selector = new Selector<TestContext>();
+    const guarded = new Sequence<TestContext>(AbortTypes.LowerPriority);
+    guarded.addChild(ExecuteActionConditional.createPredicate<TestContext>(ctx => ctx.isConditionMet));
+    guarded.addChild(TestUtils.createSuccessBehavior<TestContext>());
+
+    const fallback = new LoggingSequence(log, 'fallback');
+    fallback.addChild(new LifecycleAction(log, 'leaf'));
+
+    selector.addChild(guarded);
+    selector.addChild(fallback);
+
+    context.isConditionMet = false;
+    selector.tick(context);
+    selector.tick(context);
+    expect(fallback.status).toBe(TaskStatus.Running);
+
+    context.isConditionMet = true;
+    selector.tick(context);
+    expect(log).toEqual(['leaf', 'fallback']);
+  });
+
+  test('未运行的节点不应该收到onAbort', () => {
+    const sequence = new Sequence<TestContext>();
+    const action = new LifecycleAction(log, 'action');
+    action.returnStatus = TaskStatus.Success;
+    sequence.addChild(action);
+
+    sequence.tick(context);
+    sequence.abort(context);
+
+    expect(action.abortCount).toBe(0);
+  });
+
+  test('条件装饰器的条件失效时应该中止正在运行的子节点', () => {
+    const condition = ExecuteActionConditional.createPredicate<TestContext>(ctx => ctx.isConditionMet);
+    const decorator = new ConditionalDecorator<TestContext>(condition);
+    const action = new LifecycleAction(log, 'action');
+    decorator.child = action;
+
+    context.isConditionMet = true;
+    expect(decorator.tick(context)).toBe(TaskStatus.Running);
+
+    context.isConditionMet = false;
+    expect(decorator.tick(context)).toBe(TaskStatus.Failure);
+    expect(action.abortCount).toBe(1);
+  });
+
+  describe('BehaviorTree触发onAbort', () => {
+    let action: LifecycleAction;
+    let tree: BehaviorTree<TestContext>;
+
+    beforeEach(() => {
+      const root = new Sequence<TestContext>();
+      action = new LifecycleAction(log, 'action');
+      root.addChild(action);
+      tree = new BehaviorTree<TestContext>(context, root, 0);
+      tree.tick();
+      expect(action.status).toBe(TaskStatus.Running);
+    });
+
+    test('stop()应该触发onAbort', () => {
+      tree.stop();
+      expect(action.abortCount).toBe(1);
+    });
+
+    test('reset()应该触发onAbort', () => {
+      tree.reset();
+      expect(action.abortCount).toBe(1);
+      expect(action.status).toBe(TaskStatus.Invalid);
+    });
+
+    test('dispose()应该在释放前触发onAbort', () => {
+      tree.dispose();
+      expect(action.abortCount).toBe(1);
+    });
+  });
+
+  describe('装饰器下的节点触发onAbort', () => {
+    const decorators: Array<[string, () => Decorator<TestContext>]> = [
+      ['AlwaysSucceed', () => new AlwaysSucceed<TestContext>()],
+      ['AlwaysFail', () => new AlwaysFail<TestContext>()],
+      ['UntilSuccess', () => new UntilSuccess<TestContext>()],
+      ['UntilFail', () => new UntilFail<TestContext>()],
+      ['CooldownDecorator', () => new CooldownDecorator<TestContext>(1)],
+      ['TimeoutDecorator', () => new TimeoutDecorator<TestContext>(10)],
+      ['ChanceDecorator', () => new ChanceDecorator<TestContext>(1)]
+    ];
+
+    test.each(decorators)('%s的子节点应该处于Running状态并在stop()时收到onAbort', (_name, createDecorator) => {
+      const decorator = createDecorator();
+      const action = new LifecycleAction(log, 'action');
+      decorator.child = action;
+      const tree = new BehaviorTree<TestContext>(context, decorator, 0);
+
+      tree.tick(0.1);
+      expect(action.status).toBe(TaskStatus.Running);
+
+      tree.stop();
+      expect(action.abortCount).toBe(1);
+      expect(action.endCount).toBe(0);
+      expect(action.status).toBe(TaskStatus.Invalid);
+    });
+
+    test('超时装饰器超时时应该中止正在运行的子节点', () => {
+      const decorator = new TimeoutDecorator<TestContext>(0.15);
+      const action = new LifecycleAction(log, 'action');
+      decorator.child = action;
+      const tree = new BehaviorTree<TestContext>(context, decorator, 0);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      tree.tick(0.1);
+      tree.tick(0.1);
+      expect(action.abortCount).toBe(0);
+
+      tree.tick(0.1);
+      expect(decorator.status).toBe(TaskStatus.Failure);
+      expect(action.abortCount).toBe(1);
+      expect(action.status).toBe(TaskStatus.Invalid);
+      warn.mockRestore();
+    });
+  });
+});
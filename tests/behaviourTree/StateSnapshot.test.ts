@@ -0,0 +1,166 @@
+/**
+ * 行为树状态快照测试
+ *
+ * 测试BehaviorTree.captureState/restoreState保存和恢复节点状态、黑板、时钟以及随机数流
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig, BehaviorTreeNodeConfig } from '../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree, BehaviorTreeSnapshot } from '../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../behaviourTree/Behavior';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { Sequence } from '../../behaviourTree/composites/Sequence';
+import { IStatefulNode, NodeStateData } from '../../behaviourTree/NodeState';
+
+/**
+ * 随机顺序执行的分支：设置last后等待0.5秒
+ */
+function branch(name: string): BehaviorTreeNodeConfig[] {
+    return [
+        { id: name, type: 'sequence', name, children: [`${name}-set`, `${name}-wait`] },
+        { id: `${name}-set`, type: 'set-blackboard-value', name: `${name}-set`, properties: { variableName: 'last', value: name } },
+        { id: `${name}-wait`, type: 'wait-action', name: `${name}-wait`, properties: { waitTime: 0.5 } }
+    ];
+}
+
+/**
+ * 重复3次：计数 → 随机顺序执行a、b、c → 冷却2秒的奖励
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'loop', type: 'repeater', name: 'loop', properties: { count: 3 }, children: ['step'] },
+        { id: 'step', type: 'sequence', name: 'step', children: ['count', 'shuffle', 'bonus'] },
+        {
+            id: 'count',
+            type: 'math-blackboard-operation',
+            name: 'count',
+            properties: { targetVariable: 'count', operand1Variable: 'count', operand2: 1, operation: 'add' }
+        },
+        { id: 'shuffle', type: 'random-sequence', name: 'shuffle', children: ['a', 'b', 'c'] },
+        ...branch('a'),
+        ...branch('b'),
+        ...branch('c'),
+        { id: 'bonus', type: 'selector', name: 'bonus', children: ['bonus-cooldown', 'bonus-skip'] },
+        { id: 'bonus-cooldown', type: 'cooldown', name: 'bonus-cooldown', properties: { cooldownTime: 2 }, children: ['bonus-add'] },
+        {
+            id: 'bonus-add',
+            type: 'math-blackboard-operation',
+            name: 'bonus-add',
+            properties: { targetVariable: 'bonus', operand1Variable: 'bonus', operand2: 1, operation: 'add' }
+        },
+        { id: 'bonus-skip', type: 'set-blackboard-value', name: 'bonus-skip', properties: { variableName: 'last', value: '-' } }
+    ],
+    blackboard: [
+        { name: 'last', type: 'string', value: '' },
+        { name: 'count', type: 'number', value: 0 },
+        { name: 'bonus', type: 'number', value: 0 }
+    ],
+    metadata: { updatePeriod: 0 }
+};
+
+function createTree(seed: number = 1): BehaviorTree<any> {
+    return BehaviorTreeBuilder.fromBehaviorTreeConfig(config, undefined, { randomSeed: seed }).tree;
+}
+
+/**
+ * 执行行为树并记录每次执行后的黑板状态和根节点状态
+ */
+function record(tree: BehaviorTree<any>, ticks: number): string[] {
+    const blackboard = tree.getBlackboard();
+    const history: string[] = [];
+    for (let i = 0; i < ticks; i++) {
+        tree.tick(0.25);
+        history.push(`${blackboard.getValue('last')}:${blackboard.getValue('count')}:${blackboard.getValue('bonus')}:${tree.getRoot().status}`);
+    }
+    return history;
+}
+
+/**
+ * 记录迭代次数的自定义节点
+ */
+class CounterAction extends Behavior<any> implements IStatefulNode {
+    public ticks = 0;
+
+    public captureState(): NodeStateData {
+        return { ticks: this.ticks };
+    }
+
+    public restoreState(state: NodeStateData): void {
+        this.ticks = state.ticks as number;
+    }
+
+    public update(): TaskStatus {
+        this.ticks++;
+        return TaskStatus.Running;
+    }
+}
+
+describe('行为树状态快照测试', () => {
+    test('恢复快照后应该从保存时的位置继续执行', () => {
+        const original = createTree();
+        record(original, 7);
+
+        const snapshot: BehaviorTreeSnapshot = JSON.parse(JSON.stringify(original.captureState()));
+        expect(snapshot.nodes['loop']!.status).toBe(TaskStatus.Running);
+        expect(snapshot.nodes['loop']!.state).toEqual({ iterationCount: 0, lastChildStatus: TaskStatus.Running });
+        expect(snapshot.nodes['shuffle']!.state!.order).toHaveLength(3);
+
+        const restored = createTree(999);
+        const result = restored.restoreState(snapshot);
+        expect(result.missingNodeIds).toEqual([]);
+        expect(result.restoredNodeIds).toContain('shuffle');
+
+        // 随机数流状态也被恢复，后续的洗牌结果一致
+        const expected = record(original, 40);
+        expect(record(restored, 40)).toEqual(expected);
+        expect(restored.getClock().now()).toBe(original.getClock().now());
+        expect(restored.getBlackboard().getValue('count')).toBe(3);
+        expect(restored.getRoot().status).toBe(TaskStatus.Success);
+    });
+
+    test('恢复时应该中止正在运行的节点并恢复黑板', () => {
+        const tree = createTree();
+        record(tree, 2);
+        const snapshot = tree.captureState();
+        const history = record(tree, 10);
+
+        tree.restoreState(snapshot);
+        expect(tree.getBlackboard().getValue('count')).toBe(1);
+        expect(record(tree, 10)).toEqual(history);
+    });
+
+    test('快照中缺失的节点应该从头开始执行', () => {
+        const tree = createTree();
+        record(tree, 3);
+        const snapshot = tree.captureState();
+        delete snapshot.nodes['bonus'];
+
+        const result = createTree().restoreState(snapshot);
+        expect(result.missingNodeIds).toEqual(['bonus']);
+    });
+
+    test('不支持的快照版本应该抛出错误', () => {
+        const tree = createTree();
+        const snapshot = { ...tree.captureState(), version: 99 };
+        expect(() => tree.restoreState(snapshot)).toThrow('不支持的行为树快照版本: 99');
+    });
+
+    test('自定义节点应该通过IStatefulNode保存状态，没有配置ID的节点使用路径作为键', () => {
+        const createManualTree = () => {
+            const root = new Sequence<any>();
+            const counter = new CounterAction();
+            root.addChild(counter);
+            return { tree: new BehaviorTree<any>({}, root, 0), counter };
+        };
+
+        const first = createManualTree();
+        for (let i = 0; i < 4; i++) {
+            first.tree.tick(0.25);
+        }
+        const snapshot = first.tree.captureState();
+        expect(snapshot.nodes['root/0']).toEqual({ status: TaskStatus.Running, state: { ticks: 4 } });
+
+        const second = createManualTree();
+        second.tree.restoreState(snapshot);
+        expect(second.counter.ticks).toBe(4);
+        expect(second.counter.status).toBe(TaskStatus.Running);
+    });
+});
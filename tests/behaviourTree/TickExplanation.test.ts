@@ -0,0 +1,166 @@
+/**
+ * 执行说明测试
+ *
+ * 测试BehaviorTree.explainLastTick()返回的访问节点树、失败的条件、
+ * 阻止执行的装饰器和说明文本
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../behaviourTree/BehaviorTree';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { CompareOperator } from '../../behaviourTree/conditionals/BlackboardConditionals';
+import { TickExplanation } from '../../behaviourTree/TickExplanation';
+
+/**
+ * 循环选择：低血量时逃跑；警戒时呼喊；冷却结束时攻击；否则碰运气
+ * 选择器每次执行只推进一个子节点
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'loop', type: 'repeater', name: 'loop', properties: { count: -1 }, children: ['brain'] },
+        { id: 'brain', type: 'selector', name: 'brain', children: ['flee', 'guard', 'attack', 'gamble'] },
+        {
+            id: 'flee',
+            type: 'blackboard-value-comparison',
+            name: 'flee',
+            properties: { variableName: 'hp', operator: 'less', compareValue: 30 }
+        },
+        {
+            id: 'guard',
+            type: 'conditional-decorator',
+            name: '警戒',
+            properties: { conditionType: 'blackboardCompare', variableName: 'alert', operator: 'equal', compareValue: true },
+            children: ['shout']
+        },
+        { id: 'shout', type: 'set-blackboard-value', name: 'shout', properties: { variableName: 'last', value: 'shout' } },
+        { id: 'attack', type: 'cooldown', name: 'attack', properties: { cooldownTime: 1 }, children: ['strike'] },
+        { id: 'strike', type: 'set-blackboard-value', name: 'strike', properties: { variableName: 'last', value: 'strike' } },
+        { id: 'gamble', type: 'chance', name: 'gamble', properties: { successChance: 0 }, children: ['win'] },
+        { id: 'win', type: 'set-blackboard-value', name: 'win', properties: { variableName: 'last', value: 'win' } }
+    ],
+    blackboard: [
+        { name: 'hp', type: 'number', value: 100 },
+        { name: 'alert', type: 'boolean', value: false },
+        { name: 'last', type: 'string', value: '' }
+    ],
+    metadata: { updatePeriod: 0 }
+};
+
+function createTree(): BehaviorTree<any> {
+    const tree = BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+    tree.setTickExplanationEnabled(true);
+    return tree;
+}
+
+function tickTimes(tree: BehaviorTree<any>, times: number): TickExplanation {
+    for (let i = 0; i < times; i++) {
+        tree.tick(0.1);
+    }
+    return tree.explainLastTick()!;
+}
+
+describe('执行说明测试', () => {
+    test('应该返回访问的节点树和不满足的黑板比较条件', () => {
+        const tree = BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+        tree.tick(0.1);
+        expect(tree.explainLastTick()).toBeNull();
+
+        tree.setTickExplanationEnabled(true);
+        expect(tree.explainLastTick()).toBeNull();
+        const explanation = tickTimes(tree, 1);
+
+        expect(explanation.tickIndex).toBe(1);
+        expect(explanation.root).toMatchObject({
+            id: 'loop',
+            type: 'repeater',
+            previousStatus: TaskStatus.Running,
+            status: TaskStatus.Running,
+            children: [{
+                id: 'brain',
+                children: [{ id: 'guard', type: 'conditional-decorator', name: '警戒', status: TaskStatus.Failure }]
+            }]
+        });
+        expect(explanation.failedConditions.map(node => node.id)).toEqual(['guard']);
+        expect(explanation.failedConditions[0]!.details).toEqual({
+            kind: 'condition',
+            blocked: true,
+            condition: {
+                kind: 'comparison',
+                variable: 'alert',
+                operator: CompareOperator.Equal,
+                left: false,
+                right: true,
+                passed: false
+            }
+        });
+        // 条件装饰器只作为失败的条件列出一次
+        expect(explanation.blockedDecorators.map(node => node.id)).toEqual(['guard']);
+        expect(explanation.summary).toBe([
+            '第1次执行: loop → Running',
+            '条件不满足: 警戒[guard] (alert=false equal true)'
+        ].join('\n'));
+
+        tree.setTickExplanationEnabled(false);
+        expect(tree.explainLastTick()).toBeNull();
+        expect(tree.hasObservers()).toBe(false);
+    });
+
+    test('应该说明包装为节点的黑板比较条件的左右两侧的值', () => {
+        const tree = createTree();
+        const explanation = tickTimes(tree, 1);
+
+        const flee = explanation.root!.children[0]!.children[0]!;
+        expect(flee).toMatchObject({ id: 'flee', conditional: true, status: TaskStatus.Failure });
+        expect(flee.details).toEqual({
+            kind: 'comparison',
+            variable: 'hp',
+            operator: CompareOperator.Less,
+            left: 100,
+            right: 30,
+            passed: false
+        });
+        expect(explanation.failedConditions).toEqual([flee]);
+        expect(explanation.summary).toContain('条件不满足: flee (hp=100 less 30)');
+
+        tree.getBlackboard().setValue('hp', 10);
+        tree.reset();
+        expect(tickTimes(tree, 1).failedConditions).toEqual([]);
+        expect(tree.explainLastTick()!.root!.children[0]!.children[0]!.details).toMatchObject({ left: 10, passed: true });
+    });
+
+    test('应该包含装饰器执行的子节点', () => {
+        const tree = createTree();
+
+        // 第2次执行时冷却结束，执行攻击
+        const explanation = tickTimes(tree, 3);
+        expect(explanation.tickIndex).toBe(2);
+        expect(explanation.root!.children[0]!.children).toMatchObject([{
+            id: 'attack',
+            status: TaskStatus.Success,
+            details: { kind: 'cooldown', blocked: false },
+            children: [{ id: 'strike', previousStatus: TaskStatus.Invalid, status: TaskStatus.Success }]
+        }]);
+        expect(explanation.blockedDecorators).toEqual([]);
+    });
+
+    test('应该说明因冷却和概率检查而未执行子节点的装饰器', () => {
+        const tree = createTree();
+
+        // 第2次执行攻击后进入冷却，第5次执行时仍在冷却中
+        const cooldown = tickTimes(tree, 6);
+        expect(cooldown.tickIndex).toBe(5);
+        expect(cooldown.blockedDecorators.map(node => node.id)).toEqual(['attack']);
+        const details = cooldown.blockedDecorators[0]!.details!;
+        expect(details).toMatchObject({ kind: 'cooldown', blocked: true, cooldownTime: 1 });
+        expect(details.kind === 'cooldown' && details.remaining).toBeCloseTo(0.7);
+        expect(cooldown.summary).toContain('装饰器阻止执行: attack (冷却剩余0.70秒/1秒)');
+
+        const chance = tickTimes(tree, 1);
+        expect(chance.status).toBe(TaskStatus.Running);
+        expect(chance.root!.children[0]).toMatchObject({ id: 'brain', status: TaskStatus.Failure });
+        expect(chance.blockedDecorators[0]).toMatchObject({
+            id: 'gamble',
+            details: { kind: 'chance', blocked: true, chance: 0 }
+        });
+        expect(chance.summary).toMatch(/装饰器阻止执行: gamble \(随机数0\.\d{3} > 概率0\)/);
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * TreeClock 测试
+ *
+ * 测试行为树时钟的推进、时间缩放以及基于时间的节点使用行为树时钟计时
+ */
+import { TreeClock, getClock, systemClock } from '../../behaviourTree/TreeClock';
+import { BehaviorTree } from '../../behaviourTree/BehaviorTree';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { WaitAction } from '../../behaviourTree/actions/WaitAction';
+import { ExecuteAction } from '../../behaviourTree/actions/ExecuteAction';
+import { AsyncAction } from '../../behaviourTree/actions/AsyncAction';
+import { CooldownDecorator } from '../../behaviourTree/decorators/CooldownDecorator';
+import { TimeoutDecorator } from '../../behaviourTree/decorators/TimeoutDecorator';
+import { TimeManager } from '../../core/TimeManager';
+
+describe('TreeClock 测试', () => {
+    describe('时钟', () => {
+        test('应该按时间缩放推进', () => {
+            const clock = new TreeClock(10);
+            clock.advance(0.5);
+            expect(clock.now()).toBe(10.5);
+
+            clock.timeScale = 0.5;
+            clock.advance(1);
+            expect(clock.now()).toBe(11);
+            expect(clock.deltaTime).toBe(0.5);
+
+            clock.reset();
+            expect(clock.now()).toBe(0);
+            expect(clock.deltaTime).toBe(0);
+        });
+
+        test('应该拒绝无效的时间差和时间缩放', () => {
+            const clock = new TreeClock();
+            expect(() => clock.advance(-1)).toThrow('时间差必须是非负有限数');
+            expect(() => clock.advance(NaN)).toThrow('时间差必须是非负有限数');
+            expect(() => { clock.timeScale = -1; }).toThrow('时间缩放比例必须是非负有限数');
+        });
+
+        test('上下文中没有时钟时应该使用系统时钟', () => {
+            const clock = new TreeClock();
+            expect(getClock({ clock })).toBe(clock);
+            expect(getClock({})).toBe(systemClock);
+            expect(getClock(undefined)).toBe(systemClock);
+        });
+    });
+
+    describe('行为树时钟', () => {
+        afterEach(() => {
+            TimeManager.reset();
+        });
+
+        test('行为树应该将时钟注入上下文并按deltaTime推进', () => {
+            const context: any = {};
+            const tree = new BehaviorTree(context, new WaitAction<any>(1), 0);
+
+            expect(context.clock).toBe(tree.getClock());
+
+            tree.tick(0.5);
+            expect(tree.getRoot().status).toBe(TaskStatus.Running);
+            tree.tick(0.5);
+            tree.tick(0.5);
+            expect(tree.getRoot().status).toBe(TaskStatus.Success);
+            expect(tree.getClock().now()).toBe(1.5);
+        });
+
+        test('WaitAction应该遵循时间缩放', () => {
+            const tree = new BehaviorTree<any>({}, new WaitAction<any>(1), 0);
+            tree.getClock().timeScale = 0.5;
+
+            tree.tick(0.5);
+            for (let i = 0; i < 3; i++) {
+                tree.tick(0.5);
+            }
+            expect(tree.getRoot().status).toBe(TaskStatus.Running);
+
+            tree.tick(0.5);
+            expect(tree.getRoot().status).toBe(TaskStatus.Success);
+        });
+
+        test('暂停的行为树时钟不应该推进', () => {
+            const tree = new BehaviorTree<any>({}, new WaitAction<any>(1), 0);
+            tree.tick(0.25);
+            tree.pause();
+            tree.tick(10);
+            tree.tick(10);
+            tree.resume();
+
+            expect(tree.getClock().now()).toBe(0.25);
+        });
+
+        test('未提供deltaTime时应该使用TimeManager的时间缩放', () => {
+            TimeManager.initialize();
+            TimeManager.setTimeScale(0.5);
+            TimeManager.updateFrame(0.1);
+
+            const tree = new BehaviorTree<any>({}, new WaitAction<any>(1), 0);
+            tree.tick();
+            expect(tree.getClock().now()).toBeCloseTo(0.05, 6);
+        });
+
+        test('CooldownDecorator应该按行为树时钟冷却', () => {
+            let executions = 0;
+            const cooldown = new CooldownDecorator<any>(2);
+            cooldown.child = new ExecuteAction<any>(() => {
+                executions++;
+                return TaskStatus.Success;
+            });
+            const tree = new BehaviorTree<any>({}, cooldown, 0);
+
+            // 模拟10秒，每0.5秒更新一次
+            for (let i = 0; i < 20; i++) {
+                tree.tick(0.5);
+            }
+
+            expect(executions).toBe(5);
+            expect(cooldown.getRemainingCooldownTime()).toBe(0.5);
+        });
+
+        test('TimeoutDecorator应该按行为树时钟超时', () => {
+            const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+            const timeout = new TimeoutDecorator<any>(1);
+            timeout.child = new ExecuteAction<any>(() => TaskStatus.Running);
+            const tree = new BehaviorTree<any>({}, timeout, 0);
+            tree.getClock().timeScale = 0.25;
+
+            for (let i = 0; i < 4; i++) {
+                tree.tick(1);
+            }
+            expect(timeout.status).toBe(TaskStatus.Running);
+            expect(timeout.getElapsedTime()).toBe(0.75);
+
+            tree.tick(1);
+            expect(timeout.status).toBe(TaskStatus.Failure);
+            warnSpy.mockRestore();
+        });
+
+        test('AsyncAction的超时应该按行为树时钟计时', () => {
+            const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+            const action = new AsyncAction<any>(() => new Promise(() => {}), { timeout: 2 });
+            const tree = new BehaviorTree<any>({}, action, 0);
+
+            tree.tick(1);
+            tree.tick(1);
+            tree.tick(0.5);
+            expect(action.status).toBe(TaskStatus.Running);
+
+            tree.tick(0.5);
+            expect(action.status).toBe(TaskStatus.Failure);
+            warnSpy.mockRestore();
+        });
+    });
+});
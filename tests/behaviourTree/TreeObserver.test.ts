@@ -0,0 +1,206 @@
+/**
+ * 行为树观察者测试
+ *
+ * 测试BehaviorTree.addObserver()分发的更新、根节点执行、节点执行、状态变化和中止事件
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../behaviourTree/Behavior';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { Sequence } from '../../behaviourTree/composites/Sequence';
+import { AlwaysSucceed } from '../../behaviourTree/decorators/AlwaysSucceed';
+import { ITreeObserver } from '../../behaviourTree/TreeObserver';
+
+/**
+ * 执行指定次数后成功的动作
+ */
+class StepAction extends Behavior<any> {
+    public ticks = 0;
+
+    constructor(private readonly _steps: number) {
+        super();
+    }
+
+    public override onStart(): void {
+        this.ticks = 0;
+    }
+
+    public update(): TaskStatus {
+        return ++this.ticks >= this._steps ? TaskStatus.Success : TaskStatus.Running;
+    }
+}
+
+function createManualTree() {
+    const root = new Sequence<any>();
+    const first = new StepAction(1);
+    const second = new StepAction(3);
+    root.addChild(first);
+    root.addChild(second);
+    return { tree: new BehaviorTree<any>({}, root, 0), root, first, second };
+}
+
+/**
+ * 记录所有事件的观察者
+ */
+function createLogger(log: string[]): ITreeObserver<any> {
+    return {
+        onTickStart: (e) => log.push(`tick-start ${e.tickIndex}`),
+        onTickEnd: (e) => log.push(`tick-end ${e.tickIndex} ${TaskStatus[e.status]}`),
+        onNodeStart: (e) => log.push(`start ${e.id}${e.starting ? ' *' : ''}`),
+        onNodeEnd: (e) => log.push(`end ${e.id} ${TaskStatus[e.status]}`),
+        onStatusChange: (e) => log.push(`change ${e.path} ${TaskStatus[e.previousStatus]}->${TaskStatus[e.status]}`),
+        onAbort: (e) => log.push(`abort ${e.id}`)
+    };
+}
+
+describe('行为树观察者测试', () => {
+    test('应该按执行顺序分发根节点和节点事件', () => {
+        const { tree } = createManualTree();
+        const log: string[] = [];
+        tree.addObserver(createLogger(log));
+
+        tree.tick(0.1);
+
+        expect(log).toEqual([
+            'tick-start 0',
+            'start root *',
+            'start root/0 *',
+            'end root/0 Success',
+            'change root/0 Invalid->Success',
+            'end root Running',
+            'change root Invalid->Running',
+            'tick-end 0 Running'
+        ]);
+
+        log.length = 0;
+        tree.tick(0.1);
+        expect(log).toEqual([
+            'tick-start 1',
+            'start root',
+            'start root/1 *',
+            'end root/1 Running',
+            'change root/1 Invalid->Running',
+            'end root Running',
+            'tick-end 1 Running'
+        ]);
+    });
+
+    test('节点结束事件应该包含耗时，中止正在运行的节点时应该分发中止事件', () => {
+        const { tree } = createManualTree();
+        const log: string[] = [];
+        const durations: number[] = [];
+        tree.addObserver(createLogger(log));
+        tree.addObserver({ onNodeEnd: (e) => durations.push(e.duration) });
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+        expect(durations).toHaveLength(4);
+        expect(durations.every(duration => duration >= 0)).toBe(true);
+
+        log.length = 0;
+        tree.reset();
+        expect(log).toEqual(['abort root/1', 'abort root']);
+    });
+
+    test('装饰器的子节点应该分发节点事件', () => {
+        const decorator = new AlwaysSucceed<any>();
+        decorator.child = new StepAction(2);
+        const tree = new BehaviorTree<any>({}, decorator, 0);
+        const log: string[] = [];
+        tree.addObserver(createLogger(log));
+
+        tree.tick(0.1);
+        tree.reset();
+        expect(log).toEqual([
+            'tick-start 0',
+            'start root *',
+            'start root/0 *',
+            'end root/0 Running',
+            'change root/0 Invalid->Running',
+            'end root Running',
+            'change root Invalid->Running',
+            'tick-end 0 Running',
+            'abort root/0',
+            'abort root'
+        ]);
+    });
+
+    test('每次调用tick()都应该分发更新事件，暂停时不分发', () => {
+        const tree = new BehaviorTree<any>({}, new StepAction(5), 0.2);
+        const log: string[] = [];
+        tree.addObserver({
+            onUpdateStart: (e) => log.push(`update-start ${e.deltaTime}`),
+            onUpdateEnd: (e) => log.push(`update-end ${e.deltaTime}`),
+            onTickStart: (e) => log.push(`tick-start ${e.tickIndex}`)
+        });
+
+        tree.tick(0.1);
+        tree.tick(0.15);
+        tree.pause();
+        tree.tick(0.1);
+        expect(log).toEqual([
+            'update-start 0.1',
+            'update-end 0.1',
+            'update-start 0.15',
+            'tick-start 0',
+            'update-end 0.15'
+        ]);
+    });
+
+    test('通过配置创建的节点应该使用配置ID，替换节点树后应该重新绑定', () => {
+        const config: BehaviorTreeJSONConfig = {
+            nodes: [
+                { id: 'main', type: 'sequence', name: 'main', children: ['set'] },
+                { id: 'set', type: 'set-blackboard-value', name: 'set', properties: { variableName: 'flag', value: true } }
+            ],
+            blackboard: [{ name: 'flag', type: 'boolean', value: false }],
+            metadata: { updatePeriod: 0 }
+        };
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config);
+        const changes: string[] = [];
+        tree.addObserver({ onStatusChange: (e) => changes.push(`${e.id}@${e.path}`) });
+
+        tree.tick(0.1);
+        expect(changes).toEqual(['set@root/0', 'main@root']);
+
+        changes.length = 0;
+        tree.reload({ ...config, nodes: [{ ...config.nodes[0]!, id: 'main2' }, config.nodes[1]!] });
+        tree.tick(0.1);
+        expect(changes).toEqual(['set@root/0', 'main2@root']);
+    });
+
+    test('移除最后一个观察者后应该解除所有节点的绑定', () => {
+        const { tree, root, first, second } = createManualTree();
+        const observer: ITreeObserver<any> = { onNodeStart: jest.fn() };
+
+        expect(tree.addObserver(observer)).toBe(true);
+        expect(tree.addObserver(observer)).toBe(false);
+        expect(tree.hasObservers()).toBe(true);
+        expect(second.getObserverBinding()!.path).toBe('root/1');
+
+        expect(tree.removeObserver(observer)).toBe(true);
+        expect(tree.removeObserver(observer)).toBe(false);
+        expect(tree.hasObservers()).toBe(false);
+        expect([root, first, second].every(node => node.getObserverBinding() === null)).toBe(true);
+
+        tree.tick(0.1);
+        expect(observer.onNodeStart).not.toHaveBeenCalled();
+    });
+
+    test('观察者抛出的错误不应该影响行为树执行', () => {
+        const { tree, second } = createManualTree();
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const statuses: TaskStatus[] = [];
+        tree.addObserver({ onNodeStart: () => { throw new Error('observer error'); } });
+        tree.addObserver({ onTickEnd: (e) => statuses.push(e.status) });
+
+        for (let i = 0; i < 4; i++) {
+            tree.tick(0.1);
+        }
+
+        expect(second.ticks).toBe(3);
+        expect(statuses).toEqual([TaskStatus.Running, TaskStatus.Running, TaskStatus.Running, TaskStatus.Success]);
+        expect(consoleSpy).toHaveBeenCalled();
+        consoleSpy.mockRestore();
+    });
+});
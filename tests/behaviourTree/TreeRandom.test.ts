@@ -0,0 +1,128 @@
+/**
+ * 行为树随机数流测试
+ *
+ * 测试随机节点使用行为树的随机数流，使相同种子的行为树做出相同的决策
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../behaviourTree/BehaviorTree';
+import { getRandom } from '../../behaviourTree/TreeRandom';
+import { TaskStatus } from '../../behaviourTree/TaskStatus';
+import { Random, RandomStream } from '../../core/Random';
+
+/**
+ * 随机选择一个值，然后以50%的概率计数，否则以30%的概率直接成功
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'root', type: 'sequence', name: 'root', children: ['pick', 'maybe'] },
+        { id: 'pick', type: 'random-selector', name: 'pick', children: ['a', 'b', 'c'] },
+        { id: 'a', type: 'set-blackboard-value', name: 'a', properties: { variableName: 'picked', value: 'a' } },
+        { id: 'b', type: 'set-blackboard-value', name: 'b', properties: { variableName: 'picked', value: 'b' } },
+        { id: 'c', type: 'set-blackboard-value', name: 'c', properties: { variableName: 'picked', value: 'c' } },
+        { id: 'maybe', type: 'selector', name: 'maybe', children: ['chance', 'roll', 'skip'] },
+        { id: 'chance', type: 'chance', name: 'chance', properties: { successChance: 0.5 }, children: ['count'] },
+        {
+            id: 'count',
+            type: 'math-blackboard-operation',
+            name: 'count',
+            properties: { targetVariable: 'count', operand1Variable: 'count', operand2: 1, operation: 'add' }
+        },
+        { id: 'roll', type: 'condition-random', name: 'roll', properties: { successProbability: 0.3 } },
+        { id: 'skip', type: 'set-blackboard-value', name: 'skip', properties: { variableName: 'picked', value: '-' } }
+    ],
+    blackboard: [
+        { name: 'picked', type: 'string', value: '' },
+        { name: 'count', type: 'number', value: 0 }
+    ],
+    metadata: { updatePeriod: 0 }
+};
+
+/**
+ * 执行行为树并记录每次完成后的黑板状态
+ */
+function record(tree: BehaviorTree<any>, runs: number, onTick?: () => void): string[] {
+    const history: string[] = [];
+    const blackboard = tree.getBlackboard();
+    while (history.length < runs) {
+        tree.tick(0.1);
+        onTick?.();
+        if (tree.getRoot().status === TaskStatus.Success) {
+            history.push(`${blackboard.getValue('picked')}:${blackboard.getValue('count')}`);
+        }
+    }
+    return history;
+}
+
+describe('行为树随机数流测试', () => {
+    test('RandomStream应该可复现并支持保存和恢复状态', () => {
+        const a = new RandomStream(42);
+        const b = new RandomStream(42);
+        const sequence = Array.from({ length: 5 }, () => a.integer(0, 100));
+        expect(Array.from({ length: 5 }, () => b.integer(0, 100))).toEqual(sequence);
+
+        const state = a.getState();
+        const next = [a.value(), a.gaussian(), a.choice(['x', 'y', 'z'])];
+        a.setState(state);
+        expect([a.value(), a.gaussian(), a.choice(['x', 'y', 'z'])]).toEqual(next);
+    });
+
+    test('静态Random应该委托给默认随机数流', () => {
+        Random.setSeed(7);
+        const expected = new RandomStream(7);
+        expect(Random.value()).toBe(expected.value());
+        expect(Random.getStreamState()).toEqual(expected.getState());
+        expect(getRandom({})).toBe(Random.getDefaultStream());
+    });
+
+    test('创建行为树不应该消耗全局随机数', () => {
+        Random.setSeed(1);
+        const expected = new RandomStream(1);
+
+        const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config);
+        tree.reload(config);
+        expect(Random.value()).toBe(expected.value());
+
+        // 未指定种子的行为树使用各自不同的随机数流
+        const other = BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+        expect(other.getRandom().getState()).not.toEqual(tree.getRandom().getState());
+        expect(Random.value()).toBe(expected.value());
+    });
+
+    test('相同种子构建的行为树应该做出相同的决策', () => {
+        const first = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, {}, { randomSeed: 2024 }).tree;
+        const second = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, {}, { randomSeed: 2024 }).tree;
+
+        // 全局Random的调用不应该影响行为树的决策
+        const history = record(first, 30);
+        expect(record(second, 30, () => Random.value())).toEqual(history);
+
+        // 30次执行中应该出现不同的选择和计数
+        expect(new Set(history.map(entry => entry.split(':')[0])).size).toBeGreaterThan(1);
+        expect(first.getBlackboard().getValue('count')).toBeGreaterThan(0);
+        expect(first.getBlackboard().getValue('count')).toBeLessThan(30);
+    });
+
+    test('恢复随机数流状态后应该重现相同的决策', () => {
+        const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, {}, { randomSeed: 1 });
+        record(tree, 5);
+
+        const state = tree.getRandom().getState();
+        const count = blackboard.getValue<number>('count');
+        const history = record(tree, 10);
+
+        tree.getRandom().setState(state);
+        blackboard.setValue('count', count);
+        expect(record(tree, 10)).toEqual(history);
+    });
+
+    test('热重载后应该继续使用行为树的随机数流', () => {
+        const { tree, context } = BehaviorTreeBuilder.fromBehaviorTreeConfig(config, undefined, { randomSeed: 3 });
+        const random = tree.getRandom();
+        const clock = tree.getClock();
+
+        tree.reload(config);
+
+        expect(context.random).toBe(random);
+        expect(context.clock).toBe(clock);
+    });
+});
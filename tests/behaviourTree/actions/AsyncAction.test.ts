@@ -0,0 +1,188 @@
+/**
+ * AsyncAction 测试
+ *
+ * 测试异步动作节点的完成跟踪、取消和超时
+ */
+import { AsyncAction, actionResultToTaskStatus } from '../../../behaviourTree/actions/AsyncAction';
+import { BehaviorTreeBuilder } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { EventRegistry, ActionResult } from '../../../behaviourTree/events/EventRegistry';
+import { Sequence } from '../../../behaviourTree/composites/Sequence';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { TestUtils, TestContext } from '../../utils/TestUtils';
+
+/**
+ * 创建可以手动完成的Promise
+ */
+function createDeferred<R>() {
+  let resolve!: (value: R) => void;
+  let reject!: (reason?: unknown) => void;
+  const promise = new Promise<R>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * 等待微任务队列执行完毕
+ */
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AsyncAction 测试', () => {
+  let context: TestContext;
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+  });
+
+  test('Promise完成之前应该返回Running，完成后映射为Success', async () => {
+    const deferred = createDeferred<ActionResult>();
+    const action = new AsyncAction<TestContext>(() => deferred.promise);
+
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+    expect(action.isPending()).toBe(true);
+
+    deferred.resolve('success');
+    await flushPromises();
+
+    expect(action.tick(context)).toBe(TaskStatus.Success);
+    expect(action.isPending()).toBe(false);
+  });
+
+  test('Promise被拒绝时应该返回Failure', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const action = new AsyncAction<TestContext>(() => Promise.reject(new Error('boom')));
+
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+    await flushPromises();
+
+    expect(action.tick(context)).toBe(TaskStatus.Failure);
+    consoleSpy.mockRestore();
+  });
+
+  test('同步结果应该立即映射为对应状态', () => {
+    const action = new AsyncAction<TestContext>(() => false);
+    expect(action.tick(context)).toBe(TaskStatus.Failure);
+  });
+
+  test('处理函数只在每次执行开始时调用一次', async () => {
+    const deferred = createDeferred<ActionResult>();
+    const handler = jest.fn(() => deferred.promise);
+    const action = new AsyncAction<TestContext>(handler);
+
+    action.tick(context);
+    action.tick(context);
+    action.tick(context);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    deferred.resolve(true);
+    await flushPromises();
+    action.tick(context);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('节点被中止时应该触发AbortSignal并忽略迟到的结果', async () => {
+    const first = createDeferred<ActionResult>();
+    const second = createDeferred<ActionResult>();
+    const pending = [first, second];
+    const signals: AbortSignal[] = [];
+    const action = new AsyncAction<TestContext>((_ctx, signal) => {
+      signals.push(signal);
+      return pending.shift()!.promise;
+    });
+
+    action.tick(context);
+    action.abort(context);
+
+    expect(signals[0]!.aborted).toBe(true);
+    expect(action.isPending()).toBe(false);
+
+    // 重新开始执行后，被取消操作的迟到结果不应影响新的执行
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+    first.resolve('failure');
+    await flushPromises();
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+
+    second.resolve('success');
+    await flushPromises();
+    expect(action.tick(context)).toBe(TaskStatus.Success);
+  });
+
+  test('行为树重置时应该取消挂起的异步操作', () => {
+    let receivedSignal: AbortSignal | null = null;
+    const tree = BehaviorTreeBuilder.begin(context)
+      .sequence()
+        .asyncAction((_ctx, signal) => {
+          receivedSignal = signal;
+          return new Promise(() => {});
+        })
+      .endComposite()
+      .build(0);
+
+    tree.tick();
+    expect(receivedSignal!.aborted).toBe(false);
+
+    tree.reset();
+    expect(receivedSignal!.aborted).toBe(true);
+  });
+
+  test('超时后应该返回Failure并取消操作', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const nowSpy = jest.spyOn(performance, 'now');
+    let receivedSignal: AbortSignal | null = null;
+
+    nowSpy.mockReturnValue(0);
+    const action = new AsyncAction<TestContext>((_ctx, signal) => {
+      receivedSignal = signal;
+      return new Promise(() => {});
+    }, { timeout: 1 });
+
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+
+    nowSpy.mockReturnValue(500);
+    expect(action.tick(context)).toBe(TaskStatus.Running);
+
+    nowSpy.mockReturnValue(1000);
+    expect(action.tick(context)).toBe(TaskStatus.Failure);
+    expect(receivedSignal!.aborted).toBe(true);
+
+    nowSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test('actionResultToTaskStatus应该映射各种结果', () => {
+    expect(actionResultToTaskStatus('success')).toBe(TaskStatus.Success);
+    expect(actionResultToTaskStatus('FAILURE')).toBe(TaskStatus.Failure);
+    expect(actionResultToTaskStatus('running')).toBe(TaskStatus.Running);
+    expect(actionResultToTaskStatus(true)).toBe(TaskStatus.Success);
+    expect(actionResultToTaskStatus(false)).toBe(TaskStatus.Failure);
+    expect(actionResultToTaskStatus(TaskStatus.Failure)).toBe(TaskStatus.Failure);
+  });
+
+  describe('event-action 节点', () => {
+    test('异步事件处理器完成后节点应该完成', async () => {
+      const deferred = createDeferred<ActionResult>();
+      const eventRegistry = new EventRegistry();
+      eventRegistry.registerAction('load', () => deferred.promise);
+
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [
+          { id: 'root', type: 'sequence', name: 'root', children: ['load'] },
+          { id: 'load', type: 'event-action', name: 'load', properties: { eventName: 'load' } }
+        ]
+      }, { eventRegistry });
+
+      const root = tree.getRoot() as Sequence<any>;
+      tree.updatePeriod = 0;
+      tree.tick();
+      expect(root.status).toBe(TaskStatus.Running);
+
+      deferred.resolve('failure');
+      await flushPromises();
+
+      tree.tick();
+      expect(root.status).toBe(TaskStatus.Failure);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * BehaviorTreeReference 测试
+ *
+ * 测试子行为树引用的状态传播、同步执行、中止、黑板作用域和端口映射
+ */
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../../behaviourTree/Behavior';
+import { BehaviorTreeReference } from '../../../behaviourTree/actions/BehaviorTreeReference';
+import {
+  BehaviorTreeBuilder,
+  BehaviorTreeJSONConfig,
+  BlackboardVariableConfig,
+  ExecutionContext,
+  IBehaviorTreeLibrary
+} from '../../../behaviourTree/BehaviorTreeBuilder';
+import { Sequence } from '../../../behaviourTree/composites/Sequence';
+import { WaitAction } from '../../../behaviourTree/actions/WaitAction';
+import { Blackboard, BlackboardValueType } from '../../../behaviourTree/Blackboard';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { TestUtils, TestContext } from '../../utils/TestUtils';
+
+/**
+ * 可以控制返回状态并记录中止的节点
+ */
+class ControlledAction extends Behavior<any> {
+  public returnStatus: TaskStatus = TaskStatus.Running;
+  public abortCount: number = 0;
+
+  update(_context: any): TaskStatus {
+    return this.returnStatus;
+  }
+
+  override onAbort(_context: any): void {
+    this.abortCount++;
+  }
+}
+
+/**
+ * 基于Map的简单子树库
+ */
+function createLibrary(configs: Record<string, BehaviorTreeJSONConfig>): IBehaviorTreeLibrary {
+  return { resolve: (path: string) => configs[path] };
+}
+
+describe('BehaviorTreeReference 测试', () => {
+  let context: TestContext;
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+  });
+
+  test('应该返回子树根节点的实际状态', () => {
+    const action = new ControlledAction();
+    const childTree = new BehaviorTree<TestContext>(context, action, 0);
+    const reference = new BehaviorTreeReference<TestContext>(childTree);
+
+    expect(reference.tick(context)).toBe(TaskStatus.Running);
+
+    action.returnStatus = TaskStatus.Failure;
+    expect(reference.tick(context)).toBe(TaskStatus.Failure);
+  });
+
+  test('应该忽略子树自身的updatePeriod同步执行', () => {
+    const action = TestUtils.createSuccessBehavior<TestContext>();
+    const childTree = new BehaviorTree<TestContext>(context, action, 10);
+    const reference = new BehaviorTreeReference<TestContext>(childTree);
+
+    expect(reference.tick(context)).toBe(TaskStatus.Success);
+    expect(action.updateCallCount).toBe(1);
+  });
+
+  test('被父树中止时应该中止子树中正在运行的节点', () => {
+    const action = new ControlledAction();
+    const childRoot = new Sequence<TestContext>();
+    childRoot.addChild(action);
+    const reference = new BehaviorTreeReference<TestContext>(new BehaviorTree<TestContext>(context, childRoot, 0));
+
+    const parentRoot = new Sequence<TestContext>();
+    parentRoot.addChild(reference);
+    const parentTree = new BehaviorTree<TestContext>(context, parentRoot, 0);
+
+    parentTree.tick();
+    expect(action.status).toBe(TaskStatus.Running);
+
+    parentTree.reset();
+    expect(action.abortCount).toBe(1);
+    expect(childRoot.status).toBe(TaskStatus.Invalid);
+  });
+
+  test('子树应该使用父树的时钟', () => {
+    const wait = new WaitAction<any>(1);
+    const reference = new BehaviorTreeReference<any>(new BehaviorTree<any>({}, wait, 0));
+    const parentTree = new BehaviorTree<any>({}, reference, 0);
+
+    parentTree.tick(0.5);
+    parentTree.tick(0.5);
+    expect(reference.getChildTree().getClock()).toBe(parentTree.getClock());
+    expect(reference.status).toBe(TaskStatus.Running);
+
+    parentTree.tick(0.5);
+    expect(reference.status).toBe(TaskStatus.Success);
+  });
+
+  describe('JSON behavior-tree-reference 节点', () => {
+    const childConfig: BehaviorTreeJSONConfig = {
+      nodes: [
+        { id: 'child-root', type: 'sequence', name: 'child', children: ['set'] },
+        {
+          id: 'set',
+          type: 'set-blackboard-value',
+          name: 'set',
+          properties: { variableName: 'hp', value: 50 }
+        }
+      ],
+      blackboard: [{ name: 'hp', type: 'number', value: 100 }]
+    };
+
+    function buildParent(shareBlackboard: boolean) {
+      const parentConfig: BehaviorTreeJSONConfig = {
+        nodes: [
+          { id: 'root', type: 'sequence', name: 'root', children: ['ref'] },
+          {
+            id: 'ref',
+            type: 'behavior-tree-reference',
+            name: 'ref',
+            properties: { subTreePath: 'child', shareBlackboard }
+          }
+        ],
+        blackboard: [{ name: 'hp', type: 'number', value: 100 }]
+      };
+
+      return BehaviorTreeBuilder.fromBehaviorTreeConfig<ExecutionContext>(parentConfig, {
+        treeLibrary: createLibrary({ child: childConfig })
+      });
+    }
+
+    test('共享黑板时子树应该修改父树的黑板', () => {
+      const { tree, blackboard } = buildParent(true);
+      tree.tickImmediate();
+
+      expect(tree.getRoot().status).toBe(TaskStatus.Success);
+      expect(blackboard.getValue('hp')).toBe(50);
+    });
+
+    test('独立黑板时子树不应该修改父树的黑板', () => {
+      const { tree, blackboard, context: parentContext } = buildParent(false);
+      tree.tickImmediate();
+
+      const reference = (tree.getRoot() as any)._children[0] as BehaviorTreeReference<any>;
+      expect(reference.getChildTree().getBlackboard().getValue('hp')).toBe(50);
+      expect(blackboard.getValue('hp')).toBe(100);
+      expect(parentContext.blackboard).toBe(blackboard);
+    });
+
+    test('未找到子树时应该构建失败', () => {
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [
+          { id: 'ref', type: 'behavior-tree-reference', name: 'ref', properties: { subTreePath: 'missing' } }
+        ]
+      }, { treeLibrary: createLibrary({}) })).toThrow('未找到子行为树: missing');
+    });
+
+    test('子树之间存在循环引用时应该抛出包含引用链的错误', () => {
+      const reference = (subTreePath: string): BehaviorTreeJSONConfig => ({
+        nodes: [{ id: 'ref', type: 'behavior-tree-reference', name: 'ref', properties: { subTreePath } }]
+      });
+      const library = createLibrary({
+        self: reference('self'),
+        a: reference('b'),
+        b: reference('a')
+      });
+
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig(reference('self'), { treeLibrary: library }))
+        .toThrow('检测到子行为树循环引用: self -> self');
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig(reference('a'), { treeLibrary: library }))
+        .toThrow('检测到子行为树循环引用: a -> b -> a');
+    });
+
+    test('多次引用同一子树不应该被视为循环引用', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig<ExecutionContext>({
+        nodes: [
+          { id: 'root', type: 'sequence', name: 'root', children: ['first', 'second'] },
+          { id: 'first', type: 'behavior-tree-reference', name: 'first', properties: { subTreePath: 'child' } },
+          { id: 'second', type: 'behavior-tree-reference', name: 'second', properties: { subTreePath: 'child' } }
+        ]
+      }, { treeLibrary: createLibrary({ child: childConfig }) });
+
+      expect((tree.getRoot() as any)._children).toHaveLength(2);
+    });
+  });
+
+  describe('子树端口映射', () => {
+    /**
+     * 将目标血量减去伤害值，并输出剩余血量的子树
+     */
+    const attackConfig: BehaviorTreeJSONConfig = {
+      nodes: [
+        { id: 'attack-root', type: 'sequence', name: 'attack', children: ['hit'] },
+        {
+          id: 'hit',
+          type: 'execute-action',
+          name: 'hit',
+          properties: {
+            actionCode: "const bb = context.blackboard; bb.setValue('remaining', bb.getValue('targetHp') - bb.getValue('damage')); return Success;"
+          }
+        }
+      ],
+      ports: [
+        { name: 'targetHp', type: 'number', direction: 'input' },
+        { name: 'damage', type: 'number', direction: 'input', defaultValue: 1 },
+        { name: 'remaining', type: 'number', direction: 'output' }
+      ]
+    };
+
+    function buildAttacker(remapping: Record<string, unknown>, blackboard: BlackboardVariableConfig[] = [
+      { name: 'bossHp', type: 'number', value: 100 },
+      { name: 'bossRemaining', type: 'number', value: 0 }
+    ]) {
+      return BehaviorTreeBuilder.fromBehaviorTreeConfig<ExecutionContext>({
+        nodes: [
+          { id: 'root', type: 'sequence', name: 'root', children: ['ref'] },
+          {
+            id: 'ref',
+            type: 'behavior-tree-reference',
+            name: 'ref',
+            properties: { subTreePath: 'attack', remapping: remapping as Record<string, string> }
+          }
+        ],
+        blackboard
+      }, { treeLibrary: createLibrary({ attack: attackConfig }) });
+    }
+
+    test('应该将父树变量和常量复制到输入端口，并在结束时复制输出端口', () => {
+      const { tree, blackboard } = buildAttacker({
+        targetHp: '{{bossHp}}',
+        damage: 30,
+        remaining: '{{bossRemaining}}'
+      });
+
+      expect(tree.tickImmediate()).toBe(TaskStatus.Success);
+      expect(blackboard.getValue('bossRemaining')).toBe(70);
+      expect(blackboard.hasVariable('remaining')).toBe(false);
+    });
+
+    test('未映射的输入端口应该使用默认值', () => {
+      const { tree, blackboard } = buildAttacker({
+        targetHp: '{{bossHp}}',
+        remaining: '{{bossRemaining}}'
+      });
+
+      tree.tickImmediate();
+      expect(blackboard.getValue('bossRemaining')).toBe(99);
+    });
+
+    test('每次重新开始执行时应该重新读取输入', () => {
+      const { tree, blackboard } = buildAttacker({
+        targetHp: '{{bossHp}}',
+        damage: 10,
+        remaining: '{{bossRemaining}}'
+      });
+
+      tree.tickImmediate();
+      blackboard.setValue('bossHp', 50);
+      tree.tickImmediate();
+
+      expect(blackboard.getValue('bossRemaining')).toBe(40);
+    });
+
+    test('子树被中止时不应该复制输出端口', () => {
+      const action = new ControlledAction();
+      const childRoot = new Sequence<TestContext>();
+      childRoot.addChild(action);
+      const childTree = new BehaviorTree<TestContext>(context, childRoot, 0);
+      childTree.getBlackboard().defineVariable('result', BlackboardValueType.String, 'partial');
+
+      const parentBlackboard = new Blackboard();
+      parentBlackboard.defineVariable('result', BlackboardValueType.String, 'none');
+      const parentContext = { ...context, blackboard: parentBlackboard };
+
+      const reference = new BehaviorTreeReference<any>(childTree, [
+        { port: 'result', direction: 'output', parentKey: 'result' }
+      ]);
+
+      reference.tick(parentContext);
+      reference.abort(parentContext);
+      expect(parentBlackboard.getValue('result')).toBe('none');
+
+      action.returnStatus = TaskStatus.Success;
+      reference.tick(parentContext);
+      expect(parentBlackboard.getValue('result')).toBe('partial');
+    });
+
+    test('映射未声明的端口应该构建失败', () => {
+      expect(() => buildAttacker({ armor: 5 })).toThrow('没有声明端口: armor');
+    });
+
+    test('绑定不存在或类型不匹配的父树变量应该构建失败', () => {
+      expect(() => buildAttacker({ targetHp: '{{missing}}' })).toThrow('父树黑板变量不存在: missing');
+      expect(() => buildAttacker(
+        { targetHp: '{{name}}' },
+        [{ name: 'name', type: 'string', value: 'boss' }]
+      )).toThrow('类型 "number" 与父树黑板变量 "name" 的类型 "string" 不匹配');
+    });
+
+    test('输出端口映射常量应该构建失败', () => {
+      expect(() => buildAttacker({ remaining: 5 })).toThrow('输出端口 "remaining" 必须绑定父树黑板变量');
+    });
+  });
+});
@@ -5,6 +5,7 @@
  */
 import { LogAction } from '../../../behaviourTree/actions/LogAction';
 import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { BlackboardValueType } from '../../../behaviourTree/Blackboard';
 import { TestUtils, TestContext } from '../../utils/TestUtils';
 
 describe('LogAction 动作节点测试', () => {
@@ -58,6 +59,28 @@ describe('LogAction 动作节点测试', () => {
       expect(consoleSpy).not.toHaveBeenCalled();
     });
 
+    test('应该替换文本中的黑板变量，构造时可以指定输出错误日志', () => {
+      context.blackboard.defineVariable('hp', BlackboardValueType.Number, 30);
+      const logAction = new LogAction<TestContext>('hp={{hp}}, mp={{mp}}', 'error');
+
+      logAction.tick(context);
+
+      expect(logAction.text).toBe('hp={{hp}}, mp={{mp}}');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('hp=30, mp={{mp}}');
+    });
+
+    test('上下文提供log函数时应该转发日志和日志级别', () => {
+      const log = jest.fn();
+      const logAction = new LogAction<TestContext & { log: typeof log }>('发现敌人', 'warn');
+      logAction.prefix = '[AI] ';
+
+      logAction.tick({ ...context, log });
+
+      expect(consoleSpy).toHaveBeenCalledWith('[AI] 发现敌人');
+      expect(log).toHaveBeenCalledWith('发现敌人', 'warn');
+      expect(logAction.isError).toBe(false);
+    });
+
     test('应该总是返回成功状态', () => {
       const logAction = new LogAction<TestContext>('测试');
 
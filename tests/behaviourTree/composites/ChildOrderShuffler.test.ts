@@ -0,0 +1,63 @@
+/**
+ * ChildOrderShuffler 测试
+ *
+ * 测试RandomSelector和RandomSequence共用的子节点洗牌、恢复原始顺序以及顺序的保存和恢复
+ */
+import { ChildOrderShuffler } from '../../../behaviourTree/composites/ChildOrderShuffler';
+import { RandomSelector } from '../../../behaviourTree/composites/RandomSelector';
+import { RandomSequence } from '../../../behaviourTree/composites/RandomSequence';
+import { Behavior } from '../../../behaviourTree/Behavior';
+import { RandomStream } from '../../../core/Random';
+import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
+
+function createChildren(count: number): MockBehavior<TestContext>[] {
+  return Array.from({ length: count }, (_, i) => TestUtils.createSuccessBehavior<TestContext>(`Child${i}`));
+}
+
+describe('ChildOrderShuffler 测试', () => {
+  test('应该从原始顺序洗牌，相同的随机数流状态得到相同的顺序', () => {
+    const shuffler = new ChildOrderShuffler<TestContext>('Test');
+    const children: Behavior<TestContext>[] = createChildren(6);
+
+    const first = shuffler.shuffle(children, new RandomStream(3));
+    const second = shuffler.shuffle(first, new RandomStream(3));
+
+    expect(second).toEqual(first);
+    expect(new Set(first)).toEqual(new Set(children));
+    expect(shuffler.restore(second)).toEqual(children);
+  });
+
+  test('应该保存为原始顺序中的索引并从索引恢复', () => {
+    const shuffler = new ChildOrderShuffler<TestContext>('Test');
+    const children: Behavior<TestContext>[] = createChildren(4);
+    expect(shuffler.captureOrder(children)).toBeNull();
+
+    const shuffled = shuffler.shuffle(children, new RandomStream(11));
+    const order = shuffler.captureOrder(shuffled)!;
+    expect(order.map(index => children[index])).toEqual(shuffled);
+
+    const restored = new ChildOrderShuffler<TestContext>('Test').restoreOrder(children, order);
+    expect(restored).toEqual(shuffled);
+    expect(shuffler.restoreOrder(shuffled, [0, 1])).toBe(shuffled);
+  });
+
+  test.each([
+    ['RandomSelector', () => new RandomSelector<TestContext>()],
+    ['RandomSequence', () => new RandomSequence<TestContext>()]
+  ])('%s应该恢复捕获的子节点顺序', (_name, create) => {
+    const context = TestUtils.createTestContext();
+    const children = createChildren(5);
+    const source = create();
+    children.forEach(child => source.addChild(child));
+    source.onStart(context);
+    const state = source.captureState();
+
+    const target = create();
+    children.forEach(child => target.addChild(child));
+    target.restoreState(state);
+    expect(target.children).toEqual(source.children);
+
+    target.restoreOriginalOrder();
+    expect(target.children).toEqual(children);
+  });
+});
@@ -3,9 +3,12 @@
  *
  * 测试并行节点的执行逻辑：同时执行所有子节点
  */
-import { Parallel } from '../../../behaviourTree/composites/Parallel';
+import { Parallel, ParallelPolicy } from '../../../behaviourTree/composites/Parallel';
+import { ParallelSelector } from '../../../behaviourTree/composites/ParallelSelector';
 import { TaskStatus } from '../../../behaviourTree/TaskStatus';
 import { AbortTypes } from '../../../behaviourTree/composites/AbortTypes';
+import { BehaviorTreeBuilder } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTreeExporter } from '../../../behaviourTree/serialization/BehaviorTreeExporter';
 import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
 
 describe('Parallel 复合节点测试', () => {
@@ -189,7 +192,7 @@ describe('Parallel 复合节点测试', () => {
       parallel.addChild(child3);
     });
 
-    test('Running状态下再次tick应该继续执行所有子节点', () => {
+    test('Running状态下再次tick应该只执行未结束的子节点', () => {
       child1.setReturnStatus(TaskStatus.Success);
       child2.setReturnStatus(TaskStatus.Running);
       child3.setReturnStatus(TaskStatus.Running);
@@ -201,18 +204,18 @@ describe('Parallel 复合节点测试', () => {
       expect(child2.updateCallCount).toBe(1);
       expect(child3.updateCallCount).toBe(1);
 
-      // 第二次tick，所有子节点都会再次执行（Parallel不会跳过已完成的节点）
+      // 第二次tick，已成功的child1不会再次执行
       result = parallel.tick(context);
       expect(result).toBe(TaskStatus.Running);
-      expect(child1.updateCallCount).toBe(2); // 会再次执行
-      expect(child2.updateCallCount).toBe(2); // 继续执行
-      expect(child3.updateCallCount).toBe(2); // 继续执行
+      expect(child1.updateCallCount).toBe(1);
+      expect(child2.updateCallCount).toBe(2);
+      expect(child3.updateCallCount).toBe(2);
 
       // child2完成后，只有child3还在运行
       child2.setReturnStatus(TaskStatus.Success);
       result = parallel.tick(context);
       expect(result).toBe(TaskStatus.Running);
-      expect(child1.updateCallCount).toBe(3);
+      expect(child1.updateCallCount).toBe(1);
       expect(child2.updateCallCount).toBe(3);
       expect(child3.updateCallCount).toBe(3);
 
@@ -220,8 +223,8 @@ describe('Parallel 复合节点测试', () => {
       child3.setReturnStatus(TaskStatus.Success);
       result = parallel.tick(context);
       expect(result).toBe(TaskStatus.Success);
-      expect(child1.updateCallCount).toBe(4);
-      expect(child2.updateCallCount).toBe(4);
+      expect(child1.updateCallCount).toBe(1);
+      expect(child2.updateCallCount).toBe(3);
       expect(child3.updateCallCount).toBe(4);
     });
 
@@ -246,6 +249,119 @@ describe('Parallel 复合节点测试', () => {
     });
   });
 
+  // 测试成功策略和失败策略
+  describe('并行策略测试', () => {
+    let child4: MockBehavior<TestContext>;
+
+    beforeEach(() => {
+      child4 = TestUtils.createSuccessBehavior<TestContext>('Child4');
+    });
+
+    function addChildren(...statuses: TaskStatus[]): void {
+      [child1, child2, child3, child4].slice(0, statuses.length).forEach((child, i) => {
+        child.setReturnStatus(statuses[i]!);
+        parallel.addChild(child);
+      });
+    }
+
+    test('默认策略应该为所有子节点成功时成功、任一子节点失败时失败', () => {
+      expect(parallel.successPolicy).toBe(ParallelPolicy.RequireAll);
+      expect(parallel.failurePolicy).toBe(ParallelPolicy.RequireOne);
+    });
+
+    test('任一成功策略应该在第一个子节点成功时中止仍在运行的子节点', () => {
+      parallel = new Parallel<TestContext>({ success: 'one', failure: 'all' });
+      addChildren(TaskStatus.Running, TaskStatus.Failure, TaskStatus.Running);
+      const onAbort1 = jest.spyOn(child1, 'onAbort');
+      const onAbort3 = jest.spyOn(child3, 'onAbort');
+
+      expect(parallel.tick(context)).toBe(TaskStatus.Running);
+
+      child3.setReturnStatus(TaskStatus.Success);
+      expect(parallel.tick(context)).toBe(TaskStatus.Success);
+      expect(onAbort1).toHaveBeenCalledTimes(1);
+      expect(child1.status).toBe(TaskStatus.Invalid);
+      expect(child2.updateCallCount).toBe(1); // 已失败的子节点不会再执行
+      expect(onAbort3).not.toHaveBeenCalled();
+    });
+
+    test('所有子节点失败时应该满足所有失败策略', () => {
+      parallel = new Parallel<TestContext>({ success: 'one', failure: 'all' });
+      addChildren(TaskStatus.Failure, TaskStatus.Running);
+
+      expect(parallel.tick(context)).toBe(TaskStatus.Running);
+
+      child2.setReturnStatus(TaskStatus.Failure);
+      expect(parallel.tick(context)).toBe(TaskStatus.Failure);
+      expect(child1.updateCallCount).toBe(1);
+      expect(child2.updateCallCount).toBe(2);
+    });
+
+    test('指定数量策略应该在达到数量时结束', () => {
+      parallel = new Parallel<TestContext>({ success: 2, failure: 2 });
+      addChildren(TaskStatus.Success, TaskStatus.Failure, TaskStatus.Running, TaskStatus.Running);
+      expect(parallel.successPolicy).toBe(ParallelPolicy.RequireN);
+      expect(parallel.successCount).toBe(2);
+      const onAbort4 = jest.spyOn(child4, 'onAbort');
+
+      expect(parallel.tick(context)).toBe(TaskStatus.Running);
+
+      child3.setReturnStatus(TaskStatus.Failure);
+      expect(parallel.tick(context)).toBe(TaskStatus.Failure);
+      expect(onAbort4).toHaveBeenCalledTimes(1);
+    });
+
+    test('所有子节点结束但不满足任何策略时应该返回Failure', () => {
+      parallel = new Parallel<TestContext>({ success: 'all', failure: 'all' });
+      addChildren(TaskStatus.Success, TaskStatus.Failure);
+
+      expect(parallel.tick(context)).toBe(TaskStatus.Failure);
+    });
+
+    test('并行选择器应该使用任一成功和所有失败策略', () => {
+      const selector = new ParallelSelector<TestContext>();
+      expect(selector.successPolicy).toBe(ParallelPolicy.RequireOne);
+      expect(selector.failurePolicy).toBe(ParallelPolicy.RequireAll);
+    });
+  });
+
+  // 测试配置和构建器
+  describe('配置和构建器测试', () => {
+    test('应该从JSON配置创建带策略的并行节点并导出相同的配置', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [
+          { id: 'search', name: 'search', type: 'parallel', properties: { successPolicy: 'n', successCount: 2, failurePolicy: 'all' }, children: ['a', 'b', 'c'] },
+          { id: 'a', name: 'a', type: 'log-action', properties: { message: 'a' } },
+          { id: 'b', name: 'b', type: 'log-action', properties: { message: 'b' } },
+          { id: 'c', name: 'c', type: 'wait-action', properties: { waitTime: 1 } }
+        ]
+      });
+
+      const node = tree.getRoot() as Parallel<any>;
+      expect(node.successPolicy).toBe(ParallelPolicy.RequireN);
+      expect(node.successCount).toBe(2);
+      expect(node.failurePolicy).toBe(ParallelPolicy.RequireAll);
+
+      const exported = BehaviorTreeExporter.exportTree(tree).config;
+      expect(exported.nodes[0]!.properties).toEqual({ successPolicy: 'n', successCount: 2, failurePolicy: 'all', failureCount: 1 });
+    });
+
+    test('构建器应该支持策略选项', () => {
+      const tree = BehaviorTreeBuilder.begin({})
+        .parallel({ success: 'one', failure: 'all' })
+          .action(() => TaskStatus.Running)
+          .action(() => TaskStatus.Success)
+        .endComposite()
+        .build(0);
+
+      const node = tree.getRoot() as Parallel<any>;
+      expect(node.successPolicy).toBe(ParallelPolicy.RequireOne);
+      expect(node.failurePolicy).toBe(ParallelPolicy.RequireAll);
+      tree.tick(0.1);
+      expect(node.status).toBe(TaskStatus.Success);
+    });
+  });
+
   // 测试性能
   describe('性能测试', () => {
     test('大量子节点应该能正常执行', () => {
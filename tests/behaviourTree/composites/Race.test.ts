@@ -0,0 +1,79 @@
+/**
+ * Race 复合节点测试
+ *
+ * 测试竞速节点的执行逻辑：第一个结束的子节点决定结果，其余子节点被中止
+ */
+import { Race } from '../../../behaviourTree/composites/Race';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { BehaviorTreeBuilder } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
+
+describe('Race 复合节点测试', () => {
+  let context: TestContext;
+  let race: Race<TestContext>;
+  let child1: MockBehavior<TestContext>;
+  let child2: MockBehavior<TestContext>;
+  let child3: MockBehavior<TestContext>;
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+    race = new Race<TestContext>();
+    child1 = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Child1');
+    child2 = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Child2');
+    child3 = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Child3');
+    race.addChild(child1);
+    race.addChild(child2);
+    race.addChild(child3);
+  });
+
+  test('所有子节点运行中时应该返回Running', () => {
+    expect(race.tick(context)).toBe(TaskStatus.Running);
+    expect(race.tick(context)).toBe(TaskStatus.Running);
+    expect([child1, child2, child3].map(child => child.updateCallCount)).toEqual([2, 2, 2]);
+  });
+
+  test('第一个结束的子节点应该决定结果并中止其余子节点', () => {
+    const onAbort1 = jest.spyOn(child1, 'onAbort');
+    const onAbort3 = jest.spyOn(child3, 'onAbort');
+    race.tick(context);
+
+    child2.setReturnStatus(TaskStatus.Failure);
+    expect(race.tick(context)).toBe(TaskStatus.Failure);
+    expect(onAbort1).toHaveBeenCalledTimes(1);
+    expect(onAbort3).toHaveBeenCalledTimes(1);
+    expect(child3.updateCallCount).toBe(1); // 结果已确定，不再执行后续子节点
+  });
+
+  test('多个子节点同时结束时应该以顺序靠前的为准', () => {
+    child2.setReturnStatus(TaskStatus.Success);
+    child3.setReturnStatus(TaskStatus.Failure);
+
+    expect(race.tick(context)).toBe(TaskStatus.Success);
+    expect(child3.updateCallCount).toBe(0);
+  });
+
+  test('没有子节点时应该返回Failure', () => {
+    expect(new Race<TestContext>().tick(context)).toBe(TaskStatus.Failure);
+  });
+
+  test('应该支持构建器和JSON配置', () => {
+    const tree = BehaviorTreeBuilder.begin({})
+      .race()
+        .action(() => TaskStatus.Running)
+        .action(() => TaskStatus.Success)
+      .endComposite()
+      .build(0);
+    expect(tree.getRoot()).toBeInstanceOf(Race);
+    tree.tick(0.1);
+    expect(tree.getRoot().status).toBe(TaskStatus.Success);
+
+    const { tree: loaded } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+      nodes: [
+        { id: 'race', name: 'race', type: 'Race', children: ['wait', 'log'] },
+        { id: 'wait', name: 'wait', type: 'wait-action', properties: { waitTime: 1 } },
+        { id: 'log', name: 'log', type: 'log-action', properties: { message: 'done' } }
+      ]
+    });
+    expect(loaded.getRoot()).toBeInstanceOf(Race);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * ReactiveSelector 复合节点测试
+ *
+ * 测试响应式选择器的执行逻辑：每次执行都重新执行之前的子节点，
+ * 高优先级的子节点成功或变为运行中时中止低优先级的子节点
+ */
+import { ReactiveSelector } from '../../../behaviourTree/composites/ReactiveSelector';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { BehaviorTreeBuilder } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
+
+describe('ReactiveSelector 复合节点测试', () => {
+  let context: TestContext;
+  let selector: ReactiveSelector<TestContext>;
+  let highPriority: MockBehavior<TestContext>;
+  let lowPriority: MockBehavior<TestContext>;
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+    selector = new ReactiveSelector<TestContext>();
+    highPriority = TestUtils.createFailureBehavior<TestContext>('HighPriority');
+    lowPriority = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'LowPriority');
+    selector.addChild(highPriority);
+    selector.addChild(lowPriority);
+  });
+
+  test('每次执行都应该重新执行高优先级的子节点', () => {
+    expect(selector.tick(context)).toBe(TaskStatus.Running);
+    expect(selector.tick(context)).toBe(TaskStatus.Running);
+
+    expect(highPriority.updateCallCount).toBe(2);
+    expect(lowPriority.updateCallCount).toBe(2);
+  });
+
+  test('高优先级的子节点成功时应该中止低优先级的子节点并返回Success', () => {
+    const onAbort = jest.spyOn(lowPriority, 'onAbort');
+    selector.tick(context);
+
+    highPriority.setReturnStatus(TaskStatus.Success);
+    expect(selector.tick(context)).toBe(TaskStatus.Success);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(lowPriority.updateCallCount).toBe(1);
+  });
+
+  test('高优先级的子节点变为运行中时应该中止低优先级的子节点', () => {
+    const onAbort = jest.spyOn(lowPriority, 'onAbort');
+    selector.tick(context);
+
+    highPriority.setReturnStatus(TaskStatus.Running);
+    expect(selector.tick(context)).toBe(TaskStatus.Running);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  test('所有子节点失败时应该返回Failure，没有子节点时返回Failure', () => {
+    lowPriority.setReturnStatus(TaskStatus.Failure);
+    expect(selector.tick(context)).toBe(TaskStatus.Failure);
+    expect(new ReactiveSelector<TestContext>().tick(context)).toBe(TaskStatus.Failure);
+  });
+
+  test('应该支持构建器和JSON配置', () => {
+    const tree = BehaviorTreeBuilder.begin({})
+      .reactiveSelector()
+        .action(() => TaskStatus.Failure)
+        .action(() => TaskStatus.Running)
+      .endComposite()
+      .build(0);
+    expect(tree.getRoot()).toBeInstanceOf(ReactiveSelector);
+
+    const { tree: loaded } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+      nodes: [
+        { id: 'brain', name: 'brain', type: 'reactive-selector', children: ['patrol'] },
+        { id: 'patrol', name: 'patrol', type: 'wait-action', properties: { waitTime: 1 } }
+      ]
+    });
+    expect(loaded.getRoot()).toBeInstanceOf(ReactiveSelector);
+  });
+});
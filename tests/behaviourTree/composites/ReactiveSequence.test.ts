@@ -0,0 +1,109 @@
+/**
+ * ReactiveSequence 复合节点测试
+ *
+ * 测试响应式序列的执行逻辑：每次执行都重新执行之前的子节点，
+ * 之前的子节点失败或变为运行中时中止正在运行的子节点
+ */
+import { ReactiveSequence } from '../../../behaviourTree/composites/ReactiveSequence';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { BehaviorTreeBuilder } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
+
+describe('ReactiveSequence 复合节点测试', () => {
+  let context: TestContext;
+  let sequence: ReactiveSequence<TestContext>;
+  let condition: MockBehavior<TestContext>;
+  let action1: MockBehavior<TestContext>;
+  let action2: MockBehavior<TestContext>;
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+    sequence = new ReactiveSequence<TestContext>();
+    condition = TestUtils.createSuccessBehavior<TestContext>('Condition');
+    action1 = TestUtils.createSuccessBehavior<TestContext>('Action1');
+    action2 = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Action2');
+    sequence.addChild(condition);
+    sequence.addChild(action1);
+    sequence.addChild(action2);
+  });
+
+  test('每次执行都应该重新执行正在运行的子节点之前的子节点', () => {
+    expect(sequence.tick(context)).toBe(TaskStatus.Running);
+    expect(sequence.tick(context)).toBe(TaskStatus.Running);
+
+    expect(condition.updateCallCount).toBe(2);
+    expect(action1.updateCallCount).toBe(2);
+    expect(action2.updateCallCount).toBe(2);
+  });
+
+  test('之前的子节点失败时应该中止正在运行的子节点并返回Failure', () => {
+    const onAbort = jest.spyOn(action2, 'onAbort');
+    sequence.tick(context);
+
+    condition.setReturnStatus(TaskStatus.Failure);
+    expect(sequence.tick(context)).toBe(TaskStatus.Failure);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(action1.updateCallCount).toBe(1);
+    expect(action2.updateCallCount).toBe(1);
+  });
+
+  test('之前的子节点变为运行中时应该中止之后正在运行的子节点', () => {
+    const onAbort = jest.spyOn(action2, 'onAbort');
+    sequence.tick(context);
+
+    action1.setReturnStatus(TaskStatus.Running);
+    expect(sequence.tick(context)).toBe(TaskStatus.Running);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(action2.status).toBe(TaskStatus.Invalid);
+  });
+
+  test('所有子节点成功时应该返回Success，没有子节点时返回Success', () => {
+    action2.setReturnStatus(TaskStatus.Success);
+    expect(sequence.tick(context)).toBe(TaskStatus.Success);
+    expect(new ReactiveSequence<TestContext>().tick(context)).toBe(TaskStatus.Success);
+  });
+
+  test('已结束的子节点应该重新开始，正在运行的子节点继续执行', () => {
+    const events: string[] = [];
+    let waiting = 0;
+    const tree = BehaviorTreeBuilder.begin({})
+      .reactiveSequence()
+        .conditional(() => { events.push('check'); return TaskStatus.Success; })
+        .action(() => { events.push(`wait ${++waiting}`); return waiting < 2 ? TaskStatus.Running : TaskStatus.Success; })
+      .endComposite()
+      .build(0);
+
+    tree.tick(0.1);
+    tree.tick(0.1);
+    expect(events).toEqual(['check', 'wait 1', 'check', 'wait 2']);
+    expect(tree.getRoot().status).toBe(TaskStatus.Success);
+  });
+
+  test('应该从JSON配置创建，在黑板条件变化时中止正在运行的动作', () => {
+    const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+      nodes: [
+        { id: 'chase', name: 'chase', type: 'ReactiveSequence', children: ['visible', 'move'] },
+        {
+          id: 'visible',
+          name: 'visible',
+          type: 'blackboard-value-comparison',
+          properties: { variableName: 'visible', operator: 'equal', compareValue: true }
+        },
+        { id: 'move', name: 'move', type: 'wait-action', properties: { waitTime: 10 } }
+      ],
+      blackboard: [{ name: 'visible', type: 'boolean', value: true }],
+      metadata: { updatePeriod: 0 }
+    });
+    expect(tree.getRoot()).toBeInstanceOf(ReactiveSequence);
+
+    tree.tick(0.1);
+    const move = tree.findNode('move')!;
+    const onAbort = jest.spyOn(move, 'onAbort');
+    expect(move.status).toBe(TaskStatus.Running);
+
+    tree.getBlackboard().setValue('visible', false);
+    tree.tick(0.1);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(move.status).toBe(TaskStatus.Invalid);
+  });
+});
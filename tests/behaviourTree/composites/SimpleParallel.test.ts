@@ -0,0 +1,110 @@
+/**
+ * SimpleParallel 复合节点测试
+ *
+ * 测试简单并行节点的执行逻辑：主任务决定结果，后台任务循环执行，
+ * 主任务结束时立即中止或等待后台任务
+ */
+import { SimpleParallel, SimpleParallelFinishMode } from '../../../behaviourTree/composites/SimpleParallel';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { validateBehaviorTreeConfig } from '../../../behaviourTree/serialization/BehaviorTreeConfigValidator';
+import { TestUtils, TestContext, MockBehavior } from '../../utils/TestUtils';
+
+describe('SimpleParallel 复合节点测试', () => {
+  let context: TestContext;
+  let main: MockBehavior<TestContext>;
+  let background: MockBehavior<TestContext>;
+
+  function createNode(finishMode?: SimpleParallelFinishMode): SimpleParallel<TestContext> {
+    const node = new SimpleParallel<TestContext>(finishMode);
+    node.addChild(main);
+    node.addChild(background);
+    return node;
+  }
+
+  beforeEach(() => {
+    context = TestUtils.createTestContext();
+    main = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Main');
+    background = TestUtils.createMockBehavior<TestContext>(TaskStatus.Running, 'Background');
+  });
+
+  test('主任务运行期间应该同时执行后台任务，后台任务结束后重新开始', () => {
+    const node = createNode();
+
+    expect(node.tick(context)).toBe(TaskStatus.Running);
+    expect(main.updateCallCount).toBe(1);
+    expect(background.updateCallCount).toBe(1);
+
+    background.setReturnStatus(TaskStatus.Success);
+    expect(node.tick(context)).toBe(TaskStatus.Running);
+
+    // 后台任务结束后被重置，下次执行时重新开始
+    background.setReturnStatus(TaskStatus.Running);
+    const invalidate = jest.spyOn(background, 'invalidate');
+    expect(node.tick(context)).toBe(TaskStatus.Running);
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(background.updateCallCount).toBe(3);
+  });
+
+  test('立即结束时应该返回主任务的结果并中止后台任务', () => {
+    const node = createNode();
+    const onAbort = jest.spyOn(background, 'onAbort');
+
+    node.tick(context);
+    main.setReturnStatus(TaskStatus.Failure);
+
+    expect(node.tick(context)).toBe(TaskStatus.Failure);
+    expect(background.updateCallCount).toBe(1);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  test('延迟结束时应该等待后台任务结束且不再执行主任务', () => {
+    const node = createNode(SimpleParallelFinishMode.Delayed);
+    const onAbort = jest.spyOn(background, 'onAbort');
+
+    node.tick(context);
+    main.setReturnStatus(TaskStatus.Success);
+    expect(node.tick(context)).toBe(TaskStatus.Running);
+    expect(node.tick(context)).toBe(TaskStatus.Running);
+    expect(main.updateCallCount).toBe(2);
+
+    // 后台任务失败不影响结果
+    background.setReturnStatus(TaskStatus.Failure);
+    expect(node.tick(context)).toBe(TaskStatus.Success);
+    expect(main.updateCallCount).toBe(2);
+    expect(background.updateCallCount).toBe(4);
+    expect(onAbort).not.toHaveBeenCalled();
+  });
+
+  test('没有子节点时应该抛出错误，只有主任务时返回主任务的结果', () => {
+    expect(() => new SimpleParallel<TestContext>().tick(context)).toThrow('简单并行节点需要主任务子节点');
+
+    const node = new SimpleParallel<TestContext>();
+    main.setReturnStatus(TaskStatus.Success);
+    node.addChild(main);
+    expect(node.tick(context)).toBe(TaskStatus.Success);
+  });
+
+  test('应该支持构建器和JSON配置', () => {
+    const hits: string[] = [];
+    const tree = BehaviorTreeBuilder.begin({})
+      .simpleParallel(SimpleParallelFinishMode.Delayed)
+        .action(() => { hits.push('main'); return TaskStatus.Running; })
+        .action(() => { hits.push('background'); return TaskStatus.Running; })
+      .endComposite()
+      .build(0);
+    expect((tree.getRoot() as SimpleParallel<any>).finishMode).toBe(SimpleParallelFinishMode.Delayed);
+    tree.tick(0.1);
+    expect(hits).toEqual(['main', 'background']);
+
+    const config: BehaviorTreeJSONConfig = {
+      nodes: [
+        { id: 'root', name: 'root', type: 'simple-parallel', properties: { finishMode: 'Delayed' }, children: ['main'] },
+        { id: 'main', name: 'main', type: 'wait-action', properties: { waitTime: 1 } }
+      ]
+    };
+    const node = BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree.getRoot() as SimpleParallel<any>;
+    expect(node.finishMode).toBe(SimpleParallelFinishMode.Delayed);
+    expect(validateBehaviorTreeConfig(config).issues.map(issue => issue.message)).toContain('simple-parallel节点至少需要2个子节点，实际有1个');
+  });
+});
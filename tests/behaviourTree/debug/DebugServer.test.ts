@@ -0,0 +1,227 @@
+/**
+ * 远程调试协议测试
+ *
+ * 通过内存回环传输层测试DebugServer发送的结构、执行和黑板消息以及命令处理，
+ * 并使用模拟的WebSocket服务器测试NodeWebSocketTransport
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { DebugServer } from '../../../behaviourTree/debug/DebugServer';
+import { DEBUG_PROTOCOL_VERSION, DebugServerMessage, DebugTreeMessage } from '../../../behaviourTree/debug/DebugProtocol';
+import {
+    LoopbackDebugClient,
+    LoopbackTransport,
+    NodeWebSocketTransport,
+    WebSocketLike,
+    WebSocketServerLike
+} from '../../../behaviourTree/debug/DebugTransport';
+
+/**
+ * 巡逻：计数后等待0.5秒
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'patrol', type: 'sequence', name: 'patrol', children: ['count', 'wait'] },
+        {
+            id: 'count',
+            type: 'math-blackboard-operation',
+            name: 'count',
+            properties: { targetVariable: 'steps', operand1Variable: 'steps', operand2: 1, operation: 'add' }
+        },
+        { id: 'wait', type: 'wait-action', name: 'wait', properties: { waitTime: 0.5 } }
+    ],
+    blackboard: [
+        { name: 'steps', type: 'number', value: 0 },
+        { name: 'alert', type: 'boolean', value: false }
+    ],
+    metadata: { updatePeriod: 0 }
+};
+
+function createTree(): BehaviorTree<any> {
+    return BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+}
+
+/**
+ * 连接客户端并收集收到的消息
+ */
+function connect(transport: LoopbackTransport): { client: LoopbackDebugClient; messages: DebugServerMessage[] } {
+    const messages: DebugServerMessage[] = [];
+    const client = transport.connect(data => messages.push(JSON.parse(data)));
+    return { client, messages };
+}
+
+function ofType<K extends DebugServerMessage['type']>(messages: DebugServerMessage[], type: K) {
+    return messages.filter((message): message is Extract<DebugServerMessage, { type: K }> => message.type === type);
+}
+
+describe('远程调试协议测试', () => {
+    test('连接时应该发送握手消息和选中代理的行为树结构', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        server.addAgent('guard', createTree());
+        server.addAgent('scout', createTree());
+
+        const { messages } = connect(transport);
+        expect(messages[0]).toEqual({
+            type: 'hello',
+            version: DEBUG_PROTOCOL_VERSION,
+            agents: ['guard', 'scout'],
+            selectedAgent: 'guard'
+        });
+
+        const tree = messages[1] as DebugTreeMessage;
+        expect(tree.type).toBe('tree');
+        expect(tree.agent).toBe('guard');
+        expect(tree.blackboard).toEqual({ steps: 0, alert: false });
+        expect(tree.root).toEqual({
+            id: 'patrol',
+            path: 'root',
+            type: 'sequence',
+            name: 'patrol',
+            status: TaskStatus.Invalid,
+            children: [
+                { id: 'count', path: 'root/0', type: 'math-blackboard-operation', name: 'count', status: TaskStatus.Invalid },
+                { id: 'wait', path: 'root/1', type: 'wait-action', name: 'wait', status: TaskStatus.Invalid }
+            ]
+        });
+        server.close();
+    });
+
+    test('每次执行后应该广播节点状态变化和黑板差异', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        const tree = createTree();
+        server.addAgent('guard', tree);
+        const { messages } = connect(transport);
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+
+        const ticks = ofType(messages, 'tick');
+        expect(ticks).toHaveLength(2);
+        expect(ticks[0]).toMatchObject({
+            agent: 'guard',
+            tick: 0,
+            status: TaskStatus.Running,
+            nodes: [['count', TaskStatus.Success], ['patrol', TaskStatus.Running]],
+            blackboard: { steps: 1 }
+        });
+        expect(ticks[1]!.nodes).toEqual([['wait', TaskStatus.Running]]);
+        expect(ticks[1]!.blackboard).toBeUndefined();
+        expect(ticks[1]!.duration).toBeGreaterThanOrEqual(0);
+        server.close();
+    });
+
+    test('应该处理暂停、单步执行、恢复和修改黑板命令', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        const tree = createTree();
+        server.addAgent('guard', tree);
+        const { client, messages } = connect(transport);
+
+        client.send(JSON.stringify({ type: 'pause', id: 1 }));
+        expect(tree.isPaused()).toBe(true);
+        tree.tick(0.1);
+        expect(ofType(messages, 'tick')).toHaveLength(0);
+
+        client.send(JSON.stringify({ type: 'step', id: 2, deltaTime: 0.25 }));
+        expect(ofType(messages, 'tick')).toHaveLength(1);
+        expect(tree.getClock().now()).toBe(0.25);
+
+        client.send(JSON.stringify({ type: 'setBlackboardValue', id: 3, name: 'alert', value: true }));
+        expect(tree.getBlackboard().getValue('alert')).toBe(true);
+        expect(ofType(messages, 'blackboard')).toEqual([{ type: 'blackboard', agent: 'guard', blackboard: { alert: true } }]);
+
+        client.send(JSON.stringify({ type: 'resume', id: 4 }));
+        expect(tree.isPaused()).toBe(false);
+
+        expect(ofType(messages, 'paused').map(message => message.paused)).toEqual([true, false]);
+        expect(ofType(messages, 'ack').map(message => message.id)).toEqual([1, 2, 3, 4]);
+        server.close();
+    });
+
+    test('选中代理后应该发送新代理的结构并只广播该代理的执行', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        const guard = createTree();
+        const scout = createTree();
+        server.addAgent('guard', guard);
+        server.addAgent('scout', scout);
+        const { client, messages } = connect(transport);
+        messages.length = 0;
+
+        client.send(JSON.stringify({ type: 'selectAgent', agent: 'scout' }));
+        expect(server.selectedAgent).toBe('scout');
+        expect(ofType(messages, 'tree').map(message => message.agent)).toEqual(['scout']);
+        expect(guard.hasObservers()).toBe(false);
+
+        guard.tick(0.1);
+        scout.tick(0.1);
+        expect(ofType(messages, 'tick').map(message => message.agent)).toEqual(['scout']);
+
+        server.removeAgent('scout');
+        expect(server.selectedAgent).toBe('guard');
+        expect(scout.hasObservers()).toBe(false);
+        server.close();
+        expect(guard.hasObservers()).toBe(false);
+        expect(client.connected).toBe(false);
+    });
+
+    test('无效的命令应该返回错误消息', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        server.addAgent('guard', createTree());
+        const { client, messages } = connect(transport);
+
+        client.send('not json');
+        client.send(JSON.stringify({ type: 'selectAgent', id: 'a', agent: 'missing' }));
+        client.send(JSON.stringify({ type: 'setBlackboardValue', id: 'b', name: 'missing', value: 1 }));
+        client.send(JSON.stringify({ type: 'fly', id: 'c' }));
+
+        expect(ofType(messages, 'error')).toEqual([
+            { type: 'error', message: '无法解析调试命令' },
+            { type: 'error', id: 'a', message: '未知的调试代理: missing' },
+            { type: 'error', id: 'b', message: '黑板变量不存在: missing' },
+            { type: 'error', id: 'c', message: '未知的调试命令: fly' }
+        ]);
+        server.close();
+    });
+
+    test('WebSocket传输层应该通过ws兼容的服务器收发消息', () => {
+        type Listener = (...args: any[]) => void;
+
+        class FakeSocket implements WebSocketLike {
+            public readyState = 1;
+            public sent: string[] = [];
+            public listeners = new Map<string, Listener>();
+            public send(data: string): void { this.sent.push(data); }
+            public close(): void { this.readyState = 3; this.listeners.get('close')?.(); }
+            public on(event: string, listener: Listener): void { this.listeners.set(event, listener); }
+        }
+
+        let onConnection: ((socket: WebSocketLike) => void) | undefined;
+        const wss: WebSocketServerLike = {
+            on: (_event: string, listener: (socket: WebSocketLike) => void) => { onConnection = listener; },
+            close: jest.fn()
+        };
+
+        const tree = createTree();
+        const server = new DebugServer(new NodeWebSocketTransport(wss));
+        server.addAgent('guard', tree);
+
+        const socket = new FakeSocket();
+        onConnection!(socket);
+        expect(JSON.parse(socket.sent[0]!).type).toBe('hello');
+        expect(JSON.parse(socket.sent[1]!).type).toBe('tree');
+
+        // ws以Buffer形式传递消息
+        socket.listeners.get('message')!(Buffer.from(JSON.stringify({ type: 'pause', id: 7 })));
+        expect(tree.isPaused()).toBe(true);
+        expect(socket.sent.map(data => JSON.parse(data).type)).toContain('ack');
+
+        server.close();
+        expect(socket.readyState).toBe(3);
+        expect(wss.close).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * 行为树录制与回放测试
+ *
+ * 测试TickRecorder记录外部输入和节点状态变化，TickReplayer在新构建的行为树上重现执行并检测分歧
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { ActionResult, EventRegistry } from '../../../behaviourTree/events/EventRegistry';
+import { TickRecorder, TickReplayer, TickRecording } from '../../../behaviourTree/debug/TickRecording';
+import { WaitAction } from '../../../behaviourTree/actions/WaitAction';
+
+/**
+ * 循环执行：低血量时逃跑；看见敌人时攻击（异步）；否则随机闲逛或休息
+ */
+function createConfig(fleeThreshold: number = 30): BehaviorTreeJSONConfig {
+    return {
+        nodes: [
+            { id: 'loop', type: 'repeater', name: 'loop', properties: { count: -1 }, children: ['brain'] },
+            { id: 'brain', type: 'selector', name: 'brain', children: ['flee', 'fight', 'idle'] },
+            { id: 'flee', type: 'sequence', name: 'flee', children: ['low-hp', 'run'] },
+            {
+                id: 'low-hp',
+                type: 'blackboard-value-comparison',
+                name: 'low-hp',
+                properties: { variableName: 'hp', operator: 'less', compareValue: fleeThreshold }
+            },
+            { id: 'run', type: 'set-blackboard-value', name: 'run', properties: { variableName: 'last', value: 'flee' } },
+            { id: 'fight', type: 'sequence', name: 'fight', children: ['visible', 'attack'] },
+            { id: 'visible', type: 'event-condition', name: 'visible', properties: { eventName: 'enemy.visible' } },
+            { id: 'attack', type: 'event-action', name: 'attack', properties: { eventName: 'attack' } },
+            { id: 'idle', type: 'random-selector', name: 'idle', children: ['wander', 'rest'] },
+            { id: 'wander', type: 'set-blackboard-value', name: 'wander', properties: { variableName: 'last', value: 'wander' } },
+            { id: 'rest', type: 'set-blackboard-value', name: 'rest', properties: { variableName: 'last', value: 'rest' } }
+        ],
+        blackboard: [
+            { name: 'hp', type: 'number', value: 100 },
+            { name: 'last', type: 'string', value: '' },
+            { name: 'attacks', type: 'number', value: 0 }
+        ],
+        metadata: { updatePeriod: 0 }
+    };
+}
+
+function createTree(eventRegistry: EventRegistry, fleeThreshold?: number): BehaviorTree<any> {
+    return BehaviorTreeBuilder.fromBehaviorTreeConfig(createConfig(fleeThreshold), { eventRegistry } as any).tree;
+}
+
+/** 等待异步处理器的结果被处理 */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * 模拟一段游戏过程并录制
+ */
+async function recordSession(): Promise<TickRecording> {
+    const world = { enemyVisible: false };
+    const pendingAttacks: Array<(result: ActionResult) => void> = [];
+
+    const registry = new EventRegistry();
+    registry.registerCondition('enemy.visible', () => world.enemyVisible);
+    registry.registerAction('attack', (ctx: any) => {
+        ctx.blackboard.setValue('attacks', ctx.blackboard.getValue('attacks') + 1);
+        return new Promise<ActionResult>(resolve => pendingAttacks.push(resolve));
+    });
+
+    const tree = createTree(registry);
+    tree.getRandom().setSeed(42);
+    const recorder = new TickRecorder(tree);
+
+    for (let i = 0; i < 20; i++) {
+        if (i === 4) {
+            world.enemyVisible = true;
+        }
+        if (i === 7 || i === 11) {
+            pendingAttacks.shift()?.('success');
+            await flush();
+        }
+        if (i === 12) {
+            world.enemyVisible = false;
+        }
+        if (i === 15) {
+            tree.getBlackboard().setValue('hp', 20);
+        }
+        tree.tick(0.1);
+    }
+
+    const recording = recorder.stop();
+    expect(recorder.isRecording).toBe(false);
+    expect(Object.prototype.hasOwnProperty.call(tree, 'tick')).toBe(false);
+    return recording;
+}
+
+describe('行为树录制与回放测试', () => {
+    test('应该记录deltaTime、外部黑板写入、处理器结果和节点状态变化', async () => {
+        const recording = await recordSession();
+
+        expect(recording.ticks).toHaveLength(20);
+        expect(recording.ticks[0]!.deltaTime).toBe(0.1);
+        expect(recording.ticks[15]!.writes).toEqual([['hp', 20]]);
+        expect(recording.ticks[15]!.transitions).toContainEqual(['flee', expect.anything()]);
+
+        const calls = recording.ticks.flatMap(tick => tick.calls ?? []);
+        expect(calls.filter(call => call.kind === 'condition').length).toBeGreaterThan(0);
+        const attackCall = calls.find(call => call.kind === 'action');
+        expect(attackCall).toEqual({
+            kind: 'action',
+            name: 'attack',
+            async: true,
+            settled: { beforeTick: 7, result: 'success' },
+            writes: [['attacks', 1]]
+        });
+        expect(recording.initialState.random).toBeDefined();
+    });
+
+    test('回放应该在新构建的行为树上重现相同的行为', async () => {
+        const recording: TickRecording = JSON.parse(JSON.stringify(await recordSession()));
+
+        // 回放时不会调用真实的处理器
+        const registry = new EventRegistry();
+        const tree = createTree(registry);
+        const report = await TickReplayer.replay(tree, recording);
+
+        expect(report).toEqual({ diverged: false, ticksReplayed: 20 });
+        expect(tree.getBlackboard().getValue('attacks')).toBe(2);
+        expect(tree.getBlackboard().getValue('last')).toBe('flee');
+        expect((tree.getContext() as any).eventRegistry).toBe(registry);
+    });
+
+    test('行为不一致时应该报告第一次出现分歧的tick', async () => {
+        const recording = await recordSession();
+
+        // 修改逃跑阈值后，第0次tick就会因为hp=100 < 150而逃跑
+        const changed = await TickReplayer.replay(createTree(new EventRegistry(), 150), recording);
+        expect(changed.diverged).toBe(true);
+        expect(changed.divergedAtTick).toBe(0);
+        expect(changed.actual).toContainEqual(['flee', expect.anything()]);
+
+        // 初始随机数流状态不同不会影响回放，因为录制包含了随机数流状态
+        const tree = createTree(new EventRegistry());
+        tree.getRandom().setSeed(7);
+        expect((await TickReplayer.replay(tree, recording)).diverged).toBe(false);
+    });
+
+    test('应该记录根节点未执行的更新，不替换行为树的tick方法', async () => {
+        const tree = new BehaviorTree<any>({}, new WaitAction<any>(1), 0.2);
+        const wrappedTicks: number[] = [];
+        const originalTick = tree.tick;
+        tree.tick = (deltaTime?: number) => {
+            wrappedTicks.push(deltaTime!);
+            originalTick.call(tree, deltaTime);
+        };
+
+        const recorder = new TickRecorder(tree);
+        tree.tick(0.1);
+        tree.tick(0.15);
+        const recording = recorder.stop();
+        tree.tick(0.1);
+
+        expect(recording.ticks.map(tick => tick.deltaTime)).toEqual([0.1, 0.15]);
+        expect(recording.ticks[0]!.transitions).toEqual([]);
+        expect(recording.ticks[1]!.transitions).toEqual([['root', expect.anything()]]);
+        expect(wrappedTicks).toEqual([0.1, 0.15, 0.1]);
+
+        const fresh = new BehaviorTree<any>({}, new WaitAction<any>(1), 0.2);
+        expect(await TickReplayer.replay(fresh, recording)).toEqual({ diverged: false, ticksReplayed: 2 });
+    });
+
+    test('不支持的录制版本应该抛出错误', async () => {
+        const recording = { ...(await recordSession()), version: 99 };
+        await expect(TickReplayer.replay(createTree(new EventRegistry()), recording)).rejects.toThrow('不支持的行为树录制版本: 99');
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * 执行跟踪导出测试
+ *
+ * 测试TraceExporter输出的Chrome Trace Event：代理轨道、嵌套的节点时间片、
+ * 中止和黑板写入的瞬时事件，以及内存和文本流两种输出方式
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { MemoryTraceSink, StreamTraceSink, TraceEvent, TraceExporter } from '../../../behaviourTree/debug/TraceExporter';
+
+/**
+ * 巡逻：计数后等待0.5秒
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'patrol', type: 'sequence', name: 'patrol', children: ['count', 'wait'] },
+        {
+            id: 'count',
+            type: 'math-blackboard-operation',
+            name: 'count',
+            properties: { targetVariable: 'steps', operand1Variable: 'steps', operand2: 1, operation: 'add' }
+        },
+        { id: 'wait', type: 'wait-action', name: 'wait', properties: { waitTime: 0.5 } }
+    ],
+    blackboard: [{ name: 'steps', type: 'number', value: 0 }],
+    metadata: { updatePeriod: 0 }
+};
+
+function createTree(): BehaviorTree<any> {
+    return BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+}
+
+/**
+ * 检查子时间片是否包含在父时间片内
+ */
+function contains(parent: TraceEvent, child: TraceEvent): boolean {
+    return parent.ts! <= child.ts! && child.ts! + child.dur! <= parent.ts! + parent.dur!;
+}
+
+describe('执行跟踪导出测试', () => {
+    test('应该为每个代理输出一条轨道和嵌套的节点时间片', () => {
+        const sink = new MemoryTraceSink();
+        const exporter = new TraceExporter(sink, { processName: 'AI' });
+        const guard = createTree();
+        const scout = createTree();
+        exporter.addTree('guard', guard);
+        exporter.addTree('scout', scout);
+        expect(exporter.getAgentNames()).toEqual(['guard', 'scout']);
+
+        guard.tick(0.1);
+        scout.tick(0.1);
+
+        const events = sink.toJSON().traceEvents;
+        expect(events.filter(event => event.ph === 'M')).toEqual([
+            { name: 'process_name', ph: 'M', pid: 1, tid: 0, args: { name: 'AI' } },
+            { name: 'thread_name', ph: 'M', pid: 1, tid: 1, args: { name: 'guard' } },
+            { name: 'thread_name', ph: 'M', pid: 1, tid: 2, args: { name: 'scout' } }
+        ]);
+
+        const slices = events.filter(event => event.ph === 'X' && event.tid === 1);
+        expect(slices.map(event => event.name)).toEqual(['count', 'patrol', 'tick']);
+        expect(slices[0]).toMatchObject({
+            cat: 'node',
+            args: { id: 'count', path: 'root/0', type: 'math-blackboard-operation', status: 'Success' }
+        });
+        expect(slices[2]).toMatchObject({ cat: 'tick', args: { tickIndex: 0, status: 'Running' } });
+        expect(contains(slices[1]!, slices[0]!)).toBe(true);
+        expect(contains(slices[2]!, slices[1]!)).toBe(true);
+        expect(events.filter(event => event.ph === 'X' && event.tid === 2)).toHaveLength(3);
+        exporter.close();
+    });
+
+    test('应该输出中止和黑板写入的瞬时事件', () => {
+        const sink = new MemoryTraceSink();
+        const exporter = new TraceExporter(sink);
+        const tree = createTree();
+        exporter.addTree('guard', tree);
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+        tree.getRoot().abort({});
+
+        const instants = sink.events.filter(event => event.ph === 'i');
+        expect(instants.map(event => [event.cat, event.name])).toEqual([
+            ['blackboard', 'set steps'],
+            ['abort', 'abort wait'],
+            ['abort', 'abort patrol']
+        ]);
+        expect(instants[0]).toMatchObject({ s: 't', tid: 1, args: { name: 'steps', value: 1 } });
+
+        // 停止跟踪后不再输出
+        expect(exporter.removeTree('guard')).toBe(true);
+        expect(exporter.removeTree('guard')).toBe(false);
+        const count = sink.events.length;
+        tree.tick(0.1);
+        tree.getBlackboard().setValue('steps', 5);
+        expect(sink.events).toHaveLength(count);
+        expect(tree.hasObservers()).toBe(false);
+    });
+
+    test('文本流输出应该生成可以解析的JSON数组', () => {
+        let text = '';
+        const exporter = new TraceExporter(new StreamTraceSink(chunk => { text += chunk; }), { blackboardWrites: false });
+        const tree = createTree();
+        exporter.addTree('guard', tree);
+        tree.tick(0.1);
+
+        expect(() => exporter.addTree('guard', createTree())).toThrow('跟踪的代理已存在: guard');
+        exporter.close();
+        expect(() => exporter.addTree('scout', createTree())).toThrow('跟踪导出器已关闭');
+
+        const events: TraceEvent[] = JSON.parse(text);
+        expect(events.map(event => event.name)).toEqual(['process_name', 'thread_name', 'count', 'patrol', 'tick']);
+        expect(tree.hasObservers()).toBe(false);
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * 行为树调试器测试
+ *
+ * 测试TreeDebugger的断点、逐节点单步执行、完成本次执行和继续执行，
+ * 以及通过远程调试协议使用断点
+ */
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { CompareOperator } from '../../../behaviourTree/conditionals/BlackboardConditionals';
+import { TreeDebugger, TreeHaltInfo } from '../../../behaviourTree/debug/TreeDebugger';
+import { DebugServer } from '../../../behaviourTree/debug/DebugServer';
+import { DebugServerMessage } from '../../../behaviourTree/debug/DebugProtocol';
+import { LoopbackTransport } from '../../../behaviourTree/debug/DebugTransport';
+
+/**
+ * 循环执行：低血量时逃跑（可以中止巡逻）；否则计数后等待0.5秒
+ */
+const config: BehaviorTreeJSONConfig = {
+    nodes: [
+        { id: 'loop', type: 'repeater', name: 'loop', properties: { count: -1 }, children: ['brain'] },
+        { id: 'brain', type: 'selector', name: 'brain', children: ['flee', 'patrol'] },
+        { id: 'flee', type: 'sequence', name: 'flee', properties: { abortType: 'LowerPriority' }, children: ['low-hp', 'run'] },
+        {
+            id: 'low-hp',
+            type: 'blackboard-value-comparison',
+            name: 'low-hp',
+            properties: { variableName: 'hp', operator: 'less', compareValue: 30 }
+        },
+        { id: 'run', type: 'set-blackboard-value', name: 'run', properties: { variableName: 'last', value: 'flee' } },
+        { id: 'patrol', type: 'sequence', name: 'patrol', children: ['count', 'wait'] },
+        {
+            id: 'count',
+            type: 'math-blackboard-operation',
+            name: 'count',
+            properties: { targetVariable: 'count', operand1Variable: 'count', operand2: 1, operation: 'add' }
+        },
+        { id: 'wait', type: 'wait-action', name: 'wait', properties: { waitTime: 0.5 } }
+    ],
+    blackboard: [
+        { name: 'hp', type: 'number', value: 100 },
+        { name: 'count', type: 'number', value: 0 },
+        { name: 'last', type: 'string', value: '' }
+    ],
+    metadata: { updatePeriod: 0 }
+};
+
+function createTree(): BehaviorTree<any> {
+    return BehaviorTreeBuilder.fromBehaviorTreeConfig(config).tree;
+}
+
+/**
+ * 记录执行后的黑板值和节点状态
+ */
+function describeTree(tree: BehaviorTree<any>): string {
+    const blackboard = tree.getBlackboard();
+    const snapshot = tree.captureState();
+    const statuses = Object.entries(snapshot.nodes).map(([id, node]) => `${id}=${node.status}`).join(',');
+    return `${blackboard.getValue('count')}:${blackboard.getValue('last')}:${statuses}`;
+}
+
+describe('行为树调试器测试', () => {
+    test('命中断点时应该在节点处中断并暂停行为树', () => {
+        const tree = createTree();
+        const halts: TreeHaltInfo[] = [];
+        const treeDebugger = new TreeDebugger(tree, { onHalt: halt => halts.push(halt) });
+        const breakpoint = treeDebugger.addBreakpoint('wait');
+
+        // 选择器每次执行只推进一个子节点：第0次逃跑失败，第1次计数，第2次开始等待
+        tree.tick(0.1);
+        tree.tick(0.1);
+        expect(treeDebugger.isHalted).toBe(false);
+        tree.tick(0.1);
+        expect(tree.isPaused()).toBe(true);
+        expect(treeDebugger.isHalted).toBe(true);
+        expect(treeDebugger.getHaltInfo()).toEqual({
+            tickIndex: 2,
+            nodeId: 'wait',
+            path: 'root/0/1/1',
+            phase: 'start',
+            previousStatus: TaskStatus.Invalid,
+            status: TaskStatus.Invalid,
+            breakpointId: breakpoint.id
+        });
+        expect(halts).toHaveLength(1);
+
+        // 中断时节点状态和黑板停留在本次执行的中途
+        expect(tree.getBlackboard().getValue('count')).toBe(1);
+        expect(tree.getStats().totalTicks).toBe(2);
+
+        // 暂停期间的tick不会执行
+        tree.tick(0.1);
+        expect(treeDebugger.getHaltInfo()!.tickIndex).toBe(2);
+
+        expect(treeDebugger.stepNode()).toMatchObject({ nodeId: 'wait', phase: 'end', status: TaskStatus.Running });
+        expect(treeDebugger.stepNode()).toMatchObject({ nodeId: 'patrol', phase: 'end', status: TaskStatus.Running });
+        expect(tree.getBlackboard().getValue('count')).toBe(1);
+
+        treeDebugger.continue();
+        expect(treeDebugger.isHalted).toBe(false);
+        expect(tree.isPaused()).toBe(false);
+        expect(tree.getStats().totalTicks).toBe(3);
+        treeDebugger.dispose();
+        expect(tree.hasObservers()).toBe(false);
+    });
+
+    test('中断和单步执行不应该改变行为树的执行结果', () => {
+        const reference = createTree();
+        const expected: string[] = [];
+        for (let i = 0; i < 12; i++) {
+            reference.tick(0.25);
+            expected.push(describeTree(reference));
+        }
+
+        const tree = createTree();
+        let haltCount = 0;
+        const treeDebugger = new TreeDebugger(tree, { onHalt: () => haltCount++ });
+        treeDebugger.addBreakpoint('count');
+        treeDebugger.addBreakpoint('wait', { type: 'statusChange' });
+
+        const actual: string[] = [];
+        for (let i = 0; i < 12; i++) {
+            tree.tick(0.25);
+            let steps = 0;
+            while (treeDebugger.isHalted) {
+                // 交替使用单步和继续
+                if (steps++ % 2 === 0) {
+                    treeDebugger.stepNode();
+                } else {
+                    treeDebugger.continue();
+                }
+            }
+            tree.resume();
+            actual.push(describeTree(tree));
+        }
+
+        expect(haltCount).toBeGreaterThan(6);
+        expect(actual).toEqual(expected);
+    });
+
+    test('失败断点应该只在黑板条件满足时生效', () => {
+        const tree = createTree();
+        const treeDebugger = new TreeDebugger(tree);
+        treeDebugger.addBreakpoint('low-hp', {
+            type: 'failure',
+            condition: { variable: 'hp', operator: CompareOperator.Less, value: 60 }
+        });
+
+        tree.tick(0.1);
+        expect(treeDebugger.isHalted).toBe(false);
+
+        // 巡逻完成后重新从逃跑分支开始
+        tree.getBlackboard().setValue('hp', 50);
+        for (let i = 0; i < 10 && !treeDebugger.isHalted; i++) {
+            tree.tick(0.1);
+        }
+        expect(treeDebugger.getHaltInfo()).toMatchObject({ nodeId: 'low-hp', phase: 'end', status: TaskStatus.Failure });
+    });
+
+    test('中止断点应该在条件中止打断正在运行的节点时中断', () => {
+        const tree = createTree();
+        const treeDebugger = new TreeDebugger(tree);
+        treeDebugger.addBreakpoint('wait', { type: 'abort' });
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+        tree.tick(0.1);
+        expect(tree.getBlackboard().getValue('count')).toBe(1);
+
+        tree.getBlackboard().setValue('hp', 10);
+        tree.tick(0.1);
+        expect(treeDebugger.getHaltInfo()).toMatchObject({
+            nodeId: 'wait',
+            phase: 'abort',
+            previousStatus: TaskStatus.Running,
+            status: TaskStatus.Invalid
+        });
+
+        treeDebugger.stepTick();
+        expect(tree.isPaused()).toBe(true);
+        expect(treeDebugger.isHalted).toBe(false);
+
+        treeDebugger.continue();
+        tree.tick(0.1);
+        expect(tree.getBlackboard().getValue('last')).toBe('flee');
+    });
+
+    test('没有中断时stepNode应该开始新的执行并在根节点处中断', () => {
+        const tree = createTree();
+        const treeDebugger = new TreeDebugger(tree);
+
+        expect(treeDebugger.stepNode(0.5)).toMatchObject({ nodeId: 'loop', path: 'root', phase: 'start', tickIndex: 0 });
+        expect(tree.getClock().now()).toBe(0.5);
+        expect(treeDebugger.stepNode()).toMatchObject({ nodeId: 'brain', phase: 'start' });
+
+        treeDebugger.stepTick();
+        expect(treeDebugger.isHalted).toBe(false);
+        expect(tree.getStats().totalTicks).toBe(1);
+
+        treeDebugger.stepTick(0.5);
+        expect(tree.getStats().totalTicks).toBe(2);
+        expect(tree.isPaused()).toBe(true);
+    });
+
+    test('远程调试端应该支持断点和单步执行命令', () => {
+        const transport = new LoopbackTransport();
+        const server = new DebugServer(transport);
+        const tree = createTree();
+        server.addAgent('guard', tree);
+        const messages: DebugServerMessage[] = [];
+        const client = transport.connect(data => messages.push(JSON.parse(data)));
+
+        client.send(JSON.stringify({ type: 'setBreakpoint', nodeId: 'count' }));
+        const breakpoints = messages.find(message => message.type === 'breakpoints');
+        expect(breakpoints).toEqual({ type: 'breakpoints', agent: 'guard', breakpoints: [{ id: 1, nodeId: 'count', type: 'start' }] });
+
+        tree.tick(0.1);
+        messages.length = 0;
+        tree.tick(0.1);
+        expect(messages.map(message => message.type)).toEqual(['halted', 'tree']);
+        expect(messages[0]).toMatchObject({ agent: 'guard', halt: { nodeId: 'count', phase: 'start' } });
+
+        messages.length = 0;
+        client.send(JSON.stringify({ type: 'stepNode', id: 1 }));
+        expect(messages.find(message => message.type === 'halted')).toMatchObject({ halt: { nodeId: 'count', phase: 'end' } });
+
+        messages.length = 0;
+        client.send(JSON.stringify({ type: 'continue', id: 2 }));
+        expect(messages.map(message => message.type)).toEqual(['tick', 'paused', 'ack']);
+        expect(tree.isPaused()).toBe(false);
+
+        client.send(JSON.stringify({ type: 'removeBreakpoint', breakpointId: 1 }));
+        tree.tick(0.1);
+        expect(tree.isPaused()).toBe(false);
+        server.close();
+        expect(tree.hasObservers()).toBe(false);
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * 节点性能分析器测试
+ *
+ * 使用模拟的performance.now()测试TreeProfiler统计的自身耗时、总耗时、执行结果和中止次数，
+ * 以及热点报告的排序和重置
+ */
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../../behaviourTree/Behavior';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+import { Sequence } from '../../../behaviourTree/composites/Sequence';
+import { TimeoutDecorator } from '../../../behaviourTree/decorators/TimeoutDecorator';
+import { TreeProfiler } from '../../../behaviourTree/debug/TreeProfiler';
+
+let now = 0;
+
+/**
+ * 每次执行消耗固定时间，执行指定次数后成功的动作
+ */
+class CostAction extends Behavior<any> {
+    private _ticks = 0;
+
+    constructor(private readonly _cost: number, private readonly _steps: number) {
+        super();
+    }
+
+    public override onStart(): void {
+        this._ticks = 0;
+    }
+
+    public update(): TaskStatus {
+        now += this._cost;
+        return ++this._ticks >= this._steps ? TaskStatus.Success : TaskStatus.Running;
+    }
+}
+
+function createTree(): BehaviorTree<any> {
+    const root = new Sequence<any>();
+    root.addChild(new CostAction(2, 1));
+    root.addChild(new CostAction(5, 3));
+    return new BehaviorTree<any>({}, root, 0);
+}
+
+describe('节点性能分析器测试', () => {
+    beforeEach(() => {
+        now = 0;
+        jest.spyOn(performance, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('应该统计每个节点的自身耗时、总耗时和执行结果', () => {
+        const tree = createTree();
+        const profiler = new TreeProfiler(tree);
+
+        for (let i = 0; i < 4; i++) {
+            tree.tick(0.1);
+        }
+
+        expect(profiler.tickCount).toBe(4);
+        expect(profiler.getNodeProfile('root')).toMatchObject({
+            path: 'root',
+            type: 'Sequence',
+            ticks: 4,
+            totalSelfTime: 0,
+            totalTime: 17,
+            maxTime: 5,
+            runningCount: 3,
+            successCount: 1
+        });
+        expect(profiler.getNodeProfile('root/0')).toMatchObject({ ticks: 1, totalSelfTime: 2, successCount: 1 });
+        expect(profiler.getNodeProfile('root/1')).toEqual({
+            id: 'root/1',
+            path: 'root/1',
+            type: 'CostAction',
+            ticks: 3,
+            totalSelfTime: 15,
+            averageSelfTime: 5,
+            maxSelfTime: 5,
+            totalTime: 15,
+            averageTime: 5,
+            maxTime: 5,
+            successCount: 1,
+            failureCount: 0,
+            runningCount: 2,
+            abortCount: 0
+        });
+        expect(profiler.getNodeProfile('missing')).toBeUndefined();
+    });
+
+    test('应该统计被中止的次数', () => {
+        const tree = createTree();
+        const profiler = new TreeProfiler(tree);
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+        tree.getRoot().abort({});
+
+        expect(profiler.getNodeProfile('root/1')!.abortCount).toBe(1);
+        expect(profiler.getNodeProfile('root')!.abortCount).toBe(1);
+        expect(profiler.getNodeProfile('root/0')!.abortCount).toBe(0);
+    });
+
+    test('装饰器的子节点应该被单独统计', () => {
+        const timeout = new TimeoutDecorator<any>(10);
+        timeout.child = new CostAction(3, 2);
+        const tree = new BehaviorTree<any>({}, timeout, 0);
+        const profiler = new TreeProfiler(tree);
+
+        tree.tick(0.1);
+        tree.tick(0.1);
+
+        expect(profiler.getNodeProfile('root/0')).toMatchObject({
+            type: 'CostAction',
+            ticks: 2,
+            totalSelfTime: 6,
+            runningCount: 1,
+            successCount: 1
+        });
+        expect(profiler.getNodeProfile('root')).toMatchObject({ type: 'TimeoutDecorator', totalSelfTime: 0, totalTime: 6 });
+    });
+
+    test('热点报告应该按指定字段降序排列并支持重置', () => {
+        const tree = createTree();
+        const profiler = new TreeProfiler(tree);
+        for (let i = 0; i < 4; i++) {
+            tree.tick(0.1);
+        }
+
+        const report = profiler.createReport({ limit: 2 });
+        expect(report.tickCount).toBe(4);
+        expect(report.totalTickTime).toBe(17);
+        expect(report.sortBy).toBe('totalSelfTime');
+        expect(report.nodes.map(node => node.id)).toEqual(['root/1', 'root/0']);
+        expect(profiler.createReport({ sortBy: 'totalTime' }).nodes.map(node => node.id)).toEqual(['root', 'root/1', 'root/0']);
+
+        const text = profiler.formatReport({ limit: 1 });
+        expect(text.split('\n')).toHaveLength(3);
+        expect(text).toContain('root/1 | CostAction | 3 | 15.000/5.000/5.000');
+
+        profiler.reset();
+        expect(profiler.getNodeProfiles()).toEqual([]);
+        expect(profiler.tickCount).toBe(0);
+
+        profiler.dispose();
+        tree.tick(0.1);
+        expect(profiler.getNodeProfiles()).toEqual([]);
+        expect(tree.hasObservers()).toBe(false);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * NodeCatalog 测试
+ *
+ * 测试节点元数据和编辑器节点目录的导出，包括自定义节点和事件处理器
+ */
+import { exportNodeCatalog, NODE_CATALOG_VERSION } from '../../../behaviourTree/factories/NodeCatalog';
+import { NodeTypeRegistry } from '../../../behaviourTree/factories/NodeTypeRegistry';
+import { EventRegistry } from '../../../behaviourTree/events/EventRegistry';
+import { ExecuteAction } from '../../../behaviourTree/actions/ExecuteAction';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+
+describe('NodeCatalog 测试', () => {
+  describe('节点元数据', () => {
+    test('未声明时应该按类别推断子节点数量约束', () => {
+      const registry = NodeTypeRegistry.getDefault();
+
+      expect(registry.getChildrenConstraint('sequence')).toEqual({ min: 1, max: null });
+      expect(registry.getChildrenConstraint('Inverter')).toEqual({ min: 1, max: 1 });
+      expect(registry.getChildrenConstraint('wait-action')).toEqual({ min: 0, max: 0 });
+      expect(registry.getChildrenConstraint('unknown')).toBeUndefined();
+    });
+
+    test('应该返回指向节点类型的别名', () => {
+      const registry = NodeTypeRegistry.getDefault();
+      expect(registry.getAliases('repeater')).toEqual(['Repeater']);
+      expect(registry.getAliases('property-exists')).toEqual(['condition-property']);
+    });
+  });
+
+  describe('导出目录', () => {
+    test('应该包含内置节点的显示名称、范围和枚举选项', () => {
+      const catalog = exportNodeCatalog();
+      expect(catalog.version).toBe(NODE_CATALOG_VERSION);
+
+      const chance = catalog.nodes.find(node => node.type === 'chance')!;
+      expect(chance.category).toBe('decorator');
+      expect(chance.displayName).toBe('概率');
+      expect(chance.properties).toEqual([{
+        name: 'successChance',
+        type: 'number',
+        displayName: 'successChance',
+        description: '执行子节点的概率',
+        default: 0.5,
+        required: false,
+        min: 0,
+        max: 1
+      }]);
+
+      const sequence = catalog.nodes.find(node => node.type === 'sequence')!;
+      expect(sequence.aliases).toEqual(['Sequence']);
+      expect(sequence.properties[0]!.options).toEqual(['None', 'Self', 'LowerPriority', 'Both']);
+
+      const math = catalog.nodes.find(node => node.type === 'math-blackboard-operation')!;
+      expect(math.properties.find(p => p.name === 'operation')!.options).toContain('modulo');
+    });
+
+    test('应该包含自定义注册的节点类型', () => {
+      const registry = NodeTypeRegistry.createWithBuiltins();
+      registry.register({
+        type: 'patrol',
+        category: 'composite',
+        displayName: '巡逻',
+        children: { min: 2, max: 4 },
+        properties: {
+          speed: { type: 'number', required: true, displayName: '速度', min: 0 },
+          mode: { type: 'string', default: 'loop', options: ['loop', 'pingpong'] }
+        },
+        factory: () => new ExecuteAction(() => TaskStatus.Success)
+      });
+
+      const patrol = exportNodeCatalog({ registry }).nodes.find(node => node.type === 'patrol')!;
+      expect(patrol.displayName).toBe('巡逻');
+      expect(patrol.children).toEqual({ min: 2, max: 4 });
+      expect(patrol.properties).toEqual([
+        { name: 'speed', type: 'number', displayName: '速度', required: true, min: 0 },
+        { name: 'mode', type: 'string', displayName: 'mode', default: 'loop', required: false, options: ['loop', 'pingpong'] }
+      ]);
+    });
+
+    test('应该包含事件注册表中的处理器及其元数据', () => {
+      const eventRegistry = new EventRegistry();
+      eventRegistry.registerAction('open-door', () => 'success', {
+        displayName: '开门',
+        category: '场景',
+        parameters: { doorId: { type: 'string', required: true } }
+      });
+      eventRegistry.registerActionRegex(/^enemy\..+$/, () => 'success');
+      eventRegistry.registerCondition('is-night', () => true, { description: '当前是否为夜晚' });
+
+      const catalog = exportNodeCatalog({ eventRegistry });
+
+      expect(catalog.eventActions).toHaveLength(2);
+      expect(catalog.eventActions[0]).toMatchObject({
+        name: 'open-door',
+        isPattern: false,
+        displayName: '开门',
+        category: '场景',
+        parameters: [{ name: 'doorId', type: 'string', required: true }]
+      });
+      expect(catalog.eventActions[1]).toMatchObject({ name: '^enemy\\..+$', isPattern: true, parameters: [] });
+      expect(catalog.eventConditions).toEqual([
+        expect.objectContaining({ name: 'is-night', displayName: 'is-night', description: '当前是否为夜晚' })
+      ]);
+    });
+
+    test('导出的目录应该可以序列化为JSON', () => {
+      const catalog = exportNodeCatalog({ eventRegistry: new EventRegistry() });
+      const parsed = JSON.parse(JSON.stringify(catalog));
+
+      expect(parsed.nodes).toHaveLength(NodeTypeRegistry.getDefault().getTypes().length);
+      expect(parsed.nodes.find((node: any) => node.type === 'selector').children).toEqual({ min: 1, max: null });
+    });
+  });
+});
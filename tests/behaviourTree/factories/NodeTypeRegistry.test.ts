@@ -0,0 +1,214 @@
+/**
+ * NodeTypeRegistry 测试
+ *
+ * 测试节点类型注册、属性描述解析、别名以及构建器和NodeFactory对注册表的使用
+ */
+import { NodeTypeRegistry } from '../../../behaviourTree/factories/NodeTypeRegistry';
+import { NodeFactory } from '../../../behaviourTree/factories/NodeFactory';
+import { Behavior } from '../../../behaviourTree/Behavior';
+import {
+  BehaviorTreeBuilder,
+  BehaviorTreeNodeConfig,
+  ExecutionContext
+} from '../../../behaviourTree/BehaviorTreeBuilder';
+import { Blackboard, BlackboardValueType } from '../../../behaviourTree/Blackboard';
+import { Sequence } from '../../../behaviourTree/composites/Sequence';
+import { AbortTypes } from '../../../behaviourTree/composites/AbortTypes';
+import { Repeater } from '../../../behaviourTree/decorators/Repeater';
+import { MathBlackboardOperation, MathOperation } from '../../../behaviourTree/actions/BlackboardActions';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+
+/**
+ * 自定义游戏节点：对黑板中的目标造成伤害
+ */
+class DealDamage extends Behavior<any> {
+  constructor(public readonly targetKey: string, public readonly damage: number) {
+    super();
+  }
+
+  update(context: any): TaskStatus {
+    const blackboard: Blackboard = context.blackboard;
+    blackboard.setValue(this.targetKey, blackboard.getValue(this.targetKey) - this.damage);
+    return TaskStatus.Success;
+  }
+}
+
+/**
+ * 创建注册了DealDamage节点的注册表
+ */
+function createGameRegistry(): NodeTypeRegistry {
+  const registry = NodeTypeRegistry.createWithBuiltins();
+  registry.register({
+    type: 'deal-damage',
+    category: 'action',
+    properties: {
+      targetKey: { type: 'string', required: true },
+      damage: { type: 'number', default: 10 }
+    },
+    factory: (props) => new DealDamage(props.targetKey, props.damage)
+  });
+  return registry;
+}
+
+/**
+ * 创建最小的节点构建上下文
+ */
+function createBuildContext(nodeId: string = 'node') {
+  return {
+    context: {},
+    nodeId,
+    createSubTreeReference: () => {
+      throw new Error('not supported');
+    }
+  };
+}
+
+describe('NodeTypeRegistry 测试', () => {
+  describe('注册和创建', () => {
+    test('默认注册表应该包含内置节点类型和别名', () => {
+      const registry = NodeTypeRegistry.getDefault();
+
+      expect(registry.has('sequence')).toBe(true);
+      expect(registry.has('blackboard-value-comparison')).toBe(true);
+      expect(registry.has('Sequence')).toBe(true);
+      expect(registry.get('Sequence')).toBe(registry.get('sequence'));
+      expect(registry.getTypes()).not.toContain('Sequence');
+    });
+
+    test('重复注册同名类型应该抛出错误，除非允许覆盖', () => {
+      const registry = createGameRegistry();
+      const definition = { type: 'deal-damage', category: 'action' as const, factory: () => new DealDamage('hp', 1) };
+
+      expect(() => registry.register(definition)).toThrow('节点类型 "deal-damage" 已注册');
+      expect(() => registry.register(definition, true)).not.toThrow();
+    });
+
+    test('未知的节点类型应该抛出明确的错误', () => {
+      const registry = new NodeTypeRegistry();
+      expect(() => registry.create('teleport', {}, createBuildContext('n1')))
+        .toThrow('未知的节点类型: "teleport"（节点 "n1"）');
+    });
+
+    test('为未注册的类型创建别名应该抛出错误', () => {
+      expect(() => new NodeTypeRegistry().registerAlias('Foo', 'foo')).toThrow('未注册的节点类型 "foo"');
+    });
+  });
+
+  describe('属性解析', () => {
+    test('应该应用默认值并转换属性类型', () => {
+      const registry = createGameRegistry();
+
+      const withDefault = registry.create('deal-damage', { targetKey: 'hp' }, createBuildContext()) as DealDamage;
+      expect(withDefault.damage).toBe(10);
+
+      const fromString = registry.create('deal-damage', { targetKey: 'hp', damage: '25' }, createBuildContext()) as DealDamage;
+      expect(fromString.damage).toBe(25);
+    });
+
+    test('应该提取编辑器格式的嵌套属性值', () => {
+      const registry = createGameRegistry();
+      const node = registry.create('deal-damage', {
+        targetKey: { type: 'string', value: 'hp' },
+        damage: { type: 'number', value: 5 }
+      }, createBuildContext()) as DealDamage;
+
+      expect(node.targetKey).toBe('hp');
+      expect(node.damage).toBe(5);
+    });
+
+    test('缺少必需属性应该抛出错误', () => {
+      expect(() => createGameRegistry().create('deal-damage', {}, createBuildContext('attack')))
+        .toThrow('节点 "attack"（deal-damage）缺少必需属性: targetKey');
+    });
+
+    test('别名应该可以覆盖属性默认值', () => {
+      const registry = NodeTypeRegistry.getDefault();
+      const repeater = registry.create('repeater', {}, createBuildContext()) as Repeater<any>;
+      const editorRepeater = registry.create('Repeater', {}, createBuildContext()) as Repeater<any>;
+
+      expect(repeater.count).toBe(-1);
+      expect(editorRepeater.count).toBe(1);
+    });
+
+    test('数学运算节点应该识别所有运算类型', () => {
+      const node = NodeTypeRegistry.getDefault().create(
+        'math-blackboard-operation',
+        { operation: 'multiply' },
+        createBuildContext()
+      ) as MathBlackboardOperation<any>;
+
+      expect(node.operation).toBe(MathOperation.Multiply);
+    });
+  });
+
+  describe('构建器使用注册表', () => {
+    test('JSON配置应该可以使用上下文中注册的自定义节点', () => {
+      const { tree, blackboard } = BehaviorTreeBuilder.fromBehaviorTreeConfig<ExecutionContext>({
+        nodes: [
+          { id: 'root', type: 'sequence', name: 'root', children: ['attack'] },
+          { id: 'attack', type: 'deal-damage', name: 'attack', properties: { targetKey: 'hp', damage: 30 } }
+        ],
+        blackboard: [{ name: 'hp', type: 'number', value: 100 }]
+      }, { nodeRegistry: createGameRegistry() });
+
+      expect(tree.tickImmediate()).toBe(TaskStatus.Success);
+      expect(blackboard.getValue('hp')).toBe(70);
+    });
+
+    test('JSON配置中的未知节点类型应该构建失败而不是使用默认节点', () => {
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [{ id: 'attack', type: 'deal-damage', name: 'attack' }]
+      })).toThrow('未知的节点类型: "deal-damage"');
+    });
+
+    test('编辑器配置应该通过PascalCase别名创建节点', () => {
+      const tree = BehaviorTreeBuilder.fromConfig({
+        version: '1.0',
+        type: 'behavior-tree',
+        tree: {
+          id: 'root',
+          type: 'Sequence',
+          properties: { abortType: { type: 'string', value: 'Self' } },
+          children: [{ id: 'wait', type: 'WaitAction', properties: { waitTime: { type: 'number', value: 2 } } }]
+        }
+      }, {});
+
+      const root = tree.getRoot() as Sequence<any>;
+      expect(root).toBeInstanceOf(Sequence);
+      expect(root.abortType).toBe(AbortTypes.Self);
+      expect((root as any)._children).toHaveLength(1);
+    });
+
+    test('编辑器配置中的未知节点类型应该构建失败', () => {
+      expect(() => BehaviorTreeBuilder.fromConfig({
+        version: '1.0',
+        type: 'behavior-tree',
+        tree: { id: 'root', type: 'Teleport' }
+      }, {})).toThrow('未知的节点类型: "Teleport"');
+    });
+  });
+
+  describe('NodeFactory', () => {
+    test('应该创建包含子节点的完整节点树且不输出日志', () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+      const configs: BehaviorTreeNodeConfig[] = [
+        { id: 'root', type: 'sequence', name: 'root', children: ['check', 'set'] },
+        { id: 'check', type: 'blackboard-variable-exists', name: 'check', properties: { variableName: 'hp' } },
+        { id: 'set', type: 'set-blackboard-value', name: 'set', properties: { variableName: 'hp', value: 1 } }
+      ];
+      const nodeMap = new Map(configs.map(config => [config.id, config]));
+      const blackboard = new Blackboard();
+      blackboard.defineVariable('hp', BlackboardValueType.Number, 100);
+
+      const root = NodeFactory.createNode(configs[0]!, nodeMap, { blackboard });
+      expect(root).toBeInstanceOf(Sequence);
+      expect((root as any)._children).toHaveLength(2);
+
+      root.tick({ blackboard });
+      expect(root.tick({ blackboard })).toBe(TaskStatus.Success);
+      expect(blackboard.getValue('hp')).toBe(1);
+      expect(logSpy).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+  });
+});
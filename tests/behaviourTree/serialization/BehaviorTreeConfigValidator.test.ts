@@ -0,0 +1,140 @@
+/**
+ * BehaviorTreeConfigValidator 测试
+ *
+ * 测试行为树JSON配置验证的问题路径、节点ID、严重程度以及构建器的严格模式
+ */
+import { validateBehaviorTreeConfig } from '../../../behaviourTree/serialization/BehaviorTreeConfigValidator';
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { NodeTypeRegistry } from '../../../behaviourTree/factories/NodeTypeRegistry';
+import { WaitAction } from '../../../behaviourTree/actions/WaitAction';
+
+/**
+ * 创建有效的配置
+ */
+function createValidConfig(): BehaviorTreeJSONConfig {
+  return {
+    nodes: [
+      { id: 'root', type: 'selector', name: 'root', properties: { abortType: 'LowerPriority' }, children: ['guard', 'idle'] },
+      { id: 'guard', type: 'inverter', name: 'guard', children: ['check'] },
+      { id: 'check', type: 'blackboard-variable-exists', name: 'check', properties: { variableName: 'target' } },
+      { id: 'idle', type: 'wait-action', name: 'idle', properties: { waitTime: 2 } }
+    ],
+    blackboard: [{ name: 'target', type: 'object', value: {} }]
+  };
+}
+
+describe('BehaviorTreeConfigValidator 测试', () => {
+  test('有效的配置应该没有问题', () => {
+    expect(validateBehaviorTreeConfig(createValidConfig())).toEqual({ valid: true, issues: [] });
+  });
+
+  test('非对象配置和空节点列表应该报错', () => {
+    expect(validateBehaviorTreeConfig(null).issues).toEqual([
+      { severity: 'error', path: '$', message: '配置必须是对象' }
+    ]);
+    expect(validateBehaviorTreeConfig({ nodes: [] }).issues[0]).toMatchObject({ path: '$.nodes', severity: 'error' });
+  });
+
+  test('应该一次返回所有问题并给出路径和节点ID', () => {
+    const config = createValidConfig();
+    config.nodes[0]!.children!.push('missing');
+    config.nodes[1]!.children!.push('idle');
+    config.nodes[3]!.properties = { waitTime: 'soon' };
+    config.nodes.push({ id: 'check', type: 'teleport', name: 'dup' });
+
+    const result = validateBehaviorTreeConfig(config);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(expect.arrayContaining([
+      { severity: 'error', path: '$.nodes[4].id', nodeId: 'check', message: expect.stringContaining('节点ID重复') },
+      { severity: 'error', path: '$.nodes[0].children[2]', nodeId: 'root', message: '未找到子节点 "missing"' },
+      { severity: 'error', path: '$.nodes[1].children', nodeId: 'guard', message: expect.stringContaining('最多有1个子节点') },
+      { severity: 'error', path: '$.nodes[3].properties.waitTime', nodeId: 'idle', message: expect.stringContaining('应该是数字') },
+      { severity: 'error', path: '$.nodes[4].type', nodeId: 'check', message: '未知的节点类型 "teleport"' }
+    ]));
+    expect(result.issues.filter(issue => issue.severity === 'error')).toHaveLength(5);
+  });
+
+  test('应该检测叶子节点的子节点、缺少的必需属性和超出范围的值', () => {
+    const registry = NodeTypeRegistry.createWithBuiltins();
+    registry.register({
+      type: 'move-to',
+      category: 'action',
+      properties: { target: { type: 'string', required: true } },
+      factory: () => new WaitAction(0)
+    });
+
+    const result = validateBehaviorTreeConfig({
+      nodes: [
+        { id: 'root', type: 'sequence', name: 'root', children: ['move', 'dice'] },
+        { id: 'move', type: 'move-to', name: 'move', children: ['dice'] },
+        { id: 'dice', type: 'chance', name: 'dice', properties: { successChance: 3 }, children: ['move'] }
+      ]
+    }, { registry });
+
+    expect(result.issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: '$.nodes[1].children', message: 'move-to节点不能有子节点', severity: 'error' }),
+      expect.objectContaining({ path: '$.nodes[1].properties.target', message: '缺少必需属性 "target"', severity: 'error' }),
+      expect.objectContaining({ path: '$.nodes[2].properties.successChance', severity: 'warning' }),
+      expect.objectContaining({ path: '$.nodes[2].children[0]', message: '子节点 "move" 形成循环引用', severity: 'error' })
+    ]));
+  });
+
+  test('应该以警告报告无法到达的节点和不在可选值中的属性', () => {
+    const config = createValidConfig();
+    config.nodes[0]!.properties = { abortType: 'Sometimes' };
+    config.nodes.push({ id: 'orphan', type: 'wait-action', name: 'orphan' });
+
+    const result = validateBehaviorTreeConfig(config);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ severity: 'warning', path: '$.nodes[0].properties.abortType' }),
+      { severity: 'warning', path: '$.nodes[4]', nodeId: 'orphan', message: '节点无法从根节点到达，不会被构建' }
+    ]);
+  });
+
+  test('应该验证黑板变量和端口', () => {
+    const result = validateBehaviorTreeConfig({
+      ...createValidConfig(),
+      blackboard: [
+        { name: 'hp', type: 'number', value: 1 },
+        { name: 'hp', type: 'integer', value: 1 }
+      ],
+      ports: [{ name: 'target', type: 'object', direction: 'sideways' }]
+    });
+
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      '$.blackboard[1].name',
+      '$.blackboard[1].type',
+      '$.ports[0].direction'
+    ]);
+  });
+
+  describe('构建器严格模式', () => {
+    const invalidConfig: BehaviorTreeJSONConfig = {
+      nodes: [
+        { id: 'root', type: 'inverter', name: 'root', children: ['a', 'b'] },
+        { id: 'a', type: 'wait-action', name: 'a' },
+        { id: 'b', type: 'wait-action', name: 'b' }
+      ]
+    };
+
+    test('严格模式下应该拒绝构建无效的配置', () => {
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig(invalidConfig, undefined, { strict: true }))
+        .toThrow('$.nodes[0].children（节点 "root"）: inverter节点最多有1个子节点');
+    });
+
+    test('非严格模式下保持原有行为', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig(invalidConfig)).not.toThrow();
+      warnSpy.mockRestore();
+    });
+
+    test('严格模式下只有警告时应该正常构建', () => {
+      const config = createValidConfig();
+      config.nodes.push({ id: 'orphan', type: 'wait-action', name: 'orphan' });
+      expect(() => BehaviorTreeBuilder.fromBehaviorTreeConfig(config, undefined, { strict: true })).not.toThrow();
+    });
+  });
+});
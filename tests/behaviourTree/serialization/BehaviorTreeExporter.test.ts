@@ -0,0 +1,252 @@
+/**
+ * BehaviorTreeExporter 测试
+ *
+ * 测试将代码构建和配置构建的行为树导出为JSON配置、导出的稳定性以及无法序列化节点的报告
+ */
+import { BehaviorTreeExporter } from '../../../behaviourTree/serialization/BehaviorTreeExporter';
+import { BehaviorTreeBuilder, BehaviorTreeJSONConfig } from '../../../behaviourTree/BehaviorTreeBuilder';
+import { BehaviorTree } from '../../../behaviourTree/BehaviorTree';
+import { Behavior } from '../../../behaviourTree/Behavior';
+import { Blackboard, BlackboardValueType } from '../../../behaviourTree/Blackboard';
+import { Selector } from '../../../behaviourTree/composites/Selector';
+import { Sequence } from '../../../behaviourTree/composites/Sequence';
+import { AbortTypes } from '../../../behaviourTree/composites/AbortTypes';
+import { CooldownDecorator } from '../../../behaviourTree/decorators/CooldownDecorator';
+import { TimeoutDecorator } from '../../../behaviourTree/decorators/TimeoutDecorator';
+import { ChanceDecorator } from '../../../behaviourTree/decorators/ChanceDecorator';
+import { Repeater } from '../../../behaviourTree/decorators/Repeater';
+import { Inverter } from '../../../behaviourTree/decorators/Inverter';
+import { WaitAction } from '../../../behaviourTree/actions/WaitAction';
+import { LogAction } from '../../../behaviourTree/actions/LogAction';
+import { SetBlackboardValue, MathBlackboardOperation, MathOperation } from '../../../behaviourTree/actions/BlackboardActions';
+import { NodeTypeRegistry } from '../../../behaviourTree/factories/NodeTypeRegistry';
+import { TaskStatus } from '../../../behaviourTree/TaskStatus';
+
+/**
+ * 用代码构建包含各类可序列化节点的行为树
+ */
+function createCodeBuiltTree(): BehaviorTree<any> {
+  const blackboard = new Blackboard();
+  blackboard.defineVariable('hp', BlackboardValueType.Number, 100, { min: 0, max: 100, description: '生命值' });
+  blackboard.defineVariable('state', BlackboardValueType.String, 'idle', { group: 'AI', options: ['idle', 'attack'] });
+
+  const root = new Selector<any>(AbortTypes.LowerPriority);
+
+  const attack = new Sequence<any>(AbortTypes.Self);
+  const cooldown = new CooldownDecorator<any>(2);
+  cooldown.child = new SetBlackboardValue<any>('state', 'attack');
+  attack.addChild(cooldown);
+  const timeout = new TimeoutDecorator<any>(3);
+  timeout.child = new WaitAction<any>(1.5);
+  attack.addChild(timeout);
+  root.addChild(attack);
+
+  const chance = new ChanceDecorator<any>(0.25);
+  const repeater = new Repeater<any>(3, true);
+  repeater.child = new MathBlackboardOperation<any>('hp', 'hp', 1, MathOperation.Subtract);
+  chance.child = repeater;
+  root.addChild(chance);
+
+  return new BehaviorTree<any>({}, root, 0.1, false, blackboard);
+}
+
+/**
+ * 导入配置并再次导出
+ */
+function reimport(config: BehaviorTreeJSONConfig): BehaviorTreeJSONConfig {
+  const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(JSON.parse(JSON.stringify(config)));
+  return BehaviorTreeExporter.exportTree(tree).config;
+}
+
+describe('BehaviorTreeExporter 测试', () => {
+  describe('代码构建的行为树', () => {
+    test('应该导出节点类型、属性和子节点关系', () => {
+      const { config, unserializable } = BehaviorTreeExporter.exportTree(createCodeBuiltTree());
+
+      expect(unserializable).toEqual([]);
+      expect(config.nodes.map(node => node.type)).toEqual([
+        'selector', 'sequence', 'cooldown', 'set-blackboard-value', 'timeout', 'wait-action',
+        'chance', 'repeater', 'math-blackboard-operation'
+      ]);
+
+      const [root, attack] = config.nodes;
+      expect(root).toEqual({
+        id: 'root',
+        type: 'selector',
+        name: 'selector',
+        properties: { abortType: 'LowerPriority' },
+        children: ['root/0', 'root/1']
+      });
+      expect(attack!.properties).toEqual({ abortType: 'Self' });
+      expect(config.nodes.find(node => node.type === 'cooldown')!.properties).toEqual({ cooldownTime: 2 });
+      expect(config.nodes.find(node => node.type === 'repeater')!.properties)
+        .toEqual({ count: 3, endOnFailure: true, endOnSuccess: false });
+      expect(config.nodes.find(node => node.type === 'math-blackboard-operation')!.properties!.operation).toBe('subtract');
+      expect(config.metadata).toEqual({ updatePeriod: 0.1 });
+    });
+
+    test('应该导出黑板变量定义和约束', () => {
+      const tree = createCodeBuiltTree();
+      tree.getBlackboard().setValue('hp', 40);
+
+      const { config } = BehaviorTreeExporter.exportTree(tree);
+      expect(config.blackboard).toEqual([
+        { name: 'hp', type: 'number', value: 100, description: '生命值', constraints: { min: 0, max: 100 } },
+        { name: 'state', type: 'string', value: 'idle', group: 'AI', constraints: { options: ['idle', 'attack'] } }
+      ]);
+
+      const current = BehaviorTreeExporter.exportTree(tree, { useCurrentValues: true }).config;
+      expect(current.blackboard![0]!.value).toBe(40);
+    });
+
+    test('导出→导入→导出应该保持稳定', () => {
+      const { config } = BehaviorTreeExporter.exportTree(createCodeBuiltTree());
+      expect(reimport(config)).toEqual(config);
+    });
+  });
+
+  describe('配置构建的行为树', () => {
+    const source: BehaviorTreeJSONConfig = {
+      nodes: [
+        { id: 'main', type: 'sequence', name: '主序列', children: ['check', 'guard', 'log'] },
+        {
+          id: 'check',
+          type: 'blackboard-value-comparison',
+          name: '检查生命值',
+          properties: { variableName: 'hp', operator: 'greater', compareValue: 10 }
+        },
+        {
+          id: 'guard',
+          type: 'conditional-decorator',
+          name: '条件',
+          properties: { conditionType: 'blackboardCompare', variableName: 'hp', operator: 'less', compareValue: 50 },
+          children: ['heal']
+        },
+        { id: 'heal', type: 'execute-action', name: '治疗', properties: { actionCode: 'return Success;' } },
+        { id: 'log', type: 'LogAction', name: '日志', properties: { message: 'hp={{hp}}' } }
+      ],
+      blackboard: [{ name: 'hp', type: 'number', value: 30 }]
+    };
+
+    test('应该保留节点ID、名称和创建时的属性', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(source);
+      const { config, unserializable } = BehaviorTreeExporter.exportTree(tree);
+
+      expect(unserializable).toEqual([]);
+      expect(config.nodes.map(node => [node.id, node.name])).toEqual([
+        ['main', '主序列'], ['check', '检查生命值'], ['guard', '条件'], ['heal', '治疗'], ['log', '日志']
+      ]);
+      expect(config.nodes[1]!.properties).toMatchObject({ variableName: 'hp', operator: 'greater', compareValue: 10 });
+      expect(config.nodes[3]!.properties).toEqual({ actionCode: 'return Success;' });
+      expect(config.nodes[4]!.type).toBe('log-action');
+    });
+
+    test('导出的配置重新导入后应该得到相同的配置', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig(source);
+      const { config } = BehaviorTreeExporter.exportTree(tree);
+
+      expect(reimport(config)).toEqual(config);
+    });
+
+    test('日志节点构建→导出→再构建应该保持LogAction和日志级别', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [{ id: 'log', type: 'log-action', name: '日志', properties: { message: '受到攻击', logLevel: 'error' } }]
+      });
+      const log = tree.getRoot() as LogAction<any>;
+      expect(log).toBeInstanceOf(LogAction);
+      expect(log.isError).toBe(true);
+
+      const codeBuilt = new BehaviorTree<any>({}, new LogAction<any>('受到攻击', 'error'), 0.1);
+      const { config } = BehaviorTreeExporter.exportTree(codeBuilt);
+      expect(config.nodes[0]!.type).toBe('log-action');
+      expect(config.nodes[0]!.properties).toEqual({ message: '受到攻击', logLevel: 'error' });
+
+      const { tree: rebuilt } = BehaviorTreeBuilder.fromBehaviorTreeConfig(JSON.parse(JSON.stringify(config)));
+      const rebuiltLog = rebuilt.getRoot() as LogAction<any>;
+      expect(rebuiltLog).toBeInstanceOf(LogAction);
+      expect(rebuiltLog.isError).toBe(true);
+      expect(rebuiltLog.text).toBe('受到攻击');
+      expect(BehaviorTreeExporter.exportTree(rebuilt).config).toEqual(config);
+    });
+
+    test('日志节点的warn级别应该原样导出', () => {
+      const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+        nodes: [{ id: 'log', type: 'log-action', name: '日志', properties: { message: '生命值过低', logLevel: 'warn' } }]
+      });
+      expect((tree.getRoot() as LogAction<any>).logLevel).toBe('warn');
+
+      const { config } = BehaviorTreeExporter.exportTree(tree);
+      expect(config.nodes[0]!.properties).toEqual({ message: '生命值过低', logLevel: 'warn' });
+      expect(reimport(config)).toEqual(config);
+    });
+  });
+
+  describe('无法序列化的节点', () => {
+    function createTreeWithLambda(): BehaviorTree<any> {
+      return BehaviorTreeBuilder.begin<any>({})
+        .sequence()
+          .waitAction(1)
+          .inverter()
+          .action(() => TaskStatus.Success)
+        .endComposite()
+        .build();
+    }
+
+    test('应该报告代码函数构建的节点并从配置中省略', () => {
+      const { config, unserializable } = BehaviorTreeExporter.exportTree(createTreeWithLambda());
+
+      expect(unserializable).toEqual([
+        { path: 'root/1/0', nodeType: 'ExecuteAction', reason: expect.stringContaining('代码函数') }
+      ]);
+      expect(config.nodes.map(node => node.type)).toEqual(['sequence', 'wait-action', 'inverter']);
+      expect(config.nodes[2]!.children).toEqual([]);
+    });
+
+    test('严格模式下应该抛出错误', () => {
+      expect(() => BehaviorTreeExporter.exportTree(createTreeWithLambda(), { strict: true }))
+        .toThrow('存在无法序列化的节点: root/1/0（ExecuteAction）');
+    });
+
+    test('自定义节点注册serialize后应该可以导出', () => {
+      class Shout extends Behavior<any> {
+        constructor(public readonly word: string) {
+          super();
+        }
+
+        update(): TaskStatus {
+          return TaskStatus.Success;
+        }
+      }
+
+      const registry = NodeTypeRegistry.createWithBuiltins();
+      registry.register({
+        type: 'shout',
+        category: 'action',
+        properties: { word: { type: 'string', required: true } },
+        nodeClass: Shout,
+        serialize: (node) => ({ word: (node as Shout).word }),
+        factory: (props) => new Shout(props.word)
+      });
+
+      const inverter = new Inverter<any>();
+      inverter.child = new Shout('hello');
+
+      expect(BehaviorTreeExporter.exportNodes(inverter).unserializable).toHaveLength(1);
+      const { nodes } = BehaviorTreeExporter.exportNodes(inverter, { registry });
+      expect(nodes[1]).toEqual({ id: 'root/0', type: 'shout', name: 'shout', properties: { word: 'hello' } });
+    });
+  });
+
+  test('节点ID重复时应该生成不重复的ID', () => {
+    const { tree } = BehaviorTreeBuilder.fromBehaviorTreeConfig({
+      nodes: [
+        { id: 'root', type: 'sequence', name: 'root', children: ['wait', 'wait'] },
+        { id: 'wait', type: 'wait-action', name: 'wait' }
+      ]
+    });
+
+    const { config } = BehaviorTreeExporter.exportTree(tree);
+    expect(config.nodes.map(node => node.id)).toEqual(['root', 'wait', 'wait#1']);
+    expect(config.nodes[0]!.children).toEqual(['wait', 'wait#1']);
+  });
+});
@@ -0,0 +1,140 @@
+import { Random, RandomAlgorithm, RandomStream } from '../../core/Random';
+
+const algorithms: RandomAlgorithm[] = ['xorshift128', 'sfc32', 'mulberry32'];
+
+function draw(stream: RandomStream, count: number = 10): number[] {
+    return Array.from({ length: count }, () => stream.integer(0, 1000000));
+}
+
+describe('RandomStream 随机数流测试', () => {
+    describe('算法', () => {
+        test.each(algorithms)('%s 相同种子应该产生相同的序列', (algorithm) => {
+            const a = new RandomStream(123, algorithm);
+            const b = new RandomStream(123, algorithm);
+
+            expect(a.algorithm).toBe(algorithm);
+            expect(draw(a)).toEqual(draw(b));
+            expect(draw(new RandomStream(124, algorithm))).not.toEqual(draw(new RandomStream(123, algorithm)));
+        });
+
+        test.each(algorithms)('%s 生成的值应该在[0, 1)范围内且分布均匀', (algorithm) => {
+            const stream = new RandomStream(99, algorithm);
+            const buckets = new Array(10).fill(0);
+            for (let i = 0; i < 10000; i++) {
+                const value = stream.value();
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThan(1);
+                buckets[Math.floor(value * 10)]++;
+            }
+            for (const bucket of buckets) {
+                expect(bucket).toBeGreaterThan(850);
+                expect(bucket).toBeLessThan(1150);
+            }
+        });
+
+        test('不同算法应该产生不同的序列', () => {
+            const sequences = algorithms.map(algorithm => draw(new RandomStream(7, algorithm)).join(','));
+            expect(new Set(sequences).size).toBe(algorithms.length);
+        });
+
+        test('未知算法应该抛出错误', () => {
+            expect(() => new RandomStream(1, 'mt19937' as RandomAlgorithm)).toThrow('未知的随机数算法');
+        });
+    });
+
+    describe('派生子流', () => {
+        test('相同标签应该派生相同的子流，且不消耗父流', () => {
+            const parent = new RandomStream(2024);
+            const reference = new RandomStream(2024);
+
+            const first = parent.fork('ai');
+            const second = parent.fork('ai');
+            expect(draw(first)).toEqual(draw(second));
+            expect(draw(parent)).toEqual(draw(reference));
+        });
+
+        test('不同标签的子流应该相互独立', () => {
+            const parent = new RandomStream(2024);
+            const ai = parent.fork('ai');
+            const loot = parent.fork('loot');
+            const expectedLoot = draw(new RandomStream(2024).fork('loot'));
+
+            // 一个子流多消耗随机数不应该影响另一个子流
+            draw(ai, 100);
+            expect(draw(loot)).toEqual(expectedLoot);
+            expect(draw(parent.fork('ai'))).not.toEqual(expectedLoot);
+        });
+
+        test('子流可以使用不同的算法', () => {
+            const child = new RandomStream(5, 'xorshift128').fork('physics', 'mulberry32');
+            expect(child.algorithm).toBe('mulberry32');
+            expect(draw(child)).toEqual(draw(new RandomStream(5).fork('physics', 'mulberry32')));
+        });
+    });
+
+    describe('状态序列化', () => {
+        test.each(algorithms)('%s 状态经过JSON序列化后应该可以恢复', (algorithm) => {
+            const stream = new RandomStream(77, algorithm);
+            draw(stream, 3);
+
+            const json = JSON.stringify(stream.getState());
+            const expected = draw(stream);
+            expect(draw(RandomStream.fromState(JSON.parse(json)))).toEqual(expected);
+        });
+
+        test('恢复不同算法的状态时应该切换算法', () => {
+            const source = new RandomStream(3, 'sfc32');
+            const target = new RandomStream(3, 'xorshift128');
+
+            target.setState(source.getState());
+            expect(target.algorithm).toBe('sfc32');
+            expect(draw(target)).toEqual(draw(source));
+        });
+
+        test('应该兼容旧版本的状态格式', () => {
+            const stream = new RandomStream(11);
+            const [x, y, z, w] = stream.getState().state as [number, number, number, number];
+            const expected = draw(stream);
+
+            expect(draw(RandomStream.fromState({ x, y, z, w }))).toEqual(expected);
+        });
+
+        test('格式不正确的状态应该抛出错误', () => {
+            const stream = new RandomStream(1);
+            expect(() => stream.setState({ algorithm: 'mulberry32', state: [1, 2] })).toThrow('随机数状态格式不正确');
+            expect(() => stream.setState({ algorithm: 'sfc32', state: [1, 2, 3, 0.5] })).toThrow('随机数状态格式不正确');
+            expect(stream.algorithm).toBe('xorshift128');
+        });
+    });
+
+    describe('静态Random', () => {
+        const original = Random.getDefaultStream();
+
+        afterEach(() => {
+            Random.setDefaultStream(original);
+        });
+
+        test('应该可以替换默认随机数流以切换算法', () => {
+            Random.setDefaultStream(new RandomStream(8, 'mulberry32'));
+            expect(Random.getStreamState().algorithm).toBe('mulberry32');
+            expect(() => Random.getState()).toThrow('无法转换为{x, y, z, w}格式');
+            expect(Random.value()).toBe(new RandomStream(8, 'mulberry32').value());
+        });
+
+        test('getState应该保持旧版本的{x, y, z, w}格式', () => {
+            Random.setSeed(5);
+            const state = Random.getState();
+            expect(Object.keys(state)).toEqual(['x', 'y', 'z', 'w']);
+            expect([state.x, state.y, state.z, state.w]).toEqual(Random.getStreamState().state);
+
+            const next = Random.value();
+            Random.setState(state);
+            expect(Random.value()).toBe(next);
+        });
+
+        test('fork应该从默认随机数流派生子流', () => {
+            Random.setSeed(9);
+            expect(draw(Random.fork('ui'))).toEqual(draw(new RandomStream(9).fork('ui')));
+        });
+    });
+});